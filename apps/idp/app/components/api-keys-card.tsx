@@ -0,0 +1,199 @@
+import { Form } from "react-router"
+import { KeyRound, Loader2, Plus } from "lucide-react"
+
+import { APP_PERMISSIONS } from "~/lib/permissions"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+type ApiKeyRow = {
+  id: string
+  name: string
+  prefix: string
+  permissions: string[]
+  ownerEmail: string | null
+  expiresAt: Date | string | null
+  lastUsedAt: Date | string | null
+  revokedAt: Date | string | null
+}
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleDateString() : "—"
+}
+
+function keyStatus(k: ApiKeyRow) {
+  if (k.revokedAt) return { label: "revoked", variant: "outline" } as const
+  if (k.expiresAt && new Date(k.expiresAt).getTime() <= Date.now())
+    return { label: "expired", variant: "outline" } as const
+  return { label: "active", variant: "secondary" } as const
+}
+
+/**
+ * Management API keys for one application (`scoped`: pick permissions) or the
+ * IdP-wide keys. Posts `create-api-key` / `revoke-api-key` intents to the route.
+ */
+export function ApiKeysCard({
+  keys,
+  scoped,
+  canCreate = true,
+  canRevoke = true,
+  createdKey,
+  error,
+  busy,
+}: {
+  keys: ApiKeyRow[]
+  scoped: boolean
+  canCreate?: boolean
+  canRevoke?: boolean
+  createdKey?: string | null
+  error?: string | null
+  busy: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="text-muted-foreground size-4" />
+          API keys
+        </CardTitle>
+        <CardDescription>
+          {scoped
+            ? "Bearer keys for the management API, limited to this application and the permissions you pick."
+            : "IdP-wide bearer keys: every application plus the global endpoints. Prefer app keys."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {canCreate ? (
+          <Form method="post" className="flex flex-col gap-3">
+            <input type="hidden" name="intent" value="create-api-key" />
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex flex-1 flex-col gap-1.5">
+                <Label htmlFor="api-key-name">Name</Label>
+                <Input
+                  id="api-key-name"
+                  name="name"
+                  placeholder="CI deploy"
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="api-key-expiry">Expires</Label>
+                <select
+                  id="api-key-expiry"
+                  name="expiresInDays"
+                  defaultValue="90"
+                  disabled={busy}
+                  className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                >
+                  <option value="30">In 30 days</option>
+                  <option value="90">In 90 days</option>
+                  <option value="365">In a year</option>
+                  <option value="0">Never</option>
+                </select>
+              </div>
+              <Button type="submit" disabled={busy}>
+                {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                Create key
+              </Button>
+            </div>
+            {scoped ? (
+              <fieldset className="flex flex-wrap gap-x-4 gap-y-1.5" disabled={busy}>
+                <legend className="mb-1.5 text-sm font-medium">Permissions</legend>
+                {APP_PERMISSIONS.map((p) => (
+                  <label key={p} className="flex items-center gap-1.5 font-mono text-xs">
+                    <input type="checkbox" name="permissions" value={p} />
+                    {p}
+                  </label>
+                ))}
+              </fieldset>
+            ) : null}
+          </Form>
+        ) : null}
+
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+        {createdKey ? (
+          <div className="bg-muted rounded-md p-3 text-sm">
+            <p className="font-medium">New key — copy it now, it won't be shown again.</p>
+            <p className="mt-1 font-mono text-xs break-all">{createdKey}</p>
+          </div>
+        ) : null}
+
+        {keys.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No API keys yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Key</TableHead>
+                {scoped ? <TableHead>Permissions</TableHead> : null}
+                <TableHead>Last used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                {canRevoke ? <TableHead className="w-8" /> : null}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keys.map((k) => {
+                const status = keyStatus(k)
+                return (
+                  <TableRow key={k.id}>
+                    <TableCell>
+                      <div className="font-medium">{k.name}</div>
+                      {k.ownerEmail ? (
+                        <div className="text-muted-foreground text-xs">{k.ownerEmail}</div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{k.prefix}…</TableCell>
+                    {scoped ? (
+                      <TableCell className="text-muted-foreground text-xs">
+                        {k.permissions.join(", ")}
+                      </TableCell>
+                    ) : null}
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatDate(k.lastUsedAt)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {k.expiresAt ? formatDate(k.expiresAt) : "never"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    {canRevoke ? (
+                      <TableCell>
+                        {status.label === "active" ? (
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="revoke-api-key" />
+                            <input type="hidden" name="keyId" value={k.id} />
+                            <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                              Revoke
+                            </Button>
+                          </Form>
+                        ) : null}
+                      </TableCell>
+                    ) : null}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
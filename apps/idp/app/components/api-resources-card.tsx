@@ -0,0 +1,183 @@
+import { Form } from "react-router"
+import { Loader2, Plus, Server } from "lucide-react"
+
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+
+type ResourceRow = {
+  id: string
+  identifier: string
+  name: string
+  scopes: { name: string; description: string }[]
+}
+
+const textareaClass =
+  "border-input min-h-20 rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs"
+
+function scopeLines(scopes: ResourceRow["scopes"]) {
+  return scopes.map((s) => `${s.name} ${s.description}`).join("\n")
+}
+
+/**
+ * The application's own APIs: each identifier is the audience of the access
+ * tokens its clients ask for with `resource`, and its scopes (one per line,
+ * then what they grant) are what they may ask for and what consent shows.
+ * Posts `add-api-resource`, `update-api-resource` and `remove-api-resource`
+ * intents; read-only without `canManage`.
+ */
+export function ApiResourcesCard({
+  resources,
+  canManage,
+  error,
+  busy,
+}: {
+  resources: ResourceRow[]
+  canManage: boolean
+  error?: string | null
+  busy: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Server className="text-muted-foreground size-4" />
+          API resources
+        </CardTitle>
+        <CardDescription>
+          APIs this app's clients get access tokens for. A client asks for an API's scopes at
+          authorization and sends its identifier as{" "}
+          <code className="font-mono text-xs">resource</code> to the token endpoint; the token is a
+          JWT with that <code className="font-mono text-xs">aud</code>, for the API to verify
+          against the JWKS.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+
+        {resources.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No APIs yet.</p>
+        ) : (
+          resources.map((r) => (
+            <div key={r.id} className="flex flex-col gap-3 rounded-md border p-3">
+              <p className="font-mono text-xs break-all">{r.identifier}</p>
+              {canManage ? (
+                <Form method="post" className="flex flex-col gap-3">
+                  <input type="hidden" name="resourceId" value={r.id} />
+                  <div className="flex flex-col gap-1.5">
+                    <Label htmlFor={`api-resource-name-${r.id}`}>Name</Label>
+                    <Input
+                      id={`api-resource-name-${r.id}`}
+                      name="name"
+                      defaultValue={r.name}
+                      required
+                      disabled={busy}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <Label htmlFor={`api-resource-scopes-${r.id}`}>Scopes</Label>
+                    <textarea
+                      id={`api-resource-scopes-${r.id}`}
+                      name="scopes"
+                      defaultValue={scopeLines(r.scopes)}
+                      disabled={busy}
+                      className={textareaClass}
+                    />
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      type="submit"
+                      name="intent"
+                      value="update-api-resource"
+                      variant="outline"
+                      size="sm"
+                      disabled={busy}
+                    >
+                      {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                      Save
+                    </Button>
+                    <Button
+                      type="submit"
+                      name="intent"
+                      value="remove-api-resource"
+                      variant="ghost"
+                      size="sm"
+                      disabled={busy}
+                    >
+                      Remove
+                    </Button>
+                  </div>
+                </Form>
+              ) : (
+                <>
+                  <p className="text-sm font-medium">{r.name}</p>
+                  <ul className="flex flex-col gap-1 text-sm">
+                    {r.scopes.map((s) => (
+                      <li key={s.name}>
+                        <code className="font-mono text-xs">{s.name}</code>{" "}
+                        <span className="text-muted-foreground">{s.description}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          ))
+        )}
+
+        {canManage ? (
+          <Form method="post" className="flex flex-col gap-3 border-t pt-4">
+            <input type="hidden" name="intent" value="add-api-resource" />
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="api-resource-identifier">Identifier</Label>
+                <Input
+                  id="api-resource-identifier"
+                  name="identifier"
+                  type="url"
+                  placeholder="https://api.acme.com"
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="api-resource-name">Name</Label>
+                <Input
+                  id="api-resource-name"
+                  name="name"
+                  placeholder="Acme API"
+                  required
+                  disabled={busy}
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="api-resource-scopes">Scopes</Label>
+              <textarea
+                id="api-resource-scopes"
+                name="scopes"
+                placeholder={
+                  "read:invoices Read your invoices\nwrite:invoices Create and edit invoices"
+                }
+                disabled={busy}
+                className={textareaClass}
+              />
+              <p className="text-muted-foreground text-xs">
+                One per line: the scope, then what it grants, as the consent screen shows it.
+              </p>
+            </div>
+            <Button type="submit" disabled={busy} className="self-start">
+              {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+              Add API
+            </Button>
+          </Form>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,67 @@
+import { Link, useLocation } from "react-router"
+import { ChevronRight } from "lucide-react"
+
+import { cn } from "~/lib/utils"
+import { Badge } from "~/components/ui/badge"
+
+/** Breadcrumb, title and section tabs shared by an application's console pages. */
+export function AppHeader({
+  application,
+  showActivity,
+}: {
+  application: { clientId: string; name: string | null; app: string | null }
+  showActivity: boolean
+}) {
+  const { pathname } = useLocation()
+  const base = `/apps/${application.clientId}`
+  const tabs = [
+    { to: base, label: "Overview" },
+    ...(showActivity ? [{ to: `${base}/activity`, label: "Activity" }] : []),
+  ]
+
+  return (
+    <>
+      {/* Breadcrumb */}
+      <nav
+        className="text-muted-foreground flex items-center gap-1.5 text-sm"
+        aria-label="Breadcrumb"
+      >
+        <Link to="/" className="hover:text-foreground no-underline">
+          Applications
+        </Link>
+        <ChevronRight className="size-3.5" />
+        <span className="text-foreground">{application.name ?? application.clientId}</span>
+      </nav>
+
+      <div className="flex items-center gap-3">
+        <h1 className="text-xl font-semibold tracking-tight">
+          {application.name ?? "Untitled app"}
+        </h1>
+        {application.app ? <Badge variant="secondary">{application.app}</Badge> : null}
+      </div>
+
+      {tabs.length > 1 ? (
+        <nav className="flex gap-1" aria-label="Application">
+          {tabs.map((t) => {
+            const active = pathname === t.to
+            return (
+              <Link
+                key={t.to}
+                to={t.to}
+                aria-current={active ? "page" : undefined}
+                className={cn(
+                  "rounded-md px-3 py-1.5 text-sm no-underline transition-colors",
+                  active
+                    ? "bg-muted text-foreground"
+                    : "text-muted-foreground hover:text-foreground",
+                )}
+              >
+                {t.label}
+              </Link>
+            )
+          })}
+        </nav>
+      ) : null}
+    </>
+  )
+}
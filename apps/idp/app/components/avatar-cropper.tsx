@@ -0,0 +1,148 @@
+import { useEffect, useRef, useState } from "react"
+import { Loader2 } from "lucide-react"
+
+import { Button } from "~/components/ui/button"
+
+/** On-screen crop viewport, in CSS pixels. */
+const VIEWPORT = 192
+
+type Offset = { x: number; y: number }
+
+/**
+ * Square crop of a picked image: drag to position, slider to zoom. Renders the
+ * visible square to an `outputSize` canvas and hands back the encoded image
+ * (WebP where the browser can encode it, PNG otherwise).
+ */
+export function AvatarCropper({
+  file,
+  outputSize,
+  busy,
+  onCropped,
+  onCancel,
+}: {
+  file: File
+  outputSize: number
+  busy: boolean
+  onCropped: (image: Blob) => void
+  onCancel: () => void
+}) {
+  const [src, setSrc] = useState<string | null>(null)
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [zoom, setZoom] = useState(1)
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 })
+  const drag = useRef<{ pointer: Offset; start: Offset } | null>(null)
+
+  useEffect(() => {
+    const url = URL.createObjectURL(file)
+    setSrc(url)
+    setZoom(1)
+    setOffset({ x: 0, y: 0 })
+    return () => URL.revokeObjectURL(url)
+  }, [file])
+
+  // Scale at which the image just covers the viewport, times the zoom.
+  const scale = image
+    ? Math.max(VIEWPORT / image.naturalWidth, VIEWPORT / image.naturalHeight) * zoom
+    : 1
+  const width = (image?.naturalWidth ?? VIEWPORT) * scale
+  const height = (image?.naturalHeight ?? VIEWPORT) * scale
+
+  /** Keeps the image covering the viewport: no empty edges. */
+  function clamp(o: Offset, w = width, h = height): Offset {
+    const maxX = (w - VIEWPORT) / 2
+    const maxY = (h - VIEWPORT) / 2
+    return {
+      x: Math.min(maxX, Math.max(-maxX, o.x)),
+      y: Math.min(maxY, Math.max(-maxY, o.y)),
+    }
+  }
+
+  function onZoom(next: number) {
+    setZoom(next)
+    if (!image) return
+    const s = Math.max(VIEWPORT / image.naturalWidth, VIEWPORT / image.naturalHeight) * next
+    setOffset((o) => clamp(o, image.naturalWidth * s, image.naturalHeight * s))
+  }
+
+  function crop() {
+    if (!image) return
+    const canvas = document.createElement("canvas")
+    canvas.width = outputSize
+    canvas.height = outputSize
+    const left = VIEWPORT / 2 - width / 2 + offset.x
+    const top = VIEWPORT / 2 - height / 2 + offset.y
+    canvas
+      .getContext("2d")!
+      .drawImage(
+        image,
+        -left / scale,
+        -top / scale,
+        VIEWPORT / scale,
+        VIEWPORT / scale,
+        0,
+        0,
+        outputSize,
+        outputSize,
+      )
+    canvas.toBlob((blob) => blob && onCropped(blob), "image/webp", 0.9)
+  }
+
+  return (
+    <div className="flex flex-col gap-3">
+      <div
+        className="bg-muted relative cursor-grab touch-none overflow-hidden rounded-full active:cursor-grabbing"
+        style={{ width: VIEWPORT, height: VIEWPORT }}
+        onPointerDown={(e) => {
+          e.currentTarget.setPointerCapture(e.pointerId)
+          drag.current = { pointer: { x: e.clientX, y: e.clientY }, start: offset }
+        }}
+        onPointerMove={(e) => {
+          const d = drag.current
+          if (!d) return
+          setOffset(
+            clamp({
+              x: d.start.x + e.clientX - d.pointer.x,
+              y: d.start.y + e.clientY - d.pointer.y,
+            }),
+          )
+        }}
+        onPointerUp={() => (drag.current = null)}
+      >
+        {src ? (
+          <img
+            src={src}
+            alt="Avatar preview"
+            draggable={false}
+            onLoad={(e) => setImage(e.currentTarget)}
+            className="pointer-events-none absolute max-w-none select-none"
+            style={{
+              width,
+              height,
+              left: VIEWPORT / 2 - width / 2 + offset.x,
+              top: VIEWPORT / 2 - height / 2 + offset.y,
+            }}
+          />
+        ) : null}
+      </div>
+      <input
+        type="range"
+        aria-label="Zoom"
+        min={1}
+        max={3}
+        step={0.01}
+        value={zoom}
+        onChange={(e) => onZoom(Number(e.target.value))}
+        style={{ width: VIEWPORT }}
+      />
+      <div className="flex gap-2">
+        <Button type="button" onClick={crop} disabled={!image || busy}>
+          {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+          Save avatar
+        </Button>
+        <Button type="button" variant="outline" onClick={onCancel} disabled={busy}>
+          Cancel
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import type { CSSProperties } from "react"
+
+import { accentForeground, type Branding } from "~/lib/branding"
+
+/** Re-themes shadcn's primary color to the app's accent, for a subtree. */
+export function accentStyle(branding: Branding | null): CSSProperties | undefined {
+  const accent = branding?.accentColor
+  if (!accent) return undefined
+  return {
+    "--primary": accent,
+    "--primary-foreground": accentForeground(accent),
+    "--ring": accent,
+  } as CSSProperties
+}
+
+/** The app's logo, sized for a card header; nothing without one. */
+export function BrandingLogo({ branding }: { branding: Branding | null }) {
+  if (!branding?.logoUrl) return null
+  return (
+    <img
+      src={branding.logoUrl}
+      alt={branding.name}
+      className="mb-2 size-10 rounded-lg object-contain"
+    />
+  )
+}
+
+/** Terms, privacy and support links under a sign-in card, when the app set them. */
+export function BrandingFooter({ branding }: { branding: Branding | null }) {
+  if (!branding) return null
+  const links = [
+    branding.tosUrl ? { href: branding.tosUrl, label: "Terms" } : null,
+    branding.policyUrl ? { href: branding.policyUrl, label: "Privacy" } : null,
+    branding.supportEmail ? { href: `mailto:${branding.supportEmail}`, label: "Support" } : null,
+  ].filter((l) => l !== null)
+  if (links.length === 0) return null
+  return (
+    <nav className="text-muted-foreground mt-4 flex gap-4 text-xs">
+      {links.map((l) => (
+        <a
+          key={l.label}
+          href={l.href}
+          className="hover:text-foreground underline-offset-4 hover:underline"
+        >
+          {l.label}
+        </a>
+      ))}
+    </nav>
+  )
+}
@@ -0,0 +1,276 @@
+import { Form } from "react-router"
+import { AppWindow, Loader2, Plus } from "lucide-react"
+
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+type TokenRow = {
+  id: string
+  name: string
+  prefix: string
+  createdByEmail: string | null
+  expiresAt: Date | string | null
+  lastUsedAt: Date | string | null
+  revokedAt: Date | string | null
+}
+
+type ClientRow = {
+  clientId: string
+  name: string | null
+  redirectUris: string[]
+  public: boolean
+  via: string | null
+  createdAt: Date | string
+}
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleDateString() : "—"
+}
+
+function tokenStatus(t: TokenRow) {
+  if (t.revokedAt) return { label: "revoked", variant: "outline" } as const
+  if (t.expiresAt && new Date(t.expiresAt).getTime() <= Date.now())
+    return { label: "expired", variant: "outline" } as const
+  return { label: "active", variant: "secondary" } as const
+}
+
+/**
+ * Dynamic client registration for one application: whether public native
+ * clients may register without a token, its initial access tokens, and the
+ * clients registered under it. Posts `update-open-registration`,
+ * `create-initial-access-token` / `revoke-initial-access-token` and
+ * `revoke-registered-client` intents; read-only without `canManage`.
+ */
+export function ClientRegistrationCard({
+  endpoint,
+  openRegistration,
+  tokens,
+  clients,
+  canManage,
+  createdToken,
+  error,
+  busy,
+}: {
+  endpoint: string
+  openRegistration: boolean
+  tokens: TokenRow[]
+  clients: ClientRow[]
+  canManage: boolean
+  createdToken?: string | null
+  error?: string | null
+  busy: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AppWindow className="text-muted-foreground size-4" />
+          Client registration
+        </CardTitle>
+        <CardDescription>
+          Clients register themselves at <code className="font-mono text-xs">{endpoint}</code> (RFC
+          7591) with an initial access token, and get a client ID of their own under this app. Each
+          manages its registration with the access token it gets back (RFC 7592).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {canManage ? (
+          <Form method="post" className="flex flex-col gap-3">
+            <input type="hidden" name="intent" value="update-open-registration" />
+            <label className="flex items-start gap-2 text-sm">
+              <input
+                type="checkbox"
+                name="enabled"
+                defaultChecked={openRegistration}
+                className="mt-0.5"
+                disabled={busy}
+              />
+              <span>
+                Open registration
+                <span className="text-muted-foreground block text-xs">
+                  Public native clients (no secret, loopback or private-use redirect URIs) may
+                  register without a token, on this app's own domains.
+                </span>
+              </span>
+            </label>
+            <Button type="submit" variant="outline" disabled={busy} className="self-start">
+              {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+              Save registration settings
+            </Button>
+          </Form>
+        ) : null}
+
+        {canManage ? (
+          <Form method="post" className="flex flex-col gap-3 border-t pt-4">
+            <input type="hidden" name="intent" value="create-initial-access-token" />
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex flex-1 flex-col gap-1.5">
+                <Label htmlFor="registration-token-name">Initial access token</Label>
+                <Input
+                  id="registration-token-name"
+                  name="name"
+                  placeholder="Partner onboarding"
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="registration-token-expiry">Expires</Label>
+                <select
+                  id="registration-token-expiry"
+                  name="expiresInDays"
+                  defaultValue="30"
+                  disabled={busy}
+                  className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                >
+                  <option value="1">In a day</option>
+                  <option value="30">In 30 days</option>
+                  <option value="365">In a year</option>
+                  <option value="0">Never</option>
+                </select>
+              </div>
+              <Button type="submit" disabled={busy}>
+                {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                Create token
+              </Button>
+            </div>
+          </Form>
+        ) : null}
+
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+        {createdToken ? (
+          <div className="bg-muted rounded-md p-3 text-sm">
+            <p className="font-medium">Copy this token now — it won't be shown again.</p>
+            <p className="mt-1 font-mono text-xs break-all">{createdToken}</p>
+          </div>
+        ) : null}
+
+        {tokens.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Token</TableHead>
+                <TableHead>Created by</TableHead>
+                <TableHead>Last used</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                {canManage ? <TableHead className="w-8" /> : null}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tokens.map((t) => {
+                const status = tokenStatus(t)
+                return (
+                  <TableRow key={t.id}>
+                    <TableCell>
+                      <div>{t.name}</div>
+                      <div className="text-muted-foreground font-mono text-xs">{t.prefix}…</div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {t.createdByEmail ?? "—"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatDate(t.lastUsedAt)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {t.expiresAt ? formatDate(t.expiresAt) : "never"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    {canManage ? (
+                      <TableCell>
+                        {status.label === "active" ? (
+                          <Form method="post">
+                            <input
+                              type="hidden"
+                              name="intent"
+                              value="revoke-initial-access-token"
+                            />
+                            <input type="hidden" name="tokenId" value={t.id} />
+                            <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                              Revoke
+                            </Button>
+                          </Form>
+                        ) : null}
+                      </TableCell>
+                    ) : null}
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        ) : null}
+
+        <div className="flex flex-col gap-2 border-t pt-4">
+          <Label>Registered clients</Label>
+          {clients.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No clients have registered yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Client</TableHead>
+                  <TableHead>Redirect URIs</TableHead>
+                  <TableHead>Registered with</TableHead>
+                  <TableHead>Registered</TableHead>
+                  {canManage ? <TableHead className="w-8" /> : null}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {clients.map((c) => (
+                  <TableRow key={c.clientId}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {c.name ?? "Unnamed client"}
+                        {c.public ? <Badge variant="outline">public</Badge> : null}
+                      </div>
+                      <div className="text-muted-foreground font-mono text-xs break-all">
+                        {c.clientId}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground font-mono text-xs break-all">
+                      {c.redirectUris.join(" ")}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {c.via ?? "open registration"}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatDate(c.createdAt)}
+                    </TableCell>
+                    {canManage ? (
+                      <TableCell>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="revoke-registered-client" />
+                          <input type="hidden" name="registeredClientId" value={c.clientId} />
+                          <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                            Revoke
+                          </Button>
+                        </Form>
+                      </TableCell>
+                    ) : null}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
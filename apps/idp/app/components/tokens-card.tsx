@@ -0,0 +1,182 @@
+import { useState } from "react"
+import { Form, useSubmit } from "react-router"
+import { Ticket } from "lucide-react"
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "~/components/ui/alert-dialog"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+type TokenRow = {
+  id: string
+  kind: "access" | "refresh"
+  email: string | null
+  scopes: string[]
+  createdAt: Date | string | null
+  expiresAt: Date | string | null
+}
+
+function formatTime(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—"
+}
+
+/**
+ * An application's live access and refresh tokens, with revoke for the ones
+ * picked or all of them. Posts `revoke-tokens` (`token` = `<kind>:<id>`) and
+ * `revoke-all-tokens` intents to the route; read-only without `canRevoke`.
+ */
+export function TokensCard({
+  tokens,
+  endpoints,
+  canRevoke,
+  revoked,
+  error,
+  busy,
+}: {
+  tokens: TokenRow[]
+  endpoints: { introspection: string; revocation: string }
+  canRevoke: boolean
+  revoked?: { access: number; refresh: number } | null
+  error?: string | null
+  busy: boolean
+}) {
+  const submit = useSubmit()
+  const [confirmOpen, setConfirmOpen] = useState(false)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Ticket className="text-muted-foreground size-4" />
+          Tokens
+        </CardTitle>
+        <CardDescription>
+          Opaque access tokens and refresh tokens this client holds. Resource servers check them at{" "}
+          <code className="font-mono text-xs">{endpoints.introspection}</code> (RFC 7662) and
+          clients give them up at <code className="font-mono text-xs">{endpoints.revocation}</code>{" "}
+          (RFC 7009), both with client credentials. JWT access tokens aren't stored; they expire
+          within the hour.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+        {revoked ? (
+          <p className="text-muted-foreground text-sm">
+            Revoked {revoked.access} access and {revoked.refresh} refresh{" "}
+            {revoked.access + revoked.refresh === 1 ? "token" : "tokens"}.
+          </p>
+        ) : null}
+
+        {tokens.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No active tokens.</p>
+        ) : (
+          <Form method="post" className="flex flex-col gap-3">
+            <input type="hidden" name="intent" value="revoke-tokens" />
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  {canRevoke ? <TableHead className="w-8" /> : null}
+                  <TableHead>Kind</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Scopes</TableHead>
+                  <TableHead>Issued</TableHead>
+                  <TableHead>Expires</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {tokens.map((t) => (
+                  <TableRow key={`${t.kind}:${t.id}`}>
+                    {canRevoke ? (
+                      <TableCell>
+                        <input
+                          type="checkbox"
+                          name="token"
+                          value={`${t.kind}:${t.id}`}
+                          aria-label={`Select ${t.kind} token`}
+                        />
+                      </TableCell>
+                    ) : null}
+                    <TableCell>
+                      <Badge variant={t.kind === "refresh" ? "secondary" : "outline"}>
+                        {t.kind}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>{t.email ?? "—"}</TableCell>
+                    <TableCell className="text-muted-foreground font-mono text-xs">
+                      {t.scopes.join(" ")}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatTime(t.createdAt)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatTime(t.expiresAt)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            {canRevoke ? (
+              <div className="flex gap-2">
+                <Button type="submit" variant="outline" size="sm" disabled={busy}>
+                  Revoke selected
+                </Button>
+                <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+                  <AlertDialogTrigger
+                    render={
+                      <Button type="button" variant="destructive" size="sm" disabled={busy}>
+                        Revoke all
+                      </Button>
+                    }
+                  />
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke every token for this client?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Everyone signed in to it through willy.im has to sign in again once their
+                        current access token runs out.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction
+                        variant="destructive"
+                        onClick={() => {
+                          setConfirmOpen(false)
+                          submit({ intent: "revoke-all-tokens" }, { method: "post" })
+                        }}
+                      >
+                        Revoke all
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            ) : null}
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
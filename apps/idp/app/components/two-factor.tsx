@@ -0,0 +1,300 @@
+import { useState } from "react"
+import { useRevalidator } from "react-router"
+import { Loader2, ShieldCheck, Smartphone } from "lucide-react"
+
+import { authClient } from "~/lib/auth-client"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+
+/**
+ * Asks for the authenticator app's code, or one of the backup codes instead.
+ * Verifies against the pending sign-in (login) or the current session (step-up)
+ * and hands the response to `onVerified`.
+ */
+export function SecondFactorForm({
+  onVerified,
+  submitLabel = "Verify",
+}: {
+  onVerified: (data: unknown) => void | Promise<void>
+  submitLabel?: string
+}) {
+  const [useBackup, setUseBackup] = useState(false)
+  const [code, setCode] = useState("")
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function verify(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setPending(true)
+    const { data, error } = useBackup
+      ? await authClient.twoFactor.verifyBackupCode({ code: code.trim() })
+      : await authClient.twoFactor.verifyTotp({ code: code.trim() })
+    if (error) {
+      setPending(false)
+      return setError(error.message ?? "That code didn't work.")
+    }
+    await onVerified(data)
+    setPending(false)
+  }
+
+  return (
+    <form onSubmit={verify} className="flex flex-col gap-3">
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="second-factor-code">
+          {useBackup ? "Backup code" : "Code from your authenticator app"}
+        </Label>
+        <Input
+          id="second-factor-code"
+          inputMode={useBackup ? "text" : "numeric"}
+          autoComplete="one-time-code"
+          placeholder={useBackup ? "xxxxx-xxxxx" : "123456"}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          disabled={pending}
+        />
+      </div>
+      <Button type="submit" disabled={pending || code.trim().length < 6}>
+        {pending ? <Loader2 className="size-4 animate-spin" /> : null}
+        {submitLabel}
+      </Button>
+      <Button
+        type="button"
+        variant="ghost"
+        disabled={pending}
+        onClick={() => {
+          setUseBackup(!useBackup)
+          setCode("")
+          setError(null)
+        }}
+      >
+        {useBackup ? "Use your authenticator app" : "Use a backup code"}
+      </Button>
+      {error ? (
+        <p role="alert" className="text-destructive text-sm">
+          {error}
+        </p>
+      ) : null}
+    </form>
+  )
+}
+
+/** One-time backup codes, shown once: each signs in (or steps up) a single time. */
+export function BackupCodes({ codes }: { codes: string[] }) {
+  return (
+    <div className="bg-muted rounded-md p-3 text-sm">
+      <p className="font-medium">Backup codes — save them now, they won't be shown again.</p>
+      <p className="text-muted-foreground text-xs">
+        Each works once, if you lose your authenticator app.
+      </p>
+      <ul className="mt-2 grid grid-cols-2 gap-1 font-mono text-xs">
+        {codes.map((c) => (
+          <li key={c}>{c}</li>
+        ))}
+      </ul>
+    </div>
+  )
+}
+
+/**
+ * Enrolls an authenticator app: shows the TOTP secret (and an otpauth:// link
+ * for apps on this device), confirms a first code, then shows the backup codes.
+ * `onDone` gets the verify response, which carries a redirect when an
+ * authorization was waiting on it.
+ */
+export function TotpEnrollment({
+  onDone,
+  doneLabel = "Done",
+}: {
+  onDone: (data: unknown) => void | Promise<void>
+  doneLabel?: string
+}) {
+  const [setup, setSetup] = useState<{ totpURI: string; backupCodes: string[] } | null>(null)
+  const [verified, setVerified] = useState<{ data: unknown } | null>(null)
+  const [code, setCode] = useState("")
+  const [pending, setPending] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  async function start() {
+    setError(null)
+    setPending(true)
+    const { data, error } = await authClient.twoFactor.enable({})
+    setPending(false)
+    if (error || !data) return setError(error?.message ?? "Couldn't start setup.")
+    setSetup(data)
+  }
+
+  async function confirm(e: React.FormEvent) {
+    e.preventDefault()
+    setError(null)
+    setPending(true)
+    const { data, error } = await authClient.twoFactor.verifyTotp({ code: code.trim() })
+    setPending(false)
+    if (error) return setError(error.message ?? "That code didn't work.")
+    setVerified({ data })
+  }
+
+  async function finish() {
+    setPending(true)
+    await onDone(verified?.data)
+    setPending(false)
+  }
+
+  if (!setup) {
+    return (
+      <div className="flex flex-col gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={start}
+          disabled={pending}
+          className="self-start"
+        >
+          {pending ? (
+            <Loader2 className="size-4 animate-spin" />
+          ) : (
+            <Smartphone className="size-4" />
+          )}
+          Set up an authenticator app
+        </Button>
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+      </div>
+    )
+  }
+
+  if (verified) {
+    return (
+      <div className="flex flex-col gap-3">
+        <BackupCodes codes={setup.backupCodes} />
+        <Button type="button" onClick={finish} disabled={pending} className="self-start">
+          {pending ? <Loader2 className="size-4 animate-spin" /> : null}
+          {doneLabel}
+        </Button>
+      </div>
+    )
+  }
+
+  const secret = new URL(setup.totpURI).searchParams.get("secret") ?? ""
+  return (
+    <form onSubmit={confirm} className="flex flex-col gap-3">
+      <div className="flex flex-col gap-1 text-sm">
+        <p>Add this key to your authenticator app (1Password, Google Authenticator, …):</p>
+        <p className="bg-muted rounded-md p-2 font-mono text-xs break-all">
+          {secret.match(/.{1,4}/g)?.join(" ")}
+        </p>
+        <a href={setup.totpURI} className="text-xs underline underline-offset-4">
+          Open in an authenticator app on this device
+        </a>
+      </div>
+      <div className="flex flex-col gap-2">
+        <Label htmlFor="totp-enroll-code">Then enter the code it shows</Label>
+        <Input
+          id="totp-enroll-code"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          disabled={pending}
+        />
+      </div>
+      <Button type="submit" disabled={pending || code.trim().length < 6} className="self-start">
+        {pending ? <Loader2 className="size-4 animate-spin" /> : null}
+        Turn on
+      </Button>
+      {error ? (
+        <p role="alert" className="text-destructive text-sm">
+          {error}
+        </p>
+      ) : null}
+    </form>
+  )
+}
+
+/**
+ * /account's two-step verification: enroll, then (from a session that passed
+ * the second factor) regenerate backup codes or turn it off. Other sessions
+ * confirm a code first; the server enforces the same.
+ */
+export function TwoFactorCard({ enabled, confirmed }: { enabled: boolean; confirmed: boolean }) {
+  const revalidator = useRevalidator()
+  const [backupCodes, setBackupCodes] = useState<string[] | null>(null)
+  const [pending, setPending] = useState<null | "codes" | "disable">(null)
+  const [error, setError] = useState<string | null>(null)
+
+  async function regenerate() {
+    setError(null)
+    setPending("codes")
+    const { data, error } = await authClient.twoFactor.generateBackupCodes({})
+    setPending(null)
+    if (error || !data) return setError(error?.message ?? "Couldn't make new backup codes.")
+    setBackupCodes(data.backupCodes)
+  }
+
+  async function disable() {
+    setError(null)
+    setPending("disable")
+    const { error } = await authClient.twoFactor.disable({})
+    setPending(null)
+    if (error) return setError(error.message ?? "Couldn't turn it off.")
+    setBackupCodes(null)
+    revalidator.revalidate()
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="text-muted-foreground size-4" />
+          Two-step verification
+          {enabled ? <Badge variant="secondary">On</Badge> : null}
+        </CardTitle>
+        <CardDescription>
+          After your email code or passkey, also enter a code from an authenticator app. Some apps
+          require it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {!enabled ? (
+          <TotpEnrollment onDone={() => revalidator.revalidate()} />
+        ) : !confirmed ? (
+          <>
+            <p className="text-muted-foreground text-sm">
+              This session signed in before two-step verification was on. Confirm a code to manage
+              it.
+            </p>
+            <SecondFactorForm onVerified={() => revalidator.revalidate()} submitLabel="Confirm" />
+          </>
+        ) : (
+          <>
+            {backupCodes ? <BackupCodes codes={backupCodes} /> : null}
+            <div className="flex flex-wrap gap-2">
+              <Button variant="outline" onClick={regenerate} disabled={!!pending}>
+                {pending === "codes" ? <Loader2 className="size-4 animate-spin" /> : null}
+                New backup codes
+              </Button>
+              <Button variant="ghost" onClick={disable} disabled={!!pending}>
+                {pending === "disable" ? <Loader2 className="size-4 animate-spin" /> : null}
+                Turn off
+              </Button>
+            </div>
+          </>
+        )}
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
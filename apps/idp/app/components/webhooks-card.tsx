@@ -0,0 +1,227 @@
+import { Form } from "react-router"
+import { Loader2, Plus, Webhook } from "lucide-react"
+
+import { WEBHOOK_EVENTS, type WebhookDeliveryStatus } from "~/lib/webhooks"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+type EndpointRow = {
+  id: string
+  url: string
+  events: string[]
+}
+
+type DeliveryRow = {
+  id: string
+  url: string
+  event: string
+  status: WebhookDeliveryStatus
+  attempts: number
+  responseStatus: number | null
+  error: string | null
+  nextAttemptAt: Date | string | null
+  createdAt: Date | string
+}
+
+function formatTime(value: Date | string) {
+  return new Date(value).toLocaleString()
+}
+
+const STATUS_VARIANT = {
+  pending: "outline",
+  succeeded: "secondary",
+  failed: "destructive",
+} as const
+
+/**
+ * An application's webhook endpoints and their recent deliveries. Posts
+ * `add-webhook` / `remove-webhook` / `ping-webhook` / `replay-webhook` intents
+ * to the route; read-only without `canManage`.
+ */
+export function WebhooksCard({
+  endpoints,
+  deliveries,
+  canManage,
+  createdSecret,
+  error,
+  busy,
+}: {
+  endpoints: EndpointRow[]
+  deliveries: DeliveryRow[]
+  canManage: boolean
+  createdSecret?: string | null
+  error?: string | null
+  busy: boolean
+}) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Webhook className="text-muted-foreground size-4" />
+          Webhooks
+        </CardTitle>
+        <CardDescription>
+          Signed POSTs (Standard Webhooks) when this app's users, workspaces or credentials change.
+          Failed deliveries are retried with backoff for about a day.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-col gap-4">
+        {canManage ? (
+          <Form method="post" className="flex flex-col gap-3">
+            <input type="hidden" name="intent" value="add-webhook" />
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex flex-1 flex-col gap-1.5">
+                <Label htmlFor="webhook-url">Endpoint URL</Label>
+                <Input
+                  id="webhook-url"
+                  name="url"
+                  type="url"
+                  placeholder="https://acme.com/webhooks/willy"
+                  required
+                  disabled={busy}
+                />
+              </div>
+              <Button type="submit" disabled={busy}>
+                {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                Add endpoint
+              </Button>
+            </div>
+            <fieldset className="flex flex-wrap gap-x-4 gap-y-1.5" disabled={busy}>
+              <legend className="mb-1.5 text-sm font-medium">Events</legend>
+              {WEBHOOK_EVENTS.map((e) => (
+                <label key={e} className="flex items-center gap-1.5 font-mono text-xs">
+                  <input type="checkbox" name="events" value={e} defaultChecked />
+                  {e}
+                </label>
+              ))}
+            </fieldset>
+          </Form>
+        ) : null}
+
+        {error ? (
+          <p role="alert" className="text-destructive text-sm">
+            {error}
+          </p>
+        ) : null}
+        {createdSecret ? (
+          <div className="bg-muted rounded-md p-3 text-sm">
+            <p className="font-medium">Signing secret — copy it now, it won't be shown again.</p>
+            <p className="mt-1 font-mono text-xs break-all">{createdSecret}</p>
+          </div>
+        ) : null}
+
+        {endpoints.length === 0 ? (
+          <p className="text-muted-foreground text-sm">No endpoints yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>URL</TableHead>
+                <TableHead>Events</TableHead>
+                {canManage ? <TableHead className="w-8" /> : null}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {endpoints.map((e) => (
+                <TableRow key={e.id}>
+                  <TableCell className="font-mono text-xs break-all">{e.url}</TableCell>
+                  <TableCell className="text-muted-foreground text-xs">
+                    {e.events.join(", ")}
+                  </TableCell>
+                  {canManage ? (
+                    <TableCell>
+                      <div className="flex gap-1">
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="ping-webhook" />
+                          <input type="hidden" name="endpointId" value={e.id} />
+                          <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                            Send test ping
+                          </Button>
+                        </Form>
+                        <Form method="post">
+                          <input type="hidden" name="intent" value="remove-webhook" />
+                          <input type="hidden" name="endpointId" value={e.id} />
+                          <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                            Remove
+                          </Button>
+                        </Form>
+                      </div>
+                    </TableCell>
+                  ) : null}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        {deliveries.length > 0 ? (
+          <div className="flex flex-col gap-2 border-t pt-4">
+            <Label>Recent deliveries</Label>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Event</TableHead>
+                  <TableHead>Endpoint</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Last result</TableHead>
+                  <TableHead>Created</TableHead>
+                  {canManage ? <TableHead className="w-8" /> : null}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((d) => (
+                  <TableRow key={d.id}>
+                    <TableCell className="font-mono text-xs">{d.event}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-48 truncate text-xs">
+                      {d.url}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANT[d.status]}>{d.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {d.attempts === 0
+                        ? "not attempted yet"
+                        : `${d.error ?? `HTTP ${d.responseStatus}`} · ${d.attempts} ${
+                            d.attempts === 1 ? "attempt" : "attempts"
+                          }`}
+                      {d.status === "pending" && d.attempts > 0 && d.nextAttemptAt ? (
+                        <div>retrying {formatTime(d.nextAttemptAt)}</div>
+                      ) : null}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatTime(d.createdAt)}
+                    </TableCell>
+                    {canManage ? (
+                      <TableCell>
+                        {d.status !== "pending" ? (
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="replay-webhook" />
+                            <input type="hidden" name="deliveryId" value={d.id} />
+                            <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                              Replay
+                            </Button>
+                          </Form>
+                        ) : null}
+                      </TableCell>
+                    ) : null}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  )
+}
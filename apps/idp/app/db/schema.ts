@@ -1,9 +1,10 @@
-import { integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core"
+import { sql } from "drizzle-orm"
+import { index, integer, sqliteTable, text, uniqueIndex } from "drizzle-orm/sqlite-core"
 
 // Better Auth tables (user / session / account / verification / passkey / org / oauth).
 // Generated from scripts/auth.gen.ts via `npm run auth:db:generate`.
 export * from "./auth-schema"
-import { user } from "./auth-schema"
+import { jwks, oauthClient, user } from "./auth-schema"
 
 /**
  * App-level membership: who can administer or use an application *in the IdP*.
@@ -32,6 +33,55 @@ export const applicationMember = sqliteTable(
 
 export type ApplicationMember = typeof applicationMember.$inferSelect
 
+/**
+ * A pending offer of app membership, sent by email. Accepting (signed in as the
+ * invited address) creates the applicationMember row with this role and
+ * permissions. Only a SHA-256 of the link token is stored.
+ */
+export const applicationInvitation = sqliteTable(
+  "application_invitation",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    email: text("email").notNull(),
+    role: text("role", { enum: ["admin", "member"] }).notNull().default("member"),
+    permissions: text("permissions", { mode: "json" }).$type<string[]>().default([]),
+    tokenHash: text("token_hash").notNull(),
+    invitedByUserId: text("invited_by_user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("application_invitation_token_hash_uidx").on(t.tokenHash),
+    index("application_invitation_application_idx").on(t.applicationId),
+  ],
+)
+
+export type ApplicationInvitation = typeof applicationInvitation.$inferSelect
+
+/**
+ * An application's own permission catalog, in the shape of @willyim/rbac's
+ * `definePermissions` config: the permissions it declares plus a map of
+ * workspace role -> granted permissions. The IdP resolves these into the
+ * `https://willy.im/permissions` claim; the app enforces them.
+ */
+export const applicationPermissionCatalog = sqliteTable("application_permission_catalog", {
+  applicationId: text("application_id").primaryKey(),
+  permissions: text("permissions", { mode: "json" }).$type<string[]>().notNull().default([]),
+  roles: text("roles", { mode: "json" }).$type<Record<string, string[]>>().notNull().default({}),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
 /** Per-app, free-form user metadata (self-service profile fields an app cares about). */
 export const userAppMetadata = sqliteTable(
   "user_app_metadata",
@@ -51,6 +101,465 @@ export const userAppMetadata = sqliteTable(
   (t) => [uniqueIndex("user_app_metadata_app_user_uidx").on(t.applicationId, t.userId)],
 )
 
+/**
+ * Per-application settings that have no home on oauth_client. Branding lives
+ * partly there (name, icon, tos, policy) and partly here (accent, support).
+ * The sign-in policy (see sign-in-policy.server.ts) lives here; no row means
+ * open signups, any domain, no invitation or second factor needed.
+ */
+export const applicationSettings = sqliteTable("application_settings", {
+  applicationId: text("application_id").primaryKey(),
+  accentColor: text("accent_color"),
+  supportEmail: text("support_email"),
+  allowSignup: integer("allow_signup", { mode: "boolean" }).notNull().default(true),
+  /** Lowercased domains; empty allows any. */
+  allowedEmailDomains: text("allowed_email_domains", { mode: "json" })
+    .$type<string[]>()
+    .notNull()
+    .default([]),
+  inviteOnly: integer("invite_only", { mode: "boolean" }).notNull().default(false),
+  /** Step-up: a second factor before this app's client is authorized. */
+  requireMfa: integer("require_mfa", { mode: "boolean" }).notNull().default(false),
+  /** OIDC Back-Channel Logout: where logout tokens are POSTed (see logout.server.ts). */
+  backchannelLogoutUri: text("backchannel_logout_uri"),
+  /** OIDC Front-Channel Logout: loaded in an iframe when a session ends in the browser. */
+  frontchannelLogoutUri: text("frontchannel_logout_uri"),
+  /** Dynamic registration without an initial access token, for public native clients. */
+  openRegistration: integer("open_registration", { mode: "boolean" }).notNull().default(false),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+/**
+ * Custom IdP hostnames (e.g. idp.kasso.do). A request on one of these is
+ * served as that application's tenant: its own issuer, cookies and passkey
+ * rpID. The hostname must also be routed to the Worker (a custom domain).
+ */
+export const applicationDomain = sqliteTable("application_domain", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  applicationId: text("application_id").notNull(),
+  hostname: text("hostname").notNull().unique(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+export type ApplicationDomain = typeof applicationDomain.$inferSelect
+
+/**
+ * How an application's user metadata is governed: an optional JSON Schema every
+ * write must satisfy, which top-level keys are copied into the
+ * `https://willy.im/metadata` claim, and which keys users may edit themselves
+ * from /account. Absent row = no schema, no claim, read-only for users.
+ */
+export const userMetadataConfig = sqliteTable("user_metadata_config", {
+  applicationId: text("application_id").primaryKey(),
+  jsonSchema: text("json_schema", { mode: "json" }).$type<Record<string, unknown> | null>(),
+  claimKeys: text("claim_keys", { mode: "json" }).$type<string[]>().notNull().default([]),
+  userEditableKeys: text("user_editable_keys", { mode: "json" })
+    .$type<string[]>()
+    .notNull()
+    .default([]),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+/**
+ * Management API keys. Scoped to one application (applicationId = app key) or,
+ * when applicationId is null, IdP-wide (superadmin-equivalent, created only by
+ * superadmins). Only a SHA-256 of the secret is stored; `prefix` is the
+ * non-secret head of the key, kept so people can tell keys apart.
+ */
+export const apiKey = sqliteTable(
+  "api_key",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id"),
+    name: text("name").notNull(),
+    prefix: text("prefix").notNull(),
+    secretHash: text("secret_hash").notNull(),
+    permissions: text("permissions", { mode: "json" }).$type<string[]>().default([]),
+    ownerUserId: text("owner_user_id").references(() => user.id, { onDelete: "set null" }),
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("api_key_secret_hash_uidx").on(t.secretHash),
+    index("api_key_application_idx").on(t.applicationId),
+  ],
+)
+
+export type ApiKey = typeof apiKey.$inferSelect
+
+/**
+ * An app admin acting as one of the app's users. `sessionId` is the Better Auth
+ * session minted for the target: it may only authorize `clientId`, and tokens
+ * issued under it carry an `act` claim naming `actorUserId`. Not a foreign key —
+ * the session row is deleted when the impersonation stops; this row stays.
+ */
+export const impersonation = sqliteTable(
+  "impersonation",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    clientId: text("client_id").notNull(),
+    actorUserId: text("actor_user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    targetUserId: text("target_user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    sessionId: text("session_id").notNull(),
+    reason: text("reason"),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    endedAt: integer("ended_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("impersonation_session_uidx").on(t.sessionId),
+    index("impersonation_application_idx").on(t.applicationId),
+  ],
+)
+
+export type Impersonation = typeof impersonation.$inferSelect
+
+/**
+ * A user provisioned into an application over SCIM (see scim.server.ts): the
+ * app's SCIM `Users` are these rows. The account itself stays IdP-wide;
+ * `active` false (HR offboarding) refuses it the app's authorizations without
+ * deleting it. `externalId` is the provisioning client's own identifier;
+ * `name` the one it gives the person, kept per app so one directory can't
+ * rename an account other apps (and the user) see.
+ */
+export const scimUser = sqliteTable(
+  "scim_user",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    userId: text("user_id")
+      .notNull()
+      .references(() => user.id, { onDelete: "cascade" }),
+    externalId: text("external_id"),
+    name: text("name"),
+    active: integer("active", { mode: "boolean" }).notNull().default(true),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("scim_user_app_user_uidx").on(t.applicationId, t.userId),
+    index("scim_user_app_external_idx").on(t.applicationId, t.externalId),
+  ],
+)
+
+export type ScimUser = typeof scimUser.$inferSelect
+
+/** SAML attribute names a service provider wants each value under; empty leaves it out. */
+export type SamlAttributeNames = { email: string; name: string; roles: string }
+
+/**
+ * An application registered as a SAML 2.0 service provider (see
+ * saml.server.ts). Assertions only ever go to `acsUrl`. With a `certificate`
+ * (PEM), its HTTP-Redirect AuthnRequests must be signed by that key.
+ */
+export const samlServiceProvider = sqliteTable("saml_service_provider", {
+  applicationId: text("application_id").primaryKey(),
+  entityId: text("entity_id").notNull().unique(),
+  acsUrl: text("acs_url").notNull(),
+  certificate: text("certificate"),
+  attributeNames: text("attribute_names", { mode: "json" }).$type<SamlAttributeNames>().notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+export type SamlServiceProvider = typeof samlServiceProvider.$inferSelect
+
+/**
+ * The IdP's SAML signing key: RSA, its PKCS#8 encrypted with the auth secret,
+ * and the self-signed certificate metadata publishes (DER, base64). Made on
+ * first use; the newest signs.
+ */
+export const samlSigningKey = sqliteTable("saml_signing_key", {
+  id: text("id")
+    .primaryKey()
+    .$defaultFn(() => crypto.randomUUID()),
+  privateKey: text("private_key").notNull(),
+  certificate: text("certificate").notNull(),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+/**
+ * Lifecycle of the OIDC signing keys in better-auth's `jwks` table (see
+ * signing-keys.server.ts): the key's algorithm, when it starts signing (keys
+ * are published ahead of that) and when it was revoked. A key stops signing
+ * when the next one activates, and leaves the JWKS a grace period later.
+ */
+export const signingKey = sqliteTable("signing_key", {
+  kid: text("kid")
+    .primaryKey()
+    .references(() => jwks.id, { onDelete: "cascade" }),
+  alg: text("alg").notNull(),
+  activatesAt: integer("activates_at", { mode: "timestamp" }).notNull(),
+  revokedAt: integer("revoked_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+export type SigningKey = typeof signingKey.$inferSelect
+
+/**
+ * Where an application wants its identity and membership events (see
+ * webhooks.server.ts). `secret` signs every delivery; it's encrypted with the
+ * auth secret and shown once, when the endpoint is added.
+ */
+export const webhookEndpoint = sqliteTable(
+  "webhook_endpoint",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    url: text("url").notNull(),
+    secret: text("secret").notNull(),
+    events: text("events", { mode: "json" }).$type<string[]>().notNull().default([]),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("webhook_endpoint_app_idx").on(t.applicationId)],
+)
+
+export type WebhookEndpoint = typeof webhookEndpoint.$inferSelect
+
+/**
+ * One event for one endpoint, and how sending it went. `payload` is the exact
+ * body signed and sent, so retries and replays send the same bytes. Pending
+ * deliveries are due at `nextAttemptAt`, when the queue hands them back.
+ */
+export const webhookDelivery = sqliteTable(
+  "webhook_delivery",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    endpointId: text("endpoint_id")
+      .notNull()
+      .references(() => webhookEndpoint.id, { onDelete: "cascade" }),
+    applicationId: text("application_id").notNull(),
+    event: text("event").notNull(),
+    payload: text("payload").notNull(),
+    status: text("status", { enum: ["pending", "succeeded", "failed"] })
+      .notNull()
+      .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }),
+    /** HTTP status of the last attempt; null if it got no response. */
+    responseStatus: integer("response_status"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+    lastAttemptAt: integer("last_attempt_at", { mode: "timestamp" }),
+  },
+  (t) => [index("webhook_delivery_app_created_idx").on(t.applicationId, t.createdAt)],
+)
+
+export type WebhookDelivery = typeof webhookDelivery.$inferSelect
+
+/**
+ * Lets its bearer register OAuth clients for an application (RFC 7591's
+ * initial access token; see client-registration.server.ts). Stored like API
+ * keys: a SHA-256 of the token and its non-secret `prefix`.
+ */
+export const initialAccessToken = sqliteTable(
+  "initial_access_token",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    name: text("name").notNull(),
+    prefix: text("prefix").notNull(),
+    secretHash: text("secret_hash").notNull(),
+    createdByUserId: text("created_by_user_id").references(() => user.id, {
+      onDelete: "set null",
+    }),
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [
+    uniqueIndex("initial_access_token_secret_hash_uidx").on(t.secretHash),
+    index("initial_access_token_application_idx").on(t.applicationId),
+  ],
+)
+
+export type InitialAccessToken = typeof initialAccessToken.$inferSelect
+
+/**
+ * An OAuth client that registered itself (RFC 7591) under an application: the
+ * client row carries the app key in metadata.app like the application's own,
+ * and this row marks it as registered rather than an application of its own.
+ * `registrationTokenHash` is a SHA-256 of its RFC 7592 registration access
+ * token; `initialAccessTokenId` is null for open registrations.
+ */
+export const registeredClient = sqliteTable(
+  "registered_client",
+  {
+    clientId: text("client_id")
+      .primaryKey()
+      .references(() => oauthClient.clientId, { onDelete: "cascade" }),
+    applicationId: text("application_id").notNull(),
+    registrationTokenHash: text("registration_token_hash").notNull(),
+    initialAccessTokenId: text("initial_access_token_id").references(
+      () => initialAccessToken.id,
+      { onDelete: "set null" },
+    ),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("registered_client_application_idx").on(t.applicationId)],
+)
+
+export type RegisteredClient = typeof registeredClient.$inferSelect
+
+/** A scope an API resource defines, and what the consent screen says it grants. */
+export type ApiScope = { name: string; description: string }
+
+/**
+ * An application's own API (see api-resources.server.ts): `identifier` is the
+ * audience its access tokens carry when a client asks for it as `resource`,
+ * and `scopes` are the ones the app's clients may ask for besides the OIDC
+ * scopes. Scope names are unique within an application.
+ */
+export const apiResource = sqliteTable(
+  "api_resource",
+  {
+    id: text("id")
+      .primaryKey()
+      .$defaultFn(() => crypto.randomUUID()),
+    applicationId: text("application_id").notNull(),
+    identifier: text("identifier").notNull().unique(),
+    name: text("name").notNull(),
+    scopes: text("scopes", { mode: "json" }).$type<ApiScope[]>().notNull().default([]),
+    createdAt: integer("created_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("api_resource_application_idx").on(t.applicationId)],
+)
+
+export type ApiResource = typeof apiResource.$inferSelect
+
+/**
+ * What a client may ask for as itself with the client_credentials grant (see
+ * client-credentials.server.ts): identifiers of its application's APIs, and
+ * scopes those APIs define. Whether the grant is on is oauth_client's
+ * grant_types; its `scopes` stay what the client's users are asked for.
+ */
+export const clientCredentialsGrant = sqliteTable("client_credentials_grant", {
+  clientId: text("client_id")
+    .primaryKey()
+    .references(() => oauthClient.clientId, { onDelete: "cascade" }),
+  audiences: text("audiences", { mode: "json" }).$type<string[]>().notNull().default([]),
+  scopes: text("scopes", { mode: "json" }).$type<string[]>().notNull().default([]),
+  updatedAt: integer("updated_at", { mode: "timestamp" })
+    .$defaultFn(() => new Date())
+    .notNull(),
+})
+
+/**
+ * Attempts one subject (an IP, or an email or client from one IP) made at one
+ * action within the current window, and its lockout (see rate-limit.server.ts).
+ * `key` is `<action>:<kind>:<identifier>`; `lockouts` counts how often it has
+ * been locked lately, each lockout twice as long as the last. Not audited:
+ * rows change on every attempt.
+ */
+export const rateLimitEntry = sqliteTable(
+  "rate_limit_entry",
+  {
+    key: text("key").primaryKey(),
+    action: text("action").notNull(),
+    kind: text("kind").notNull(),
+    identifier: text("identifier").notNull(),
+    attempts: integer("attempts").notNull().default(0),
+    windowStartedAt: integer("window_started_at", { mode: "timestamp" }).notNull(),
+    lockouts: integer("lockouts").notNull().default(0),
+    lockedUntil: integer("locked_until", { mode: "timestamp" }),
+    updatedAt: integer("updated_at", { mode: "timestamp" })
+      .$defaultFn(() => new Date())
+      .notNull(),
+  },
+  (t) => [index("rate_limit_entry_locked_until_idx").on(t.lockedUntil)],
+)
+
+export type RateLimitEntry = typeof rateLimitEntry.$inferSelect
+
+/**
+ * Audit trail, written by D1 triggers (see the `audit_triggers` migration) on
+ * oauth_client, application_member, organization, member, user_app_metadata,
+ * impersonation and scim_user, among others. Same tables as
+ * @willyim/drizzle-audit's `d1AuditLogTable()` / `d1AuditContextTable()` —
+ * inlined because that package needs drizzle-orm 1.x. old_data/new_data are
+ * json_object() row snapshots.
+ */
+export const auditLogs = sqliteTable(
+  "audit_logs",
+  {
+    id: integer("id").primaryKey({ autoIncrement: true }),
+    tableName: text("table_name").notNull(),
+    operation: text("operation", { enum: ["INSERT", "UPDATE", "DELETE"] }).notNull(),
+    rowId: text("row_id"),
+    userId: text("user_id"),
+    oldData: text("old_data"),
+    newData: text("new_data"),
+    createdAt: text("created_at")
+      .notNull()
+      .default(sql`(datetime('now'))`),
+  },
+  (t) => [
+    index("audit_logs_table_name_idx").on(t.tableName),
+    index("audit_logs_row_id_idx").on(t.rowId),
+    index("audit_logs_user_id_idx").on(t.userId),
+    index("audit_logs_created_at_idx").on(t.createdAt),
+  ],
+)
+
+export type AuditLog = typeof auditLogs.$inferSelect
+
+/** Who the triggers attribute writes to; D1 has no session variables. */
+export const auditContext = sqliteTable("_audit_context", {
+  key: text("key").primaryKey(),
+  value: text("value"),
+})
+
 /**
  * Placeholder app table from Phase 1. Kept for the migration history.
  */
@@ -1,9 +1,14 @@
-import { and, desc, eq } from "drizzle-orm"
+import { and, desc, eq, inArray, notExists } from "drizzle-orm"
 import { redirect } from "react-router"
 
 import * as schema from "../db/schema"
+import { authenticateApiKey, type ApiKeyPrincipal } from "./api-keys.server"
+import { setAuditActor, setAuditApiKeyActor } from "./audit.server"
 import type { AuthService } from "./auth.server"
+import { generateSecret, sha256Base64Url } from "./crypto.server"
+import { APP_PERMISSIONS, type AppPermission, type AppRole } from "./permissions"
 import type { BaseServiceContext } from "./services"
+import { emitAppMemberEvent, emitSecretRotated, emitWorkspaceEvent } from "./webhooks.server"
 
 function adminEmails(ctx: BaseServiceContext): string[] {
   return ctx
@@ -25,6 +30,7 @@ export async function requireSession(
 ) {
   const session = await auth.api.getSession({ headers: request.headers })
   if (!session) throw redirect("/login")
+  setAuditActor(request, ctx, session.user.id)
   return session
 }
 
@@ -39,15 +45,73 @@ export async function requireAdminSession(
   ctx.logger.info("admin.gate", { hasSession: !!session, email: session?.user.email, admin })
   if (!session) throw redirect("/login")
   if (!admin) throw redirect("/account")
+  setAuditActor(request, ctx, session.user.id)
   return session
 }
 
-/** API gate: require the management API bearer token. */
-export function requireAdminToken(request: Request, ctx: BaseServiceContext) {
+/**
+ * The deprecated ADMIN_API_TOKEN, accepted until the next release for what it
+ * could do before API keys: read the IdP-wide endpoints. Logs a warning on
+ * every use so operators can find what still sends it.
+ */
+function legacyAdminToken(
+  request: Request,
+  ctx: BaseServiceContext,
+  provided: string,
+): ApiKeyPrincipal | null {
   const expected = ctx.getAppEnv("ADMIN_API_TOKEN")
+  if (!expected || provided !== expected) return null
+  ctx.logger.warn("api.legacy_admin_token", {
+    method: request.method,
+    path: new URL(request.url).pathname,
+  })
+  if (request.method !== "GET" && request.method !== "HEAD") {
+    throw Response.json(
+      {
+        error: "forbidden",
+        message: "ADMIN_API_TOKEN is deprecated and read-only; use an IdP-wide API key.",
+      },
+      { status: 403 },
+    )
+  }
+  const permissions = APP_PERMISSIONS.filter((p) => p.endsWith(":read"))
+  return {
+    keyId: "ADMIN_API_TOKEN",
+    applicationId: null,
+    permissions,
+    can: (_app, p) => permissions.includes(p),
+  }
+}
+
+/** API gate: require a live management API key (`Authorization: Bearer idp_…`). */
+export async function requireApiKey(request: Request, ctx: BaseServiceContext) {
   const provided = request.headers.get("authorization")?.replace(/^Bearer\s+/i, "")
-  if (!expected || !provided || provided !== expected) {
-    throw Response.json({ error: "unauthorized" }, { status: 401 })
+  const principal = provided
+    ? ((await authenticateApiKey(ctx, provided)) ?? legacyAdminToken(request, ctx, provided))
+    : null
+  if (!principal) throw Response.json({ error: "unauthorized" }, { status: 401 })
+  setAuditApiKeyActor(request, ctx, principal.keyId)
+  return principal
+}
+
+/** API gate: the key must grant `permission` on application `app`. */
+export function requireApiPermission(
+  principal: ApiKeyPrincipal,
+  app: string,
+  permission: AppPermission,
+) {
+  if (!principal.can(app, permission)) {
+    throw Response.json({ error: "forbidden", message: `Key lacks ${permission}.` }, { status: 403 })
+  }
+}
+
+/** API gate: IdP-wide endpoints (all apps, all users) need an IdP-wide key. */
+export function requireGlobalApiKey(principal: ApiKeyPrincipal) {
+  if (principal.applicationId !== null) {
+    throw Response.json(
+      { error: "forbidden", message: "This endpoint needs an IdP-wide key." },
+      { status: 403 },
+    )
   }
 }
 
@@ -68,7 +132,7 @@ function unwrap(v: unknown): unknown {
   return x
 }
 
-function coerceUriList(v: unknown): string[] {
+export function coerceUriList(v: unknown): string[] {
   const x = unwrap(v)
   return Array.isArray(x) ? x.filter((s): s is string => typeof s === "string") : []
 }
@@ -89,67 +153,142 @@ export type ApplicationSummary = {
   createdAt: Date
 }
 
-export async function listApplications(ctx: BaseServiceContext): Promise<ApplicationSummary[]> {
-  const rows = await ctx.db
-    .select({
-      clientId: schema.oauthClient.clientId,
-      name: schema.oauthClient.name,
-      metadata: schema.oauthClient.metadata,
-      redirectUris: schema.oauthClient.redirectUris,
-      disabled: schema.oauthClient.disabled,
-      createdAt: schema.oauthClient.createdAt,
-    })
-    .from(schema.oauthClient)
-    .orderBy(desc(schema.oauthClient.createdAt))
+const applicationColumns = {
+  clientId: schema.oauthClient.clientId,
+  name: schema.oauthClient.name,
+  metadata: schema.oauthClient.metadata,
+  redirectUris: schema.oauthClient.redirectUris,
+  disabled: schema.oauthClient.disabled,
+  createdAt: schema.oauthClient.createdAt,
+}
 
-  return rows.map((r) => ({
+function toApplicationSummary(r: {
+  clientId: string
+  name: string | null
+  metadata: unknown
+  redirectUris: unknown
+  disabled: boolean | null
+  createdAt: Date | null
+}): ApplicationSummary {
+  return {
     clientId: r.clientId,
     name: r.name,
     app: coerceApp(r.metadata),
     redirectUris: coerceUriList(r.redirectUris),
     disabled: !!r.disabled,
     createdAt: r.createdAt ?? new Date(0),
-  }))
+  }
 }
 
+/**
+ * Every application, newest first. Clients registered under one
+ * (client-registration.server.ts) aren't applications of their own.
+ */
+export async function listApplications(ctx: BaseServiceContext): Promise<ApplicationSummary[]> {
+  const rows = await ctx.db
+    .select(applicationColumns)
+    .from(schema.oauthClient)
+    .where(
+      notExists(
+        ctx.db
+          .select({ clientId: schema.registeredClient.clientId })
+          .from(schema.registeredClient)
+          .where(eq(schema.registeredClient.clientId, schema.oauthClient.clientId)),
+      ),
+    )
+    .orderBy(desc(schema.oauthClient.createdAt))
+  return rows.map(toApplicationSummary)
+}
+
+/**
+ * The client `clientId` as an application. Registered clients resolve too,
+ * with their application's app key, so its sign-in policy, branding and
+ * claims apply to them; console and API gates refuse them (isRegisteredClient).
+ */
 export async function getApplication(
   ctx: BaseServiceContext,
   clientId: string,
 ): Promise<ApplicationSummary | null> {
+  const [row] = await ctx.db
+    .select(applicationColumns)
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  return row ? toApplicationSummary(row) : null
+}
+
+/** Whether `clientId` registered itself under an application rather than being one. */
+export async function isRegisteredClient(ctx: BaseServiceContext, clientId: string) {
+  const [row] = await ctx.db
+    .select({ clientId: schema.registeredClient.clientId })
+    .from(schema.registeredClient)
+    .where(eq(schema.registeredClient.clientId, clientId))
+    .limit(1)
+  return !!row
+}
+
+/**
+ * Applications `userId` is an app admin or member of (app keys from
+ * application_member), with their role. Superadmins use listApplications.
+ */
+export async function listApplicationsForUser(ctx: BaseServiceContext, userId: string) {
+  const memberships = await ctx.db
+    .select({ app: schema.applicationMember.applicationId, role: schema.applicationMember.role })
+    .from(schema.applicationMember)
+    .where(eq(schema.applicationMember.userId, userId))
+  const roles = new Map(memberships.map((m) => [m.app, m.role]))
+
   const all = await listApplications(ctx)
-  return all.find((a) => a.clientId === clientId) ?? null
+  return all
+    .filter((a) => a.app && roles.has(a.app))
+    .map((a) => ({ ...a, role: roles.get(a.app!) as AppRole }))
+}
+
+/** The application registered under an app key, if any. App keys are unique. */
+export async function findApplicationByApp(ctx: BaseServiceContext, app: string) {
+  const all = await listApplications(ctx)
+  return all.find((a) => a.app === app) ?? null
 }
 
 /**
- * Registers an OAuth client and tags it with metadata.app (the application key
- * consumers' workspace claims are filtered by). Creation goes through better-auth
- * (which hashes the secret and requires the admin's session), then we set the
- * app tag with a direct update.
+ * Registers a confidential OAuth client tagged with metadata.app (the
+ * application key consumers' workspace claims are filtered by). Written straight
+ * to the table rather than through better-auth's create endpoint, which insists
+ * on a session — the management API has none. The secret is stored hashed the
+ * way oauth-provider expects and the plaintext is returned once.
  */
 export async function createApplication(
-  request: Request,
   ctx: BaseServiceContext,
-  auth: AuthService,
-  input: { name: string; redirectUris: string[]; app: string; creatorUserId: string },
+  input: { name: string; redirectUris: string[]; app: string; creatorUserId?: string },
 ) {
-  const created = (await auth.api.createOAuthClient({
-    headers: request.headers,
-    body: { client_name: input.name, redirect_uris: input.redirectUris },
-  })) as { client_id: string; client_secret: string }
+  const clientId = generateSecret()
+  const clientSecret = generateSecret()
+  const now = new Date()
 
-  await ctx.db
-    .update(schema.oauthClient)
+  await ctx.db.insert(schema.oauthClient).values({
+    id: crypto.randomUUID(),
+    clientId,
+    clientSecret: await sha256Base64Url(clientSecret),
+    name: input.name,
+    redirectUris: input.redirectUris,
+    tokenEndpointAuthMethod: "client_secret_basic",
+    grantTypes: ["authorization_code"],
+    responseTypes: ["code"],
+    public: false,
+    disabled: false,
+    userId: input.creatorUserId,
     // mode:"json" column — pass the object; drizzle serializes it.
-    .set({ metadata: { app: input.app } })
-    .where(eq(schema.oauthClient.clientId, created.client_id))
+    metadata: { app: input.app },
+    createdAt: now,
+    updatedAt: now,
+  })
 
   // Whoever creates the app is its first admin.
-  await ctx.db
-    .insert(schema.applicationMember)
-    .values({ applicationId: input.app, userId: input.creatorUserId, role: "admin" })
-    .onConflictDoNothing()
+  if (input.creatorUserId) {
+    await grantAppMember(ctx, input.app, input.creatorUserId, { role: "admin" })
+  }
 
-  return { clientId: created.client_id, clientSecret: created.client_secret }
+  return { clientId, clientSecret }
 }
 
 /** App admins/members (IdP-level), with their user details. */
@@ -167,35 +306,101 @@ export async function listAppMembers(ctx: BaseServiceContext, app: string) {
     .where(eq(schema.applicationMember.applicationId, app))
 }
 
+/** `userId`'s role on `app`, or null if they aren't a member. */
+export async function getAppMemberRole(ctx: BaseServiceContext, app: string, userId: string) {
+  const [member] = await ctx.db
+    .select({ role: schema.applicationMember.role })
+    .from(schema.applicationMember)
+    .where(
+      and(
+        eq(schema.applicationMember.applicationId, app),
+        eq(schema.applicationMember.userId, userId),
+      ),
+    )
+    .limit(1)
+  return member?.role ?? null
+}
+
+/**
+ * Adds a user to an app or replaces their role + permissions if already there.
+ * Joining and leaving (revokeAppMember) send the app's `member.*` webhooks.
+ */
+export async function grantAppMember(
+  ctx: BaseServiceContext,
+  app: string,
+  userId: string,
+  grant: { role: AppRole; permissions?: AppPermission[] },
+) {
+  // Admins implicitly hold every permission; don't persist a stale subset.
+  const permissions = grant.role === "admin" ? [] : (grant.permissions ?? [])
+  const existing = await getAppMemberRole(ctx, app, userId)
+  await ctx.db
+    .insert(schema.applicationMember)
+    .values({ applicationId: app, userId, role: grant.role, permissions })
+    .onConflictDoUpdate({
+      target: [schema.applicationMember.applicationId, schema.applicationMember.userId],
+      set: { role: grant.role, permissions },
+    })
+  if (!existing) await emitAppMemberEvent(ctx, "member.added", app, { userId, role: grant.role })
+}
+
+/** Removes a user's app-level role. Returns false if they weren't a member. */
+export async function revokeAppMember(ctx: BaseServiceContext, app: string, userId: string) {
+  const removed = await ctx.db
+    .delete(schema.applicationMember)
+    .where(
+      and(
+        eq(schema.applicationMember.applicationId, app),
+        eq(schema.applicationMember.userId, userId),
+      ),
+    )
+    .returning({ role: schema.applicationMember.role })
+  if (removed.length === 0) return false
+  await emitAppMemberEvent(ctx, "member.removed", app, { userId, role: removed[0].role })
+  return true
+}
+
 /**
  * Generates a new client secret and replaces the stored hash. The old secret
  * stops working immediately. The new plaintext is returned once.
  */
-export async function rotateApplicationSecret(
-  request: Request,
-  auth: AuthService,
-  clientId: string,
-) {
-  const res = (await auth.api.rotateClientSecret({
-    headers: request.headers,
-    body: { client_id: clientId },
-  })) as { client_secret?: string; clientSecret?: string }
-  return { clientId, clientSecret: res.client_secret ?? res.clientSecret ?? "" }
+export async function rotateApplicationSecret(ctx: BaseServiceContext, clientId: string) {
+  const clientSecret = generateSecret()
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({ clientSecret: await sha256Base64Url(clientSecret), updatedAt: new Date() })
+    .where(eq(schema.oauthClient.clientId, clientId))
+  await emitSecretRotated(ctx, clientId)
+  return { clientId, clientSecret }
 }
 
-export async function updateApplicationRedirectUris(
-  request: Request,
-  auth: AuthService,
+export async function updateApplication(
+  ctx: BaseServiceContext,
   clientId: string,
-  redirectUris: string[],
+  update: { name?: string; redirectUris?: string[] },
 ) {
-  await auth.api.updateOAuthClient({
-    headers: request.headers,
-    body: { client_id: clientId, update: { redirect_uris: redirectUris } },
-  })
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({ ...update, updatedAt: new Date() })
+    .where(eq(schema.oauthClient.clientId, clientId))
 }
 
+/** Deletes an application, with the clients registered under its app key and their tokens. */
 export async function deleteApplication(ctx: BaseServiceContext, clientId: string) {
+  const application = await getApplication(ctx, clientId)
+  if (application?.app) {
+    const registered = ctx.db
+      .select({ clientId: schema.registeredClient.clientId })
+      .from(schema.registeredClient)
+      .where(eq(schema.registeredClient.applicationId, application.app))
+    await ctx.db.delete(schema.oauthClient).where(inArray(schema.oauthClient.clientId, registered))
+    await ctx.db
+      .delete(schema.initialAccessToken)
+      .where(eq(schema.initialAccessToken.applicationId, application.app))
+    await ctx.db
+      .delete(schema.apiResource)
+      .where(eq(schema.apiResource.applicationId, application.app))
+  }
   await ctx.db.delete(schema.oauthClient).where(eq(schema.oauthClient.clientId, clientId))
 }
 
@@ -217,6 +422,7 @@ export async function listWorkspacesForApp(ctx: BaseServiceContext, app: string)
 export async function listPeopleForApp(ctx: BaseServiceContext, app: string) {
   return ctx.db
     .select({
+      userId: schema.user.id,
       email: schema.user.email,
       name: schema.user.name,
       workspace: schema.organization.slug,
@@ -259,13 +465,40 @@ export async function listWorkspaces(ctx: BaseServiceContext) {
     .orderBy(desc(schema.organization.createdAt))
 }
 
+export async function getUser(ctx: BaseServiceContext, userId: string) {
+  const [row] = await ctx.db
+    .select({ id: schema.user.id, email: schema.user.email, name: schema.user.name })
+    .from(schema.user)
+    .where(eq(schema.user.id, userId))
+    .limit(1)
+  return row ?? null
+}
+
+/**
+ * Creates a workspace for an application with `ownerUserId` as its owner. Runs
+ * as a better-auth system action (no headers, explicit userId) so the console
+ * and the management API share one path.
+ */
 export async function createWorkspace(
-  request: Request,
   auth: AuthService,
-  input: { name: string; slug: string; applicationId: string },
+  input: { name: string; slug: string; applicationId: string; ownerUserId: string },
 ) {
   return auth.api.createOrganization({
-    headers: request.headers,
-    body: { name: input.name, slug: input.slug, applicationId: input.applicationId },
+    body: {
+      name: input.name,
+      slug: input.slug,
+      applicationId: input.applicationId,
+      userId: input.ownerUserId,
+    },
   })
 }
+
+/** Deletes a workspace only if it belongs to `app`. Members cascade. */
+export async function deleteWorkspace(ctx: BaseServiceContext, app: string, workspaceId: string) {
+  const removed = await ctx.db
+    .delete(schema.organization)
+    .where(and(eq(schema.organization.id, workspaceId), eq(schema.organization.applicationId, app)))
+    .returning()
+  for (const workspace of removed) await emitWorkspaceEvent(ctx, "workspace.deleted", workspace)
+  return removed.length > 0
+}
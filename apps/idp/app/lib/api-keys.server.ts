@@ -0,0 +1,179 @@
+import { and, desc, eq, isNull } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import { generateSecret, sha256Base64Url } from "./crypto.server"
+import { APP_PERMISSIONS, resolvePermissions, type AppPermission } from "./permissions"
+import type { BaseServiceContext } from "./services"
+
+/** Every key starts with this so secret scanners (and people) can spot it. */
+const KEY_PREFIX = "idp_"
+/** How much of the key is kept in clear as `prefix` — enough to tell keys apart. */
+const VISIBLE_LENGTH = KEY_PREFIX.length + 8
+
+export type ApiKeySummary = {
+  id: string
+  applicationId: string | null
+  name: string
+  prefix: string
+  permissions: AppPermission[]
+  ownerEmail: string | null
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+/**
+ * Who is calling the management API. `applicationId: null` is an IdP-wide key:
+ * it may act on every application and the global endpoints.
+ */
+export type ApiKeyPrincipal = {
+  keyId: string
+  applicationId: string | null
+  permissions: AppPermission[]
+  /** Whether the key may perform `permission` on `app` (an app key). */
+  can: (app: string, permission: AppPermission) => boolean
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Expiry for a key valid `days` days from now; no/zero days = never expires. */
+export function expiresAfterDays(days: number | undefined) {
+  return days && days > 0 ? new Date(Date.now() + days * DAY_MS) : null
+}
+
+/**
+ * Reads the console's "create API key" form (name, permissions checkboxes,
+ * expiresInDays select). `scoped` = app key, which must carry permissions.
+ */
+export function parseApiKeyForm(form: FormData, scoped: boolean) {
+  const name = String(form.get("name") ?? "").trim()
+  const permissions = form
+    .getAll("permissions")
+    .map(String)
+    .filter((p): p is AppPermission => (APP_PERMISSIONS as readonly string[]).includes(p))
+  const days = Number(form.get("expiresInDays") ?? 0)
+
+  if (!name) return { error: "Give the key a name." } as const
+  if (scoped && permissions.length === 0)
+    return { error: "Grant at least one permission." } as const
+  return { name, permissions, expiresAt: expiresAfterDays(days) } as const
+}
+
+/**
+ * Mints a key and returns the plaintext once. App-scoped keys carry an explicit
+ * permission set; IdP-wide keys implicitly hold them all.
+ */
+export async function createApiKey(
+  ctx: BaseServiceContext,
+  input: {
+    applicationId: string | null
+    name: string
+    permissions: AppPermission[]
+    ownerUserId: string | null
+    expiresAt: Date | null
+  },
+) {
+  const key = `${KEY_PREFIX}${generateSecret(40)}`
+  const [row] = await ctx.db
+    .insert(schema.apiKey)
+    .values({
+      applicationId: input.applicationId,
+      name: input.name,
+      prefix: key.slice(0, VISIBLE_LENGTH),
+      secretHash: await sha256Base64Url(key),
+      permissions: input.applicationId ? input.permissions : [],
+      ownerUserId: input.ownerUserId,
+      expiresAt: input.expiresAt,
+    })
+    .returning({ id: schema.apiKey.id, prefix: schema.apiKey.prefix })
+  return { ...row, key }
+}
+
+/** Keys for one application, or the IdP-wide keys when `applicationId` is null. */
+export async function listApiKeys(
+  ctx: BaseServiceContext,
+  applicationId: string | null,
+): Promise<ApiKeySummary[]> {
+  const rows = await ctx.db
+    .select({
+      id: schema.apiKey.id,
+      applicationId: schema.apiKey.applicationId,
+      name: schema.apiKey.name,
+      prefix: schema.apiKey.prefix,
+      permissions: schema.apiKey.permissions,
+      ownerEmail: schema.user.email,
+      expiresAt: schema.apiKey.expiresAt,
+      lastUsedAt: schema.apiKey.lastUsedAt,
+      revokedAt: schema.apiKey.revokedAt,
+      createdAt: schema.apiKey.createdAt,
+    })
+    .from(schema.apiKey)
+    .leftJoin(schema.user, eq(schema.apiKey.ownerUserId, schema.user.id))
+    .where(
+      applicationId === null
+        ? isNull(schema.apiKey.applicationId)
+        : eq(schema.apiKey.applicationId, applicationId),
+    )
+    .orderBy(desc(schema.apiKey.createdAt))
+
+  return rows.map((r) => ({
+    ...r,
+    permissions: resolvePermissions(r.applicationId ? "member" : "admin", r.permissions ?? []),
+  }))
+}
+
+/** Revokes a key of `applicationId` (null = IdP-wide). False if there was no live key. */
+export async function revokeApiKey(
+  ctx: BaseServiceContext,
+  applicationId: string | null,
+  id: string,
+) {
+  const revoked = await ctx.db
+    .update(schema.apiKey)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(schema.apiKey.id, id),
+        applicationId === null
+          ? isNull(schema.apiKey.applicationId)
+          : eq(schema.apiKey.applicationId, applicationId),
+        isNull(schema.apiKey.revokedAt),
+      ),
+    )
+    .returning({ id: schema.apiKey.id })
+  return revoked.length > 0
+}
+
+/**
+ * Resolves a presented key to its principal. Unknown, revoked and expired keys
+ * all resolve to null — callers answer 401 without saying which.
+ */
+export async function authenticateApiKey(
+  ctx: BaseServiceContext,
+  presented: string,
+): Promise<ApiKeyPrincipal | null> {
+  if (!presented.startsWith(KEY_PREFIX)) return null
+  const [row] = await ctx.db
+    .select()
+    .from(schema.apiKey)
+    .where(eq(schema.apiKey.secretHash, await sha256Base64Url(presented)))
+    .limit(1)
+
+  if (!row || row.revokedAt) return null
+  if (row.expiresAt && row.expiresAt.getTime() <= Date.now()) return null
+
+  await ctx.db
+    .update(schema.apiKey)
+    .set({ lastUsedAt: new Date() })
+    .where(eq(schema.apiKey.id, row.id))
+
+  const applicationId = row.applicationId
+  const permissions = resolvePermissions(applicationId ? "member" : "admin", row.permissions ?? [])
+  return {
+    keyId: row.id,
+    applicationId,
+    permissions,
+    can: (app, p) => applicationId === null || (applicationId === app && permissions.includes(p)),
+  }
+}
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as consentPage from "../routes/consent"
+import { coerceUriList, createApplication } from "./admin.server"
+import { createApiResource, deleteApiResource, updateApiResource } from "./api-resources.server"
+import {
+  ClientMetadataSchema,
+  createInitialAccessToken,
+  registerClient,
+} from "./client-registration.server"
+import { USER_SCOPES } from "./client-credentials.server"
+import { defaultTenant } from "./tenant.server"
+import {
+  authFetch,
+  authorize,
+  basicAuth,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  formPost,
+  json,
+  jwtClaims,
+  loadContext,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+const INVOICES = "https://invoices.acme.test"
+const REPORTS = "https://reports.acme.test"
+const REDIRECT_URI = "https://acme.test/callback"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+let cookie: string
+let invoicesApi: string
+
+async function addApi(app: string, identifier: string, scope: string) {
+  const created = await createApiResource(ctx, app, {
+    identifier,
+    name: identifier,
+    scopes: [{ name: scope, description: `Read your ${scope.split(":")[0]}` }],
+  })
+  if ("error" in created) throw new Error(created.error)
+  return created.id
+}
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, { name: "Acme", app: "acme", redirectUris: [REDIRECT_URI] })
+  invoicesApi = await addApi("acme", INVOICES, "invoices:read")
+  await addApi("acme", REPORTS, "reports:read")
+  cookie = await sessionCookie(ctx, createUser(ctx))
+})
+
+function clientScopes(clientId: string) {
+  const scopes = ctx.sqlite
+    .prepare("select scopes from oauth_client where client_id = ?")
+    .pluck()
+    .get(clientId)
+  return coerceUriList(JSON.parse(String(scopes)))
+}
+
+function tokens(scope: string, resource?: string) {
+  return codeFlowTokens(ctx, { cookie, ...acme, redirectUri: REDIRECT_URI, scope, resource })
+}
+
+function refresh(refreshToken: string, body: Record<string, string>) {
+  return authFetch(
+    ctx,
+    "/oauth2/token",
+    formPost(
+      { grant_type: "refresh_token", refresh_token: refreshToken, ...body },
+      basicAuth(acme.clientId, acme.clientSecret),
+    ),
+  )
+}
+
+describe("API resources", () => {
+  it("need an absolute URL, a name and described scopes of their own", async () => {
+    const api = { identifier: "https://api.acme.test", name: "API", scopes: [] }
+    expect(await createApiResource(ctx, "acme", { ...api, identifier: "api" })).toMatchObject({
+      field: "identifier",
+    })
+    expect(await createApiResource(ctx, "acme", { ...api, identifier: INVOICES })).toMatchObject({
+      field: "identifier",
+    })
+    for (const scope of [
+      { name: "openid", description: "Sign in" },
+      { name: "invoices:read", description: "Again" },
+      { name: "write:all", description: "" },
+    ]) {
+      expect(await createApiResource(ctx, "acme", { ...api, scopes: [scope] })).toMatchObject({
+        field: "scopes",
+      })
+    }
+  })
+
+  it("are what the app's client may ask for, besides the OIDC scopes", async () => {
+    expect(clientScopes(acme.clientId)).toEqual([...USER_SCOPES, "invoices:read", "reports:read"])
+
+    const other = await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    const reports = await addApi("other", "https://reports.other.test", "other:read")
+    expect(clientScopes(other.clientId)).toEqual([...USER_SCOPES, "other:read"])
+    expect(clientScopes(acme.clientId)).toEqual([...USER_SCOPES, "invoices:read", "reports:read"])
+
+    await updateApiResource(ctx, "other", reports, {
+      name: "Reports",
+      scopes: [{ name: "other:write", description: "Write your reports" }],
+    })
+    expect(clientScopes(other.clientId)).toEqual([...USER_SCOPES, "other:write"])
+    expect(await deleteApiResource(ctx, "other", reports)).toBe(true)
+    expect(clientScopes(other.clientId)).toEqual(USER_SCOPES)
+  })
+
+  it("are kept from registered clients that didn't register for them, and gone when deleted", async () => {
+    await createInitialAccessToken(ctx, {
+      app: "acme",
+      name: "ci",
+      createdByUserId: null,
+      expiresInDays: 0,
+    })
+    const id = ctx.sqlite.prepare("select id from initial_access_token").pluck().get() as string
+    const register = (scope?: string) =>
+      registerClient(
+        ctx,
+        defaultTenant(ctx),
+        { app: "acme", initialAccessTokenId: id },
+        ClientMetadataSchema.parse({
+          redirect_uris: ["com.acme.native:/callback"],
+          token_endpoint_auth_method: "none",
+          scope,
+        }),
+      )
+    const narrow = (await register("openid invoices:read")).client_id!
+    const broad = (await register()).client_id!
+    expect(clientScopes(narrow)).toEqual(["openid", "invoices:read"])
+    expect(clientScopes(broad)).toEqual([...USER_SCOPES, "invoices:read", "reports:read"])
+
+    await deleteApiResource(ctx, "acme", invoicesApi)
+    expect(clientScopes(narrow)).toEqual(["openid"])
+    expect(clientScopes(broad)).toEqual([...USER_SCOPES, "reports:read"])
+  })
+})
+
+describe("API scopes", () => {
+  it("are described on the consent screen and refused to other apps' clients", async () => {
+    const res = await authorize(ctx, {
+      cookie,
+      ...acme,
+      redirectUri: REDIRECT_URI,
+      scope: "openid invoices:read",
+    })
+    const url = new URL(res.headers.get("location")!, "http://localhost:5173")
+    expect(url.pathname).toBe("/consent")
+    const page = await consentPage.loader(routeArgs(loadContext(ctx), new Request(url)))
+    expect(page.descriptions).toMatchObject({ "invoices:read": "Read your invoices" })
+
+    const other = await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    const refused = await authorize(ctx, {
+      cookie,
+      ...other,
+      redirectUri: "https://other.test/callback",
+      scope: "openid invoices:read",
+    })
+    const location = new URL(refused.headers.get("location")!)
+    expect(location.searchParams.get("error")).toBe("invalid_scope")
+  })
+
+  it("go in a JWT for the API that defines them", async () => {
+    const { access_token, scope } = await json(await tokens("openid invoices:read", INVOICES))
+    expect(scope).toBe("openid invoices:read")
+    expect(jwtClaims(access_token)).toMatchObject({
+      aud: [INVOICES, "http://localhost:5173/auth/oauth2/userinfo"],
+      azp: acme.clientId,
+      scope: "openid invoices:read",
+    })
+  })
+
+  it("aren't given in a token for another API", async () => {
+    const crossed = await tokens("openid invoices:read reports:read", INVOICES)
+    expect(crossed.status).toBe(400)
+    expect((await json(crossed)).error).toBe("invalid_scope")
+    const elsewhere = await tokens("openid", "https://reports.other.test")
+    expect(elsewhere.status).toBe(400)
+  })
+
+  it("of several APIs are asked for one API at a time when refreshing", async () => {
+    const { refresh_token } = await json(await tokens("offline_access invoices:read reports:read"))
+    const crossed = await refresh(refresh_token, { resource: REPORTS })
+    expect((await json(crossed)).error).toBe("invalid_scope")
+
+    const narrowed = await json(
+      await refresh(refresh_token, { resource: REPORTS, scope: "offline_access reports:read" }),
+    )
+    expect(jwtClaims(narrowed.access_token)).toMatchObject({
+      aud: REPORTS,
+      scope: "offline_access reports:read",
+    })
+  })
+})
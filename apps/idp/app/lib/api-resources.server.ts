@@ -0,0 +1,339 @@
+import { and, eq, ne } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware } from "better-auth/api"
+
+import * as schema from "../db/schema"
+import { coerceUriList, findApplicationByApp, getApplication } from "./admin.server"
+import { requestClientId, SCOPE_TOKEN, USER_SCOPES } from "./client-credentials.server"
+import { sha256Base64Url } from "./crypto.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * An application's own APIs, as audiences for its access tokens. Each API
+ * resource has an identifier (RFC 8707 resource indicator) and the scopes it
+ * defines, with what each grants in words; the app's clients may ask for those
+ * scopes at /oauth2/authorize, and for a token whose `aud` is the API by
+ * sending its identifier as `resource` to /oauth2/token. That token is a JWT
+ * signed with the OIDC keys, carrying the granted `scope` (only scopes that
+ * API defines, besides the OIDC ones); the API verifies it against the JWKS.
+ *
+ * oauth-provider checks requested scopes against the client's own `scopes`
+ * (the OIDC scopes when it has none), so those are kept in step with the
+ * app's APIs as they change.
+ *
+ * The consent screen shows each scope's description instead of its name.
+ */
+export type ApiResourceSummary = Pick<
+  schema.ApiResource,
+  "id" | "identifier" | "name" | "scopes" | "createdAt"
+>
+
+/** What the consent screen says the OIDC scopes grant. */
+export const OIDC_SCOPE_DESCRIPTIONS: Record<string, string> = {
+  openid: "Verify your identity",
+  profile: "Your name and profile info",
+  email: "Your email address",
+  offline_access: "Stay signed in (refresh access)",
+}
+
+const MAX_DESCRIPTION_LENGTH = 200
+
+/** An application's API resources, oldest first. */
+export async function listApiResources(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<ApiResourceSummary[]> {
+  return ctx.db
+    .select({
+      id: schema.apiResource.id,
+      identifier: schema.apiResource.identifier,
+      name: schema.apiResource.name,
+      scopes: schema.apiResource.scopes,
+      createdAt: schema.apiResource.createdAt,
+    })
+    .from(schema.apiResource)
+    .where(eq(schema.apiResource.applicationId, app))
+    .orderBy(schema.apiResource.createdAt)
+}
+
+/**
+ * Scopes from the console's textarea: one per line, the scope then what it
+ * grants (`read:invoices Read your invoices`).
+ */
+export function parseApiScopes(text: string): schema.ApiScope[] {
+  return text
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const [name, ...words] = line.split(/\s+/)
+      return { name, description: words.join(" ") }
+    })
+}
+
+/**
+ * Checks scopes for one of `app`'s resources (`id`, when it exists already):
+ * valid scope tokens with a description, not an OIDC scope, and not defined by
+ * another of the app's resources. Returns the error and the field it's about.
+ */
+async function checkApiScopes(
+  ctx: BaseServiceContext,
+  app: string,
+  id: string | null,
+  scopes: schema.ApiScope[],
+) {
+  const others = await ctx.db
+    .select({ scopes: schema.apiResource.scopes })
+    .from(schema.apiResource)
+    .where(
+      and(
+        eq(schema.apiResource.applicationId, app),
+        id ? ne(schema.apiResource.id, id) : undefined,
+      ),
+    )
+  const taken = new Set(others.flatMap((r) => r.scopes.map((s) => s.name)))
+  const seen = new Set<string>()
+  for (const scope of scopes) {
+    if (!SCOPE_TOKEN.test(scope.name))
+      return { error: `"${scope.name}" isn't a valid scope.`, field: "scopes" }
+    if (USER_SCOPES.includes(scope.name))
+      return { error: `"${scope.name}" is an OIDC scope.`, field: "scopes" }
+    if (seen.has(scope.name) || taken.has(scope.name))
+      return { error: `"${scope.name}" is already defined.`, field: "scopes" }
+    if (!scope.description)
+      return { error: `Describe what "${scope.name}" grants.`, field: "scopes" }
+    if (scope.description.length > MAX_DESCRIPTION_LENGTH)
+      return { error: `The description of "${scope.name}" is too long.`, field: "scopes" }
+    seen.add(scope.name)
+  }
+  return null
+}
+
+/**
+ * Registers an API for `app`. Returns an error (and the field it's about)
+ * instead of throwing when the input won't do. Identifiers are absolute URLs,
+ * unique across applications: a token's `aud` names one API.
+ */
+export async function createApiResource(
+  ctx: BaseServiceContext,
+  app: string,
+  input: { identifier: string; name: string; scopes: schema.ApiScope[] },
+) {
+  const identifier = input.identifier.trim()
+  let url: URL | null = null
+  try {
+    url = new URL(identifier)
+  } catch {}
+  if (!url || (url.protocol !== "https:" && url.protocol !== "http:") || url.hash)
+    return { error: `"${identifier}" isn't an absolute URL.`, field: "identifier" }
+  const name = input.name.trim()
+  if (!name) return { error: "Give the API a name.", field: "name" }
+  const [existing] = await ctx.db
+    .select({ id: schema.apiResource.id })
+    .from(schema.apiResource)
+    .where(eq(schema.apiResource.identifier, identifier))
+    .limit(1)
+  if (existing) return { error: "Another API already uses this identifier.", field: "identifier" }
+  const invalid = await checkApiScopes(ctx, app, null, input.scopes)
+  if (invalid) return invalid
+
+  const [resource] = await ctx.db
+    .insert(schema.apiResource)
+    .values({ applicationId: app, identifier, name, scopes: input.scopes })
+    .returning({ id: schema.apiResource.id })
+  await syncClientScopes(ctx, app)
+  ctx.logger.info("api_resource.created", { app, id: resource.id, identifier })
+  return { ok: true as const, id: resource.id }
+}
+
+/** Renames one of `app`'s APIs and replaces its scopes; errors like createApiResource. */
+export async function updateApiResource(
+  ctx: BaseServiceContext,
+  app: string,
+  id: string,
+  input: { name: string; scopes: schema.ApiScope[] },
+) {
+  const name = input.name.trim()
+  if (!name) return { error: "Give the API a name.", field: "name" }
+  const invalid = await checkApiScopes(ctx, app, id, input.scopes)
+  if (invalid) return invalid
+  const updated = await ctx.db
+    .update(schema.apiResource)
+    .set({ name, scopes: input.scopes })
+    .where(and(eq(schema.apiResource.id, id), eq(schema.apiResource.applicationId, app)))
+    .returning({ id: schema.apiResource.id })
+  if (updated.length === 0) return { error: "That API no longer exists.", field: "id" }
+  await syncClientScopes(ctx, app)
+  ctx.logger.info("api_resource.updated", { app, id, scopes: input.scopes.map((s) => s.name) })
+  return { ok: true as const }
+}
+
+/**
+ * Removes one of `app`'s APIs; false if it isn't one. Tokens already issued
+ * for it stay valid until they expire, but no new ones are.
+ */
+export async function deleteApiResource(ctx: BaseServiceContext, app: string, id: string) {
+  const removed = await ctx.db
+    .delete(schema.apiResource)
+    .where(and(eq(schema.apiResource.id, id), eq(schema.apiResource.applicationId, app)))
+    .returning({ id: schema.apiResource.id })
+  if (removed.length === 0) return false
+  await syncClientScopes(ctx, app)
+  return true
+}
+
+/** The scopes `app`'s APIs define, by name. */
+async function apiScopeNames(ctx: BaseServiceContext, app: string) {
+  const resources = await listApiResources(ctx, app)
+  return resources.flatMap((r) => r.scopes.map((s) => s.name))
+}
+
+/** Every scope a client of `app` may be given: the OIDC scopes, then its API scopes. */
+export async function offeredScopes(ctx: BaseServiceContext, app: string) {
+  return [...USER_SCOPES, ...(await apiScopeNames(ctx, app))]
+}
+
+/**
+ * Sets what `app`'s clients may ask for after its APIs change: its own client
+ * every scope it offers, and registered clients the scopes they registered
+ * for that are still offered.
+ */
+async function syncClientScopes(ctx: BaseServiceContext, app: string) {
+  const offered = await offeredScopes(ctx, app)
+  const application = await findApplicationByApp(ctx, app)
+  if (application) {
+    await ctx.db
+      .update(schema.oauthClient)
+      .set({ scopes: offered })
+      .where(eq(schema.oauthClient.clientId, application.clientId))
+  }
+  const registered = await ctx.db
+    .select({ clientId: schema.oauthClient.clientId, scopes: schema.oauthClient.scopes })
+    .from(schema.oauthClient)
+    .innerJoin(
+      schema.registeredClient,
+      eq(schema.registeredClient.clientId, schema.oauthClient.clientId),
+    )
+    .where(eq(schema.registeredClient.applicationId, app))
+  for (const client of registered) {
+    const scopes = coerceUriList(client.scopes)
+    const kept = scopes.filter((s) => offered.includes(s))
+    if (kept.length === scopes.length) continue
+    await ctx.db
+      .update(schema.oauthClient)
+      .set({ scopes: kept })
+      .where(eq(schema.oauthClient.clientId, client.clientId))
+  }
+}
+
+/**
+ * What each scope a client of `app` may ask for grants, for the consent
+ * screen: the OIDC scopes, then the app's API scopes.
+ */
+export async function scopeDescriptions(ctx: BaseServiceContext, app: string | null) {
+  const resources = app ? await listApiResources(ctx, app) : []
+  return {
+    ...OIDC_SCOPE_DESCRIPTIONS,
+    ...Object.fromEntries(resources.flatMap((r) => r.scopes.map((s) => [s.name, s.description]))),
+  }
+}
+
+async function appOf(ctx: BaseServiceContext, clientId: string | null | undefined) {
+  return clientId ? ((await getApplication(ctx, clientId))?.app ?? null) : null
+}
+
+/**
+ * The scopes a token request would be issued: the narrower `scope` it asks
+ * for, or those of the authorization code or refresh token it redeems.
+ * oauth-provider stores both hashed (SHA-256, base64url) by default.
+ */
+async function tokenRequestScopes(
+  ctx: BaseServiceContext,
+  body: Record<string, unknown>,
+): Promise<string[]> {
+  if (typeof body.scope === "string") return body.scope.split(" ").filter(Boolean)
+  if (body.grant_type === "authorization_code" && typeof body.code === "string") {
+    const [verification] = await ctx.db
+      .select({ value: schema.verification.value })
+      .from(schema.verification)
+      .where(eq(schema.verification.identifier, await sha256Base64Url(body.code)))
+      .limit(1)
+    try {
+      const value = verification
+        ? (JSON.parse(verification.value) as { query?: { scope?: string } })
+        : null
+      return value?.query?.scope?.split(" ").filter(Boolean) ?? []
+    } catch {
+      return []
+    }
+  }
+  if (body.grant_type === "refresh_token" && typeof body.refresh_token === "string") {
+    const [row] = await ctx.db
+      .select({ scopes: schema.oauthRefreshToken.scopes })
+      .from(schema.oauthRefreshToken)
+      .where(eq(schema.oauthRefreshToken.token, await sha256Base64Url(body.refresh_token)))
+      .limit(1)
+    return coerceUriList(row?.scopes)
+  }
+  return []
+}
+
+/**
+ * Better Auth plugin that lets an application's clients ask for tokens for
+ * its APIs. oauth-provider checks a `resource` against `validAudiences` — pass
+ * the array to it; the auth instance is per request, so the token hook adds
+ * the client's app's identifiers for this request only. A token for an API
+ * carries only the scopes that API defines (and the OIDC scopes): asking for
+ * one with another API's scopes is invalid_scope, so a client holding scopes
+ * of several APIs asks for each API's token with its `scope`.
+ * client_credentials is checked by its own plugin (client-credentials.server.ts).
+ *
+ * Introspection, revocation and userinfo verify JWT access tokens against
+ * `validAudiences` too, without knowing the client up front: they get every
+ * API's identifier.
+ */
+export function apiResources(context: BaseServiceContext, validAudiences: string[]) {
+  return {
+    id: "api-resources",
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => ctx.path === "/oauth2/token",
+          handler: createAuthMiddleware(async (ctx) => {
+            const body = (ctx.body ?? {}) as Record<string, unknown>
+            const app = await appOf(context, requestClientId(ctx.request, body))
+            if (!app) return
+            const resources = await listApiResources(context, app)
+            validAudiences.push(...resources.map((r) => r.identifier))
+
+            const targets = [body.resource ?? []].flat()
+            if (targets.length === 0 || body.grant_type === "client_credentials") return
+            const bound = resources
+              .filter((r) => targets.includes(r.identifier))
+              .flatMap((r) => r.scopes.map((s) => s.name))
+            const scopes = await tokenRequestScopes(context, body)
+            const crossed = scopes.filter((s) => !USER_SCOPES.includes(s) && !bound.includes(s))
+            if (crossed.length) {
+              throw new APIError("BAD_REQUEST", {
+                error: "invalid_scope",
+                error_description: `${crossed.join(", ")} can't be used with ${targets.join(", ")}.`,
+              })
+            }
+          }),
+        },
+        {
+          matcher: (ctx) =>
+            ctx.path === "/oauth2/introspect" ||
+            ctx.path === "/oauth2/revoke" ||
+            ctx.path === "/oauth2/userinfo",
+          handler: createAuthMiddleware(async () => {
+            const resources = await context.db
+              .select({ identifier: schema.apiResource.identifier })
+              .from(schema.apiResource)
+            validAudiences.push(...resources.map((r) => r.identifier))
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
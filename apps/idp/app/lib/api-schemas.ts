@@ -1,5 +1,8 @@
 import { z } from "zod"
 
+import { APP_PERMISSIONS } from "./permissions"
+import { isValidRedirectUri } from "./validate"
+
 export const ApplicationSchema = z.object({
   clientId: z.string(),
   name: z.string().nullable(),
@@ -25,6 +28,175 @@ export const WorkspaceSchema = z.object({
   createdAt: z.string(),
 })
 
+export const AppMemberSchema = z.object({
+  userId: z.string(),
+  email: z.string(),
+  name: z.string().nullable(),
+  role: z.enum(["admin", "member"]),
+  permissions: z.array(z.string()).describe("Explicit grants; admins implicitly hold all"),
+})
+
 export const ApplicationListSchema = z.object({ applications: z.array(ApplicationSchema) })
 export const UserListSchema = z.object({ users: z.array(UserSchema) })
 export const WorkspaceListSchema = z.object({ workspaces: z.array(WorkspaceSchema) })
+export const AppMemberListSchema = z.object({ members: z.array(AppMemberSchema) })
+
+// --- Write payloads ---
+
+const RedirectUriSchema = z
+  .string()
+  .refine(
+    isValidRedirectUri,
+    "Must be https, http on localhost, or a private-use scheme like com.example.app:/callback",
+  )
+
+export const CreateApplicationSchema = z.object({
+  name: z.string().trim().min(1),
+  app: z.string().trim().min(1).describe("Stable application key, e.g. invoices. Must be unique"),
+  redirectUris: z.array(RedirectUriSchema).min(1),
+  adminUserId: z.string().optional().describe("User to make the application's first admin"),
+})
+
+export const UpdateApplicationSchema = z
+  .object({
+    name: z.string().trim().min(1).optional(),
+    redirectUris: z.array(RedirectUriSchema).min(1).optional(),
+  })
+  .refine((u) => Object.keys(u).length > 0, "Nothing to update")
+
+export const ClientCredentialsSchema = z.object({
+  clientId: z.string(),
+  clientSecret: z.string().describe("Plaintext secret. Shown once; only a hash is stored"),
+})
+
+export const ClientCredentialsGrantSchema = z.object({
+  enabled: z.boolean().describe("Whether the client may use grant_type=client_credentials"),
+  scopes: z
+    .array(z.string().min(1))
+    .describe("Scopes of its audiences it may ask for; all of them when it asks for none"),
+  audiences: z
+    .array(z.string())
+    .describe("Identifiers of the application's APIs it may ask tokens for as `resource`"),
+})
+
+export const CreateWorkspaceSchema = z.object({
+  name: z.string().trim().min(1),
+  slug: z.string().trim().min(1),
+  ownerUserId: z.string().describe("User who becomes the workspace owner"),
+})
+
+export const GrantAppMemberSchema = z.object({
+  role: z.enum(["admin", "member"]),
+  permissions: z.array(z.enum(APP_PERMISSIONS)).default([]).describe("Ignored for admins"),
+})
+
+// --- API keys ---
+
+export const ApiKeySchema = z.object({
+  id: z.string(),
+  applicationId: z.string().nullable().describe("App key the key is scoped to; null = IdP-wide"),
+  name: z.string(),
+  prefix: z.string().describe("Non-secret head of the key, for telling keys apart"),
+  permissions: z.array(z.string()),
+  ownerEmail: z.string().nullable(),
+  expiresAt: z.string().nullable(),
+  lastUsedAt: z.string().nullable(),
+  revokedAt: z.string().nullable(),
+  createdAt: z.string(),
+})
+
+export const ApiKeyListSchema = z.object({ apiKeys: z.array(ApiKeySchema) })
+
+export const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1),
+  permissions: z
+    .array(z.enum(APP_PERMISSIONS))
+    .min(1)
+    .describe("Must be a subset of the calling key's permissions"),
+  expiresInDays: z.number().int().positive().max(1825).optional().describe("Omit for no expiry"),
+})
+
+export const CreatedApiKeySchema = z.object({
+  id: z.string(),
+  prefix: z.string(),
+  key: z.string().describe("Plaintext key. Shown once; only a hash is stored"),
+})
+
+// --- Permission catalog ---
+
+const PermissionNameSchema = z
+  .string()
+  .regex(/^[a-z0-9_-]+(:[a-z0-9_-]+)*$/, "Use lowercase resource:action names, e.g. contacts:read")
+
+export const PermissionCatalogSchema = z
+  .object({
+    permissions: z.array(PermissionNameSchema).describe("Every permission the application declares"),
+    roles: z
+      .record(z.string().min(1), z.array(PermissionNameSchema))
+      .describe("Workspace role -> granted permissions, e.g. { admin: [...], member: [...] }"),
+  })
+  .superRefine((catalog, ctx) => {
+    const declared = new Set(catalog.permissions)
+    for (const [role, granted] of Object.entries(catalog.roles)) {
+      for (const p of granted) {
+        if (!declared.has(p))
+          ctx.addIssue({
+            code: "custom",
+            path: ["roles", role],
+            message: `"${p}" isn't in the permissions list`,
+          })
+      }
+    }
+  })
+
+// --- Audit trail ---
+
+export const AuditEventSchema = z.object({
+  id: z.number().int(),
+  table: z.string().describe("Audited table, e.g. oauth_client, application_member"),
+  operation: z.enum(["INSERT", "UPDATE", "DELETE"]),
+  rowId: z.string().nullable(),
+  actor: z.object({
+    id: z.string().nullable().describe("User id, `apikey:<id>`, or null for system writes"),
+    label: z.string().nullable().describe("User email or API key name"),
+    kind: z.enum(["user", "apikey", "system"]),
+  }),
+  changes: z
+    .array(z.object({ field: z.string(), before: z.unknown(), after: z.unknown() }))
+    .describe("Changed columns only; secret columns read [redacted]"),
+  createdAt: z.string().describe("UTC, `YYYY-MM-DD HH:MM:SS`"),
+})
+
+export const AuditPageSchema = z.object({
+  events: z.array(AuditEventSchema),
+  nextCursor: z.number().int().nullable().describe("Pass as `before` for the next page"),
+})
+
+// --- User metadata ---
+
+const MetadataKeySchema = z.string().min(1).max(64)
+
+export const UserMetadataObjectSchema = z
+  .record(z.string(), z.unknown())
+  .describe("A JSON object; PATCH bodies use JSON merge-patch (RFC 7396), `null` removes a key")
+
+export const UserMetadataSchema = z.object({
+  userId: z.string(),
+  data: UserMetadataObjectSchema,
+  updatedAt: z.string().nullable().describe("Null until the application writes something"),
+})
+
+export const UserMetadataConfigSchema = z.object({
+  jsonSchema: z
+    .record(z.string(), z.unknown())
+    .nullable()
+    .describe("JSON Schema every write must satisfy; null for none"),
+  claimKeys: z
+    .array(MetadataKeySchema)
+    .max(20)
+    .describe("Top-level keys copied into the https://willy.im/metadata id_token/userinfo claim"),
+  userEditableKeys: z
+    .array(MetadataKeySchema)
+    .max(20)
+    .describe("Top-level keys users may change themselves on /account"),
+})
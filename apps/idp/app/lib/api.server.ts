@@ -0,0 +1,68 @@
+import type { z } from "zod"
+
+import { getApplication, isRegisteredClient, type ApplicationSummary } from "./admin.server"
+import type { ApiKeySummary } from "./api-keys.server"
+import type { BaseServiceContext } from "./services"
+
+/** A JSON error response in the management API's `{ error, message? }` shape. */
+export function apiError(status: number, error: string, message?: string) {
+  return Response.json(message ? { error, message } : { error }, { status })
+}
+
+/** Throws 405 for verbs a resource route doesn't handle. */
+export function methodNotAllowed(): never {
+  throw apiError(405, "method_not_allowed")
+}
+
+/** Parses the JSON body against `schema`; throws a 400 listing the zod issues. */
+export async function readJsonBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<z.output<T>> {
+  let raw: unknown
+  try {
+    raw = await request.json()
+  } catch {
+    throw apiError(400, "invalid_json", "Request body must be JSON.")
+  }
+  const parsed = schema.safeParse(raw)
+  if (!parsed.success) {
+    throw Response.json(
+      {
+        error: "invalid_request",
+        issues: parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+      },
+      { status: 400 },
+    )
+  }
+  return parsed.data
+}
+
+/**
+ * The application behind a `:clientId` path segment. Must exist and carry an
+ * app key — every app-scoped resource (members, workspaces) hangs off the key.
+ */
+export async function requireApplication(
+  ctx: BaseServiceContext,
+  clientId: string,
+): Promise<ApplicationSummary & { app: string }> {
+  const application = await getApplication(ctx, clientId)
+  if (!application || (await isRegisteredClient(ctx, clientId)))
+    throw apiError(404, "not_found", "Application not found.")
+  if (!application.app) throw apiError(409, "missing_app_key", "Application has no app key.")
+  return { ...application, app: application.app }
+}
+
+export function serializeApplication(a: ApplicationSummary) {
+  return { ...a, createdAt: a.createdAt.toISOString() }
+}
+
+export function serializeApiKey(k: ApiKeySummary) {
+  return {
+    ...k,
+    expiresAt: k.expiresAt?.toISOString() ?? null,
+    lastUsedAt: k.lastUsedAt?.toISOString() ?? null,
+    revokedAt: k.revokedAt?.toISOString() ?? null,
+    createdAt: k.createdAt.toISOString(),
+  }
+}
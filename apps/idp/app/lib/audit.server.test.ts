@@ -0,0 +1,128 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as schema from "../db/schema"
+import { createApplication, grantAppMember, revokeAppMember } from "./admin.server"
+import { createApiResource } from "./api-resources.server"
+import { listAuditEvents, setAuditActor, setAuditApiKeyActor } from "./audit.server"
+import { setClientCredentialsGrant } from "./client-credentials.server"
+import { createTestContext, createUser, type TestContext } from "./testing"
+
+let ctx: TestContext
+let clientId: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+})
+
+const post = new Request("http://localhost:5173/app", { method: "POST" })
+
+function actors(table: string) {
+  return ctx.sqlite
+    .prepare("select user_id as actor from audit_logs where table_name = ? order by id")
+    .all(table)
+    .map((row) => (row as { actor: string | null }).actor)
+}
+
+describe("audit actor", () => {
+  it("stamps the request's writes and leaves no context behind", async () => {
+    const userId = createUser(ctx)
+    setAuditActor(post, ctx, "admin-1")
+    await grantAppMember(ctx, "acme", userId, { role: "member" })
+    await revokeAppMember(ctx, "acme", userId)
+    expect(actors("application_member")).toEqual(["admin-1", "admin-1"])
+    expect(ctx.sqlite.prepare("select * from _audit_context").all()).toEqual([])
+  })
+
+  it("isn't set by reads", async () => {
+    setAuditActor(new Request("http://localhost:5173/app"), ctx, "admin-1")
+    await grantAppMember(ctx, "acme", createUser(ctx), { role: "member" })
+    expect(actors("application_member")).toEqual([null])
+  })
+
+  it("doesn't leak into another request's writes", async () => {
+    const other = createTestContext(ctx.sqlite)
+    setAuditApiKeyActor(post, ctx, "key-1")
+    const [a, b] = [createUser(ctx), createUser(ctx)]
+    await Promise.all([
+      grantAppMember(ctx, "acme", a, { role: "member" }),
+      grantAppMember(other, "acme", b, { role: "member" }).then(() =>
+        revokeAppMember(other, "acme", b),
+      ),
+    ])
+    const rows = ctx.sqlite
+      .prepare(
+        "select json_extract(coalesce(new_data, old_data), '$.user_id') as user, user_id as actor from audit_logs where table_name = 'application_member'",
+      )
+      .all()
+    expect(rows).toEqual(
+      expect.arrayContaining([
+        { user: a, actor: "apikey:key-1" },
+        { user: b, actor: null },
+      ]),
+    )
+    expect(rows).toHaveLength(3)
+  })
+
+  it("covers batched writes", async () => {
+    setAuditActor(post, ctx, "admin-1")
+    const [a, b] = [createUser(ctx), createUser(ctx)]
+    await ctx.db.batch([
+      ctx.db
+        .insert(schema.applicationMember)
+        .values({ applicationId: "acme", userId: a, role: "member", permissions: [] }),
+      ctx.db
+        .insert(schema.applicationMember)
+        .values({ applicationId: "acme", userId: b, role: "member", permissions: [] })
+        .returning(),
+    ])
+    expect(actors("application_member")).toEqual(["admin-1", "admin-1"])
+  })
+})
+
+describe("listAuditEvents", () => {
+  it("includes an application's API resources, and not another's", async () => {
+    await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    setAuditActor(post, ctx, "admin-1")
+    await createApiResource(ctx, "acme", {
+      identifier: "https://api.acme.test",
+      name: "Acme",
+      scopes: [],
+    })
+    await createApiResource(ctx, "other", {
+      identifier: "https://api.other.test",
+      name: "Other",
+      scopes: [],
+    })
+
+    const { events } = await listAuditEvents(ctx, { application: { app: "acme", clientId } })
+    const resources = events.filter((e) => e.table === "api_resource")
+    expect(resources).toHaveLength(1)
+    expect(resources[0]).toMatchObject({ operation: "INSERT", actor: { id: "admin-1" } })
+  })
+  it("includes changes to its client's machine access", async () => {
+    await createApiResource(ctx, "acme", {
+      identifier: "https://api.acme.test",
+      name: "Acme",
+      scopes: [{ name: "invoices:read", description: "Read invoices" }],
+    })
+    await setClientCredentialsGrant(ctx, clientId, "acme", {
+      enabled: true,
+      scopes: ["invoices:read"],
+      audiences: ["https://api.acme.test"],
+    })
+
+    const { events } = await listAuditEvents(ctx, { application: { app: "acme", clientId } })
+    expect(events.filter((e) => e.table === "client_credentials_grant")).toMatchObject([
+      { operation: "INSERT" },
+    ])
+  })
+})
@@ -0,0 +1,233 @@
+import { and, desc, eq, inArray, lt, sql, type SQL } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * Audit trail. Triggers from @willyim/drizzle-audit (migration 0009, generated
+ * by scripts/audit-triggers.gen.ts) copy every write to the audited tables into
+ * `audit_logs`, stamped with the `user_id` found in `_audit_context`.
+ *
+ * D1 has no per-connection state, so that row is shared by every request. The
+ * request gates name the actor on the request's context (`ctx.audit`), and
+ * the D1 binding from auditedD1 sends each write as a batch — set the row,
+ * write, clear it — which D1 runs as one transaction, so no other request's
+ * write can land in between. The package's own setD1AuditContext executes its
+ * statement on the spot (and needs drizzle-orm 1.x), so the statements it
+ * issues are repeated here instead.
+ */
+
+const ACTOR_KEY = "user_id"
+const API_KEY_ACTOR = "apikey:"
+
+/** Who the current request's writes are attributed to, if anyone. */
+export type AuditScope = { actor: string | null }
+
+/** Columns whose values never leave the database; the log only says they changed. */
+const REDACTED_FIELDS = new Set(["client_secret"])
+const REDACTED = "[redacted]"
+
+/** Writes are only attributed on methods that can mutate. */
+function isMutation(request: Request) {
+  return request.method !== "GET" && request.method !== "HEAD"
+}
+
+/** Attributes this request's writes to a user id (or `apikey:<id>`). No-op for reads. */
+export function setAuditActor(request: Request, ctx: BaseServiceContext, actor: string) {
+  if (isMutation(request)) ctx.audit.actor = actor
+}
+
+/** `setAuditActor` for a management API key. */
+export function setAuditApiKeyActor(request: Request, ctx: BaseServiceContext, keyId: string) {
+  setAuditActor(request, ctx, `${API_KEY_ACTOR}${keyId}`)
+}
+
+const WRITE = /^\s*(insert|update|delete|replace)\b/i
+
+/** The D1 statement each of ours stands for, and whether it writes (for `batch`). */
+const unwrapped = new WeakMap<D1PreparedStatement, { inner: D1PreparedStatement; write: boolean }>()
+
+/**
+ * A D1 binding whose writes carry `scope.actor` (when set) into the audit
+ * triggers: each write — or batch containing one — runs as
+ * `[set actor, …writes, clear actor]`.
+ */
+export function auditedD1(d1: D1Database, scope: AuditScope): D1Database {
+  const actorBatch = async (statements: D1PreparedStatement[]) => {
+    const results = await d1.batch([
+      d1
+        .prepare(`insert or replace into _audit_context (key, value) values ('${ACTOR_KEY}', ?)`)
+        .bind(scope.actor),
+      ...statements,
+      d1.prepare(`delete from _audit_context where key = '${ACTOR_KEY}'`),
+    ])
+    return results.slice(1, -1)
+  }
+
+  const statement = (inner: D1PreparedStatement, write: boolean): D1PreparedStatement => {
+    const attributed = () => write && scope.actor !== null
+    const once = async () => (await actorBatch([inner]))[0]
+    const wrapped = {
+      bind: (...values: unknown[]) => statement(inner.bind(...values), write),
+      run: () => (attributed() ? once() : inner.run()),
+      all: () => (attributed() ? once() : inner.all()),
+      first: async (column?: string) => {
+        if (!attributed()) return column ? inner.first(column) : inner.first()
+        const row = (await once()).results[0] as Record<string, unknown> | undefined
+        return (column ? row?.[column] : row) ?? null
+      },
+      raw: async (options?: { columnNames?: boolean }) => {
+        if (!attributed()) return inner.raw(options as { columnNames: true })
+        const rows = (await once()).results as Record<string, unknown>[]
+        const values = rows.map((row) => Object.values(row))
+        return options?.columnNames ? [Object.keys(rows[0] ?? {}), ...values] : values
+      },
+    } as unknown as D1PreparedStatement
+    unwrapped.set(wrapped, { inner, write })
+    return wrapped
+  }
+
+  return {
+    prepare: (query: string) => statement(d1.prepare(query), WRITE.test(query)),
+    batch: (statements: D1PreparedStatement[]) => {
+      const parts = statements.map((s) => unwrapped.get(s) ?? { inner: s, write: false })
+      const inner = parts.map((p) => p.inner)
+      return scope.actor !== null && parts.some((p) => p.write)
+        ? actorBatch(inner)
+        : d1.batch(inner)
+    },
+    exec: (query: string) => d1.exec(query),
+  } as unknown as D1Database
+}
+
+export type AuditChange = { field: string; before: unknown; after: unknown }
+
+export type AuditEvent = {
+  id: number
+  table: string
+  operation: schema.AuditLog["operation"]
+  rowId: string | null
+  actor: { id: string | null; label: string | null; kind: "user" | "apikey" | "system" }
+  changes: AuditChange[]
+  createdAt: string
+}
+
+export type AuditPage = { events: AuditEvent[]; nextCursor: number | null }
+
+const MAX_PAGE = 100
+
+function parseRow(json: string | null): Record<string, unknown> {
+  if (!json) return {}
+  try {
+    return JSON.parse(json) as Record<string, unknown>
+  } catch {
+    return {}
+  }
+}
+
+/** Field-level diff of one log row; UPDATEs list only the fields that changed. */
+function diff(log: schema.AuditLog): AuditChange[] {
+  const before = parseRow(log.oldData)
+  const after = parseRow(log.newData)
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])]
+  return fields
+    .filter((f) => JSON.stringify(before[f] ?? null) !== JSON.stringify(after[f] ?? null))
+    .map((field) => {
+      const redact = (v: unknown) => (REDACTED_FIELDS.has(field) && v != null ? REDACTED : v)
+      return {
+        field,
+        before: log.operation === "INSERT" ? null : redact(before[field] ?? null),
+        after: log.operation === "DELETE" ? null : redact(after[field] ?? null),
+      }
+    })
+}
+
+/** Audited tables whose rows carry the app key in `application_id`. */
+const APP_SCOPED_TABLES = [
+  "application_member",
+  "organization",
+  "user_app_metadata",
+  "user_metadata_config",
+  "application_domain",
+  "application_settings",
+  "impersonation",
+  "scim_user",
+  "saml_service_provider",
+  "webhook_endpoint",
+  "api_resource",
+]
+
+/** Rows belonging to one application, matched on the logged row images. */
+function applicationFilter(app: string, clientId: string): SQL {
+  const image = sql`coalesce(${schema.auditLogs.newData}, ${schema.auditLogs.oldData})`
+  return sql`(
+    (${schema.auditLogs.tableName} in ('oauth_client', 'client_credentials_grant')
+      and json_extract(${image}, '$.client_id') = ${clientId})
+    or (${inArray(schema.auditLogs.tableName, APP_SCOPED_TABLES)}
+      and json_extract(${image}, '$.application_id') = ${app})
+    or (${schema.auditLogs.tableName} = 'member'
+      and json_extract(${image}, '$.organization_id') in (
+        select ${schema.organization.id} from ${schema.organization}
+        where ${schema.organization.applicationId} = ${app}
+        union
+        select a.row_id from audit_logs a
+        where a.table_name = 'organization'
+          and json_extract(coalesce(a.new_data, a.old_data), '$.application_id') = ${app}
+      ))
+  )`
+}
+
+/**
+ * Newest-first page of audit events, for one application or (no `application`)
+ * the whole IdP. Page with `before` = the previous page's `nextCursor`.
+ */
+export async function listAuditEvents(
+  ctx: BaseServiceContext,
+  opts: { application?: { app: string; clientId: string }; before?: number; limit?: number },
+): Promise<AuditPage> {
+  const limit = Math.min(Math.max(opts.limit ?? 50, 1), MAX_PAGE)
+  const conditions: SQL[] = []
+  if (opts.application)
+    conditions.push(applicationFilter(opts.application.app, opts.application.clientId))
+  if (opts.before) conditions.push(lt(schema.auditLogs.id, opts.before))
+
+  const rows = await ctx.db
+    .select({
+      log: schema.auditLogs,
+      userEmail: schema.user.email,
+      apiKeyName: schema.apiKey.name,
+    })
+    .from(schema.auditLogs)
+    .leftJoin(schema.user, eq(schema.auditLogs.userId, schema.user.id))
+    .leftJoin(
+      schema.apiKey,
+      eq(schema.auditLogs.userId, sql`${API_KEY_ACTOR} || ${schema.apiKey.id}`),
+    )
+    .where(conditions.length ? and(...conditions) : undefined)
+    .orderBy(desc(schema.auditLogs.id))
+    .limit(limit + 1)
+
+  const page = rows.slice(0, limit)
+  return {
+    events: page.map(({ log, userEmail, apiKeyName }) => ({
+      id: log.id,
+      table: log.tableName,
+      operation: log.operation,
+      rowId: log.rowId,
+      actor: !log.userId
+        ? { id: null, label: null, kind: "system" }
+        : log.userId.startsWith(API_KEY_ACTOR)
+          ? { id: log.userId, label: apiKeyName ?? null, kind: "apikey" }
+          : { id: log.userId, label: userEmail ?? null, kind: "user" },
+      changes: diff(log),
+      createdAt: log.createdAt,
+    })),
+    nextCursor: rows.length > limit ? page[page.length - 1].log.id : null,
+  }
+}
+
+/** Parses a `before` cursor from a query string; anything else is "first page". */
+export function parseAuditCursor(raw: string | null) {
+  const n = Number(raw)
+  return Number.isInteger(n) && n > 0 ? n : undefined
+}
@@ -1,11 +1,12 @@
 import { createAuthClient } from "better-auth/client"
-import { emailOTPClient } from "better-auth/client/plugins"
+import { emailOTPClient, twoFactorClient } from "better-auth/client/plugins"
 import { passkeyClient } from "@better-auth/passkey/client"
 import { oauthProviderClient } from "@better-auth/oauth-provider/client"
 
 export const authClient = createAuthClient({
   basePath: "/auth",
   // oauthProviderClient auto-carries the signed authorize query through sign-in
-  // and exposes oauth2.consent for the consent page.
-  plugins: [emailOTPClient(), passkeyClient(), oauthProviderClient()],
+  // and exposes oauth2.consent for the consent page. The second-factor step is
+  // rendered in place (login, /mfa), so twoFactorClient gets no redirect page.
+  plugins: [emailOTPClient(), passkeyClient(), twoFactorClient(), oauthProviderClient()],
 })
@@ -4,39 +4,93 @@ import { drizzleAdapter } from "better-auth/adapters/drizzle"
 import { emailOTP } from "better-auth/plugins/email-otp"
 import { jwt } from "better-auth/plugins/jwt"
 import { organization } from "better-auth/plugins/organization"
+import { twoFactor } from "better-auth/plugins/two-factor"
 import { passkey } from "@better-auth/passkey"
 import { oauthProvider } from "@better-auth/oauth-provider"
-import { Resend } from "resend"
 
 import * as schema from "../db/schema"
+import { getApplication } from "./admin.server"
+import { apiResources } from "./api-resources.server"
+import { accentForeground, type Branding } from "./branding"
+import { brandingFor } from "./branding.server"
+import { clientCredentials } from "./client-credentials.server"
+import { clientRegistration } from "./client-registration.server"
+import { deviceAuthorization } from "./device-authorization.server"
+import { escapeHtml, sendEmail } from "./email.server"
+import { actClaim, findImpersonationBySession, impersonation } from "./impersonation.server"
+import { logoutChannels } from "./logout.server"
+import { mfa } from "./mfa.server"
+import {
+  getPermissionCatalog,
+  PERMISSIONS_CLAIM,
+  permissionsForRole,
+} from "./permission-catalog.server"
+import { pendingAuthorization } from "./pending-authorization.server"
+import { rateLimiting } from "./rate-limit.server"
 import type { BaseServiceContext } from "./services"
+import { signInPolicy } from "./sign-in-policy.server"
+import { signingKeys } from "./signing-keys.server"
+import { defaultTenant, tenantBoundary, type Tenant } from "./tenant.server"
+import { metadataClaimsFor } from "./user-metadata.server"
+import { webhookEvents } from "./webhooks.server"
 
 /**
  * Builds the sign-in email. Contains both the 6-digit code (type it) and a
  * sign-in link that carries the code (click it) — one email, both UX paths.
+ * Carries the app's name, logo and accent when signing into a branded app.
  */
-function renderOtpEmail(baseUrl: string, email: string, otp: string) {
+function renderOtpEmail(baseUrl: string, email: string, otp: string, branding: Branding | null) {
   const link = `${baseUrl}/login/verify?email=${encodeURIComponent(email)}&code=${otp}`
+  const name = escapeHtml(branding?.name ?? "willy.im")
+  const accent = branding?.accentColor ?? "#0a0a0a"
+  const logo = branding?.logoUrl
+    ? `<p><img src="${escapeHtml(branding.logoUrl)}" alt="${name}" width="40" height="40" style="border-radius:8px;"></p>`
+    : ""
+  const support = branding?.supportEmail
+    ? ` Questions? Write to <a href="mailto:${escapeHtml(branding.supportEmail)}">${escapeHtml(branding.supportEmail)}</a>.`
+    : ""
   return {
-    subject: `${otp} is your willy.im sign-in code`,
+    subject: `${otp} is your ${branding?.name ?? "willy.im"} sign-in code`,
     html: `<!DOCTYPE html><html><body style="font-family:system-ui,sans-serif;max-width:32rem;margin:0 auto;padding:1.5rem;color:#0a0a0a;">
-      <p>Your willy.im sign-in code:</p>
+      ${logo}<p>Your ${name} sign-in code:</p>
       <p style="font-size:1.75rem;font-weight:700;letter-spacing:0.25em;margin:0.5rem 0;">${otp}</p>
       <p>Or click to sign in instantly:</p>
-      <p><a href="${link}" style="display:inline-block;background:#0a0a0a;color:#fafafa;padding:12px 24px;text-decoration:none;border-radius:8px;margin:8px 0;">Sign in to willy.im</a></p>
+      <p><a href="${link}" style="display:inline-block;background:${accent};color:${accentForeground(accent)};padding:12px 24px;text-decoration:none;border-radius:8px;margin:8px 0;">Sign in to ${name}</a></p>
+      <p style="color:#666;font-size:14px;">This code expires in 10 minutes. If you didn't request it, ignore this email.${support}</p>
+    </body></html>`,
+  }
+}
+
+/** Confirms a new address from /account. No link: the code is typed where it was requested. */
+function renderEmailChangeEmail(otp: string) {
+  return {
+    subject: `${otp} is your willy.im email change code`,
+    html: `<!DOCTYPE html><html><body style="font-family:system-ui,sans-serif;max-width:32rem;margin:0 auto;padding:1.5rem;color:#0a0a0a;">
+      <p>Use this code to make this your willy.im email address:</p>
+      <p style="font-size:1.75rem;font-weight:700;letter-spacing:0.25em;margin:0.5rem 0;">${otp}</p>
       <p style="color:#666;font-size:14px;">This code expires in 10 minutes. If you didn't request it, ignore this email.</p>
     </body></html>`,
   }
 }
 
+/**
+ * OIDC `updated_at` (seconds). Better Auth bumps user.updatedAt on every
+ * profile write (name, picture, email), so apps can tell when to refresh.
+ */
+function updatedAtClaim(user: { updatedAt: Date }, scopes: string[]) {
+  return scopes.includes("profile")
+    ? { updated_at: Math.floor(new Date(user.updatedAt).getTime() / 1000) }
+    : {}
+}
+
 const WORKSPACES_CLAIM = "https://willy.im/workspaces"
 
 /**
  * The workspaces (organizations) the user belongs to *within one application*,
  * with their role. Scoped by organization.applicationId so a consumer only ever
- * sees its own tenants. Consumers map role -> permissions via packages/rbac.
+ * sees its own tenants.
  */
-async function workspaceClaimsFor(db: BaseServiceContext["db"], userId: string, app?: string) {
+export async function workspaceClaimsFor(db: BaseServiceContext["db"], userId: string, app?: string) {
   if (!app) return []
   return db
     .select({
@@ -50,16 +104,55 @@ async function workspaceClaimsFor(db: BaseServiceContext["db"], userId: string,
     .where(and(eq(schema.member.userId, userId), eq(schema.organization.applicationId, app)))
 }
 
-export function createAuthService(context: BaseServiceContext) {
+/**
+ * Everything we add to tokens for one application: its workspaces + roles, and
+ * the permissions each role resolves to in the app's catalog, keyed by
+ * workspace id. Apps enforce the permissions; roles are informational.
+ */
+async function appClaimsFor(context: BaseServiceContext, userId: string, app?: string) {
+  const workspaces = await workspaceClaimsFor(context.db, userId, app)
+  if (!app || !workspaces.length) return {}
+  const catalog = await getPermissionCatalog(context, app)
+  return {
+    [WORKSPACES_CLAIM]: workspaces,
+    [PERMISSIONS_CLAIM]: Object.fromEntries(
+      workspaces.map((w) => [w.id, permissionsForRole(catalog, w.role)]),
+    ),
+  }
+}
+
+function appFromMetadata(metadata: Record<string, unknown> | undefined) {
+  return (metadata as { app?: string } | undefined)?.app
+}
+
+/**
+ * The auth instance for one request's tenant (see tenant.server.ts): the
+ * issuer, trusted origin and passkey rpID all follow the hostname it was
+ * resolved from, so idp.kasso.do and idp.willy.im are separate issuers.
+ */
+export function createAuthService(
+  context: BaseServiceContext,
+  tenant: Tenant = defaultTenant(context),
+) {
   const env = context.getAppEnv()
   const isProd = env.APP_ENV === "production"
-  const url = new URL(env.BETTER_AUTH_URL)
+  const url = new URL(tenant.origin)
 
   // In dev, trust common localhost ports so a default `npm run dev` (5173) works
-  // even if BETTER_AUTH_URL points elsewhere. Prod trusts only its own origin.
-  const trustedOrigins = isProd
-    ? [url.origin]
-    : [...new Set([url.origin, "http://localhost:5173", "http://localhost:9100"])]
+  // even if BETTER_AUTH_URL points elsewhere. Prod (and every custom domain)
+  // trusts only its own origin.
+  const trustedOrigins =
+    isProd || tenant.app
+      ? [url.origin]
+      : [...new Set([url.origin, "http://localhost:5173", "http://localhost:9100"])]
+
+  const impersonating = impersonation(context)
+  const authorizing = pendingAuthorization(context)
+  const policy = signInPolicy(context, tenant, authorizing)
+  const secondFactor = mfa(context)
+  const events = webhookEvents(context, policy.signingInto)
+  const machine = clientCredentials(context, `${url.origin}/auth`)
+  const keys = signingKeys(context)
 
   return betterAuth({
     appName: "willy.im",
@@ -67,26 +160,43 @@ export function createAuthService(context: BaseServiceContext) {
     baseURL: url.origin,
     secret: env.BETTER_AUTH_SECRET,
     trustedOrigins,
+    // The client's address as Cloudflare saw it, for sessions and rate limits.
+    advanced: { ipAddress: { ipAddressHeaders: ["cf-connecting-ip", "x-forwarded-for"] } },
     database: drizzleAdapter(context.db, { provider: "sqlite", schema }),
     session: {
       expiresIn: 60 * 60 * 24 * 30, // 30 days
       updateAge: 60 * 60 * 24, // refresh daily
+      // RFC 8176 methods this session's sign-in used, space-separated (mfa.server.ts).
+      additionalFields: {
+        amr: { type: "string", required: false, input: false },
+      },
     },
     plugins: [
       emailOTP({
         otpLength: 6,
         expiresIn: 60 * 10,
-        async sendVerificationOTP({ email, otp }) {
-          const { subject, html } = renderOtpEmail(url.origin, email, otp)
-
-          if (!isProd || !env.RESEND_TOKEN) {
-            context.logger.info(`[auth] OTP for ${email}: ${otp}`)
-            context.logger.info(`[auth] sign-in link: ${url.origin}/login/verify?email=${encodeURIComponent(email)}&code=${otp}`)
+        // Email changes from /account: the code goes to the new address.
+        changeEmail: { enabled: true },
+        async sendVerificationOTP({ email, otp, type }) {
+          if (type === "change-email") {
+            await sendEmail(context, {
+              to: email,
+              ...renderEmailChangeEmail(otp),
+              devLines: [`[auth] email change code for ${email}: ${otp}`],
+            })
             return
           }
-
-          const resend = new Resend(env.RESEND_TOKEN)
-          await resend.emails.send({ from: env.EMAIL_FROM, to: email, subject, html })
+          const branding = await brandingFor(context, tenant, authorizing.clientId())
+          const { subject, html } = renderOtpEmail(url.origin, email, otp, branding)
+          await sendEmail(context, {
+            to: email,
+            subject,
+            html,
+            devLines: [
+              `[auth] OTP for ${email}: ${otp}`,
+              `[auth] sign-in link: ${url.origin}/login/verify?email=${encodeURIComponent(email)}&code=${otp}`,
+            ],
+          })
         },
       }),
       passkey({
@@ -99,6 +209,8 @@ export function createAuthService(context: BaseServiceContext) {
       // apps map roles -> permissions locally via packages/rbac.
       organization({
         allowUserToCreateOrganization: true,
+        // member.* and workspace.* webhooks for the workspace's application.
+        organizationHooks: events.organizationHooks,
         schema: {
           organization: {
             additionalFields: {
@@ -107,23 +219,89 @@ export function createAuthService(context: BaseServiceContext) {
           },
         },
       }),
-      // OIDC signing keys for id_tokens issued by the OAuth provider.
-      jwt(),
+      // OIDC signing keys for id_tokens issued by the OAuth provider, rotated
+      // on a schedule (signing-keys.server.ts).
+      jwt(keys.options),
+      keys.plugin,
+      // TOTP + backup codes, enrolled from /account. Accounts have no
+      // passwords; mfa.server.ts adds the challenge after email/passkey sign-in.
+      twoFactor({ allowPasswordless: true, issuer: "willy.im" }),
+      tenantBoundary(context, tenant),
+      // App admins acting as one of their app's users (console → Impersonation).
+      impersonating.plugin,
+      // Which client is being authorized: brands the sign-in code email and
+      // picks the app whose sign-in policy applies.
+      authorizing.plugin,
+      // Attempt limits and lockouts for sign-in codes, passkeys and client secrets.
+      rateLimiting(context),
+      policy.plugin,
+      // Second-factor challenge after email/passkey sign-in, amr/acr claims.
+      secondFactor.plugin,
+      // user.* webhooks for accounts created and profiles edited through Better Auth.
+      events.plugin,
+      // Back- and front-channel logout for clients of sessions that end.
+      logoutChannels(context),
+      // client_credentials held to each client's own grant settings.
+      machine.plugin,
+      // Applications' own APIs: their scopes and token audiences.
+      apiResources(context, machine.validAudiences),
+      // RFC 8628 device grant, approved on /device through the code flow.
+      deviceAuthorization(context),
+      // RFC 7591 registration_endpoint in discovery (served by our own routes).
+      clientRegistration(),
       // Turns willy.im into an OAuth 2.1 / OIDC provider so other apps can
       // "Login with willy.im". Login + consent are handled by our own pages.
       oauthProvider({
         loginPage: "/login",
         consentPage: "/consent",
+        // Not a signup step: the app's sign-in policy (allowed domains,
+        // invite-only) sends users it refuses to /denied instead of the client,
+        // and to /mfa when it requires a second factor this session lacks.
+        signup: {
+          shouldRedirect: ({ user, session }) => policy.authorizationRedirect(user, session),
+        },
         storeClientSecret: "hashed",
+        validAudiences: machine.validAudiences,
         // We serve the RFC 8414 root metadata ourselves (routes/well-known/*),
         // so silence Better Auth's "ensure it exists" startup warnings.
         silenceWarnings: { oauthAuthServerConfig: true, openidConfig: true },
         // Each OAuth client is tagged with metadata.app (its application key).
-        // We surface only that application's workspaces + roles as a claim.
-        customIdTokenClaims: async ({ user, metadata }) => {
-          const app = (metadata as { app?: string } | undefined)?.app
-          const workspaces = await workspaceClaimsFor(context.db, user.id, app)
-          return workspaces.length ? { [WORKSPACES_CLAIM]: workspaces } : {}
+        // We surface only that application's workspaces, roles and permissions
+        // — in id_tokens, access tokens (JWT + introspection) and userinfo.
+        // Tokens from an impersonation session also name the admin in `act`;
+        // id_tokens say how the session signed in (`amr`, `acr`). A client's
+        // own (client_credentials) tokens carry just its application key.
+        customIdTokenClaims: async ({ user, scopes, metadata }) => {
+          const app = appFromMetadata(metadata)
+          return {
+            ...updatedAtClaim(user, scopes),
+            ...(await appClaimsFor(context, user.id, app)),
+            ...(app ? await metadataClaimsFor(context, app, user.id) : {}),
+            ...impersonating.claims(),
+            ...secondFactor.claims(),
+          }
+        },
+        customAccessTokenClaims: async ({ user, metadata }) =>
+          user
+            ? {
+                ...(await appClaimsFor(context, user.id, appFromMetadata(metadata))),
+                ...impersonating.claims(),
+              }
+            : machine.claims(metadata),
+        // userinfo only sees the access token, so find the app via its client
+        // and the impersonation (if any) via its session. Metadata claims go in
+        // the id_token and userinfo only, not in access tokens.
+        customUserInfoClaims: async ({ user, scopes, jwt }) => {
+          const clientId = (jwt.client_id ?? jwt.azp) as string | undefined
+          const app = clientId ? (await getApplication(context, clientId))?.app : undefined
+          const sid = jwt.sid as string | undefined
+          const impersonated = sid ? await findImpersonationBySession(context, sid) : null
+          return {
+            ...updatedAtClaim(user, scopes),
+            ...(await appClaimsFor(context, user.id, app ?? undefined)),
+            ...(app ? await metadataClaimsFor(context, app, user.id) : {}),
+            ...(impersonated ? actClaim(impersonated) : {}),
+          }
         },
       }),
     ],
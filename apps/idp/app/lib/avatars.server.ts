@@ -0,0 +1,60 @@
+import type { ObjectStore } from "./storage.server"
+
+/** Avatars are cropped to a square of this size in the browser before upload. */
+export const AVATAR_SIZE = 256
+export const AVATAR_MAX_BYTES = 512 * 1024
+
+/** Served under /avatars/<userId>/<file>; the file name is the content hash. */
+const AVATAR_PREFIX = "avatars/"
+
+const IMAGE_TYPES = [
+  { type: "image/png", ext: "png", magic: [0x89, 0x50, 0x4e, 0x47] },
+  { type: "image/jpeg", ext: "jpg", magic: [0xff, 0xd8, 0xff] },
+  { type: "image/webp", ext: "webp", magic: [0x52, 0x49, 0x46, 0x46] },
+] as const
+
+/**
+ * The image type by magic bytes, ignoring what the client claims — only
+ * raster formats are served back, never SVG or HTML.
+ */
+function sniffImage(bytes: Uint8Array) {
+  return IMAGE_TYPES.find(
+    (t) =>
+      t.magic.every((b, i) => bytes[i] === b) &&
+      (t.type !== "image/webp" || String.fromCharCode(...bytes.slice(8, 12)) === "WEBP"),
+  )
+}
+
+export class AvatarError extends Error {}
+
+async function contentHash(buffer: ArrayBuffer) {
+  const digest = await crypto.subtle.digest("SHA-256", buffer)
+  return [...new Uint8Array(digest).slice(0, 12)]
+    .map((b) => b.toString(16).padStart(2, "0"))
+    .join("")
+}
+
+/** Stores an uploaded avatar; returns its public URL under `origin`. */
+export async function saveAvatar(store: ObjectStore, origin: string, userId: string, file: Blob) {
+  if (file.size === 0) throw new AvatarError("Choose an image first.")
+  if (file.size > AVATAR_MAX_BYTES) throw new AvatarError("That image is too large (max 512 KB).")
+  const buffer = await file.arrayBuffer()
+  const image = sniffImage(new Uint8Array(buffer))
+  if (!image) throw new AvatarError("Upload a PNG, JPEG or WebP image.")
+
+  const key = `${AVATAR_PREFIX}${userId}/${await contentHash(buffer)}.${image.ext}`
+  await store.put(key, buffer, image.type)
+  return `${origin}/${key}`
+}
+
+/** Deletes a previous avatar if it's one of ours (external pictures are left alone). */
+export async function deleteAvatar(store: ObjectStore, origin: string, url?: string | null) {
+  const prefix = `${origin}/${AVATAR_PREFIX}`
+  if (!url?.startsWith(prefix)) return
+  await store.delete(url.slice(origin.length + 1))
+}
+
+/** The object behind /avatars/:userId/:file. */
+export function getAvatar(store: ObjectStore, userId: string, file: string) {
+  return store.get(`${AVATAR_PREFIX}${userId}/${file}`)
+}
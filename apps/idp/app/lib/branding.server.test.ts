@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createApplication } from "./admin.server"
+import { accentForeground, invalidBrandingField, type BrandingInput } from "./branding"
+import { brandingFor, getBranding, updateBranding } from "./branding.server"
+import { sendEmail } from "./email.server"
+import { addDomain, defaultTenant, type Tenant } from "./tenant.server"
+import { authFetch, createTestContext, type TestContext } from "./testing"
+
+vi.mock("./email.server", async (original) => ({
+  ...(await original<typeof import("./email.server")>()),
+  sendEmail: vi.fn(),
+}))
+
+let ctx: TestContext
+let clientId: string
+
+const branding: BrandingInput = {
+  name: "Acme <Cloud>",
+  logoUrl: "https://acme.test/logo.png",
+  accentColor: "#ffcc00",
+  tosUrl: "https://acme.test/tos",
+  policyUrl: null,
+  supportEmail: "help@acme.test",
+}
+
+const acmeTenant: Tenant = {
+  origin: "https://idp.acme.test",
+  hostname: "idp.acme.test",
+  app: "acme",
+}
+
+beforeEach(async () => {
+  vi.mocked(sendEmail).mockClear()
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+  await updateBranding(ctx, clientId, "acme", branding)
+})
+
+describe("branding input", () => {
+  it("needs https links and a hex accent", () => {
+    expect(invalidBrandingField(branding)).toBeNull()
+    expect(invalidBrandingField({ ...branding, logoUrl: "http://acme.test/logo.png" })).toEqual({
+      field: "logoUrl",
+      error: "Use an https:// URL.",
+    })
+    expect(invalidBrandingField({ ...branding, tosUrl: "javascript:alert(1)" })?.field).toBe(
+      "tosUrl",
+    )
+    expect(invalidBrandingField({ ...branding, accentColor: "red" })?.field).toBe("accentColor")
+    expect(invalidBrandingField({ ...branding, supportEmail: "help" })?.field).toBe("supportEmail")
+  })
+
+  it("picks readable text for the accent", () => {
+    expect(accentForeground("#ffcc00")).toBe("#0a0a0a")
+    expect(accentForeground("#1e1b4b")).toBe("#fafafa")
+  })
+})
+
+describe("brandingFor", () => {
+  it("brands the client being authorized, else the custom domain's app", async () => {
+    expect(await getBranding(ctx, clientId)).toEqual({ clientId, ...branding })
+    expect(await brandingFor(ctx, defaultTenant(ctx), clientId)).toMatchObject({
+      name: branding.name,
+    })
+    expect(await brandingFor(ctx, acmeTenant, null)).toMatchObject({ name: branding.name })
+    expect(await brandingFor(ctx, defaultTenant(ctx), null)).toBeNull()
+    expect(await brandingFor(ctx, defaultTenant(ctx), "unknown")).toBeNull()
+  })
+
+  it("brands sign-in codes sent on the app's domain, escaped", async () => {
+    await addDomain(ctx, "acme", "idp.acme.test")
+    const res = await authFetch(
+      ctx,
+      "/email-otp/send-verification-otp",
+      {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ email: "ada@example.com", type: "sign-in" }),
+      },
+      acmeTenant,
+    )
+    expect(res.status).toBe(200)
+    const [, message] = vi.mocked(sendEmail).mock.calls[0]
+    expect(message.subject).toMatch(/^\d{6} is your Acme <Cloud> sign-in code$/)
+    expect(message.html).toContain("Acme &lt;Cloud&gt;")
+    expect(message.html).toContain("#ffcc00")
+    expect(message.html).toContain("mailto:help@acme.test")
+  })
+})
@@ -0,0 +1,87 @@
+import { eq } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import { findApplicationByApp, getApplication } from "./admin.server"
+import type { Branding, BrandingInput } from "./branding"
+import type { BaseServiceContext } from "./services"
+import type { Tenant } from "./tenant.server"
+
+/** An application's branding by client id, or null for unknown clients. */
+export async function getBranding(
+  ctx: BaseServiceContext,
+  clientId: string,
+): Promise<Branding | null> {
+  const [row] = await ctx.db
+    .select({
+      clientId: schema.oauthClient.clientId,
+      name: schema.oauthClient.name,
+      icon: schema.oauthClient.icon,
+      tos: schema.oauthClient.tos,
+      policy: schema.oauthClient.policy,
+    })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  if (!row) return null
+
+  const app = (await getApplication(ctx, clientId))?.app
+  const [settings] = app
+    ? await ctx.db
+        .select()
+        .from(schema.applicationSettings)
+        .where(eq(schema.applicationSettings.applicationId, app))
+        .limit(1)
+    : []
+  return {
+    clientId: row.clientId,
+    name: row.name ?? row.clientId,
+    logoUrl: row.icon,
+    accentColor: settings?.accentColor ?? null,
+    tosUrl: row.tos,
+    policyUrl: row.policy,
+    supportEmail: settings?.supportEmail ?? null,
+  }
+}
+
+/**
+ * Branding for a sign-in surface: the client being authorized, else (on a
+ * custom domain) the tenant's application, else none — plain willy.im.
+ */
+export async function brandingFor(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  clientId: string | null,
+) {
+  if (clientId) return getBranding(ctx, clientId)
+  if (!tenant.app) return null
+  const application = await findApplicationByApp(ctx, tenant.app)
+  return application ? getBranding(ctx, application.clientId) : null
+}
+
+/** Writes an application's branding across oauth_client and application_settings. */
+export async function updateBranding(
+  ctx: BaseServiceContext,
+  clientId: string,
+  app: string,
+  input: BrandingInput,
+) {
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({
+      name: input.name,
+      icon: input.logoUrl,
+      tos: input.tosUrl,
+      policy: input.policyUrl,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.oauthClient.clientId, clientId))
+  const settings = {
+    accentColor: input.accentColor,
+    supportEmail: input.supportEmail,
+    updatedAt: new Date(),
+  }
+  await ctx.db
+    .insert(schema.applicationSettings)
+    .values({ applicationId: app, ...settings })
+    .onConflictDoUpdate({ target: schema.applicationSettings.applicationId, set: settings })
+}
@@ -0,0 +1,58 @@
+/**
+ * How an application presents itself on the IdP's sign-in surfaces (login,
+ * the OTP email, consent). Name, logo, ToS and policy are the oauth_client's
+ * own RFC 7591 columns; accent and support email are application_settings.
+ */
+export type Branding = {
+  clientId: string
+  name: string
+  logoUrl: string | null
+  accentColor: string | null
+  tosUrl: string | null
+  policyUrl: string | null
+  supportEmail: string | null
+}
+
+export type BrandingInput = Omit<Branding, "clientId">
+
+/** Accent colors are stored as `#rrggbb`. */
+export const ACCENT_COLOR = /^#[0-9a-f]{6}$/i
+
+/** Black or white, whichever reads better on `accent` (WCAG relative luminance). */
+export function accentForeground(accent: string) {
+  const [r, g, b] = [1, 3, 5].map((i) => {
+    const c = parseInt(accent.slice(i, i + 2), 16) / 255
+    return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4
+  })
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b > 0.179 ? "#0a0a0a" : "#fafafa"
+}
+
+function isHttpsUrl(raw: string) {
+  try {
+    return new URL(raw).protocol === "https:"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Checks a branding form: a name, https-only logo and links (they're shown to
+ * signed-out visitors and in email), `#rrggbb` accent, plausible support email.
+ * Returns the offending field, or null.
+ */
+export function invalidBrandingField(
+  input: BrandingInput,
+): { field: keyof BrandingInput; error: string } | null {
+  if (!input.name) return { field: "name", error: "Name is required." }
+  for (const field of ["logoUrl", "tosUrl", "policyUrl"] as const) {
+    const value = input[field]
+    if (value && !isHttpsUrl(value)) return { field, error: "Use an https:// URL." }
+  }
+  if (input.accentColor && !ACCENT_COLOR.test(input.accentColor)) {
+    return { field: "accentColor", error: "Use a hex color like #4f46e5." }
+  }
+  if (input.supportEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(input.supportEmail)) {
+    return { field: "supportEmail", error: "That doesn't look like an email address." }
+  }
+  return null
+}
@@ -0,0 +1,144 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { createApplication } from "./admin.server"
+import { createApiResource } from "./api-resources.server"
+import {
+  APP_CLAIM,
+  getClientCredentialsGrant,
+  setClientCredentialsGrant,
+  type ClientCredentialsGrant,
+} from "./client-credentials.server"
+import {
+  authFetch,
+  basicAuth,
+  createTestContext,
+  formPost,
+  json,
+  jwtClaims,
+  type TestContext,
+} from "./testing"
+
+const INVOICES = "https://invoices.jobs.test"
+const REPORTS = "https://reports.jobs.test"
+
+let ctx: TestContext
+let jobs: { clientId: string; clientSecret: string }
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  jobs = await createApplication(ctx, {
+    name: "Jobs",
+    app: "jobs",
+    redirectUris: ["https://jobs.test/callback"],
+  })
+  for (const [identifier, scope] of [
+    [INVOICES, "invoices:read"],
+    [REPORTS, "reports:read"],
+  ]) {
+    await createApiResource(ctx, "jobs", {
+      identifier,
+      name: identifier,
+      scopes: [{ name: scope, description: `Read ${identifier}` }],
+    })
+  }
+})
+
+function configure(grant: Partial<ClientCredentialsGrant>) {
+  return setClientCredentialsGrant(ctx, jobs.clientId, "jobs", {
+    enabled: true,
+    scopes: ["invoices:read", "reports:read"],
+    audiences: [INVOICES, REPORTS],
+    ...grant,
+  })
+}
+
+async function token(body: Record<string, string> = {}) {
+  const res = await authFetch(
+    ctx,
+    "/oauth2/token",
+    formPost(
+      { grant_type: "client_credentials", ...body },
+      basicAuth(jobs.clientId, jobs.clientSecret),
+    ),
+  )
+  return { status: res.status, body: await json(res) }
+}
+
+function clientScopes() {
+  return ctx.sqlite.prepare("select scopes from oauth_client").pluck().get()
+}
+
+describe("client credentials settings", () => {
+  it("take the app's APIs as audiences and only the scopes they define", async () => {
+    expect(await configure({ audiences: ["https://elsewhere.test"] })).toMatchObject({
+      field: "audiences",
+    })
+    expect(await configure({ audiences: [INVOICES] })).toMatchObject({ field: "scopes" })
+    expect(await configure({ scopes: ["openid"] })).toMatchObject({ field: "scopes" })
+    expect(await configure({ scopes: [] })).toMatchObject({ field: "scopes" })
+    expect(await configure({})).toMatchObject({ ok: true })
+  })
+
+  it("are kept per client, apart from the scopes its users consent to", async () => {
+    const before = clientScopes()
+    await configure({})
+    expect(await getClientCredentialsGrant(ctx, jobs.clientId)).toEqual({
+      enabled: true,
+      scopes: ["invoices:read", "reports:read"],
+      audiences: [INVOICES, REPORTS],
+    })
+    await configure({ enabled: false })
+    expect(clientScopes()).toEqual(before)
+
+    const other = await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    expect(await getClientCredentialsGrant(ctx, other.clientId)).toEqual({
+      enabled: false,
+      scopes: [],
+      audiences: [],
+    })
+  })
+})
+
+describe("client_credentials tokens", () => {
+  it("are refused until the grant is enabled", async () => {
+    expect((await token()).body.error).toBe("unauthorized_client")
+    await configure({ enabled: false })
+    expect((await token()).body.error).toBe("unauthorized_client")
+  })
+
+  it("get all the allowed scopes when none is asked for", async () => {
+    await configure({})
+    const { status, body } = await token()
+    expect(status).toBe(200)
+    expect(body.scope).toBe("invoices:read reports:read")
+  })
+
+  it("for a resource are JWTs for it, with only the scopes it defines", async () => {
+    await configure({})
+    const { body } = await token({ resource: INVOICES })
+    expect(body.scope).toBe("invoices:read")
+    expect(jwtClaims(body.access_token)).toMatchObject({
+      aud: INVOICES,
+      azp: jobs.clientId,
+      scope: "invoices:read",
+      [APP_CLAIM]: "jobs",
+    })
+    expect(jwtClaims(body.access_token)).not.toHaveProperty("sub")
+
+    const crossed = await token({ resource: INVOICES, scope: "reports:read" })
+    expect(crossed.body.error).toBe("invalid_scope")
+    const elsewhere = await token({ resource: "https://elsewhere.test" })
+    expect(elsewhere.body.error).toBe("invalid_target")
+  })
+
+  it("only get the client's allowed scopes", async () => {
+    await configure({ scopes: ["invoices:read"] })
+    expect((await token({ scope: "reports:read" })).body.error).toBe("invalid_scope")
+    expect((await token({ scope: "openid" })).body.error).toBe("invalid_scope")
+    expect((await token({ scope: "invoices:read" })).body.scope).toBe("invoices:read")
+  })
+})
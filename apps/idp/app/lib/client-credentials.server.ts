@@ -0,0 +1,217 @@
+import { eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware } from "better-auth/api"
+
+import * as schema from "../db/schema"
+import { coerceUriList, getApplication } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * Machine-to-machine tokens: a confidential client with `client_credentials`
+ * among its grant types gets tokens as itself at /auth/oauth2/token. They have
+ * no user subject; they carry the client (`client_id`/`azp`), the granted
+ * `scope` and the application key (`APP_CLAIM`). Asking for a `resource` (one
+ * of the client's audiences) gets a JWT for that audience instead of an
+ * opaque token.
+ *
+ * The audiences are the application's own APIs (api-resources.server.ts) and
+ * the allowed scopes are ones those APIs define; both live in
+ * client_credentials_grant, apart from the client's `scopes` that its users
+ * are asked to consent to.
+ */
+export type ClientCredentialsGrant = {
+  enabled: boolean
+  scopes: string[]
+  audiences: string[]
+}
+
+/** The application key, in tokens minted by the client_credentials grant. */
+export const APP_CLAIM = "https://willy.im/app"
+
+/** What the authorization code flow asks for; never granted to a client as itself. */
+export const USER_SCOPES = ["openid", "profile", "email", "offline_access"]
+
+// RFC 6749 scope-token: printable ASCII, no space, `"` or `\`.
+export const SCOPE_TOKEN = /^[\x21\x23-\x5b\x5d-\x7e]+$/
+
+export async function getClientCredentialsGrant(
+  ctx: BaseServiceContext,
+  clientId: string,
+): Promise<ClientCredentialsGrant> {
+  const [client] = await ctx.db
+    .select({
+      grantTypes: schema.oauthClient.grantTypes,
+      scopes: schema.clientCredentialsGrant.scopes,
+      audiences: schema.clientCredentialsGrant.audiences,
+    })
+    .from(schema.oauthClient)
+    .leftJoin(
+      schema.clientCredentialsGrant,
+      eq(schema.clientCredentialsGrant.clientId, schema.oauthClient.clientId),
+    )
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  return {
+    enabled: coerceUriList(client?.grantTypes).includes("client_credentials"),
+    scopes: client?.scopes ?? [],
+    audiences: client?.audiences ?? [],
+  }
+}
+
+/** `app`'s API identifiers, each with the scope names it defines. */
+async function apiScopesByAudience(ctx: BaseServiceContext, app: string) {
+  const resources = await ctx.db
+    .select({ identifier: schema.apiResource.identifier, scopes: schema.apiResource.scopes })
+    .from(schema.apiResource)
+    .where(eq(schema.apiResource.applicationId, app))
+  return new Map(resources.map((r) => [r.identifier, r.scopes.map((s) => s.name)]))
+}
+
+/**
+ * Turns the client_credentials grant on or off for a client and sets what it
+ * may ask for. Returns an error (and the field it's about) instead of throwing
+ * when the input won't do. Only confidential clients with an app key qualify;
+ * audiences are the app's API identifiers, and each scope must be one of
+ * theirs. The client's own `scopes` are left alone.
+ */
+export async function setClientCredentialsGrant(
+  ctx: BaseServiceContext,
+  clientId: string,
+  app: string | null,
+  grant: ClientCredentialsGrant,
+) {
+  const [client] = await ctx.db
+    .select({
+      grantTypes: schema.oauthClient.grantTypes,
+      public: schema.oauthClient.public,
+      tokenEndpointAuthMethod: schema.oauthClient.tokenEndpointAuthMethod,
+    })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  if (!client) return { error: "Application not found.", field: "enabled" }
+  if (!app) return { error: "This application has no app key.", field: "enabled" }
+  if (grant.enabled && (client.public || client.tokenEndpointAuthMethod === "none"))
+    return { error: "Only confidential clients can use client credentials.", field: "enabled" }
+  const apis = await apiScopesByAudience(ctx, app)
+  const audiences = [...new Set(grant.audiences)]
+  for (const audience of audiences) {
+    if (!apis.has(audience))
+      return { error: `"${audience}" isn't one of this application's APIs.`, field: "audiences" }
+  }
+  const offered = new Set(audiences.flatMap((a) => apis.get(a)!))
+  const scopes = [...new Set(grant.scopes)]
+  for (const scope of scopes) {
+    if (USER_SCOPES.includes(scope))
+      return { error: `"${scope}" is for signing users in, not for clients.`, field: "scopes" }
+    if (!offered.has(scope))
+      return { error: `None of the allowed audiences defines "${scope}".`, field: "scopes" }
+  }
+  if (grant.enabled && scopes.length === 0)
+    return { error: "Pick at least one scope the client may ask for.", field: "scopes" }
+
+  const grantTypes = coerceUriList(client.grantTypes).filter((g) => g !== "client_credentials")
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({
+      grantTypes: grant.enabled ? [...grantTypes, "client_credentials"] : grantTypes,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.oauthClient.clientId, clientId))
+  await ctx.db
+    .insert(schema.clientCredentialsGrant)
+    .values({ clientId, audiences, scopes, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: schema.clientCredentialsGrant.clientId,
+      set: { audiences, scopes, updatedAt: new Date() },
+    })
+  return { ok: true as const, grant: { enabled: grant.enabled, scopes, audiences } }
+}
+
+/** The client a token-endpoint request names, by Basic auth or `client_id`. */
+export function requestClientId(request: Request | undefined, body: Record<string, unknown>) {
+  const authorization = request?.headers.get("authorization")
+  if (authorization?.startsWith("Basic ")) {
+    try {
+      return decodeURIComponent(atob(authorization.slice(6)).split(":")[0])
+    } catch {
+      return undefined
+    }
+  }
+  return typeof body.client_id === "string" ? body.client_id : undefined
+}
+
+/**
+ * Better Auth plugin that holds client_credentials requests to the client's
+ * own settings: the grant must be enabled for it, a `resource` must be one of
+ * its audiences, and the scope must be among its allowed ones that the
+ * audience defines (no scope means all of them). Without a `resource` the
+ * audiences are all of the client's. oauth-provider checks `resource` against
+ * `validAudiences` — pass the array to it; the auth instance is per request,
+ * so the hook adds this client's audiences for this request only.
+ */
+export function clientCredentials(context: BaseServiceContext, issuer: string) {
+  const validAudiences = [issuer]
+
+  const plugin = {
+    id: "client-credentials",
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) =>
+            ctx.path === "/oauth2/token" && ctx.body?.grant_type === "client_credentials",
+          handler: createAuthMiddleware(async (ctx) => {
+            const clientId = requestClientId(ctx.request, ctx.body)
+            const application = clientId ? await getApplication(context, clientId) : null
+            // Unknown clients and bad secrets are oauth-provider's to refuse.
+            if (!application) return
+            const grant = await getClientCredentialsGrant(context, application.clientId)
+            if (!grant.enabled || !application.app) {
+              throw new APIError("BAD_REQUEST", {
+                error: "unauthorized_client",
+                error_description: "This client may not use the client_credentials grant.",
+              })
+            }
+            const resources = [ctx.body.resource ?? []].flat() as string[]
+            const unknown = resources.find((r) => !grant.audiences.includes(r))
+            if (unknown !== undefined) {
+              throw new APIError("BAD_REQUEST", {
+                error: "invalid_target",
+                error_description: `This client may not ask for a token for "${unknown}".`,
+              })
+            }
+            const apis = await apiScopesByAudience(context, application.app)
+            const audiences = resources.length ? resources : grant.audiences
+            const allowed = grant.scopes.filter((s) =>
+              audiences.some((a) => apis.get(a)?.includes(s)),
+            )
+            const requested: string[] = ctx.body.scope?.split(" ").filter(Boolean) ?? []
+            const invalid = requested.filter((s) => !allowed.includes(s))
+            if (invalid.length || allowed.length === 0) {
+              throw new APIError("BAD_REQUEST", {
+                error: "invalid_scope",
+                error_description: invalid.length
+                  ? `This client may not ask for ${invalid.join(", ")} here.`
+                  : "This client may ask for no scopes here.",
+              })
+            }
+            validAudiences.push(...grant.audiences)
+            if (requested.length === 0) {
+              return { context: { body: { ...ctx.body, scope: allowed.join(" ") } } }
+            }
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+
+  return {
+    plugin,
+    validAudiences,
+    /** `{ [APP_CLAIM] }` for a token the client holds as itself (no user). */
+    claims: (metadata: Record<string, unknown> | undefined) => {
+      const app = (metadata as { app?: string } | undefined)?.app
+      return app ? { [APP_CLAIM]: app } : {}
+    },
+  }
+}
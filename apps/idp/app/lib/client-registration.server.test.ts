@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as register from "../routes/auth/register"
+import * as registeredClient from "../routes/auth/register.$clientId"
+import * as consentPage from "../routes/consent"
+import { createApplication } from "./admin.server"
+import {
+  ClientMetadataSchema,
+  createInitialAccessToken,
+  registerClient,
+} from "./client-registration.server"
+import { defaultTenant, type Tenant } from "./tenant.server"
+import {
+  authorize,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+let token: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+  const created = await createInitialAccessToken(ctx, {
+    app: "acme",
+    name: "ci",
+    createdByUserId: null,
+    expiresInDays: 0,
+  })
+  token = created.token!
+})
+
+function registration(metadata: Record<string, unknown>) {
+  const request = new Request("http://localhost:5173/auth/oauth2/register", {
+    method: "POST",
+    headers: { authorization: `Bearer ${token}`, "content-type": "application/json" },
+    body: JSON.stringify({ token_endpoint_auth_method: "none", ...metadata }),
+  })
+  return respond(register.action(routeArgs(loadContext(ctx), request)))
+}
+
+describe("client registration", () => {
+  it("takes https, loopback and private-use redirect URIs only", async () => {
+    for (const uri of [
+      "https://native.test/callback",
+      "http://127.0.0.1:8400/callback",
+      "com.acme.native:/callback",
+    ]) {
+      expect((await registration({ redirect_uris: [uri] })).status, uri).toBe(201)
+    }
+    for (const uri of [
+      "javascript:alert(1)//",
+      "data:text/html,<script>alert(1)</script>",
+      "vbscript:msgbox(1)",
+      "file:///etc/passwd",
+      "http://native.test/callback",
+    ]) {
+      const res = await registration({ redirect_uris: [uri] })
+      expect(res.status, uri).toBe(400)
+      expect((await json(res)).error).toBe("invalid_redirect_uri")
+    }
+  })
+
+  it("refuses logos and links that aren't https", async () => {
+    const res = await registration({
+      redirect_uris: ["com.acme.native:/callback"],
+      logo_uri: "data:image/svg+xml,<svg/>",
+    })
+    expect(res.status).toBe(400)
+    expect((await json(res)).error).toBe("invalid_client_metadata")
+  })
+
+  it("holds open registrations to native redirect URIs", async () => {
+    const open = { app: "acme", initialAccessTokenId: null }
+    const metadata = (redirect: string) =>
+      ClientMetadataSchema.parse({ redirect_uris: [redirect], token_endpoint_auth_method: "none" })
+    const tenant = defaultTenant(ctx)
+    const refused = await respond(
+      registerClient(ctx, tenant, open, metadata("https://native.test/callback")),
+    )
+    expect(refused.status).toBe(400)
+    const registered = await registerClient(ctx, tenant, open, metadata("http://[::1]/callback"))
+    expect(registered.client_id).toBeTruthy()
+  })
+})
+
+describe("client configuration", () => {
+  function configure(tenant: Tenant, clientId: string, accessToken: string, method = "GET") {
+    const request = new Request(`${tenant.origin}/auth/oauth2/register/${clientId}`, {
+      method,
+      headers: { authorization: `Bearer ${accessToken}` },
+    })
+    const args = routeArgs<never>(loadContext(ctx, tenant), request, { clientId })
+    return respond(method === "GET" ? registeredClient.loader(args) : registeredClient.action(args))
+  }
+
+  it("is only reached on the IdP's host or the client's own application's domain", async () => {
+    const { client_id, registration_access_token } = await json(
+      await registration({ redirect_uris: ["com.acme.native:/callback"] }),
+    )
+    const acmeDomain = { origin: "https://idp.acme.test", hostname: "idp.acme.test", app: "acme" }
+    const otherDomain = {
+      origin: "https://idp.other.test",
+      hostname: "idp.other.test",
+      app: "other",
+    }
+
+    for (const method of ["GET", "DELETE"]) {
+      const elsewhere = await configure(otherDomain, client_id, registration_access_token, method)
+      expect(elsewhere.status, method).toBe(401)
+      expect((await json(elsewhere)).error).toBe("invalid_token")
+    }
+    expect((await configure(acmeDomain, client_id, registration_access_token)).status).toBe(200)
+    const own = await configure(defaultTenant(ctx), client_id, registration_access_token)
+    expect((await json(own)).client_id).toBe(client_id)
+  })
+})
+
+describe("consent", () => {
+  async function consentFor(clientId: string, redirectUri: string) {
+    const cookie = await sessionCookie(ctx, createUser(ctx))
+    const res = await authorize(ctx, { cookie, clientId, redirectUri, scope: "openid" })
+    const url = new URL(res.headers.get("location")!, "http://localhost:5173")
+    expect(url.pathname).toBe("/consent")
+    return consentPage.loader(routeArgs(loadContext(ctx), new Request(url)))
+  }
+
+  it("flags the name and logo of a client that registered itself as unverified", async () => {
+    const { client_id } = await json(
+      await registration({
+        client_name: "Acme Native",
+        redirect_uris: ["com.acme.native:/callback"],
+      }),
+    )
+    const registered = await consentFor(client_id, "com.acme.native:/callback")
+    expect(registered).toMatchObject({ unverified: true, branding: { name: "Acme Native" } })
+  })
+
+  it("doesn't flag the application's own client", async () => {
+    const own = await consentFor(acme.clientId, "https://acme.test/callback")
+    expect(own).toMatchObject({ unverified: false, branding: { name: "Acme" } })
+  })
+})
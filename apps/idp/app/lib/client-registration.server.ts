@@ -0,0 +1,549 @@
+import { and, desc, eq, isNull } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { createAuthMiddleware, isAPIError } from "better-auth/api"
+import { z } from "zod"
+
+import * as schema from "../db/schema"
+import { coerceUriList } from "./admin.server"
+import { offeredScopes } from "./api-resources.server"
+import { generateSecret, sha256Base64Url } from "./crypto.server"
+import { DEVICE_CODE_GRANT } from "./device-authorization.server"
+import type { BaseServiceContext } from "./services"
+import type { Tenant } from "./tenant.server"
+import { isNativeRedirectUri, isValidRedirectUri } from "./validate"
+
+/**
+ * Dynamic client registration (RFC 7591) at /auth/oauth2/register, and each
+ * registered client's configuration endpoint (RFC 7592) below it, in place of
+ * oauth-provider's session-bound /oauth2/register.
+ *
+ * Registering takes an application's initial access token as a Bearer token;
+ * the client is created under that application (metadata.app), with its own
+ * client ID, and shows up on the application's page rather than as one of its
+ * own. An application may also take registrations without a token on its own
+ * domains, from public native clients only (no secret, loopback or private-use
+ * redirect URIs). Registered clients may ask for the OIDC scopes and the
+ * application's API scopes (api-resources.server.ts) they register for, all of
+ * them when they name none, and always ask for consent.
+ */
+export type RegisteredClientSummary = {
+  clientId: string
+  name: string | null
+  redirectUris: string[]
+  public: boolean
+  /** The initial access token it registered with; null for open registration. */
+  via: string | null
+  createdAt: Date
+}
+
+export type InitialAccessTokenSummary = {
+  id: string
+  name: string
+  prefix: string
+  createdByEmail: string | null
+  expiresAt: Date | null
+  lastUsedAt: Date | null
+  revokedAt: Date | null
+  createdAt: Date
+}
+
+/** Every initial access token starts with this, like API keys with theirs. */
+const TOKEN_PREFIX = "idpiat_"
+/** And every registration access token with this. */
+const REGISTRATION_TOKEN_PREFIX = "idprat_"
+const VISIBLE_LENGTH = TOKEN_PREFIX.length + 8
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const AUTH_METHODS = ["client_secret_basic", "client_secret_post", "none"] as const
+const GRANT_TYPES = ["authorization_code", "refresh_token", DEVICE_CODE_GRANT] as const
+
+// Shown on consent and in the branding footer: https only, like console branding.
+const HttpsUrlSchema = z.url({ protocol: /^https$/ })
+
+/** The client metadata we take (RFC 7591 §2); anything else is ignored. */
+export const ClientMetadataSchema = z.object({
+  client_id: z.string().optional(),
+  redirect_uris: z.array(z.string()).default([]),
+  token_endpoint_auth_method: z.enum(AUTH_METHODS).default("client_secret_basic"),
+  grant_types: z.array(z.enum(GRANT_TYPES)).min(1).default(["authorization_code"]),
+  response_types: z.array(z.literal("code")).default(["code"]),
+  client_name: z.string().max(200).optional(),
+  client_uri: HttpsUrlSchema.optional(),
+  logo_uri: HttpsUrlSchema.optional(),
+  tos_uri: HttpsUrlSchema.optional(),
+  policy_uri: HttpsUrlSchema.optional(),
+  contacts: z.array(z.string()).optional(),
+  scope: z.string().optional(),
+  software_id: z.string().max(200).optional(),
+  software_version: z.string().max(200).optional(),
+})
+
+export type ClientMetadata = z.output<typeof ClientMetadataSchema>
+
+/** An RFC 7591 response: JSON, never cached. */
+export function registrationJson(body: unknown, init?: ResponseInit) {
+  return Response.json(body, {
+    ...init,
+    headers: { "Cache-Control": "no-store", Pragma: "no-cache", ...init?.headers },
+  })
+}
+
+/** An error in RFC 7591's shape (§3.2.2); bad tokens answer 401 with a Bearer challenge. */
+export function registrationError(status: number, error: string, description: string) {
+  return registrationJson(
+    { error, error_description: description },
+    {
+      status,
+      headers: status === 401 ? { "WWW-Authenticate": `Bearer error="${error}"` } : undefined,
+    },
+  )
+}
+
+/** Throws 405 for verbs a registration route doesn't handle. */
+export function registrationMethodNotAllowed(): never {
+  throw registrationError(405, "invalid_request", "Method not allowed.")
+}
+
+/** Parses the JSON body as client metadata; throws invalid_client_metadata naming the first issue. */
+export async function readClientMetadata(request: Request) {
+  let raw: unknown
+  try {
+    raw = await request.json()
+  } catch {
+    throw registrationError(400, "invalid_client_metadata", "Request body must be JSON.")
+  }
+  const parsed = ClientMetadataSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const at = issue.path.length ? `${issue.path.join(".")}: ` : ""
+    throw registrationError(400, "invalid_client_metadata", `${at}${issue.message}`)
+  }
+  return parsed.data
+}
+
+function bearerToken(request: Request) {
+  const header = request.headers.get("authorization")
+  return header?.startsWith("Bearer ") ? header.slice(7).trim() : null
+}
+
+/**
+ * Checks metadata for a client registering (or reconfiguring) itself under
+ * `app`. Throws RFC 7591 errors; `open` holds it to what open registration
+ * allows. Returns the scopes the client may ask for.
+ */
+async function checkClientMetadata(
+  ctx: BaseServiceContext,
+  app: string,
+  metadata: ClientMetadata,
+  open: boolean,
+) {
+  const invalid = metadata.redirect_uris.find((u) => !isValidRedirectUri(u))
+  if (invalid) {
+    throw registrationError(
+      400,
+      "invalid_redirect_uri",
+      `"${invalid}" isn't an https, loopback or private-use redirect URI.`,
+    )
+  }
+  // The device grant is approved through the code flow, on one of these too.
+  if (metadata.redirect_uris.length === 0) {
+    throw registrationError(400, "invalid_redirect_uri", "redirect_uris is required.")
+  }
+  if (metadata.grant_types.includes("refresh_token") && metadata.grant_types.length === 1) {
+    throw registrationError(
+      400,
+      "invalid_client_metadata",
+      "refresh_token needs a grant that issues one.",
+    )
+  }
+  const scopes = metadata.scope?.split(" ").filter(Boolean) ?? []
+  const offered = await offeredScopes(ctx, app)
+  const unknown = scopes.find((s) => !offered.includes(s))
+  if (unknown) {
+    throw registrationError(400, "invalid_client_metadata", `Scope "${unknown}" isn't offered.`)
+  }
+  if (open && metadata.token_endpoint_auth_method !== "none") {
+    throw registrationError(
+      400,
+      "invalid_client_metadata",
+      "Registering without an initial access token is for public clients (token_endpoint_auth_method none).",
+    )
+  }
+  if (open && !metadata.redirect_uris.every(isNativeRedirectUri)) {
+    throw registrationError(
+      400,
+      "invalid_redirect_uri",
+      "Registering without an initial access token needs loopback or private-use redirect URIs.",
+    )
+  }
+  return scopes.length ? scopes : offered
+}
+
+/** The oauth_client columns a client's metadata sets. */
+function clientColumns(metadata: ClientMetadata, scopes: string[]) {
+  const isPublic = metadata.token_endpoint_auth_method === "none"
+  return {
+    name: metadata.client_name ?? null,
+    uri: metadata.client_uri ?? null,
+    icon: metadata.logo_uri ?? null,
+    tos: metadata.tos_uri ?? null,
+    policy: metadata.policy_uri ?? null,
+    contacts: metadata.contacts ?? null,
+    softwareId: metadata.software_id ?? null,
+    softwareVersion: metadata.software_version ?? null,
+    redirectUris: metadata.redirect_uris,
+    tokenEndpointAuthMethod: metadata.token_endpoint_auth_method,
+    grantTypes: metadata.grant_types,
+    responseTypes: metadata.response_types,
+    scopes,
+    public: isPublic,
+    updatedAt: new Date(),
+  }
+}
+
+/** Where a registered client reads, updates and deletes itself (RFC 7592). */
+function registrationClientUri(tenant: Tenant, clientId: string) {
+  return `${tenant.origin}/auth/oauth2/register/${encodeURIComponent(clientId)}`
+}
+
+async function clientInformation(ctx: BaseServiceContext, tenant: Tenant, clientId: string) {
+  const [client] = await ctx.db
+    .select()
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  if (!client) return null
+  const scopes = coerceUriList(client.scopes)
+  const optional = {
+    client_name: client.name,
+    client_uri: client.uri,
+    logo_uri: client.icon,
+    tos_uri: client.tos,
+    policy_uri: client.policy,
+    contacts: client.contacts,
+    software_id: client.softwareId,
+    software_version: client.softwareVersion,
+    scope: scopes.length ? scopes.join(" ") : null,
+  }
+  return {
+    client_id: client.clientId,
+    client_id_issued_at: Math.floor((client.createdAt?.getTime() ?? 0) / 1000),
+    ...Object.fromEntries(Object.entries(optional).filter(([, v]) => v != null)),
+    redirect_uris: coerceUriList(client.redirectUris),
+    grant_types: coerceUriList(client.grantTypes),
+    response_types: coerceUriList(client.responseTypes),
+    token_endpoint_auth_method: client.tokenEndpointAuthMethod,
+    registration_client_uri: registrationClientUri(tenant, client.clientId),
+  }
+}
+
+/**
+ * The application a registration request is for: the one whose initial access
+ * token it carries, or — with none — the tenant's, if it takes open
+ * registrations. Throws RFC 7591 errors otherwise.
+ */
+export async function requireRegistrationGrant(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  request: Request,
+) {
+  const token = bearerToken(request)
+  if (token) {
+    const [row] = await ctx.db
+      .select()
+      .from(schema.initialAccessToken)
+      .where(eq(schema.initialAccessToken.secretHash, await sha256Base64Url(token)))
+      .limit(1)
+    if (!row || row.revokedAt || (row.expiresAt && row.expiresAt.getTime() <= Date.now())) {
+      throw registrationError(401, "invalid_token", "Unknown, revoked or expired token.")
+    }
+    // A tenant only registers clients for its own application.
+    if (tenant.app && tenant.app !== row.applicationId) {
+      throw registrationError(401, "invalid_token", `This token isn't for ${tenant.hostname}.`)
+    }
+    await ctx.db
+      .update(schema.initialAccessToken)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(schema.initialAccessToken.id, row.id))
+    return { app: row.applicationId, initialAccessTokenId: row.id }
+  }
+  if (tenant.app && (await getOpenRegistration(ctx, tenant.app))) {
+    return { app: tenant.app, initialAccessTokenId: null }
+  }
+  throw registrationError(401, "invalid_token", "An initial access token is required.")
+}
+
+/**
+ * Registers a client under `grant.app` and returns its client information
+ * (RFC 7591 §3.2.1): with the client secret and registration access token,
+ * shown this once.
+ */
+export async function registerClient(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  grant: { app: string; initialAccessTokenId: string | null },
+  metadata: ClientMetadata,
+) {
+  const scopes = await checkClientMetadata(
+    ctx,
+    grant.app,
+    metadata,
+    grant.initialAccessTokenId === null,
+  )
+  const columns = clientColumns(metadata, scopes)
+  const clientId = generateSecret()
+  const clientSecret = columns.public ? null : generateSecret()
+  const registrationToken = `${REGISTRATION_TOKEN_PREFIX}${generateSecret(40)}`
+
+  await ctx.db.insert(schema.oauthClient).values({
+    id: crypto.randomUUID(),
+    clientId,
+    clientSecret: clientSecret ? await sha256Base64Url(clientSecret) : null,
+    ...columns,
+    disabled: false,
+    skipConsent: false,
+    metadata: { app: grant.app },
+    createdAt: new Date(),
+  })
+  await ctx.db.insert(schema.registeredClient).values({
+    clientId,
+    applicationId: grant.app,
+    registrationTokenHash: await sha256Base64Url(registrationToken),
+    initialAccessTokenId: grant.initialAccessTokenId,
+  })
+
+  const information = await clientInformation(ctx, tenant, clientId)
+  return {
+    ...information,
+    ...(clientSecret ? { client_secret: clientSecret, client_secret_expires_at: 0 } : {}),
+    registration_access_token: registrationToken,
+  }
+}
+
+/**
+ * The registered client a configuration request is for, once its registration
+ * access token checks out. Unknown clients, and another application's on a
+ * custom domain, get the same 401 as bad tokens (RFC 7592 §2).
+ */
+export async function requireRegisteredClient(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  request: Request,
+  clientId: string,
+) {
+  const token = bearerToken(request)
+  const [row] = token
+    ? await ctx.db
+        .select()
+        .from(schema.registeredClient)
+        .where(
+          and(
+            eq(schema.registeredClient.clientId, clientId),
+            eq(schema.registeredClient.registrationTokenHash, await sha256Base64Url(token)),
+          ),
+        )
+        .limit(1)
+    : []
+  if (!row || (tenant.app && tenant.app !== row.applicationId))
+    throw registrationError(401, "invalid_token", "Unknown client or token.")
+  return row
+}
+
+export async function readRegisteredClient(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  clientId: string,
+) {
+  return clientInformation(ctx, tenant, clientId)
+}
+
+/**
+ * Replaces a registered client's metadata (RFC 7592 §2.2). The client ID must
+ * match; open registrations stay public native clients, and a client can't
+ * change whether it has a secret.
+ */
+export async function updateRegisteredClient(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  registration: { clientId: string; applicationId: string; initialAccessTokenId: string | null },
+  metadata: ClientMetadata,
+) {
+  if (metadata.client_id !== registration.clientId) {
+    throw registrationError(400, "invalid_client_metadata", "client_id doesn't match.")
+  }
+  const scopes = await checkClientMetadata(
+    ctx,
+    registration.applicationId,
+    metadata,
+    registration.initialAccessTokenId === null,
+  )
+  const columns = clientColumns(metadata, scopes)
+  const [client] = await ctx.db
+    .select({ public: schema.oauthClient.public })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, registration.clientId))
+    .limit(1)
+  if (!!client?.public !== columns.public) {
+    throw registrationError(
+      400,
+      "invalid_client_metadata",
+      "token_endpoint_auth_method can't switch between none and a client secret.",
+    )
+  }
+  await ctx.db
+    .update(schema.oauthClient)
+    .set(columns)
+    .where(eq(schema.oauthClient.clientId, registration.clientId))
+  return clientInformation(ctx, tenant, registration.clientId)
+}
+
+/** Deletes a registered client of `app`, and with it its tokens and consents. */
+export async function deleteRegisteredClient(
+  ctx: BaseServiceContext,
+  app: string,
+  clientId: string,
+) {
+  const [row] = await ctx.db
+    .select({ clientId: schema.registeredClient.clientId })
+    .from(schema.registeredClient)
+    .where(
+      and(
+        eq(schema.registeredClient.clientId, clientId),
+        eq(schema.registeredClient.applicationId, app),
+      ),
+    )
+    .limit(1)
+  if (!row) return false
+  await ctx.db.delete(schema.oauthClient).where(eq(schema.oauthClient.clientId, clientId))
+  return true
+}
+
+/** The clients registered under `app`, newest first. */
+export async function listRegisteredClients(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<RegisteredClientSummary[]> {
+  const rows = await ctx.db
+    .select({
+      clientId: schema.registeredClient.clientId,
+      name: schema.oauthClient.name,
+      redirectUris: schema.oauthClient.redirectUris,
+      public: schema.oauthClient.public,
+      via: schema.initialAccessToken.name,
+      createdAt: schema.registeredClient.createdAt,
+    })
+    .from(schema.registeredClient)
+    .innerJoin(
+      schema.oauthClient,
+      eq(schema.oauthClient.clientId, schema.registeredClient.clientId),
+    )
+    .leftJoin(
+      schema.initialAccessToken,
+      eq(schema.initialAccessToken.id, schema.registeredClient.initialAccessTokenId),
+    )
+    .where(eq(schema.registeredClient.applicationId, app))
+    .orderBy(desc(schema.registeredClient.createdAt))
+  return rows.map((r) => ({
+    ...r,
+    redirectUris: coerceUriList(r.redirectUris),
+    public: !!r.public,
+  }))
+}
+
+export async function listInitialAccessTokens(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<InitialAccessTokenSummary[]> {
+  return ctx.db
+    .select({
+      id: schema.initialAccessToken.id,
+      name: schema.initialAccessToken.name,
+      prefix: schema.initialAccessToken.prefix,
+      createdByEmail: schema.user.email,
+      expiresAt: schema.initialAccessToken.expiresAt,
+      lastUsedAt: schema.initialAccessToken.lastUsedAt,
+      revokedAt: schema.initialAccessToken.revokedAt,
+      createdAt: schema.initialAccessToken.createdAt,
+    })
+    .from(schema.initialAccessToken)
+    .leftJoin(schema.user, eq(schema.user.id, schema.initialAccessToken.createdByUserId))
+    .where(eq(schema.initialAccessToken.applicationId, app))
+    .orderBy(desc(schema.initialAccessToken.createdAt))
+}
+
+/** Mints an initial access token for `app` and returns the plaintext once. */
+export async function createInitialAccessToken(
+  ctx: BaseServiceContext,
+  input: { app: string; name: string; createdByUserId: string | null; expiresInDays: number },
+) {
+  const name = input.name.trim()
+  if (!name) return { error: "Give the token a name." }
+  const token = `${TOKEN_PREFIX}${generateSecret(40)}`
+  await ctx.db.insert(schema.initialAccessToken).values({
+    applicationId: input.app,
+    name,
+    prefix: token.slice(0, VISIBLE_LENGTH),
+    secretHash: await sha256Base64Url(token),
+    createdByUserId: input.createdByUserId,
+    expiresAt: input.expiresInDays > 0 ? new Date(Date.now() + input.expiresInDays * DAY_MS) : null,
+  })
+  return { token }
+}
+
+/** Revokes one of `app`'s initial access tokens. Clients it registered stay. */
+export async function revokeInitialAccessToken(ctx: BaseServiceContext, app: string, id: string) {
+  await ctx.db
+    .update(schema.initialAccessToken)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(schema.initialAccessToken.id, id),
+        eq(schema.initialAccessToken.applicationId, app),
+        isNull(schema.initialAccessToken.revokedAt),
+      ),
+    )
+}
+
+export async function getOpenRegistration(ctx: BaseServiceContext, app: string) {
+  const [settings] = await ctx.db
+    .select({ openRegistration: schema.applicationSettings.openRegistration })
+    .from(schema.applicationSettings)
+    .where(eq(schema.applicationSettings.applicationId, app))
+    .limit(1)
+  return !!settings?.openRegistration
+}
+
+export async function setOpenRegistration(ctx: BaseServiceContext, app: string, enabled: boolean) {
+  await ctx.db
+    .insert(schema.applicationSettings)
+    .values({ applicationId: app, openRegistration: enabled, updatedAt: new Date() })
+    .onConflictDoUpdate({
+      target: schema.applicationSettings.applicationId,
+      set: { openRegistration: enabled, updatedAt: new Date() },
+    })
+}
+
+/** Better Auth plugin advertising the registration endpoint in the discovery documents. */
+export function clientRegistration() {
+  return {
+    id: "client-registration",
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) =>
+            ctx.path === "/.well-known/oauth-authorization-server" ||
+            ctx.path === "/.well-known/openid-configuration",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned as Record<string, unknown> | null
+            if (!returned || isAPIError(returned)) return
+            return ctx.json({
+              ...returned,
+              registration_endpoint: `${ctx.context.baseURL}/oauth2/register`,
+            })
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
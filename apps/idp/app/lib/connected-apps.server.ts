@@ -0,0 +1,114 @@
+import { and, eq, gt, inArray, isNull, or } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import { coerceUriList } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * An application a user has let in: the scopes they consented to
+ * (`oauth_consent`; first-party clients skip consent) and the refresh tokens
+ * it still holds, which keep it signed in without them.
+ */
+export type ConnectedApp = {
+  clientId: string
+  name: string
+  icon: string | null
+  scopes: string[]
+  connectedAt: Date | null
+  refreshTokens: number
+}
+
+/** The user's connected apps, most recently connected first. */
+export async function listConnectedApps(
+  ctx: BaseServiceContext,
+  userId: string,
+): Promise<ConnectedApp[]> {
+  const consents = await ctx.db
+    .select({
+      clientId: schema.oauthConsent.clientId,
+      scopes: schema.oauthConsent.scopes,
+      createdAt: schema.oauthConsent.createdAt,
+    })
+    .from(schema.oauthConsent)
+    .where(eq(schema.oauthConsent.userId, userId))
+  const refreshTokens = await ctx.db
+    .select({
+      clientId: schema.oauthRefreshToken.clientId,
+      scopes: schema.oauthRefreshToken.scopes,
+      createdAt: schema.oauthRefreshToken.createdAt,
+    })
+    .from(schema.oauthRefreshToken)
+    .where(
+      and(
+        eq(schema.oauthRefreshToken.userId, userId),
+        isNull(schema.oauthRefreshToken.revoked),
+        or(
+          isNull(schema.oauthRefreshToken.expiresAt),
+          gt(schema.oauthRefreshToken.expiresAt, new Date()),
+        ),
+      ),
+    )
+
+  const apps = new Map<string, Omit<ConnectedApp, "name" | "icon">>()
+  for (const row of [...consents, ...refreshTokens]) {
+    const app = apps.get(row.clientId) ?? {
+      clientId: row.clientId,
+      scopes: [],
+      connectedAt: null,
+      refreshTokens: 0,
+    }
+    app.scopes = [...new Set([...app.scopes, ...coerceUriList(row.scopes)])]
+    if (row.createdAt && (!app.connectedAt || row.createdAt < app.connectedAt)) {
+      app.connectedAt = row.createdAt
+    }
+    apps.set(row.clientId, app)
+  }
+  for (const row of refreshTokens) apps.get(row.clientId)!.refreshTokens++
+  if (apps.size === 0) return []
+
+  const clients = await ctx.db
+    .select({
+      clientId: schema.oauthClient.clientId,
+      name: schema.oauthClient.name,
+      icon: schema.oauthClient.icon,
+    })
+    .from(schema.oauthClient)
+    .where(inArray(schema.oauthClient.clientId, [...apps.keys()]))
+  const byId = new Map(clients.map((c) => [c.clientId, c]))
+  return [...apps.values()]
+    .map((app) => ({
+      ...app,
+      name: byId.get(app.clientId)?.name ?? app.clientId,
+      icon: byId.get(app.clientId)?.icon ?? null,
+    }))
+    .sort((a, b) => (b.connectedAt?.getTime() ?? 0) - (a.connectedAt?.getTime() ?? 0))
+}
+
+/**
+ * Disconnects an app: revokes its refresh tokens, deletes its opaque access
+ * tokens and forgets the consent, so it has to ask again. JWT access tokens
+ * it already holds run out on their own (an hour at most).
+ */
+export async function disconnectApp(ctx: BaseServiceContext, userId: string, clientId: string) {
+  await ctx.db
+    .update(schema.oauthRefreshToken)
+    .set({ revoked: new Date() })
+    .where(
+      and(
+        eq(schema.oauthRefreshToken.userId, userId),
+        eq(schema.oauthRefreshToken.clientId, clientId),
+        isNull(schema.oauthRefreshToken.revoked),
+      ),
+    )
+  await ctx.db
+    .delete(schema.oauthAccessToken)
+    .where(
+      and(
+        eq(schema.oauthAccessToken.userId, userId),
+        eq(schema.oauthAccessToken.clientId, clientId),
+      ),
+    )
+  await ctx.db
+    .delete(schema.oauthConsent)
+    .where(and(eq(schema.oauthConsent.userId, userId), eq(schema.oauthConsent.clientId, clientId)))
+}
@@ -0,0 +1,28 @@
+import { generateRandomString } from "better-auth/crypto"
+
+/** A random secret in the same alphabet oauth-provider uses for client ids/secrets. */
+export function generateSecret(length = 32) {
+  return generateRandomString(length, "a-z", "A-Z")
+}
+
+/**
+ * SHA-256, base64url without padding. This is the exact format oauth-provider
+ * uses for `storeClientSecret: "hashed"`, so secrets we write directly verify
+ * at the token endpoint.
+ */
+export async function sha256Base64Url(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value))
+  return toBase64(digest).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+/** Standard (padded) base64 of raw bytes. */
+export function toBase64(bytes: ArrayBuffer | Uint8Array) {
+  let binary = ""
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte)
+  return btoa(binary)
+}
+
+/** Bytes of standard base64; whitespace (as in PEM bodies) is ignored. */
+export function fromBase64(value: string) {
+  return Uint8Array.from(atob(value.replace(/\s+/g, "")), (c) => c.charCodeAt(0))
+}
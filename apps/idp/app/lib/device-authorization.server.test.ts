@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as device from "../routes/device"
+import * as openid from "../routes/well-known/openid"
+import { createApplication } from "./admin.server"
+import {
+  DEVICE_CODE_GRANT,
+  formatUserCode,
+  normalizeUserCode,
+  setDeviceGrantEnabled,
+} from "./device-authorization.server"
+import {
+  authFetch,
+  basicAuth,
+  consent,
+  createTestContext,
+  createUser,
+  formPost,
+  json,
+  jwtClaims,
+  loadContext,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let tv: { clientId: string; clientSecret: string }
+let cookie: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  tv = await createApplication(ctx, {
+    name: "TV",
+    app: "tv",
+    redirectUris: ["https://tv.test/callback"],
+  })
+  await setDeviceGrantEnabled(ctx, tv.clientId, true)
+  cookie = await sessionCookie(ctx, createUser(ctx))
+})
+
+async function startDevice(scope = "openid offline_access") {
+  const res = await authFetch(
+    ctx,
+    "/oauth2/device-authorization",
+    formPost({ client_id: tv.clientId, scope }),
+  )
+  return { status: res.status, body: await json(res) }
+}
+
+async function poll(deviceCode: string) {
+  const res = await authFetch(
+    ctx,
+    "/oauth2/token",
+    formPost(
+      { grant_type: DEVICE_CODE_GRANT, device_code: deviceCode },
+      basicAuth(tv.clientId, tv.clientSecret),
+    ),
+  )
+  return { status: res.status, body: await json(res) }
+}
+
+/** The signed-in user types `userCode` on /device and answers consent; returns where they end up. */
+async function enterCode(userCode: string, accept = true) {
+  const request = new Request("http://localhost:5173/device", {
+    method: "POST",
+    headers: { cookie },
+    body: new URLSearchParams({ userCode }),
+  })
+  const result = await device.action(routeArgs(loadContext(ctx), request))
+  if (!(result instanceof Response)) return result
+  const authorizeUrl = new URL(result.headers.get("location")!)
+  const authorized = await authFetch(
+    ctx,
+    `${authorizeUrl.pathname.replace(/^\/auth/, "")}${authorizeUrl.search}`,
+    { headers: { cookie } },
+  )
+  return consent(ctx, cookie, authorized.headers.get("location")!, accept)
+}
+
+describe("user codes", () => {
+  it("read in two halves and are taken back however they're typed", () => {
+    expect(formatUserCode("BCDFGHJK")).toBe("BCDF-GHJK")
+    expect(normalizeUserCode(" bcdf-ghjk ")).toBe("BCDFGHJK")
+    expect(normalizeUserCode("AEIO-UAEI")).toBeNull()
+  })
+})
+
+describe("device authorization", () => {
+  it("is only for clients with the grant enabled, and their scopes", async () => {
+    expect((await startDevice("openid admin")).body.error).toBe("invalid_scope")
+    await setDeviceGrantEnabled(ctx, tv.clientId, false)
+    expect((await startDevice()).body.error).toBe("unauthorized_client")
+  })
+
+  it("gives the device tokens once the user approves on /device", async () => {
+    const { status, body: started } = await startDevice()
+    expect(status).toBe(200)
+    expect(started).toMatchObject({
+      verification_uri: "http://localhost:5173/device",
+      interval: 5,
+    })
+    expect(started.user_code).toMatch(/^[B-Z]{4}-[B-Z]{4}$/)
+
+    expect((await poll(started.device_code)).body.error).toBe("authorization_pending")
+    expect((await poll(started.device_code)).body.error).toBe("slow_down")
+
+    expect(await enterCode(started.user_code.toLowerCase())).toBe(
+      "http://localhost:5173/device?result=approved",
+    )
+    const { status: issued, body: tokens } = await poll(started.device_code)
+    expect(issued).toBe(200)
+    expect(tokens.refresh_token).toBeTruthy()
+    expect(jwtClaims(tokens.id_token)).toMatchObject({ aud: tv.clientId })
+
+    // The code is spent.
+    expect((await poll(started.device_code)).body.error).toBe("invalid_grant")
+    expect(await enterCode(started.user_code)).toEqual({
+      error: "That code isn't valid or has expired.",
+    })
+  })
+
+  it("tells the device when the user denies it", async () => {
+    const { body: started } = await startDevice()
+    expect(await enterCode(started.user_code, false)).toBe(
+      "http://localhost:5173/device?result=denied",
+    )
+    expect((await poll(started.device_code)).body.error).toBe("access_denied")
+    expect((await poll(started.device_code)).body.error).toBe("invalid_grant")
+  })
+
+  it("is advertised in discovery", async () => {
+    const request = new Request("http://localhost:5173/.well-known/openid-configuration")
+    const document = await json(await openid.loader(routeArgs(loadContext(ctx), request)))
+    expect(document.device_authorization_endpoint).toBe(
+      "http://localhost:5173/auth/oauth2/device-authorization",
+    )
+    expect(document.grant_types_supported).toContain(DEVICE_CODE_GRANT)
+  })
+})
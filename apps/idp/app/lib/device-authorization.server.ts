@@ -0,0 +1,415 @@
+import { eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthEndpoint, createAuthMiddleware, isAPIError } from "better-auth/api"
+import { generateRandomString } from "better-auth/crypto"
+import { z } from "zod"
+
+import * as schema from "../db/schema"
+import { coerceUriList } from "./admin.server"
+import { requestClientId, USER_SCOPES } from "./client-credentials.server"
+import { sha256Base64Url } from "./crypto.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * RFC 8628 device authorization, for CLIs and TVs that can't take a browser
+ * redirect. The device gets a device code and a user code at
+ * /auth/oauth2/device-authorization; the user types the user code on /device,
+ * which runs the ordinary authorization code flow for the client — sign-in
+ * policy, second factor, consent.tsx — with a redirect URI, state and PKCE
+ * verifier we hold. Its code is caught on the way out, and the device's
+ * polling at /auth/oauth2/token is exchanged for it, so device tokens are
+ * oauth-provider's own.
+ *
+ * A pending authorization is two verification rows: `device:<device code>`
+ * holds it, `device-user:<user code>` points to it.
+ */
+type DeviceAuthorization = {
+  clientId: string
+  scope: string
+  userCode: string
+  /** One of the client's redirect URIs; the browser never lands on it. */
+  redirectUri: string
+  state: string
+  verifier: string
+  status: "pending" | "approved" | "denied"
+  code: string | null
+  /** Seconds the device must wait between polls; slow_down adds 5. */
+  interval: number
+  polledAt: number | null
+}
+
+export const DEVICE_CODE_GRANT = "urn:ietf:params:oauth:grant-type:device_code"
+
+/** How long the user has to enter the code, in seconds. */
+const DEVICE_CODE_SECONDS = 60 * 10
+
+/** The polling interval we start devices at, in seconds. */
+const POLL_INTERVAL_SECONDS = 5
+
+// RFC 8628 §6.1: no vowels (no words), no look-alikes; 20^8 codes.
+const USER_CODE_ALPHABET = "BCDFGHJKLMNPQRSTVWXZ"
+const USER_CODE_LENGTH = 8
+
+/** The oauth-provider endpoints that can end an authorization with a redirect. */
+const AUTHORIZE_PATHS = ["/oauth2/authorize", "/oauth2/consent", "/oauth2/continue"]
+
+const deviceIdentifier = (deviceCode: string) => `device:${deviceCode}`
+const userCodeIdentifier = (userCode: string) => `device-user:${userCode}`
+
+function generateUserCode() {
+  const bytes = crypto.getRandomValues(new Uint8Array(USER_CODE_LENGTH))
+  return Array.from(bytes, (b) => USER_CODE_ALPHABET[b % USER_CODE_ALPHABET.length]).join("")
+}
+
+/** `BCDFGHJK` as users read it: `BCDF-GHJK`. */
+export function formatUserCode(userCode: string) {
+  return `${userCode.slice(0, 4)}-${userCode.slice(4)}`
+}
+
+/** What a user typed, as stored: capitals, dashes and spaces dropped. Null if it can't be one. */
+export function normalizeUserCode(input: string) {
+  const code = input.toUpperCase().replace(/[\s-]/g, "")
+  return code.length === USER_CODE_LENGTH && [...code].every((c) => USER_CODE_ALPHABET.includes(c))
+    ? code
+    : null
+}
+
+/** The user code an authorize request's `state` belongs to, for consent.tsx to show. */
+export function deviceUserCode(state: string | null | undefined) {
+  const [prefix, userCode] = state?.split(":") ?? []
+  return prefix === "device" && userCode ? formatUserCode(userCode) : null
+}
+
+export async function isDeviceGrantEnabled(ctx: BaseServiceContext, clientId: string) {
+  const [client] = await ctx.db
+    .select({ grantTypes: schema.oauthClient.grantTypes })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  return coerceUriList(client?.grantTypes).includes(DEVICE_CODE_GRANT)
+}
+
+/** Turns the device authorization grant on or off for a client. */
+export async function setDeviceGrantEnabled(
+  ctx: BaseServiceContext,
+  clientId: string,
+  enabled: boolean,
+) {
+  const [client] = await ctx.db
+    .select({ grantTypes: schema.oauthClient.grantTypes })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  if (!client) return { error: "Application not found.", field: "enabled" }
+  const grantTypes = coerceUriList(client.grantTypes).filter((g) => g !== DEVICE_CODE_GRANT)
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({
+      grantTypes: enabled ? [...grantTypes, DEVICE_CODE_GRANT] : grantTypes,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.oauthClient.clientId, clientId))
+  return { ok: true as const }
+}
+
+async function readRow<T>(ctx: BaseServiceContext, identifier: string) {
+  const [row] = await ctx.db
+    .select({ value: schema.verification.value, expiresAt: schema.verification.expiresAt })
+    .from(schema.verification)
+    .where(eq(schema.verification.identifier, identifier))
+    .limit(1)
+  if (!row) return null
+  return { value: JSON.parse(row.value) as T, expired: row.expiresAt.getTime() <= Date.now() }
+}
+
+async function saveDeviceAuthorization(
+  ctx: BaseServiceContext,
+  deviceCode: string,
+  authorization: DeviceAuthorization,
+) {
+  await ctx.db
+    .update(schema.verification)
+    .set({ value: JSON.stringify(authorization), updatedAt: new Date() })
+    .where(eq(schema.verification.identifier, deviceIdentifier(deviceCode)))
+}
+
+async function deleteDeviceAuthorization(
+  ctx: BaseServiceContext,
+  deviceCode: string,
+  userCode: string,
+) {
+  await ctx.db
+    .delete(schema.verification)
+    .where(eq(schema.verification.identifier, deviceIdentifier(deviceCode)))
+  await ctx.db
+    .delete(schema.verification)
+    .where(eq(schema.verification.identifier, userCodeIdentifier(userCode)))
+}
+
+/** The pending authorization a user code names, with its device code. Null once used or expired. */
+export async function findDeviceAuthorization(ctx: BaseServiceContext, userCode: string) {
+  const pointer = await readRow<string>(ctx, userCodeIdentifier(userCode))
+  if (!pointer || pointer.expired) return null
+  const row = await readRow<DeviceAuthorization>(ctx, deviceIdentifier(pointer.value))
+  if (!row || row.expired || row.value.status !== "pending") return null
+  return { deviceCode: pointer.value, ...row.value }
+}
+
+/**
+ * Where /device sends the user to approve: /auth/oauth2/authorize for the
+ * device's client and scopes, always through consent, so the user sees what
+ * they're letting in.
+ */
+export async function deviceAuthorizeUrl(
+  origin: string,
+  authorization: Pick<
+    DeviceAuthorization,
+    "clientId" | "scope" | "redirectUri" | "state" | "verifier"
+  >,
+) {
+  const url = new URL("/auth/oauth2/authorize", origin)
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: authorization.clientId,
+    redirect_uri: authorization.redirectUri,
+    scope: authorization.scope,
+    state: authorization.state,
+    code_challenge: await sha256Base64Url(authorization.verifier),
+    code_challenge_method: "S256",
+    prompt: "consent",
+  }).toString()
+  return url.toString()
+}
+
+/** A redirect URI without its query: where oauth-provider sends the code. */
+function redirectBase(uri: string) {
+  return uri.split(/[?#]/)[0]
+}
+
+function oauthError(status: "BAD_REQUEST" | "UNAUTHORIZED", error: string, description: string) {
+  return new APIError(status, { error, error_description: description })
+}
+
+/**
+ * Better Auth plugin for the device authorization grant: the device
+ * authorization endpoint, the authorization code caught for /device, the
+ * device_code grant at the token endpoint (authorization_pending until the
+ * user decides, slow_down when polled faster than the interval), and
+ * `device_authorization_endpoint` in the discovery documents.
+ *
+ * The device endpoint doesn't take a client secret; a confidential client
+ * authenticates when it polls, as it would exchanging any code.
+ */
+export function deviceAuthorization(context: BaseServiceContext) {
+  return {
+    id: "device-authorization",
+    endpoints: {
+      deviceAuthorization: createAuthEndpoint(
+        "/oauth2/device-authorization",
+        {
+          method: "POST",
+          body: z.object({ client_id: z.string().optional(), scope: z.string().optional() }),
+          metadata: {
+            allowedMediaTypes: ["application/x-www-form-urlencoded", "application/json"],
+          },
+        },
+        async (ctx) => {
+          const clientId = requestClientId(ctx.request, ctx.body)
+          const [client] = clientId
+            ? await context.db
+                .select({
+                  grantTypes: schema.oauthClient.grantTypes,
+                  redirectUris: schema.oauthClient.redirectUris,
+                  scopes: schema.oauthClient.scopes,
+                  disabled: schema.oauthClient.disabled,
+                })
+                .from(schema.oauthClient)
+                .where(eq(schema.oauthClient.clientId, clientId))
+                .limit(1)
+            : []
+          if (!clientId || !client || client.disabled) {
+            throw oauthError("UNAUTHORIZED", "invalid_client", "Unknown client.")
+          }
+          const [redirectUri] = coerceUriList(client.redirectUris)
+          if (!coerceUriList(client.grantTypes).includes(DEVICE_CODE_GRANT) || !redirectUri) {
+            throw oauthError(
+              "BAD_REQUEST",
+              "unauthorized_client",
+              "This client may not use the device authorization grant.",
+            )
+          }
+          const allowed = client.scopes ? coerceUriList(client.scopes) : USER_SCOPES
+          const requested = ctx.body.scope?.split(" ").filter(Boolean) ?? []
+          const invalid = requested.filter((s) => !allowed.includes(s))
+          if (invalid.length) {
+            throw oauthError("BAD_REQUEST", "invalid_scope", `Not allowed: ${invalid.join(", ")}.`)
+          }
+
+          const deviceCode = generateRandomString(40, "a-z", "A-Z", "0-9")
+          let userCode = generateUserCode()
+          while (await readRow(context, userCodeIdentifier(userCode))) userCode = generateUserCode()
+          const authorization: DeviceAuthorization = {
+            clientId,
+            scope: (requested.length ? requested : allowed).join(" "),
+            userCode,
+            redirectUri,
+            state: `device:${userCode}:${generateRandomString(16, "a-z", "A-Z", "0-9")}`,
+            verifier: generateRandomString(64, "a-z", "A-Z", "0-9"),
+            status: "pending",
+            code: null,
+            interval: POLL_INTERVAL_SECONDS,
+            polledAt: null,
+          }
+          const expiresAt = new Date(Date.now() + DEVICE_CODE_SECONDS * 1000)
+          await context.db.insert(schema.verification).values([
+            {
+              id: crypto.randomUUID(),
+              identifier: deviceIdentifier(deviceCode),
+              value: JSON.stringify(authorization),
+              expiresAt,
+            },
+            {
+              id: crypto.randomUUID(),
+              identifier: userCodeIdentifier(userCode),
+              value: JSON.stringify(deviceCode),
+              expiresAt,
+            },
+          ])
+          context.logger.info("oauth.device_authorization", {
+            clientId,
+            scope: authorization.scope,
+          })
+
+          const verificationUri = new URL("/device", ctx.context.baseURL)
+          const complete = new URL(verificationUri)
+          complete.searchParams.set("user_code", formatUserCode(userCode))
+          return ctx.json(
+            {
+              device_code: deviceCode,
+              user_code: formatUserCode(userCode),
+              verification_uri: verificationUri.toString(),
+              verification_uri_complete: complete.toString(),
+              expires_in: DEVICE_CODE_SECONDS,
+              interval: POLL_INTERVAL_SECONDS,
+            },
+            { headers: { "Cache-Control": "no-store", Pragma: "no-cache" } },
+          )
+        },
+      ),
+    },
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) =>
+            ctx.path === "/oauth2/token" && ctx.body?.grant_type === DEVICE_CODE_GRANT,
+          handler: createAuthMiddleware(async (ctx) => {
+            const { device_code: deviceCode, ...body } = ctx.body as Record<string, unknown>
+            const row =
+              typeof deviceCode === "string"
+                ? await readRow<DeviceAuthorization>(context, deviceIdentifier(deviceCode))
+                : null
+            const authorization = row?.value
+            if (
+              !row ||
+              !authorization ||
+              authorization.clientId !== requestClientId(ctx.request, body)
+            ) {
+              throw oauthError("BAD_REQUEST", "invalid_grant", "Unknown device code.")
+            }
+            const code = deviceCode as string
+            if (row.expired) {
+              await deleteDeviceAuthorization(context, code, authorization.userCode)
+              throw oauthError("BAD_REQUEST", "expired_token", "The device code has expired.")
+            }
+            if (authorization.status === "denied") {
+              await deleteDeviceAuthorization(context, code, authorization.userCode)
+              throw oauthError("BAD_REQUEST", "access_denied", "The user denied the request.")
+            }
+            if (authorization.status === "pending") {
+              const now = Date.now()
+              const early =
+                authorization.polledAt !== null &&
+                now - authorization.polledAt < authorization.interval * 1000
+              await saveDeviceAuthorization(context, code, {
+                ...authorization,
+                interval: authorization.interval + (early ? 5 : 0),
+                polledAt: now,
+              })
+              if (early) throw oauthError("BAD_REQUEST", "slow_down", "Poll less often.")
+              throw oauthError(
+                "BAD_REQUEST",
+                "authorization_pending",
+                "The user hasn't approved the request yet.",
+              )
+            }
+            // Approved: exchange the code /device got for it, once.
+            await deleteDeviceAuthorization(context, code, authorization.userCode)
+            return {
+              context: {
+                body: {
+                  ...body,
+                  grant_type: "authorization_code",
+                  code: authorization.code,
+                  redirect_uri: authorization.redirectUri,
+                  code_verifier: authorization.verifier,
+                },
+              },
+            }
+          }),
+        },
+      ],
+      after: [
+        {
+          // The user approved or denied on /device: keep the outcome for the
+          // device and send the browser back to /device instead of the client.
+          matcher: (ctx) => AUTHORIZE_PATHS.includes(ctx.path ?? ""),
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned
+            const location = isAPIError(returned)
+              ? new Headers(returned.headers).get("location")
+              : (returned as { url?: string } | null)?.url
+            if (!location) return
+            let url: URL
+            try {
+              url = new URL(location)
+            } catch {
+              return
+            }
+            const state = url.searchParams.get("state")
+            const userCode = deviceUserCode(state)?.replace("-", "")
+            const authorization = userCode ? await findDeviceAuthorization(context, userCode) : null
+            if (!authorization || authorization.state !== state) return
+            if (redirectBase(location) !== redirectBase(authorization.redirectUri)) return
+
+            const { deviceCode, ...stored } = authorization
+            const code = url.searchParams.get("code")
+            const status = code ? "approved" : "denied"
+            await saveDeviceAuthorization(context, deviceCode, { ...stored, status, code })
+            context.logger.info(`oauth.device_${status}`, { clientId: authorization.clientId })
+
+            const next = new URL(`/device?result=${status}`, ctx.context.baseURL).toString()
+            if (isAPIError(returned)) throw ctx.redirect(next)
+            return ctx.json({ redirect: true, url: next })
+          }),
+        },
+        {
+          matcher: (ctx) =>
+            ctx.path === "/.well-known/oauth-authorization-server" ||
+            ctx.path === "/.well-known/openid-configuration",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned as Record<string, unknown> | null
+            if (!returned || isAPIError(returned)) return
+            const grantTypes = Array.isArray(returned.grant_types_supported)
+              ? (returned.grant_types_supported as string[])
+              : []
+            return ctx.json({
+              ...returned,
+              device_authorization_endpoint: `${ctx.context.baseURL}/oauth2/device-authorization`,
+              grant_types_supported: [...grantTypes, DEVICE_CODE_GRANT],
+            })
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
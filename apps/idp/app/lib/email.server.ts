@@ -0,0 +1,36 @@
+import { Resend } from "resend"
+
+import type { BaseServiceContext } from "./services"
+
+/** For interpolating user-supplied text (app names, emails) into email HTML. */
+export function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+}
+
+/**
+ * Sends a transactional email through Resend. Outside production (or without a
+ * RESEND_TOKEN) nothing is sent: `devLines` are logged instead so the flow can
+ * be completed from the console.
+ */
+export async function sendEmail(
+  ctx: BaseServiceContext,
+  message: { to: string; subject: string; html: string; devLines: string[] },
+) {
+  const env = ctx.getAppEnv()
+  if (env.APP_ENV !== "production" || !env.RESEND_TOKEN) {
+    for (const line of message.devLines) ctx.logger.info(line)
+    return
+  }
+
+  const resend = new Resend(env.RESEND_TOKEN)
+  await resend.emails.send({
+    from: env.EMAIL_FROM,
+    to: message.to,
+    subject: message.subject,
+    html: message.html,
+  })
+}
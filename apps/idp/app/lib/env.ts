@@ -11,8 +11,11 @@ const appEnvSchema = z.object({
   EMAIL_FROM: z.string().default("willy.im <noreply@emails.willy.im>"),
 
   // Admin console + management API. Comma-separated allowlist of admin emails.
+  // Management API access is by API keys minted in the console (see api_key).
   ADMIN_EMAILS: z.string().default("hey@willy.im"),
-  // Bearer token for the read-only management API (/api/v1/*). Optional.
+  // Deprecated: the bearer token of the old read-only management API. Still
+  // accepted for reads (with a warning logged) until the next release; mint an
+  // IdP-wide API key on the Applications page instead.
   ADMIN_API_TOKEN: z.string().optional(),
 })
 
@@ -0,0 +1,139 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { createApplication, grantAppMember } from "./admin.server"
+import { createAuthService } from "./auth.server"
+import { defaultTenant } from "./tenant.server"
+import {
+  authFetch,
+  authorize,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  json,
+  jwtClaims,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+let other: { clientId: string }
+let actorId: string
+let targetId: string
+/** The browser's cookies once the actor starts impersonating the target. */
+let cookie: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+  other = await createApplication(ctx, {
+    name: "Other",
+    app: "other",
+    redirectUris: ["https://other.test/callback"],
+  })
+  actorId = createUser(ctx, { name: "Admin" })
+  targetId = createUser(ctx, { name: "Target" })
+
+  const { headers } = await createAuthService(ctx).api.startImpersonation({
+    body: { applicationId: "acme", clientId: acme.clientId, userId: targetId, minutes: 15 },
+    headers: new Headers({ cookie: await sessionCookie(ctx, actorId) }),
+    returnHeaders: true,
+  })
+  // The response clears the actor's session cookie before setting the target's.
+  const pairs = headers.getSetCookie().map((c) => c.split(";")[0])
+  const jar = new Map(pairs.map((pair) => [pair.slice(0, pair.indexOf("=")), pair]))
+  cookie = [...jar.values()].join("; ")
+})
+
+function post(path: string, body: unknown, browserCookie = cookie) {
+  return authFetch(ctx, path, {
+    method: "POST",
+    headers: {
+      cookie: browserCookie,
+      "content-type": "application/json",
+      origin: defaultTenant(ctx).origin,
+    },
+    body: JSON.stringify(body),
+  })
+}
+
+describe("impersonation sessions", () => {
+  it("can't act on the target's account", async () => {
+    const attempts = [
+      post("/update-user", { name: "Hijacked" }),
+      post("/change-email", { newEmail: "attacker@example.com" }),
+      post("/revoke-sessions", {}),
+      post("/two-factor/enable", { password: "x" }),
+      authFetch(ctx, "/passkey/generate-register-options", { headers: { cookie } }),
+    ]
+    for (const res of await Promise.all(attempts)) expect(res.status).toBe(403)
+
+    const session = await json(await authFetch(ctx, "/get-session", { headers: { cookie } }))
+    expect(session.user).toMatchObject({ id: targetId, name: "Target" })
+  })
+
+  it("leaves the target's own sessions alone", async () => {
+    const res = await post("/update-user", { name: "Renamed" }, await sessionCookie(ctx, targetId))
+    expect(res.status).toBe(200)
+  })
+
+  it("authorize only their application, without refresh tokens", async () => {
+    const elsewhere = await authorize(ctx, {
+      cookie,
+      clientId: other.clientId,
+      redirectUri: "https://other.test/callback",
+      scope: "openid",
+    })
+    expect(elsewhere.status).toBe(403)
+
+    const res = await codeFlowTokens(ctx, {
+      cookie,
+      ...acme,
+      redirectUri: "https://acme.test/callback",
+      scope: "openid offline_access",
+    })
+    const tokens = await json(res)
+    expect(tokens.refresh_token).toBeUndefined()
+    expect(jwtClaims(tokens.id_token)).toMatchObject({ sub: targetId, act: { sub: actorId } })
+  })
+
+  it("can be stopped, restoring the actor", async () => {
+    const stopped = await createAuthService(ctx).api.stopImpersonation({
+      headers: new Headers({ cookie }),
+    })
+    expect(stopped).toEqual({ restored: true })
+  })
+})
+
+describe("starting an impersonation", () => {
+  async function start(actor: string, userId: string) {
+    try {
+      await createAuthService(ctx).api.startImpersonation({
+        body: { applicationId: "acme", clientId: acme.clientId, userId, minutes: 15 },
+        headers: new Headers({ cookie: await sessionCookie(ctx, actor) }),
+      })
+      return null
+    } catch (error) {
+      return (error as { message: string }).message
+    }
+  }
+
+  it("refuses targets who may do more to the app than the actor", async () => {
+    const member = createUser(ctx)
+    await grantAppMember(ctx, "acme", member, { role: "member", permissions: ["user:impersonate"] })
+    const admin = createUser(ctx)
+    await grantAppMember(ctx, "acme", admin, { role: "admin" })
+    const reader = createUser(ctx)
+    await grantAppMember(ctx, "acme", reader, { role: "member", permissions: ["app:read"] })
+
+    expect(await start(member, admin)).toMatch(/may do more/)
+    expect(await start(member, reader)).toMatch(/may do more/)
+    expect(await start(member, member)).toMatch(/yourself/)
+    expect(await start(member, targetId)).toBeNull()
+    expect(await start(admin, reader)).toBeNull()
+  })
+})
@@ -0,0 +1,405 @@
+import { and, desc, eq } from "drizzle-orm"
+import { alias } from "drizzle-orm/sqlite-core"
+import type { BetterAuthPlugin } from "better-auth"
+import {
+  APIError,
+  createAuthEndpoint,
+  createAuthMiddleware,
+  getSessionFromCtx,
+  sessionMiddleware,
+} from "better-auth/api"
+import { deleteSessionCookie, expireCookie, setSessionCookie } from "better-auth/cookies"
+import { z } from "zod"
+
+import * as schema from "../db/schema"
+import { isAdminEmail } from "./admin.server"
+import { sha256Base64Url } from "./crypto.server"
+import { APP_PERMISSIONS, resolvePermissions } from "./permissions"
+import type { BaseServiceContext } from "./services"
+
+/** How long an impersonation may run, in minutes. The console offers these. */
+export const IMPERSONATION_MINUTES = [15, 30, 60] as const
+
+/** Signed cookie holding the impersonator's own session while they act as someone else. */
+const IMPERSONATOR_COOKIE = "impersonator_session"
+
+/** The oauth-provider endpoints that authorize a client for the signed-in session. */
+const AUTHORIZE_PATHS = ["/oauth2/authorize", "/oauth2/consent", "/oauth2/continue"]
+
+/**
+ * Everything an impersonation session may reach under /auth: authorizing its
+ * client, the token endpoints, reading the session (the account page shows it
+ * read-only) and leaving. The rest — passkeys, profile and email changes, two
+ * factor, revoking sessions — would act as the target user.
+ */
+const IMPERSONATION_PATHS = [
+  ...AUTHORIZE_PATHS,
+  "/oauth2/token",
+  "/oauth2/introspect",
+  "/oauth2/revoke",
+  "/oauth2/userinfo",
+  "/oauth2/end-session",
+  "/get-session",
+  "/list-sessions",
+  "/sign-out",
+  "/impersonation/stop",
+  "/jwks",
+  "/ok",
+  "/error",
+]
+
+export type ImpersonationSummary = {
+  id: string
+  clientId: string
+  actorUserId: string
+  actorEmail: string
+  targetUserId: string
+  targetEmail: string
+  reason: string | null
+  expiresAt: Date
+  endedAt: Date | null
+  createdAt: Date
+}
+
+const actor = alias(schema.user, "actor")
+const target = alias(schema.user, "target")
+
+function selectImpersonations(ctx: BaseServiceContext) {
+  return ctx.db
+    .select({
+      id: schema.impersonation.id,
+      clientId: schema.impersonation.clientId,
+      actorUserId: schema.impersonation.actorUserId,
+      actorEmail: actor.email,
+      targetUserId: schema.impersonation.targetUserId,
+      targetEmail: target.email,
+      reason: schema.impersonation.reason,
+      expiresAt: schema.impersonation.expiresAt,
+      endedAt: schema.impersonation.endedAt,
+      createdAt: schema.impersonation.createdAt,
+    })
+    .from(schema.impersonation)
+    .innerJoin(actor, eq(schema.impersonation.actorUserId, actor.id))
+    .innerJoin(target, eq(schema.impersonation.targetUserId, target.id))
+}
+
+/** What `user` may do to `app` in the console: everything for superadmins, else their grants. */
+async function consolePermissions(
+  ctx: BaseServiceContext,
+  app: string,
+  user: { id: string; email: string },
+) {
+  if (isAdminEmail(ctx, user.email)) return [...APP_PERMISSIONS]
+  const [member] = await ctx.db
+    .select({
+      role: schema.applicationMember.role,
+      permissions: schema.applicationMember.permissions,
+    })
+    .from(schema.applicationMember)
+    .where(
+      and(
+        eq(schema.applicationMember.applicationId, app),
+        eq(schema.applicationMember.userId, user.id),
+      ),
+    )
+    .limit(1)
+  return member ? resolvePermissions(member.role, member.permissions ?? []) : []
+}
+
+/**
+ * Why `actor` may not impersonate `target` on `app`, or null if they may.
+ * Nobody impersonates themselves or a superadmin, nor anyone who may do more
+ * to the app than they may: acting as an admin would hand a member its powers.
+ */
+export async function impersonationRefusal(
+  ctx: BaseServiceContext,
+  app: string,
+  actor: { id: string; email: string },
+  target: { id: string; email: string },
+) {
+  if (actor.id === target.id || isAdminEmail(ctx, target.email))
+    return "You can't impersonate yourself or a superadmin."
+  const [mine, theirs] = await Promise.all([
+    consolePermissions(ctx, app, actor),
+    consolePermissions(ctx, app, target),
+  ])
+  if (theirs.some((p) => !mine.includes(p)))
+    return "You can't impersonate someone who may do more to this application than you."
+  return null
+}
+
+export function isImpersonationActive(row: Pick<ImpersonationSummary, "expiresAt" | "endedAt">) {
+  return !row.endedAt && row.expiresAt.getTime() > Date.now()
+}
+
+/** The impersonation a session was minted for (ended or not), or null for ordinary sessions. */
+export async function findImpersonationBySession(
+  ctx: BaseServiceContext,
+  sessionId: string,
+): Promise<ImpersonationSummary | null> {
+  const [row] = await selectImpersonations(ctx)
+    .where(eq(schema.impersonation.sessionId, sessionId))
+    .limit(1)
+  return row ?? null
+}
+
+/** Recent impersonations of `app`'s users, newest first. */
+export async function listImpersonations(ctx: BaseServiceContext, app: string, limit = 20) {
+  return selectImpersonations(ctx)
+    .where(eq(schema.impersonation.applicationId, app))
+    .orderBy(desc(schema.impersonation.createdAt))
+    .limit(limit)
+}
+
+/** RFC 8693 actor claim: the token's subject is being acted for by `act.sub`. */
+export function actClaim(row: ImpersonationSummary) {
+  return { act: { sub: row.actorUserId, email: row.actorEmail } }
+}
+
+/** The `sid` of a JWT access token, read without verifying (the endpoint verifies). */
+function jwtSessionId(token: string) {
+  const [, payload] = token.split(".")
+  if (!payload) return undefined
+  try {
+    const json = atob(payload.replace(/-/g, "+").replace(/_/g, "/"))
+    return (JSON.parse(json) as { sid?: string }).sid
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * The session a token-endpoint or introspection request traces back to: the
+ * authorization code's verification value, the refresh token's row, or the
+ * access token itself. oauth-provider stores all three hashed (SHA-256,
+ * base64url) by default.
+ */
+export async function sessionIdForTokenRequest(
+  ctx: BaseServiceContext,
+  path: string,
+  body: Record<string, unknown> | undefined,
+) {
+  if (path === "/oauth2/token" && body?.grant_type === "authorization_code") {
+    const code = typeof body.code === "string" ? body.code : ""
+    const [verification] = await ctx.db
+      .select({ value: schema.verification.value })
+      .from(schema.verification)
+      .where(eq(schema.verification.identifier, await sha256Base64Url(code)))
+      .limit(1)
+    try {
+      return verification
+        ? (JSON.parse(verification.value) as { sessionId?: string }).sessionId
+        : undefined
+    } catch {
+      return undefined
+    }
+  }
+  if (path === "/oauth2/token" && body?.grant_type === "refresh_token") {
+    const token = typeof body.refresh_token === "string" ? body.refresh_token : ""
+    const [row] = await ctx.db
+      .select({ sessionId: schema.oauthRefreshToken.sessionId })
+      .from(schema.oauthRefreshToken)
+      .where(eq(schema.oauthRefreshToken.token, await sha256Base64Url(token)))
+      .limit(1)
+    return row?.sessionId ?? undefined
+  }
+  if (path === "/oauth2/introspect" && typeof body?.token === "string") {
+    const sid = jwtSessionId(body.token)
+    if (sid) return sid
+    const [row] = await ctx.db
+      .select({ sessionId: schema.oauthAccessToken.sessionId })
+      .from(schema.oauthAccessToken)
+      .where(eq(schema.oauthAccessToken.token, await sha256Base64Url(body.token)))
+      .limit(1)
+    return row?.sessionId ?? undefined
+  }
+  return undefined
+}
+
+/**
+ * Better Auth plugin for app-admin impersonation. Like the admin plugin's
+ * impersonateUser, it mints a session for the target and parks the actor's own
+ * session in a signed cookie, but the session is bound to one OAuth client:
+ *
+ * - authorize/consent for any other client is refused, and `offline_access` is
+ *   dropped so no refresh token outlives the impersonation;
+ * - every other endpoint that acts on the signed-in user is refused (see
+ *   IMPERSONATION_PATHS);
+ * - tokens minted from it carry an `act` claim (read `claims()` from the
+ *   custom-claims callbacks; the auth instance is per request, so the hooks can
+ *   hand state to them);
+ * - stopping revokes its opaque access tokens and restores the actor's session.
+ *
+ * Both endpoints are server-only: callers authorize the actor (user:impersonate
+ * on the app) and write the audit context first. Starting refuses targets
+ * `impersonationRefusal` names a reason for.
+ */
+export function impersonation(context: BaseServiceContext) {
+  let tokenImpersonation: ImpersonationSummary | null = null
+
+  const plugin = {
+    id: "impersonation",
+    endpoints: {
+      startImpersonation: createAuthEndpoint(
+        "/impersonation/start",
+        {
+          method: "POST",
+          body: z.object({
+            applicationId: z.string(),
+            clientId: z.string(),
+            userId: z.string(),
+            minutes: z
+              .number()
+              .int()
+              .positive()
+              .max(Math.max(...IMPERSONATION_MINUTES)),
+            reason: z.string().max(500).optional(),
+          }),
+          use: [sessionMiddleware],
+          metadata: { SERVER_ONLY: true },
+        },
+        async (ctx) => {
+          const current = ctx.context.session
+          if (await findImpersonationBySession(context, current.session.id)) {
+            throw new APIError("BAD_REQUEST", { message: "Stop impersonating first." })
+          }
+          const targetUser = await ctx.context.internalAdapter.findUserById(ctx.body.userId)
+          if (!targetUser) throw new APIError("NOT_FOUND", { message: "User not found." })
+          const refusal = await impersonationRefusal(
+            context,
+            ctx.body.applicationId,
+            current.user,
+            targetUser,
+          )
+          if (refusal) throw new APIError("FORBIDDEN", { message: refusal })
+
+          const expiresAt = new Date(Date.now() + ctx.body.minutes * 60 * 1000)
+          const session = await ctx.context.internalAdapter.createSession(
+            targetUser.id,
+            true,
+            { expiresAt },
+            true,
+          )
+          if (!session) {
+            throw new APIError("INTERNAL_SERVER_ERROR", { message: "Could not create session." })
+          }
+
+          const [row] = await context.db
+            .insert(schema.impersonation)
+            .values({
+              applicationId: ctx.body.applicationId,
+              clientId: ctx.body.clientId,
+              actorUserId: current.user.id,
+              targetUserId: targetUser.id,
+              sessionId: session.id,
+              reason: ctx.body.reason || null,
+              expiresAt,
+            })
+            .returning({ id: schema.impersonation.id })
+
+          const dontRememberMe = await ctx.getSignedCookie(
+            ctx.context.authCookies.dontRememberToken.name,
+            ctx.context.secret,
+          )
+          deleteSessionCookie(ctx)
+          await ctx.setSignedCookie(
+            ctx.context.createAuthCookie(IMPERSONATOR_COOKIE).name,
+            `${current.session.token}:${dontRememberMe || ""}`,
+            ctx.context.secret,
+            ctx.context.authCookies.sessionToken.attributes,
+          )
+          await setSessionCookie(ctx, { session, user: targetUser }, true)
+          return ctx.json({ id: row.id, expiresAt })
+        },
+      ),
+      stopImpersonation: createAuthEndpoint(
+        "/impersonation/stop",
+        { method: "POST", requireHeaders: true, metadata: { SERVER_ONLY: true } },
+        async (ctx) => {
+          const session = await getSessionFromCtx(ctx)
+          const row = session ? await findImpersonationBySession(context, session.session.id) : null
+          if (!session || !row) {
+            throw new APIError("BAD_REQUEST", { message: "Not impersonating anyone." })
+          }
+
+          await context.db
+            .update(schema.impersonation)
+            .set({ endedAt: new Date() })
+            .where(eq(schema.impersonation.id, row.id))
+          await context.db
+            .delete(schema.oauthAccessToken)
+            .where(eq(schema.oauthAccessToken.sessionId, session.session.id))
+          await ctx.context.internalAdapter.deleteSession(session.session.token)
+          deleteSessionCookie(ctx)
+
+          const cookie = ctx.context.createAuthCookie(IMPERSONATOR_COOKIE)
+          const parked = await ctx.getSignedCookie(cookie.name, ctx.context.secret)
+          expireCookie(ctx, cookie)
+          const [token, dontRememberMe] = parked ? parked.split(":") : []
+          const own = token ? await ctx.context.internalAdapter.findSession(token) : null
+          // The actor's session may have expired meanwhile; they sign in again.
+          if (!own || own.session.userId !== row.actorUserId) return ctx.json({ restored: false })
+
+          await setSessionCookie(ctx, own, !!dontRememberMe)
+          return ctx.json({ restored: true })
+        },
+      ),
+    },
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => !IMPERSONATION_PATHS.includes(ctx.path ?? ""),
+          handler: createAuthMiddleware(async (ctx) => {
+            const session = await getSessionFromCtx(ctx)
+            if (session && (await findImpersonationBySession(context, session.session.id))) {
+              throw new APIError("FORBIDDEN", { message: "Not available while impersonating." })
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => AUTHORIZE_PATHS.includes(ctx.path ?? ""),
+          handler: createAuthMiddleware(async (ctx) => {
+            const session = await getSessionFromCtx(ctx)
+            const row = session
+              ? await findImpersonationBySession(context, session.session.id)
+              : null
+            if (!row) return
+
+            const query =
+              ctx.path === "/oauth2/authorize"
+                ? new URLSearchParams(ctx.query as Record<string, string>)
+                : new URLSearchParams(String(ctx.body?.oauth_query ?? ""))
+            if (query.get("client_id") !== row.clientId || !isImpersonationActive(row)) {
+              throw new APIError("FORBIDDEN", {
+                error: "access_denied",
+                error_description: "This impersonation session is limited to one application.",
+              })
+            }
+            if (ctx.path === "/oauth2/authorize" && typeof ctx.query?.scope === "string") {
+              const scope = ctx.query.scope
+                .split(" ")
+                .filter((s: string) => s !== "offline_access")
+                .join(" ")
+              return { context: { query: { ...ctx.query, scope } } }
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/oauth2/token" || ctx.path === "/oauth2/introspect",
+          handler: createAuthMiddleware(async (ctx) => {
+            const sessionId = await sessionIdForTokenRequest(context, ctx.path ?? "", ctx.body)
+            tokenImpersonation = sessionId
+              ? await findImpersonationBySession(context, sessionId)
+              : null
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+
+  return {
+    plugin,
+    /** `{ act }` for tokens minted or introspected in this request, if impersonated. */
+    claims: () => (tokenImpersonation ? actClaim(tokenImpersonation) : {}),
+  }
+}
@@ -0,0 +1,164 @@
+import { and, desc, eq, gt, isNull } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import { grantAppMember } from "./admin.server"
+import { generateSecret, sha256Base64Url } from "./crypto.server"
+import { escapeHtml, sendEmail } from "./email.server"
+import { resolvePermissions, type AppPermission, type AppRole } from "./permissions"
+import type { BaseServiceContext } from "./services"
+
+/** Invitations expire after a week; re-invite to send a fresh link. */
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+export type PendingInvitation = {
+  id: string
+  email: string
+  role: AppRole
+  permissions: AppPermission[]
+  invitedByEmail: string | null
+  expiresAt: Date
+  createdAt: Date
+}
+
+function renderInvitationEmail(link: string, appName: string, inviter: string) {
+  return {
+    subject: `You've been invited to manage ${appName} on willy.im`,
+    html: `<!DOCTYPE html><html><body style="font-family:system-ui,sans-serif;max-width:32rem;margin:0 auto;padding:1.5rem;color:#0a0a0a;">
+      <p>${escapeHtml(inviter)} invited you to help manage <strong>${escapeHtml(appName)}</strong> on willy.im.</p>
+      <p><a href="${link}" style="display:inline-block;background:#0a0a0a;color:#fafafa;padding:12px 24px;text-decoration:none;border-radius:8px;margin:8px 0;">Accept invitation</a></p>
+      <p style="color:#666;font-size:14px;">Sign in with this email address to accept. The invitation expires in 7 days. If you weren't expecting it, ignore this email.</p>
+    </body></html>`,
+  }
+}
+
+/**
+ * Invites `email` to an application and emails the acceptance link. A newer
+ * invitation for the same address supersedes (revokes) any pending one.
+ */
+export async function createInvitation(
+  ctx: BaseServiceContext,
+  input: {
+    app: string
+    appName: string
+    email: string
+    role: AppRole
+    permissions: AppPermission[]
+    invitedBy: { id: string; email: string }
+  },
+) {
+  const email = input.email.trim().toLowerCase()
+  const token = generateSecret(40)
+
+  await ctx.db
+    .update(schema.applicationInvitation)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(schema.applicationInvitation.applicationId, input.app),
+        eq(schema.applicationInvitation.email, email),
+        isNull(schema.applicationInvitation.acceptedAt),
+        isNull(schema.applicationInvitation.revokedAt),
+      ),
+    )
+
+  await ctx.db.insert(schema.applicationInvitation).values({
+    applicationId: input.app,
+    email,
+    role: input.role,
+    permissions: input.role === "admin" ? [] : input.permissions,
+    tokenHash: await sha256Base64Url(token),
+    invitedByUserId: input.invitedBy.id,
+    expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+  })
+
+  const link = `${ctx.getAppEnv("BETTER_AUTH_URL")}/invite/${token}`
+  const { subject, html } = renderInvitationEmail(link, input.appName, input.invitedBy.email)
+  await sendEmail(ctx, {
+    to: email,
+    subject,
+    html,
+    devLines: [`[invite] ${email} → ${input.app}: ${link}`],
+  })
+}
+
+/** Invitations for `app` that are neither accepted, revoked nor expired. */
+export async function listPendingInvitations(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<PendingInvitation[]> {
+  const rows = await ctx.db
+    .select({
+      id: schema.applicationInvitation.id,
+      email: schema.applicationInvitation.email,
+      role: schema.applicationInvitation.role,
+      permissions: schema.applicationInvitation.permissions,
+      invitedByEmail: schema.user.email,
+      expiresAt: schema.applicationInvitation.expiresAt,
+      createdAt: schema.applicationInvitation.createdAt,
+    })
+    .from(schema.applicationInvitation)
+    .leftJoin(schema.user, eq(schema.applicationInvitation.invitedByUserId, schema.user.id))
+    .where(
+      and(
+        eq(schema.applicationInvitation.applicationId, app),
+        isNull(schema.applicationInvitation.acceptedAt),
+        isNull(schema.applicationInvitation.revokedAt),
+        gt(schema.applicationInvitation.expiresAt, new Date()),
+      ),
+    )
+    .orderBy(desc(schema.applicationInvitation.createdAt))
+
+  return rows.map((r) => ({ ...r, permissions: resolvePermissions(r.role, r.permissions ?? []) }))
+}
+
+/** Revokes a pending invitation of `app`. False if there was none. */
+export async function revokeInvitation(ctx: BaseServiceContext, app: string, id: string) {
+  const revoked = await ctx.db
+    .update(schema.applicationInvitation)
+    .set({ revokedAt: new Date() })
+    .where(
+      and(
+        eq(schema.applicationInvitation.id, id),
+        eq(schema.applicationInvitation.applicationId, app),
+        isNull(schema.applicationInvitation.acceptedAt),
+        isNull(schema.applicationInvitation.revokedAt),
+      ),
+    )
+    .returning({ id: schema.applicationInvitation.id })
+  return revoked.length > 0
+}
+
+/** The live invitation behind a link token, or null (unknown, used, revoked, expired). */
+export async function findInvitationByToken(ctx: BaseServiceContext, token: string) {
+  const [row] = await ctx.db
+    .select()
+    .from(schema.applicationInvitation)
+    .where(eq(schema.applicationInvitation.tokenHash, await sha256Base64Url(token)))
+    .limit(1)
+
+  if (!row || row.acceptedAt || row.revokedAt) return null
+  if (row.expiresAt.getTime() <= Date.now()) return null
+  return row
+}
+
+/**
+ * Accepts an invitation on behalf of the signed-in user. The invitation is
+ * bound to an address: signing in as someone else can't redeem it.
+ */
+export async function acceptInvitation(
+  ctx: BaseServiceContext,
+  invitation: schema.ApplicationInvitation,
+  user: { id: string; email: string },
+) {
+  if (user.email.toLowerCase() !== invitation.email) return false
+
+  await grantAppMember(ctx, invitation.applicationId, user.id, {
+    role: invitation.role,
+    permissions: resolvePermissions(invitation.role, invitation.permissions ?? []),
+  })
+  await ctx.db
+    .update(schema.applicationInvitation)
+    .set({ acceptedAt: new Date() })
+    .where(eq(schema.applicationInvitation.id, invitation.id))
+  return true
+}
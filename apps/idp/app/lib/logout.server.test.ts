@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import * as logout from "../routes/logout"
+import * as openid from "../routes/well-known/openid"
+import { createApplication } from "./admin.server"
+import { setLogoutSettings, takeFrontchannelLogout, type LogoutSettings } from "./logout.server"
+import {
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  json,
+  jwtClaims,
+  loadContext,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>
+
+const settings: LogoutSettings = {
+  enableEndSession: true,
+  postLogoutRedirectUris: ["https://acme.test/signed-out"],
+  backchannelLogoutUri: "https://acme.test/backchannel",
+  frontchannelLogoutUri: "https://acme.test/frontchannel",
+}
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+  fetchMock = vi.fn<typeof fetch>(async () => new Response(null, { status: 200 }))
+  vi.stubGlobal("fetch", fetchMock)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("logout settings", () => {
+  it("need http(s) channel URIs and an app key for them", async () => {
+    expect(await setLogoutSettings(ctx, acme.clientId, "acme", settings)).toEqual({ ok: true })
+    const bad = { ...settings, backchannelLogoutUri: "javascript:alert(1)" }
+    expect(await setLogoutSettings(ctx, acme.clientId, "acme", bad)).toMatchObject({
+      field: "backchannelLogoutUri",
+    })
+    expect(await setLogoutSettings(ctx, acme.clientId, null, settings)).toMatchObject({
+      field: "backchannelLogoutUri",
+    })
+  })
+
+  it("are advertised in discovery", async () => {
+    const request = new Request("http://localhost:5173/.well-known/openid-configuration")
+    const document = await json(await openid.loader(routeArgs(loadContext(ctx), request)))
+    expect(document).toMatchObject({
+      backchannel_logout_supported: true,
+      frontchannel_logout_session_supported: true,
+    })
+  })
+})
+
+describe("signing out", () => {
+  it("tells the clients the session gave tokens to, on both channels", async () => {
+    await setLogoutSettings(ctx, acme.clientId, "acme", settings)
+    const userId = createUser(ctx)
+    const cookie = await sessionCookie(ctx, userId)
+    const flow = { cookie, ...acme, redirectUri: "https://acme.test/callback", scope: "openid" }
+    expect((await codeFlowTokens(ctx, flow)).status).toBe(200)
+    const [sessionId] = ctx.sqlite.prepare("select id from session").pluck().all() as string[]
+
+    const request = new Request("http://localhost:5173/logout", {
+      method: "POST",
+      headers: { cookie },
+    })
+    const res = await logout.action(routeArgs(loadContext(ctx), request))
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe(settings.backchannelLogoutUri)
+    const token = new URLSearchParams(String(init!.body)).get("logout_token")!
+    expect(jwtClaims(token)).toMatchObject({
+      aud: acme.clientId,
+      sub: userId,
+      sid: sessionId,
+      events: { "http://schemas.openid.net/event/backchannel-logout": {} },
+    })
+    expect(jwtClaims(token)).not.toHaveProperty("nonce")
+
+    const location = res.headers.get("location")!
+    expect(location).toMatch(/^\/logout\/\w+$/)
+    const pending = await takeFrontchannelLogout(ctx, location.split("/")[2])
+    expect(pending?.next).toBe("/login")
+    const frame = new URL(pending!.frames[0])
+    expect(frame.origin + frame.pathname).toBe(settings.frontchannelLogoutUri)
+    expect(frame.searchParams.get("sid")).toBe(sessionId)
+    expect(await takeFrontchannelLogout(ctx, location.split("/")[2])).toBeNull()
+  })
+
+  it("goes straight to /login when no client asked to hear of it", async () => {
+    const cookie = await sessionCookie(ctx, createUser(ctx))
+    const request = new Request("http://localhost:5173/logout", {
+      method: "POST",
+      headers: { cookie },
+    })
+    const res = await logout.action(routeArgs(loadContext(ctx), request))
+    expect(res.headers.get("location")).toBe("/login")
+    expect(fetchMock).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,336 @@
+import { eq, inArray } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { createAuthMiddleware, isAPIError } from "better-auth/api"
+import { generateRandomString } from "better-auth/crypto"
+import { signJWT } from "better-auth/plugins/jwt"
+
+import * as schema from "../db/schema"
+import { coerceUriList, listApplications } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+import { firstInvalidRedirectUri } from "./validate"
+
+/**
+ * OpenID Connect logout. RP-initiated logout is oauth-provider's
+ * /oauth2/end-session (clients with `enableEndSession`); whichever way a
+ * session ends — that, signing out, revoking it from /account — the clients
+ * that got tokens from it are told: a logout token POSTed to their
+ * back-channel URI, and, when it ends in the browser, their front-channel URI
+ * loaded in an iframe on /logout/:id before moving on.
+ */
+export type LogoutSettings = {
+  enableEndSession: boolean
+  postLogoutRedirectUris: string[]
+  backchannelLogoutUri: string | null
+  frontchannelLogoutUri: string | null
+}
+
+/** A client holding tokens from an ending session, and how it wants to hear of it. */
+type LogoutClient = {
+  clientId: string
+  backchannelLogoutUri: string | null
+  frontchannelLogoutUri: string | null
+}
+
+/** How long a logout token is good for, in seconds. */
+const LOGOUT_TOKEN_SECONDS = 60 * 2
+
+/** How long a client gets to answer a back-channel logout, in milliseconds. */
+const BACKCHANNEL_TIMEOUT_MS = 5_000
+
+/** How long the front-channel page stays around to be visited, in seconds. */
+const FRONTCHANNEL_SECONDS = 60
+
+const BACKCHANNEL_EVENT = "http://schemas.openid.net/event/backchannel-logout"
+
+export async function getLogoutSettings(
+  ctx: BaseServiceContext,
+  clientId: string,
+  app: string | null,
+): Promise<LogoutSettings> {
+  const [client] = await ctx.db
+    .select({
+      enableEndSession: schema.oauthClient.enableEndSession,
+      postLogoutRedirectUris: schema.oauthClient.postLogoutRedirectUris,
+    })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  const [settings] = app
+    ? await ctx.db
+        .select({
+          backchannelLogoutUri: schema.applicationSettings.backchannelLogoutUri,
+          frontchannelLogoutUri: schema.applicationSettings.frontchannelLogoutUri,
+        })
+        .from(schema.applicationSettings)
+        .where(eq(schema.applicationSettings.applicationId, app))
+        .limit(1)
+    : []
+  return {
+    enableEndSession: !!client?.enableEndSession,
+    postLogoutRedirectUris: coerceUriList(client?.postLogoutRedirectUris),
+    backchannelLogoutUri: settings?.backchannelLogoutUri ?? null,
+    frontchannelLogoutUri: settings?.frontchannelLogoutUri ?? null,
+  }
+}
+
+function isHttpUrl(uri: string) {
+  try {
+    const url = new URL(uri)
+    return url.protocol === "https:" || url.protocol === "http:"
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Saves a client's logout settings. Returns an error (and the field it's
+ * about) instead of throwing when a URI won't do. The back- and front-channel
+ * URIs live in application_settings, so they need an app key.
+ */
+export async function setLogoutSettings(
+  ctx: BaseServiceContext,
+  clientId: string,
+  app: string | null,
+  settings: LogoutSettings,
+) {
+  const invalid = firstInvalidRedirectUri(settings.postLogoutRedirectUris)
+  if (invalid) {
+    return {
+      error: `"${invalid}" isn't an https, loopback or private-use redirect URI.`,
+      field: "postLogoutRedirectUris",
+    }
+  }
+  for (const field of ["backchannelLogoutUri", "frontchannelLogoutUri"] as const) {
+    const uri = settings[field]
+    if (uri && !isHttpUrl(uri)) return { error: `"${uri}" isn't an http(s) URL.`, field }
+    if (uri && !app) return { error: "This application has no app key.", field }
+  }
+
+  await ctx.db
+    .update(schema.oauthClient)
+    .set({
+      enableEndSession: settings.enableEndSession,
+      postLogoutRedirectUris: settings.postLogoutRedirectUris,
+      updatedAt: new Date(),
+    })
+    .where(eq(schema.oauthClient.clientId, clientId))
+  if (app) {
+    const values = {
+      backchannelLogoutUri: settings.backchannelLogoutUri,
+      frontchannelLogoutUri: settings.frontchannelLogoutUri,
+      updatedAt: new Date(),
+    }
+    await ctx.db
+      .insert(schema.applicationSettings)
+      .values({ applicationId: app, ...values })
+      .onConflictDoUpdate({ target: schema.applicationSettings.applicationId, set: values })
+  }
+  return { ok: true as const }
+}
+
+/**
+ * The clients `sessionId` issued tokens to, with their logout URIs. Read
+ * before the session goes: its tokens forget it (session_id set null) then.
+ */
+export async function sessionClients(
+  ctx: BaseServiceContext,
+  sessionId: string,
+): Promise<LogoutClient[]> {
+  const tokens = [schema.oauthAccessToken, schema.oauthRefreshToken]
+  const clientIds = new Set<string>()
+  for (const table of tokens) {
+    const rows = await ctx.db
+      .selectDistinct({ clientId: table.clientId })
+      .from(table)
+      .where(eq(table.sessionId, sessionId))
+    for (const { clientId } of rows) clientIds.add(clientId)
+  }
+  if (clientIds.size === 0) return []
+
+  const clients = (await listApplications(ctx)).filter((a) => clientIds.has(a.clientId))
+  const apps = clients.map((c) => c.app).filter((a) => a !== null)
+  const settings = apps.length
+    ? await ctx.db
+        .select({
+          app: schema.applicationSettings.applicationId,
+          backchannelLogoutUri: schema.applicationSettings.backchannelLogoutUri,
+          frontchannelLogoutUri: schema.applicationSettings.frontchannelLogoutUri,
+        })
+        .from(schema.applicationSettings)
+        .where(inArray(schema.applicationSettings.applicationId, apps))
+    : []
+  const byApp = new Map(settings.map((s) => [s.app, s]))
+  return clients.map((c) => ({
+    clientId: c.clientId,
+    backchannelLogoutUri: (c.app && byApp.get(c.app)?.backchannelLogoutUri) || null,
+    frontchannelLogoutUri: (c.app && byApp.get(c.app)?.frontchannelLogoutUri) || null,
+  }))
+}
+
+/**
+ * Front-channel logout for an ended session: the clients' URIs, with `iss` and
+ * `sid`, kept for /logout/:id to load before it continues to `next`. Null if
+ * no client asked for one.
+ */
+export async function startFrontchannelLogout(
+  ctx: BaseServiceContext,
+  issuer: string,
+  sessionId: string,
+  clients: LogoutClient[],
+  next: string,
+) {
+  const frames = clients.flatMap((c) => {
+    if (!c.frontchannelLogoutUri) return []
+    const url = new URL(c.frontchannelLogoutUri)
+    url.searchParams.set("iss", issuer)
+    url.searchParams.set("sid", sessionId)
+    return [url.toString()]
+  })
+  if (frames.length === 0) return null
+  const id = generateRandomString(32, "a-z", "A-Z", "0-9")
+  await ctx.db.insert(schema.verification).values({
+    id: crypto.randomUUID(),
+    identifier: `logout:${id}`,
+    value: JSON.stringify({ frames, next }),
+    expiresAt: new Date(Date.now() + FRONTCHANNEL_SECONDS * 1000),
+  })
+  return `/logout/${id}`
+}
+
+/** A pending front-channel logout, used up by reading it. */
+export async function takeFrontchannelLogout(ctx: BaseServiceContext, id: string) {
+  const [row] = await ctx.db
+    .delete(schema.verification)
+    .where(eq(schema.verification.identifier, `logout:${id}`))
+    .returning({ value: schema.verification.value, expiresAt: schema.verification.expiresAt })
+  if (!row || row.expiresAt.getTime() <= Date.now()) return null
+  return JSON.parse(row.value) as { frames: string[]; next: string }
+}
+
+/**
+ * Tells clients that `session` ended, server to server: a logout token
+ * (signed with the id_token keys) POSTed to each back-channel URI. Failures
+ * are logged, not retried; the spec leaves that to the client's own session
+ * expiry.
+ */
+async function sendBackchannelLogout(
+  context: BaseServiceContext,
+  endpoint: Parameters<typeof signJWT>[0],
+  session: { id: string; userId: string },
+  clients: LogoutClient[],
+) {
+  const iat = Math.floor(Date.now() / 1000)
+  await Promise.all(
+    clients
+      .filter((c) => c.backchannelLogoutUri)
+      .map(async ({ clientId, backchannelLogoutUri }) => {
+        const logoutToken = await signJWT(endpoint, {
+          // The jwt plugin's options, so the current signing key signs.
+          options: endpoint.context.getPlugin("jwt")?.options,
+          payload: {
+            iss: endpoint.context.baseURL,
+            aud: clientId,
+            sub: session.userId,
+            sid: session.id,
+            iat,
+            exp: iat + LOGOUT_TOKEN_SECONDS,
+            jti: crypto.randomUUID(),
+            events: { [BACKCHANNEL_EVENT]: {} },
+          },
+        })
+        let status: number | undefined
+        let error: string | undefined
+        try {
+          const response = await fetch(backchannelLogoutUri!, {
+            method: "POST",
+            headers: { "content-type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams({ logout_token: logoutToken }),
+            redirect: "manual",
+            signal: AbortSignal.timeout(BACKCHANNEL_TIMEOUT_MS),
+          })
+          status = response.status
+        } catch (err) {
+          error = err instanceof Error ? err.message : String(err)
+        }
+        context.logger.info("logout.backchannel", { clientId, status, error })
+      }),
+  )
+}
+
+/**
+ * Runs the logout channels as sessions end. Clients are looked up before the
+ * session row goes and told after; an ended session's front-channel URIs send
+ * /oauth2/end-session through /logout/:id on the way to the client's
+ * post-logout redirect (or /login). Signing out from /account does the same
+ * itself (routes/logout.ts).
+ */
+export function logoutChannels(context: BaseServiceContext) {
+  // Sessions this request ended, and the clients each had tokens for.
+  const ended = new Map<string, { userId: string; clients: LogoutClient[] }>()
+  return {
+    id: "logout-channels",
+    init: () => ({
+      options: {
+        databaseHooks: {
+          session: {
+            delete: {
+              before: async (session) => {
+                ended.set(session.id, {
+                  userId: session.userId,
+                  clients: await sessionClients(context, session.id),
+                })
+              },
+              after: async (session, endpoint) => {
+                const clients = ended.get(session.id)?.clients ?? []
+                if (!endpoint || !clients.some((c) => c.backchannelLogoutUri)) return
+                await sendBackchannelLogout(context, endpoint, session, clients)
+              },
+            },
+          },
+        },
+      },
+    }),
+    hooks: {
+      after: [
+        {
+          // Discovery: oauth-provider advertises end_session_endpoint; add the channels.
+          matcher: (ctx) => ctx.path === "/.well-known/openid-configuration",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned
+            if (!returned || isAPIError(returned)) return
+            return ctx.json({
+              ...(returned as Record<string, unknown>),
+              backchannel_logout_supported: true,
+              backchannel_logout_session_supported: true,
+              frontchannel_logout_supported: true,
+              frontchannel_logout_session_supported: true,
+            })
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/oauth2/end-session",
+          handler: createAuthMiddleware(async (ctx) => {
+            const [sessionId, session] = [...ended][0] ?? []
+            if (!sessionId || !session) return
+            const returned = ctx.context.returned
+            const next =
+              (isAPIError(returned)
+                ? new Headers(returned.headers).get("location")
+                : (returned as { url?: string } | null)?.url) ?? "/login"
+            const path = await startFrontchannelLogout(
+              context,
+              ctx.context.baseURL,
+              sessionId,
+              session.clients,
+              next,
+            )
+            if (!path) return
+            const url = new URL(path, ctx.context.baseURL).toString()
+            if (isAPIError(returned) || !returned) throw ctx.redirect(url)
+            return ctx.json({ redirect: true, url })
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
@@ -0,0 +1,160 @@
+import { createHmac } from "node:crypto"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createApplication } from "./admin.server"
+import { ACR_MFA, ACR_SINGLE_FACTOR, authenticationClaims } from "./mfa.server"
+import { setSignInPolicy } from "./sign-in-policy.server"
+import {
+  authFetch,
+  authorize,
+  createTestContext,
+  createUser,
+  json,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let userId: string
+
+const EMAIL = "ada@example.com"
+
+beforeEach(() => {
+  ctx = createTestContext()
+  userId = createUser(ctx, { email: EMAIL })
+})
+
+function post(path: string, cookie: string, body: unknown = {}) {
+  return authFetch(ctx, path, {
+    method: "POST",
+    headers: { cookie, "content-type": "application/json" },
+    body: JSON.stringify(body),
+  })
+}
+
+/** The `name=value` pairs a response sets, as a `cookie` header. */
+function cookiesOf(res: Response) {
+  return res.headers
+    .getSetCookie()
+    .map((header) => header.split(";")[0])
+    .filter((pair) => !pair.endsWith("="))
+    .join("; ")
+}
+
+/** The current RFC 6238 code for an otpauth:// URI. */
+function totp(uri: string) {
+  const alphabet = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567"
+  const bits = [...new URL(uri).searchParams.get("secret")!.replace(/=+$/, "")]
+    .map((c) => alphabet.indexOf(c).toString(2).padStart(5, "0"))
+    .join("")
+  const key = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)))
+  const counter = Buffer.alloc(8)
+  counter.writeBigUInt64BE(BigInt(Math.floor(Date.now() / 30_000)))
+  const hmac = createHmac("sha1", key).update(counter).digest()
+  const offset = hmac[hmac.length - 1] & 0xf
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, "0")
+}
+
+function storedAmr() {
+  const rows = ctx.sqlite
+    .prepare("select amr from session where user_id = ? order by created_at")
+    .all(userId) as { amr: string | null }[]
+  return rows.map((row) => row.amr)
+}
+
+/** Enrolls the user in TOTP; returns the otpauth URI and a cookie for the stepped-up session. */
+async function enroll() {
+  const cookie = await sessionCookie(ctx, userId)
+  const { totpURI } = await json(await post("/two-factor/enable", cookie))
+  const verified = await post("/two-factor/verify-totp", cookie, { code: totp(totpURI) })
+  expect(verified.status).toBe(200)
+  return { totpURI, cookie: cookiesOf(verified) }
+}
+
+async function emailCodeSignIn() {
+  const info = vi.spyOn(ctx.logger, "info")
+  await post("/email-otp/send-verification-otp", "", { email: EMAIL, type: "sign-in" })
+  const line = info.mock.calls.map(([message]) => message).find((m) => m.includes(EMAIL))
+  const otp = line!.match(/: (\d+)$/)![1]
+  return post("/sign-in/email-otp", "", { email: EMAIL, otp })
+}
+
+describe("authenticationClaims", () => {
+  it("maps the session's methods to amr and acr", () => {
+    expect(authenticationClaims(null)).toEqual({ acr: ACR_SINGLE_FACTOR })
+    expect(authenticationClaims("pop")).toEqual({ amr: ["pop"], acr: ACR_SINGLE_FACTOR })
+    expect(authenticationClaims("pop otp mfa")).toEqual({
+      amr: ["pop", "otp", "mfa"],
+      acr: ACR_MFA,
+    })
+  })
+})
+
+describe("TOTP", () => {
+  it("steps up the session it was enrolled from", async () => {
+    await enroll()
+    expect(storedAmr()).toContain("otp mfa")
+  })
+
+  it("guards the second factor's settings from single-factor sessions", async () => {
+    const { cookie } = await enroll()
+    const single = await sessionCookie(ctx, userId)
+    expect((await post("/two-factor/generate-backup-codes", single)).status).toBe(403)
+    expect((await post("/two-factor/generate-backup-codes", cookie)).status).toBe(200)
+  })
+
+  it("turns an email-code sign-in into a challenge", async () => {
+    const { totpURI } = await enroll()
+    const before = storedAmr().length
+
+    const first = await emailCodeSignIn()
+    expect(await json(first)).toEqual({ twoFactorRedirect: true, twoFactorMethods: ["totp"] })
+    expect(storedAmr()).toHaveLength(before)
+
+    const second = await post("/two-factor/verify-totp", cookiesOf(first), {
+      code: totp(totpURI),
+    })
+    expect(second.status).toBe(200)
+    expect(storedAmr().at(-1)).toBe("otp mfa")
+  })
+
+  it("accepts a backup code instead", async () => {
+    const { cookie } = await enroll()
+    const { backupCodes } = await json(await post("/two-factor/generate-backup-codes", cookie))
+    const first = await emailCodeSignIn()
+    const second = await post("/two-factor/verify-backup-code", cookiesOf(first), {
+      code: backupCodes[0],
+    })
+    expect(second.status).toBe(200)
+    expect(storedAmr().at(-1)).toBe("otp mfa")
+  })
+})
+
+describe("an app requiring MFA", () => {
+  it("sends single-factor sessions to /mfa before authorizing", async () => {
+    const acme = await createApplication(ctx, {
+      name: "Acme",
+      app: "acme",
+      redirectUris: ["https://acme.test/callback"],
+    })
+    await setSignInPolicy(ctx, "acme", {
+      allowSignup: true,
+      allowedEmailDomains: [],
+      inviteOnly: false,
+      requireMfa: true,
+    })
+    const flow = {
+      clientId: acme.clientId,
+      redirectUri: "https://acme.test/callback",
+      scope: "openid",
+    }
+    const pathOf = (res: Response) =>
+      new URL(res.headers.get("location")!, "http://localhost").pathname
+
+    const single = await authorize(ctx, { ...flow, cookie: await sessionCookie(ctx, userId) })
+    expect(pathOf(single)).toBe("/mfa")
+
+    const { cookie } = await enroll()
+    expect(pathOf(await authorize(ctx, { ...flow, cookie }))).toBe("/consent")
+  })
+})
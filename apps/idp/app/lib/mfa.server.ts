@@ -0,0 +1,205 @@
+import { eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware, getSessionFromCtx, isAPIError } from "better-auth/api"
+import { deleteSessionCookie } from "better-auth/cookies"
+import { generateRandomString } from "better-auth/crypto"
+
+import * as schema from "../db/schema"
+import { findImpersonationBySession, sessionIdForTokenRequest } from "./impersonation.server"
+import type { BaseServiceContext } from "./services"
+
+/** `acr` of id_tokens from a session that passed a second factor, and of those that didn't. */
+export const ACR_MFA = "urn:willy.im:acr:mfa"
+export const ACR_SINGLE_FACTOR = "urn:willy.im:acr:1fa"
+
+/**
+ * RFC 8176 method each first factor adds to session.amr: "otp" for the
+ * emailed code, "pop" for a passkey. A TOTP or backup code adds "otp" and
+ * "mfa". session.amr keeps them space-separated.
+ */
+const FIRST_FACTORS: Record<string, string> = {
+  "/sign-in/email-otp": "otp",
+  "/passkey/verify-authentication": "pop",
+}
+
+const SECOND_FACTOR_PATHS = ["/two-factor/verify-totp", "/two-factor/verify-backup-code"]
+
+/**
+ * Changing or reading back the second factor takes a session that used it,
+ * and never an impersonation session.
+ */
+const GUARDED_PATHS = [
+  "/two-factor/enable",
+  "/two-factor/disable",
+  "/two-factor/get-totp-uri",
+  "/two-factor/generate-backup-codes",
+]
+
+/** The two-factor plugin's pending-sign-in cookie (its verification identifier). */
+const TWO_FACTOR_COOKIE = "two_factor"
+
+/** How long the second step may take after the first factor, in seconds. */
+const CHALLENGE_SECONDS = 60 * 10
+
+type AmrSession = { amr?: string | null }
+
+export function parseAmr(amr: string | null | undefined) {
+  return amr ? amr.split(" ").filter(Boolean) : []
+}
+
+function withAmr(amr: string | null | undefined, ...methods: string[]) {
+  return [...new Set([...parseAmr(amr), ...methods])].join(" ")
+}
+
+/** Whether the session passed a second factor. */
+export function hasMfa(session: AmrSession) {
+  return parseAmr(session.amr).includes("mfa")
+}
+
+/** OIDC `amr` and `acr` for tokens minted from a session (no `amr` if it predates tracking). */
+export function authenticationClaims(amr: string | null | undefined) {
+  const methods = parseAmr(amr)
+  return {
+    ...(methods.length ? { amr: methods } : {}),
+    acr: methods.includes("mfa") ? ACR_MFA : ACR_SINGLE_FACTOR,
+  }
+}
+
+/**
+ * TOTP second factor on top of Better Auth's two-factor plugin, which only
+ * intercepts password sign-ins. Here an email-code or passkey sign-in by an
+ * enrolled user is turned into a challenge the same way: the session it just
+ * made is dropped and the plugin's `two_factor` cookie is set, its identifier
+ * recording the first factor so the session verify-totp creates gets the full
+ * `amr`. A TOTP or backup code verified with a session already in hand steps
+ * that session up instead.
+ *
+ * `claims()` gives the custom id_token claims the `amr`/`acr` of the session
+ * behind this request's token exchange. Must come before oauthProvider, whose
+ * after hook resumes authorization once a session cookie is set.
+ */
+export function mfa(context: BaseServiceContext) {
+  let tokenAmr: string | null = null
+
+  const plugin = {
+    id: "mfa",
+    init: () => ({
+      options: {
+        databaseHooks: {
+          session: {
+            create: {
+              before: async (session, ctx) => {
+                const path = ctx?.path ?? ""
+                const previous = (session as AmrSession).amr
+                if (FIRST_FACTORS[path]) {
+                  return { data: { ...session, amr: FIRST_FACTORS[path] } }
+                }
+                if (SECOND_FACTOR_PATHS.includes(path)) {
+                  // Enrollment re-creates the current session (amr carried
+                  // over); sign-in's second step reads the first from the cookie.
+                  const pending = previous
+                    ? null
+                    : await ctx!.getSignedCookie(
+                        ctx!.context.createAuthCookie(TWO_FACTOR_COOKIE).name,
+                        ctx!.context.secret,
+                      )
+                  const first = pending ? pending.split("-")[1] : undefined
+                  return { data: { ...session, amr: withAmr(previous ?? first, "otp", "mfa") } }
+                }
+                // An impersonation session stands on the admin's own sign-in.
+                if (path === "/impersonation/start" && ctx?.context.session) {
+                  const actor = ctx.context.session.session as AmrSession
+                  return { data: { ...session, amr: actor.amr ?? null } }
+                }
+              },
+            },
+          },
+        },
+      },
+    }),
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => GUARDED_PATHS.includes(ctx.path ?? ""),
+          handler: createAuthMiddleware(async (ctx) => {
+            const session = await getSessionFromCtx(ctx)
+            if (!session) return
+            if (await findImpersonationBySession(context, session.session.id)) {
+              throw new APIError("FORBIDDEN", { message: "Not available while impersonating." })
+            }
+            const enrolled = (session.user as { twoFactorEnabled?: boolean }).twoFactorEnabled
+            if (enrolled && !hasMfa(session.session as AmrSession)) {
+              throw new APIError("FORBIDDEN", {
+                message: "Confirm with your authenticator app first.",
+              })
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/oauth2/token",
+          handler: createAuthMiddleware(async (ctx) => {
+            const sessionId = await sessionIdForTokenRequest(context, ctx.path ?? "", ctx.body)
+            const [row] = sessionId
+              ? await context.db
+                  .select({ amr: schema.session.amr })
+                  .from(schema.session)
+                  .where(eq(schema.session.id, sessionId))
+                  .limit(1)
+              : []
+            tokenAmr = row?.amr ?? null
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) => !!FIRST_FACTORS[ctx.path ?? ""],
+          handler: createAuthMiddleware(async (ctx) => {
+            const data = ctx.context.newSession
+            if (!data?.user.twoFactorEnabled) return
+
+            deleteSessionCookie(ctx, true)
+            await ctx.context.internalAdapter.deleteSession(data.session.token)
+            ctx.context.setNewSession(null)
+
+            const cookie = ctx.context.createAuthCookie(TWO_FACTOR_COOKIE, {
+              maxAge: CHALLENGE_SECONDS,
+            })
+            const identifier = `2fa-${FIRST_FACTORS[ctx.path]}-${generateRandomString(20)}`
+            await ctx.context.internalAdapter.createVerificationValue({
+              identifier,
+              value: data.user.id,
+              expiresAt: new Date(Date.now() + CHALLENGE_SECONDS * 1000),
+            })
+            await ctx.setSignedCookie(
+              cookie.name,
+              identifier,
+              ctx.context.secret,
+              cookie.attributes,
+            )
+            context.logger.info("mfa.challenge", { userId: data.user.id })
+            return ctx.json({ twoFactorRedirect: true, twoFactorMethods: ["totp"] })
+          }),
+        },
+        {
+          matcher: (ctx) => SECOND_FACTOR_PATHS.includes(ctx.path ?? ""),
+          handler: createAuthMiddleware(async (ctx) => {
+            // A new session (sign-in, enrollment) got its amr when created.
+            if (isAPIError(ctx.context.returned) || ctx.context.newSession) return
+            const session = await getSessionFromCtx(ctx)
+            if (!session || hasMfa(session.session as AmrSession)) return
+            await ctx.context.internalAdapter.updateSession(session.session.token, {
+              amr: withAmr((session.session as AmrSession).amr, "otp", "mfa"),
+            })
+            context.logger.info("mfa.step_up", { userId: session.user.id })
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+
+  return {
+    plugin,
+    /** `{ amr, acr }` for the id_token minted in this request. */
+    claims: () => authenticationClaims(tokenAmr),
+  }
+}
@@ -0,0 +1,75 @@
+import type { BetterAuthPlugin } from "better-auth"
+import { createAuthMiddleware } from "better-auth/api"
+import { constantTimeEqual, makeSignature } from "better-auth/crypto"
+
+import { findPendingSamlRequest } from "./saml-requests.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * The client of an authorization in progress, from the authorize query the
+ * oauth-provider signs onto /login and /consent (and that its client echoes as
+ * `oauth_query`). Unsigned or expired queries don't count: a crafted
+ * `?client_id=` must not dress the login page up as someone else's app.
+ */
+export async function signedAuthorizationClientId(
+  ctx: BaseServiceContext,
+  query: string | null | undefined,
+) {
+  if (!query) return null
+  // Like the oauth-provider client: the signed part ends at `sig`.
+  const params = new URLSearchParams()
+  let sig: string | null = null
+  for (const [key, value] of new URLSearchParams(query)) {
+    if (key === "sig") {
+      sig = value
+      break
+    }
+    params.append(key, value)
+  }
+  const exp = Number(params.get("exp"))
+  if (!sig || !(exp * 1000 >= Date.now())) return null
+  const expected = await makeSignature(params.toString(), ctx.getAppEnv("BETTER_AUTH_SECRET"))
+  return constantTimeEqual(sig, expected) ? params.get("client_id") : null
+}
+
+/**
+ * Which client this request's auth instance is authorizing, if any: the
+ * `client_id` of /oauth2/authorize itself, or the signed `oauth_query` the
+ * oauth-provider client adds to sign-in, OTP, consent and continue requests,
+ * or the pending SAML request /login passes along as `?saml=`.
+ * Endpoint body schemas strip `oauth_query`, and the provider's own option
+ * callbacks never see the client, so a before hook records it here. Auth
+ * instances are per request, so is this.
+ */
+export function pendingAuthorization(context: BaseServiceContext) {
+  let clientId: string | null = null
+  return {
+    clientId: () => clientId,
+    plugin: {
+      id: "pending-authorization",
+      hooks: {
+        before: [
+          {
+            matcher: (ctx) => ctx.path === "/oauth2/authorize",
+            handler: createAuthMiddleware(async (ctx) => {
+              const value = ctx.query?.client_id
+              clientId = typeof value === "string" ? value : null
+            }),
+          },
+          {
+            matcher: (ctx) => typeof ctx.body?.oauth_query === "string",
+            handler: createAuthMiddleware(async (ctx) => {
+              clientId = await signedAuthorizationClientId(context, ctx.body.oauth_query)
+            }),
+          },
+          {
+            matcher: (ctx) => typeof ctx.query?.saml === "string",
+            handler: createAuthMiddleware(async (ctx) => {
+              clientId = (await findPendingSamlRequest(context, ctx.query!.saml))?.clientId ?? null
+            }),
+          },
+        ],
+      },
+    } satisfies BetterAuthPlugin,
+  }
+}
@@ -0,0 +1,101 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { createApplication, createWorkspace } from "./admin.server"
+import { createAuthService } from "./auth.server"
+import {
+  PERMISSIONS_CLAIM,
+  permissionsForRole,
+  setPermissionCatalog,
+  type PermissionCatalog,
+} from "./permission-catalog.server"
+import {
+  authFetch,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  json,
+  jwtClaims,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+const catalog: PermissionCatalog = {
+  permissions: ["posts:read", "posts:write", "billing:manage"],
+  roles: {
+    owner: ["posts:read", "posts:write", "billing:manage"],
+    member: ["posts:read"],
+    billing: ["billing:manage", "invoices:export"],
+  },
+}
+
+describe("permissionsForRole", () => {
+  it("unions comma-separated roles", () => {
+    expect(permissionsForRole(catalog, "member, billing").sort()).toEqual([
+      "billing:manage",
+      "posts:read",
+    ])
+  })
+
+  it("drops undeclared permissions and unknown roles", () => {
+    expect(permissionsForRole(catalog, "billing")).toEqual(["billing:manage"])
+    expect(permissionsForRole(catalog, "guest")).toEqual([])
+  })
+})
+
+describe("workspace claims in tokens", () => {
+  let ctx: TestContext
+
+  beforeEach(() => {
+    ctx = createTestContext()
+  })
+
+  it("carry the app's own workspaces with their resolved permissions", async () => {
+    const acme = await createApplication(ctx, {
+      name: "Acme",
+      app: "acme",
+      redirectUris: ["https://acme.test/callback"],
+    })
+    await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    await setPermissionCatalog(ctx, "acme", catalog)
+    const userId = createUser(ctx)
+    const auth = createAuthService(ctx)
+    const mine = await createWorkspace(auth, {
+      name: "Team",
+      slug: "team",
+      applicationId: "acme",
+      ownerUserId: userId,
+    })
+    await createWorkspace(auth, {
+      name: "Elsewhere",
+      slug: "elsewhere",
+      applicationId: "other",
+      ownerUserId: userId,
+    })
+
+    const res = await codeFlowTokens(ctx, {
+      cookie: await sessionCookie(ctx, userId),
+      clientId: acme.clientId,
+      clientSecret: acme.clientSecret,
+      redirectUri: "https://acme.test/callback",
+      scope: "openid profile",
+    })
+    expect(res.status).toBe(200)
+    const tokens = await json(res)
+
+    const userinfo = await json(
+      await authFetch(ctx, "/oauth2/userinfo", {
+        headers: { authorization: `Bearer ${tokens.access_token}` },
+      }),
+    )
+    for (const claims of [jwtClaims(tokens.id_token), userinfo]) {
+      expect(claims["https://willy.im/workspaces"]).toEqual([
+        { id: mine!.id, slug: "team", name: "Team", role: "owner" },
+      ])
+      expect(claims[PERMISSIONS_CLAIM]).toEqual({ [mine!.id]: catalog.roles.owner })
+    }
+  })
+})
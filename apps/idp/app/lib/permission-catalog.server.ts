@@ -0,0 +1,54 @@
+import { eq } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import type { BaseServiceContext } from "./services"
+
+/** Same shape as @willyim/rbac's `definePermissions` config. */
+export type PermissionCatalog = {
+  permissions: string[]
+  roles: Record<string, string[]>
+}
+
+export const PERMISSIONS_CLAIM = "https://willy.im/permissions"
+
+const EMPTY_CATALOG: PermissionCatalog = { permissions: [], roles: {} }
+
+/** An application's catalog; empty until the app registers one. */
+export async function getPermissionCatalog(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<PermissionCatalog> {
+  const [row] = await ctx.db
+    .select()
+    .from(schema.applicationPermissionCatalog)
+    .where(eq(schema.applicationPermissionCatalog.applicationId, app))
+    .limit(1)
+  return row ? { permissions: row.permissions, roles: row.roles } : EMPTY_CATALOG
+}
+
+/** Replaces the catalog wholesale. Callers validate with PermissionCatalogSchema first. */
+export async function setPermissionCatalog(
+  ctx: BaseServiceContext,
+  app: string,
+  catalog: PermissionCatalog,
+) {
+  const values = { permissions: catalog.permissions, roles: catalog.roles, updatedAt: new Date() }
+  await ctx.db
+    .insert(schema.applicationPermissionCatalog)
+    .values({ applicationId: app, ...values })
+    .onConflictDoUpdate({ target: schema.applicationPermissionCatalog.applicationId, set: values })
+}
+
+/**
+ * Permissions a workspace role grants. Better Auth stores multiple org roles
+ * comma-separated ("admin,billing"); the grants are unioned. Only declared
+ * permissions survive, so a stale role mapping can't leak unknown names.
+ */
+export function permissionsForRole(catalog: PermissionCatalog, role: string) {
+  const declared = new Set(catalog.permissions)
+  const granted = new Set<string>()
+  for (const r of role.split(",")) {
+    for (const p of catalog.roles[r.trim()] ?? []) if (declared.has(p)) granted.add(p)
+  }
+  return [...granted]
+}
@@ -16,10 +16,15 @@ export const APP_PERMISSIONS = [
   "member:read",
   "member:invite",
   "member:remove",
+  "member:admin",
   "apikey:read",
   "apikey:create",
   "apikey:revoke",
+  "metadata:read",
+  "metadata:write",
+  "audit:read",
   "user:impersonate",
+  "user:provision",
 ] as const
 
 export type AppPermission = (typeof APP_PERMISSIONS)[number]
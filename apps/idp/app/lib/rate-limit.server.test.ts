@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createApplication } from "./admin.server"
+import {
+  clearAttempts,
+  listLockouts,
+  LOCKOUT_MINUTES,
+  MAX_LOCKOUT_HOURS,
+  memoryRateLimitStore,
+  pruneRateLimits,
+  recordAttempt,
+  retryAfter,
+  unlock,
+  WINDOW_MINUTES,
+  type RateLimitSubject,
+} from "./rate-limit.server"
+import {
+  authFetch,
+  basicAuth,
+  createTestContext,
+  formPost,
+  json,
+  type TestContext,
+} from "./testing"
+
+const MINUTE_MS = 60 * 1000
+
+let ctx: TestContext
+
+beforeEach(() => {
+  ctx = createTestContext()
+  ctx.rateLimits = memoryRateLimitStore()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+const ada: RateLimitSubject = { kind: "email-ip", value: "ada@example.com 203.0.113.7" }
+const home: RateLimitSubject = { kind: "ip", value: "203.0.113.7" }
+
+async function attempts(count: number, subjects: RateLimitSubject[] = [ada, home]) {
+  for (let i = 0; i < count; i++) await recordAttempt(ctx, "otp-verify", subjects)
+}
+
+function later(minutes: number) {
+  vi.setSystemTime(Date.now() + minutes * MINUTE_MS)
+}
+
+describe("attempt limits", () => {
+  it("lock a subject out once it reaches its limit, and not before", async () => {
+    await attempts(4)
+    expect(await retryAfter(ctx, "otp-verify", [ada, home])).toBeNull()
+    await attempts(1)
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBe(LOCKOUT_MINUTES * 60)
+    // The IP has room for more; the email's lockout holds for both.
+    expect(await retryAfter(ctx, "otp-verify", [home])).toBeNull()
+    expect(await retryAfter(ctx, "otp-verify", [ada, home])).toBe(LOCKOUT_MINUTES * 60)
+    // Limits are per action.
+    expect(await retryAfter(ctx, "passkey", [home])).toBeNull()
+  })
+
+  it("count afresh each window", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await attempts(4)
+    later(WINDOW_MINUTES)
+    await attempts(4)
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBeNull()
+    await attempts(1)
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBe(LOCKOUT_MINUTES * 60)
+  })
+
+  it("double each lockout, up to the longest, and forget them a day on", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    const lockouts: number[] = []
+    for (let i = 0; i < 12; i++) {
+      await attempts(5, [ada])
+      const seconds = (await retryAfter(ctx, "otp-verify", [ada]))!
+      lockouts.push(seconds / 60)
+      later(seconds / 60)
+    }
+    expect(lockouts.slice(0, 4)).toEqual([1, 2, 4, 8].map((n) => n * LOCKOUT_MINUTES))
+    expect(Math.max(...lockouts)).toBe(MAX_LOCKOUT_HOURS * 60)
+
+    later(24 * 60 + 1)
+    await attempts(5, [ada])
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBe(LOCKOUT_MINUTES * 60)
+  })
+
+  it("are cleared, listed, lifted and pruned", async () => {
+    await attempts(4)
+    await clearAttempts(ctx, "otp-verify", [ada])
+    await attempts(1)
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBeNull()
+
+    await attempts(4)
+    const [locked] = await listLockouts(ctx)
+    expect(locked).toMatchObject({
+      key: "otp-verify:email-ip:ada@example.com 203.0.113.7",
+      lockouts: 1,
+    })
+    expect(await unlock(ctx, locked.key)).toBe(true)
+    expect(await unlock(ctx, locked.key)).toBe(false)
+    expect(await retryAfter(ctx, "otp-verify", [ada])).toBeNull()
+
+    vi.useFakeTimers({ toFake: ["Date"] })
+    later(24 * 60 + 1)
+    await pruneRateLimits(ctx)
+    expect(await ctx.rateLimits.get("otp-verify:ip:203.0.113.7")).toBeNull()
+  })
+})
+
+describe("sign-in code sends", () => {
+  function send(email: string, ip: string) {
+    return authFetch(ctx, "/email-otp/send-verification-otp", {
+      method: "POST",
+      headers: { "content-type": "application/json", "cf-connecting-ip": ip },
+      body: JSON.stringify({ email, type: "sign-in" }),
+    })
+  }
+
+  it("lock out an email only from the IP asking for its codes", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await send("ada@example.com", "198.51.100.1")).status).toBe(200)
+    }
+    const refused = await send("ada@example.com", "198.51.100.1")
+    expect(refused.status).toBe(429)
+    expect(refused.headers.get("retry-after")).toBe(String(LOCKOUT_MINUTES * 60))
+    expect(await json(refused)).toMatchObject({
+      code: "RATE_LIMITED",
+      retryAfter: LOCKOUT_MINUTES * 60,
+    })
+
+    expect((await send("ada@example.com", "203.0.113.7")).status).toBe(200)
+    expect((await send("bo@example.com", "198.51.100.1")).status).toBe(200)
+  })
+})
+
+describe("sign-in code checks", () => {
+  function check(email: string, ip: string) {
+    return authFetch(ctx, "/sign-in/email-otp", {
+      method: "POST",
+      headers: { "content-type": "application/json", "cf-connecting-ip": ip },
+      body: JSON.stringify({ email, otp: "000000" }),
+    })
+  }
+
+  it("lock out an email only from the IP getting its codes wrong", async () => {
+    for (let i = 0; i < 5; i++) {
+      expect((await check("ada@example.com", "198.51.100.1")).status).not.toBe(429)
+    }
+    expect((await check("ada@example.com", "198.51.100.1")).status).toBe(429)
+    expect((await check("ada@example.com", "203.0.113.7")).status).not.toBe(429)
+  })
+})
+
+describe("client authentication", () => {
+  it("locks a client out from an IP after failures, then refuses even its right secret", async () => {
+    const acme = await createApplication(ctx, {
+      name: "Acme",
+      app: "acme",
+      redirectUris: ["https://acme.test/callback"],
+    })
+    const introspect = (secret: string, ip = "198.51.100.1") =>
+      authFetch(
+        ctx,
+        "/oauth2/introspect",
+        formPost(
+          { token: "unknown" },
+          { ...basicAuth(acme.clientId, secret), "cf-connecting-ip": ip },
+        ),
+      )
+
+    for (let i = 0; i < 9; i++) {
+      expect((await json(await introspect("wrong"))).error).toBe("invalid_client")
+    }
+    expect((await introspect(acme.clientSecret)).status).not.toBe(429)
+    expect((await json(await introspect("wrong"))).error).toBe("invalid_client")
+
+    const refused = await introspect(acme.clientSecret)
+    expect(refused.status).toBe(429)
+    expect(refused.headers.get("retry-after")).toBe(String(LOCKOUT_MINUTES * 60))
+    expect(await json(refused)).toMatchObject({ error: "temporarily_unavailable" })
+
+    // Only from the IP that got it wrong: anyone may know a client's id.
+    expect((await introspect(acme.clientSecret, "203.0.113.7")).status).not.toBe(429)
+  })
+})
@@ -0,0 +1,349 @@
+import { and, asc, eq, gt, isNull, lt, or } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware, getIp, isAPIError } from "better-auth/api"
+
+import type { DrizzleClient } from "../db/drizzle"
+import * as schema from "../db/schema"
+import { requestClientId } from "./client-credentials.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * Attempt limits for sign-in and client authentication. Each attempt counts
+ * against every subject it names (the IP, and the email or OAuth client tried
+ * from it); a subject that reaches its limit within WINDOW_MINUTES is locked
+ * out, for LOCKOUT_MINUTES the first time and twice as long each time after,
+ * and its requests get 429 with `Retry-After` until the lockout ends.
+ *
+ * Code sends count every attempt; code checks, passkey assertions and client
+ * authentication only failures. A correct code clears its email's count.
+ * Emails and clients count only together with the IP trying them: anyone may
+ * name anyone's email or a client's id, and that mustn't lock the owner out.
+ *
+ * Entries live in a RateLimitStore: D1 in the Worker (`d1RateLimitStore`),
+ * memory in scripts and tests (`memoryRateLimitStore`). Reads and writes
+ * aren't atomic, so a burst can overshoot a limit by a few attempts.
+ * Superadmins see and lift lockouts on /lockouts.
+ */
+export const RATE_LIMIT_ACTIONS = ["otp-send", "otp-verify", "passkey", "client-auth"] as const
+export type RateLimitAction = (typeof RATE_LIMIT_ACTIONS)[number]
+
+/** `email-ip` and `client-ip`: an email or client tried from one IP address, `<value> <ip>`. */
+export type RateLimitSubject = { kind: "ip" | "email-ip" | "client-ip"; value: string }
+
+export type RateLimitEntry = schema.RateLimitEntry
+
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitEntry | null>
+  put(entry: RateLimitEntry): Promise<void>
+  /** False if there was no such entry. */
+  delete(key: string): Promise<boolean>
+  /** Entries locked past `now`, soonest to unlock first. */
+  locked(now: Date): Promise<RateLimitEntry[]>
+  /** Drops entries untouched and unlocked since `before`. */
+  prune(before: Date): Promise<void>
+}
+
+/** Attempts per window before a subject is locked out; kinds not listed aren't limited. */
+const LIMITS: Record<RateLimitAction, Partial<Record<RateLimitSubject["kind"], number>>> = {
+  "otp-send": { "email-ip": 5, ip: 30 },
+  "otp-verify": { "email-ip": 5, ip: 25 },
+  passkey: { ip: 10 },
+  "client-auth": { "client-ip": 10, ip: 30 },
+}
+
+export const WINDOW_MINUTES = 15
+/** The first lockout; each one after doubles, up to MAX_LOCKOUT_HOURS. */
+export const LOCKOUT_MINUTES = 5
+export const MAX_LOCKOUT_HOURS = 24
+
+const MINUTE_MS = 60 * 1000
+/** A subject's lockouts are forgotten a day after its last attempt or lockout. */
+const HISTORY_MS = 24 * 60 * MINUTE_MS
+
+// What the endpoints answer when the attempt itself was wrong (not, say, a policy refusal).
+const OTP_FAILURES = new Set(["INVALID_OTP", "OTP_EXPIRED", "TOO_MANY_ATTEMPTS"])
+const PASSKEY_FAILURES = new Set(["AUTHENTICATION_FAILED", "PASSKEY_NOT_FOUND"])
+const CLIENT_AUTH_PATHS = ["/oauth2/token", "/oauth2/introspect", "/oauth2/revoke"]
+
+function entryKey(action: RateLimitAction, subject: RateLimitSubject) {
+  return `${action}:${subject.kind}:${subject.value}`
+}
+
+/** The subjects `action` limits, with a value. */
+function limited(action: RateLimitAction, subjects: (RateLimitSubject | null)[]) {
+  return subjects.filter(
+    (s): s is RateLimitSubject => !!s?.value && LIMITS[action][s.kind] !== undefined,
+  )
+}
+
+/** Seconds until every subject may try `action` again; null if none is locked out. */
+export async function retryAfter(
+  ctx: BaseServiceContext,
+  action: RateLimitAction,
+  subjects: (RateLimitSubject | null)[],
+) {
+  const now = Date.now()
+  let until = 0
+  for (const subject of limited(action, subjects)) {
+    const entry = await ctx.rateLimits.get(entryKey(action, subject))
+    const lockedUntil = entry?.lockedUntil?.getTime() ?? 0
+    if (lockedUntil > now) until = Math.max(until, lockedUntil)
+  }
+  return until ? Math.ceil((until - now) / 1000) : null
+}
+
+/** Counts an attempt at `action` against each subject, locking out those at their limit. */
+export async function recordAttempt(
+  ctx: BaseServiceContext,
+  action: RateLimitAction,
+  subjects: (RateLimitSubject | null)[],
+) {
+  const now = new Date()
+  for (const subject of limited(action, subjects)) {
+    const key = entryKey(action, subject)
+    const stored = await ctx.rateLimits.get(key)
+    const forgotten =
+      !stored || (stored.lockedUntil ?? stored.updatedAt).getTime() + HISTORY_MS < now.getTime()
+    const entry: RateLimitEntry = forgotten
+      ? {
+          key,
+          action,
+          kind: subject.kind,
+          identifier: subject.value,
+          attempts: 0,
+          windowStartedAt: now,
+          lockouts: 0,
+          lockedUntil: null,
+          updatedAt: now,
+        }
+      : { ...stored, updatedAt: now }
+    if (entry.windowStartedAt.getTime() + WINDOW_MINUTES * MINUTE_MS <= now.getTime()) {
+      entry.attempts = 0
+      entry.windowStartedAt = now
+    }
+    entry.attempts += 1
+    if (entry.attempts >= LIMITS[action][subject.kind]!) {
+      entry.lockouts += 1
+      const lockout = Math.min(
+        LOCKOUT_MINUTES * MINUTE_MS * 2 ** (entry.lockouts - 1),
+        MAX_LOCKOUT_HOURS * 60 * MINUTE_MS,
+      )
+      entry.lockedUntil = new Date(now.getTime() + lockout)
+      entry.attempts = 0
+      entry.windowStartedAt = now
+      ctx.logger.info("rate_limit.locked", {
+        action,
+        kind: subject.kind,
+        identifier: subject.value,
+        lockouts: entry.lockouts,
+        lockedUntil: entry.lockedUntil,
+      })
+    }
+    await ctx.rateLimits.put(entry)
+  }
+}
+
+/** Forgets the subjects' attempts at `action` (and their lockout history). */
+export async function clearAttempts(
+  ctx: BaseServiceContext,
+  action: RateLimitAction,
+  subjects: (RateLimitSubject | null)[],
+) {
+  for (const subject of limited(action, subjects)) {
+    await ctx.rateLimits.delete(entryKey(action, subject))
+  }
+}
+
+/** Subjects locked out now, soonest to unlock first, for the superadmin page. */
+export async function listLockouts(ctx: BaseServiceContext) {
+  return ctx.rateLimits.locked(new Date())
+}
+
+/** Lifts a lockout and forgets its attempts; false if `key` isn't one. */
+export async function unlock(ctx: BaseServiceContext, key: string) {
+  const removed = await ctx.rateLimits.delete(key)
+  if (removed) ctx.logger.info("rate_limit.unlocked", { key })
+  return removed
+}
+
+/** The scheduled step: drops entries nobody has tried or been locked out by for a day. */
+export async function pruneRateLimits(ctx: BaseServiceContext) {
+  await ctx.rateLimits.prune(new Date(Date.now() - HISTORY_MS))
+}
+
+export function d1RateLimitStore(db: DrizzleClient): RateLimitStore {
+  const table = schema.rateLimitEntry
+  return {
+    async get(key) {
+      const [row] = await db.select().from(table).where(eq(table.key, key)).limit(1)
+      return row ?? null
+    },
+    async put(entry) {
+      await db.insert(table).values(entry).onConflictDoUpdate({ target: table.key, set: entry })
+    },
+    async delete(key) {
+      const removed = await db.delete(table).where(eq(table.key, key)).returning({ key: table.key })
+      return removed.length > 0
+    },
+    async locked(now) {
+      return db
+        .select()
+        .from(table)
+        .where(gt(table.lockedUntil, now))
+        .orderBy(asc(table.lockedUntil))
+    },
+    async prune(before) {
+      await db
+        .delete(table)
+        .where(
+          and(
+            lt(table.updatedAt, before),
+            or(isNull(table.lockedUntil), lt(table.lockedUntil, before)),
+          ),
+        )
+    },
+  }
+}
+
+export function memoryRateLimitStore(): RateLimitStore {
+  const entries = new Map<string, RateLimitEntry>()
+  return {
+    async get(key) {
+      const entry = entries.get(key)
+      return entry ? { ...entry } : null
+    },
+    async put(entry) {
+      entries.set(entry.key, { ...entry })
+    },
+    async delete(key) {
+      return entries.delete(key)
+    },
+    async locked(now) {
+      return [...entries.values()]
+        .filter((e) => e.lockedUntil && e.lockedUntil > now)
+        .sort((a, b) => a.lockedUntil!.getTime() - b.lockedUntil!.getTime())
+    },
+    async prune(before) {
+      for (const [key, e] of entries) {
+        if (e.updatedAt < before && (!e.lockedUntil || e.lockedUntil < before)) entries.delete(key)
+      }
+    },
+  }
+}
+
+/**
+ * 429 with `Retry-After`. The body repeats it as `retryAfter`: the browser
+ * client hands back error bodies, not headers. OAuth endpoints answer in
+ * RFC 6749's error shape.
+ */
+function tooManyAttempts(seconds: number, oauth: boolean) {
+  const message = "Too many attempts. Try again later."
+  return new APIError(
+    "TOO_MANY_REQUESTS",
+    oauth
+      ? { error: "temporarily_unavailable", error_description: message, retryAfter: seconds }
+      : { code: "RATE_LIMITED", message, retryAfter: seconds },
+    { "Retry-After": String(seconds) },
+  )
+}
+
+/**
+ * Better Auth plugin that applies the limits: sending sign-in codes and
+ * checking them (by email from an IP, and by IP), passkey sign-in (by IP), and
+ * client authentication at the token, introspection and revocation endpoints
+ * (by client from an IP, and by IP).
+ */
+export function rateLimiting(context: BaseServiceContext) {
+  type HookContext = Parameters<Parameters<typeof createAuthMiddleware>[0]>[0]
+  const ip = (ctx: HookContext): RateLimitSubject | null => {
+    const value = getIp(ctx.request ?? ctx.headers ?? new Headers(), ctx.context.options)
+    return value ? { kind: "ip", value } : null
+  }
+  const fromIp = (
+    ctx: HookContext,
+    kind: "email-ip" | "client-ip",
+    value: string | null | undefined,
+  ): RateLimitSubject | null => {
+    const by = ip(ctx)
+    return value && by ? { kind, value: `${value} ${by.value}` } : null
+  }
+  const email = (ctx: HookContext) =>
+    typeof ctx.body?.email === "string"
+      ? fromIp(ctx, "email-ip", ctx.body.email.trim().toLowerCase())
+      : null
+  const client = (ctx: HookContext) =>
+    fromIp(ctx, "client-ip", requestClientId(ctx.request, ctx.body ?? {}))
+  const errorCode = (returned: unknown) =>
+    isAPIError(returned) ? ((returned.body as { code?: string } | undefined)?.code ?? null) : null
+
+  return {
+    id: "rate-limiting",
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => ctx.path === "/email-otp/send-verification-otp",
+          handler: createAuthMiddleware(async (ctx) => {
+            const subjects = [email(ctx), ip(ctx)]
+            const wait = await retryAfter(context, "otp-send", subjects)
+            if (wait) throw tooManyAttempts(wait, false)
+            await recordAttempt(context, "otp-send", subjects)
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/sign-in/email-otp",
+          handler: createAuthMiddleware(async (ctx) => {
+            const wait = await retryAfter(context, "otp-verify", [email(ctx), ip(ctx)])
+            if (wait) throw tooManyAttempts(wait, false)
+          }),
+        },
+        {
+          matcher: (ctx) =>
+            ctx.path === "/passkey/generate-authenticate-options" ||
+            ctx.path === "/passkey/verify-authentication",
+          handler: createAuthMiddleware(async (ctx) => {
+            const wait = await retryAfter(context, "passkey", [ip(ctx)])
+            if (wait) throw tooManyAttempts(wait, false)
+          }),
+        },
+        {
+          matcher: (ctx) => !!ctx.path && CLIENT_AUTH_PATHS.includes(ctx.path),
+          handler: createAuthMiddleware(async (ctx) => {
+            const wait = await retryAfter(context, "client-auth", [client(ctx), ip(ctx)])
+            if (wait) throw tooManyAttempts(wait, true)
+          }),
+        },
+      ],
+      after: [
+        {
+          matcher: (ctx) => ctx.path === "/sign-in/email-otp",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned
+            if (!isAPIError(returned)) {
+              await clearAttempts(context, "otp-verify", [email(ctx)])
+            } else if (OTP_FAILURES.has(errorCode(returned) ?? "")) {
+              await recordAttempt(context, "otp-verify", [email(ctx), ip(ctx)])
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/passkey/verify-authentication",
+          handler: createAuthMiddleware(async (ctx) => {
+            if (PASSKEY_FAILURES.has(errorCode(ctx.context.returned) ?? "")) {
+              await recordAttempt(context, "passkey", [ip(ctx)])
+            }
+          }),
+        },
+        {
+          matcher: (ctx) => !!ctx.path && CLIENT_AUTH_PATHS.includes(ctx.path),
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned
+            if (!isAPIError(returned)) return
+            if ((returned.body as { error?: string } | undefined)?.error !== "invalid_client")
+              return
+            await recordAttempt(context, "client-auth", [client(ctx), ip(ctx)])
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
@@ -0,0 +1,76 @@
+import { eq } from "drizzle-orm"
+import { generateRandomString } from "better-auth/crypto"
+
+import * as schema from "../db/schema"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * A service provider's AuthnRequest, accepted at /saml/sso and waiting for the
+ * user to sign in (and pass the app's policy, consent and second factor).
+ * Kept as a verification row; the id is what travels as `?saml=` between
+ * /login, /consent, /mfa and /denied, like the signed authorize query does for
+ * OIDC. Only /saml/continue/:id issues an assertion for it.
+ */
+export type PendingSamlRequest = {
+  app: string
+  clientId: string
+  /** The AuthnRequest's ID, echoed as InResponseTo. */
+  requestId: string
+  relayState: string | null
+  isPassive: boolean
+}
+
+/** How long the user has to sign in, in seconds. */
+const PENDING_SECONDS = 60 * 10
+
+const identifier = (id: string) => `saml-request:${id}`
+
+export async function savePendingSamlRequest(ctx: BaseServiceContext, request: PendingSamlRequest) {
+  const id = generateRandomString(32, "a-z", "A-Z", "0-9")
+  await ctx.db.insert(schema.verification).values({
+    id: crypto.randomUUID(),
+    identifier: identifier(id),
+    value: JSON.stringify(request),
+    expiresAt: new Date(Date.now() + PENDING_SECONDS * 1000),
+  })
+  return id
+}
+
+export async function findPendingSamlRequest(ctx: BaseServiceContext, id: string) {
+  const [row] = await ctx.db
+    .select({ value: schema.verification.value, expiresAt: schema.verification.expiresAt })
+    .from(schema.verification)
+    .where(eq(schema.verification.identifier, identifier(id)))
+    .limit(1)
+  if (!row || row.expiresAt.getTime() <= Date.now()) return null
+  return JSON.parse(row.value) as PendingSamlRequest
+}
+
+export async function deletePendingSamlRequest(ctx: BaseServiceContext, id: string) {
+  await ctx.db.delete(schema.verification).where(eq(schema.verification.identifier, identifier(id)))
+}
+
+/**
+ * The client a `?saml=` query is signing into, for branding and policy — the
+ * SAML counterpart of signedAuthorizationClientId. Unknown or expired ids
+ * don't count.
+ */
+export async function samlRequestClientId(
+  ctx: BaseServiceContext,
+  query: string | null | undefined,
+) {
+  const id = new URLSearchParams(query ?? "").get("saml")
+  return id ? ((await findPendingSamlRequest(ctx, id))?.clientId ?? null) : null
+}
+
+/**
+ * The query /saml/continue hands /login, /consent, /mfa and /denied: the
+ * request id, and `next` to come back to it once signed in.
+ */
+export function samlQuery(id: string) {
+  return `?${new URLSearchParams({ saml: id, next: samlContinuePath(id) })}`
+}
+
+export function samlContinuePath(id: string) {
+  return `/saml/continue/${id}`
+}
@@ -0,0 +1,166 @@
+import { deflateRawSync } from "node:zlib"
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { createApplication } from "./admin.server"
+import {
+  getSamlServiceProvider,
+  receiveAuthnRequest,
+  samlMetadata,
+  samlResponsePage,
+  samlSsoUrl,
+  setSamlServiceProvider,
+  DEFAULT_ATTRIBUTE_NAMES,
+} from "./saml.server"
+import { defaultTenant, type Tenant } from "./tenant.server"
+import { createTestContext, type TestContext } from "./testing"
+import { certificatePublicKey, RSA_SHA256, selfSignedCertificate } from "./x509.server"
+
+const RSA_SHA256_URI = "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"
+const SP = "https://sp.test/metadata"
+const ACS = "https://sp.test/acs"
+
+let ctx: TestContext
+let tenant: Tenant
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  tenant = defaultTenant(ctx)
+  await createApplication(ctx, { name: "Acme", app: "acme", redirectUris: [] })
+  await register("")
+})
+
+function register(certificate: string) {
+  return setSamlServiceProvider(ctx, "acme", {
+    entityId: SP,
+    acsUrl: ACS,
+    certificate,
+    attributeNames: DEFAULT_ATTRIBUTE_NAMES,
+  })
+}
+
+function authnRequest(inner = `<saml:Issuer>${SP}</saml:Issuer>`) {
+  return (
+    `<samlp:AuthnRequest xmlns:samlp="urn:oasis:names:tc:SAML:2.0:protocol" ` +
+    `xmlns:saml="urn:oasis:names:tc:SAML:2.0:assertion" ID="_req1" Version="2.0" ` +
+    `Destination="${samlSsoUrl(tenant)}" AssertionConsumerServiceURL="${ACS}">` +
+    `${inner}</samlp:AuthnRequest>`
+  )
+}
+
+/** HTTP-Redirect binding, signed with `key` if given. */
+async function redirectBinding(xml: string, key?: CryptoKey, relayState = "state") {
+  let query =
+    `SAMLRequest=${encodeURIComponent(deflateRawSync(xml).toString("base64"))}` +
+    `&RelayState=${relayState}`
+  if (key) {
+    query += `&SigAlg=${encodeURIComponent(RSA_SHA256_URI)}`
+    const signature = await crypto.subtle.sign(RSA_SHA256, key, new TextEncoder().encode(query))
+    query += `&Signature=${encodeURIComponent(Buffer.from(signature).toString("base64"))}`
+  }
+  return new Request(`${samlSsoUrl(tenant)}?${query}`)
+}
+
+function postBinding(xml: string) {
+  const body = new URLSearchParams({ SAMLRequest: Buffer.from(xml).toString("base64") })
+  return new Request(samlSsoUrl(tenant), { method: "POST", body })
+}
+
+async function signingKeys() {
+  const keys = (await crypto.subtle.generateKey(
+    { ...RSA_SHA256, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair
+  return { keys, certificate: await selfSignedCertificate(keys, "sp.test") }
+}
+
+describe("receiveAuthnRequest", () => {
+  it("takes unsigned requests over either binding from a provider without a certificate", async () => {
+    for (const request of [await redirectBinding(authnRequest()), postBinding(authnRequest())]) {
+      expect(await receiveAuthnRequest(ctx, tenant, request)).toMatchObject({
+        app: "acme",
+        requestId: "_req1",
+      })
+    }
+  })
+
+  it("needs a verified HTTP-Redirect signature from a provider with one", async () => {
+    const { keys, certificate } = await signingKeys()
+    await register(certificate)
+
+    const signed = await redirectBinding(authnRequest(), keys.privateKey)
+    expect(await receiveAuthnRequest(ctx, tenant, signed)).toMatchObject({ relayState: "state" })
+
+    const tampered = new Request(signed.url.replace("RelayState=state", "RelayState=other"))
+    const unsigned = await redirectBinding(authnRequest())
+    for (const request of [tampered, unsigned, postBinding(authnRequest())]) {
+      expect(await receiveAuthnRequest(ctx, tenant, request)).toHaveProperty("error")
+    }
+  })
+
+  it("only reads the Issuer that is the request's own", async () => {
+    const nested =
+      `<samlp:Extensions><saml:Issuer>${SP}</saml:Issuer></samlp:Extensions>` +
+      `<saml:Issuer>https://other.test</saml:Issuer>`
+    const wrapped = `<Wrapper><saml:Issuer>${SP}</saml:Issuer>${authnRequest("")}</Wrapper>`
+    for (const xml of [authnRequest(nested), wrapped]) {
+      const received = await receiveAuthnRequest(ctx, tenant, postBinding(xml))
+      expect(received).toHaveProperty("error")
+      expect(received).not.toHaveProperty("app")
+    }
+  })
+
+  it("refuses other ACS URLs and DOCTYPEs", async () => {
+    const elsewhere = authnRequest().replace(ACS, "https://evil.test/acs")
+    const doctype = `<!DOCTYPE x [<!ENTITY e "x">]>${authnRequest()}`
+    for (const xml of [elsewhere, doctype]) {
+      expect(await receiveAuthnRequest(ctx, tenant, postBinding(xml))).toHaveProperty("error")
+    }
+  })
+})
+
+describe("samlResponsePage", () => {
+  it("posts an assertion signed with the key in the IdP's metadata", async () => {
+    const sp = (await getSamlServiceProvider(ctx, "acme"))!
+    const page = await samlResponsePage(
+      ctx,
+      tenant,
+      sp,
+      { requestId: "_req1", relayState: "state" },
+      {
+        subject: {
+          email: "ada@example.com",
+          name: "Ada",
+          roles: ["eng:admin"],
+          authnContext: "urn:willy.im:acr:1fa",
+          sessionIndex: "s1",
+        },
+      },
+    )
+    const html = await page.text()
+    expect(html).toContain(`action="${ACS}"`)
+    const xml = Buffer.from(
+      /name="SAMLResponse" value="([^"]+)"/.exec(html)![1],
+      "base64",
+    ).toString()
+    expect(xml).toContain('InResponseTo="_req1"')
+    expect(xml).toContain(`<saml:Audience>${SP}</saml:Audience>`)
+    expect(xml).toContain("<saml:AttributeValue>eng:admin</saml:AttributeValue>")
+
+    const assertion = /<saml:Assertion\b[\s\S]*<\/saml:Assertion>/.exec(xml)![0]
+    const unsigned = assertion.replace(/<ds:Signature\b[\s\S]*<\/ds:Signature>/, "")
+    const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(unsigned))
+    expect(xml).toContain(`<ds:DigestValue>${Buffer.from(digest).toString("base64")}<`)
+
+    const signedInfo = /<ds:SignedInfo\b[\s\S]*<\/ds:SignedInfo>/.exec(xml)![0]
+    const signatureValue = /<ds:SignatureValue>([^<]+)</.exec(xml)![1]
+    const certificate = /<ds:X509Certificate>([^<]+)</.exec(await samlMetadata(ctx, tenant))![1]
+    const verified = await crypto.subtle.verify(
+      RSA_SHA256,
+      await certificatePublicKey(certificate),
+      Buffer.from(signatureValue, "base64"),
+      new TextEncoder().encode(signedInfo),
+    )
+    expect(verified).toBe(true)
+  })
+})
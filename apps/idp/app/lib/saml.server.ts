@@ -0,0 +1,675 @@
+import { and, desc, eq } from "drizzle-orm"
+import { symmetricDecrypt, symmetricEncrypt } from "better-auth/crypto"
+
+import * as schema from "../db/schema"
+import { findApplicationByApp } from "./admin.server"
+import { fromBase64, toBase64 } from "./crypto.server"
+import { escapeHtml } from "./email.server"
+import type { BaseServiceContext } from "./services"
+import type { Tenant } from "./tenant.server"
+import { certificatePublicKey, RSA_SHA256, selfSignedCertificate } from "./x509.server"
+
+/**
+ * SAML 2.0 identity provider for applications that can't speak OIDC. A
+ * service provider (one per application) sends an AuthnRequest to /saml/sso
+ * over HTTP-Redirect or, unsigned, HTTP-POST; once the user has signed in, passed the
+ * app's sign-in policy and consented on the usual pages, /saml/continue posts a
+ * Response with a signed Assertion back to the registered ACS URL.
+ *
+ * No XML library runs on Workers, so requests are read with a few anchored
+ * patterns (DOCTYPEs refused) and responses are written directly in exclusive
+ * canonical form: what we digest and sign is byte for byte what a verifier
+ * canonicalizes. Keep it that way when adding elements — attributes sorted,
+ * no self-closing tags, namespaces declared where they're used.
+ */
+
+const NS = {
+  protocol: "urn:oasis:names:tc:SAML:2.0:protocol",
+  assertion: "urn:oasis:names:tc:SAML:2.0:assertion",
+  metadata: "urn:oasis:names:tc:SAML:2.0:metadata",
+  ds: "http://www.w3.org/2000/09/xmldsig#",
+}
+
+export const BINDING_REDIRECT = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-Redirect"
+export const BINDING_POST = "urn:oasis:names:tc:SAML:2.0:bindings:HTTP-POST"
+
+const NAMEID_EMAIL = "urn:oasis:names:tc:SAML:1.1:nameid-format:emailAddress"
+const ATTRNAME_BASIC = "urn:oasis:names:tc:SAML:2.0:attrname-format:basic"
+const BEARER = "urn:oasis:names:tc:SAML:2.0:cm:bearer"
+const EXC_C14N = "http://www.w3.org/2001/10/xml-exc-c14n#"
+const ENVELOPED = "http://www.w3.org/2000/09/xmldsig#enveloped-signature"
+const RSA_SHA256_URI = "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256"
+const SHA256_URI = "http://www.w3.org/2001/04/xmlenc#sha256"
+
+/** Top-level and second-level status codes we answer with. */
+export type SamlStatus = "Success" | "NoPassive" | "RequestDenied"
+
+/** Allowed clock skew on NotBefore, and how long an assertion may be used, in seconds. */
+const SKEW_SECONDS = 60
+const ASSERTION_SECONDS = 60 * 5
+
+/** Largest AuthnRequest we'll read, inflated. */
+const MAX_REQUEST_BYTES = 64 * 1024
+
+export const DEFAULT_ATTRIBUTE_NAMES: schema.SamlAttributeNames = {
+  email: "email",
+  name: "name",
+  roles: "roles",
+}
+
+function escapeText(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\r/g, "&#xD;")
+}
+
+function escapeAttribute(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/"/g, "&quot;")
+    .replace(/\t/g, "&#x9;")
+    .replace(/\n/g, "&#xA;")
+    .replace(/\r/g, "&#xD;")
+}
+
+/**
+ * One element, canonical: namespace declarations then attributes, each sorted
+ * by name (none of ours are namespaced), and an explicit end tag. `children`
+ * are serialized already — elements, or text through `text()`.
+ */
+function element(
+  name: string,
+  attributes: Record<string, string | null | undefined>,
+  ...children: string[]
+) {
+  const attrs = Object.entries(attributes)
+    .filter((entry): entry is [string, string] => entry[1] != null)
+    .sort(([a], [b]) => {
+      const ns = Number(b.startsWith("xmlns")) - Number(a.startsWith("xmlns"))
+      return ns || (a < b ? -1 : a > b ? 1 : 0)
+    })
+    .map(([key, value]) => ` ${key}="${escapeAttribute(value)}"`)
+  return `<${name}${attrs.join("")}>${children.join("")}</${name}>`
+}
+
+const text = escapeText
+
+/** SAML IDs are xs:ID, which can't start with a digit. */
+function samlId() {
+  const bytes = crypto.getRandomValues(new Uint8Array(20))
+  return `_${Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("")}`
+}
+
+/** xs:dateTime in UTC without milliseconds, as most service providers expect. */
+function instant(date: Date) {
+  return date.toISOString().replace(/\.\d{3}Z$/, "Z")
+}
+
+function unescapeXml(value: string) {
+  return value
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&")
+}
+
+export async function getSamlServiceProvider(ctx: BaseServiceContext, app: string) {
+  const [row] = await ctx.db
+    .select()
+    .from(schema.samlServiceProvider)
+    .where(eq(schema.samlServiceProvider.applicationId, app))
+    .limit(1)
+  return row ?? null
+}
+
+async function findSamlServiceProviderByEntityId(ctx: BaseServiceContext, entityId: string) {
+  const [row] = await ctx.db
+    .select()
+    .from(schema.samlServiceProvider)
+    .where(eq(schema.samlServiceProvider.entityId, entityId))
+    .limit(1)
+  return row ?? null
+}
+
+export type SamlServiceProviderInput = {
+  entityId: string
+  acsUrl: string
+  certificate: string
+  attributeNames: schema.SamlAttributeNames
+}
+
+/**
+ * Registers `app` as a SAML service provider, or updates it. Returns an error
+ * message instead of throwing when the entity ID is taken or the ACS URL or
+ * certificate won't do.
+ */
+export async function setSamlServiceProvider(
+  ctx: BaseServiceContext,
+  app: string,
+  input: SamlServiceProviderInput,
+) {
+  const entityId = input.entityId.trim()
+  const acsUrl = input.acsUrl.trim()
+  const certificate = input.certificate.trim() || null
+  if (!entityId) return { error: "Enter the service provider's entity ID.", field: "entityId" }
+  let acs: URL
+  try {
+    acs = new URL(acsUrl)
+  } catch {
+    return { error: `"${acsUrl}" isn't a URL.`, field: "acsUrl" }
+  }
+  const local = acs.hostname === "localhost" || acs.hostname === "127.0.0.1"
+  if (acs.protocol !== "https:" && !(local && acs.protocol === "http:")) {
+    return { error: "The ACS URL must use https.", field: "acsUrl" }
+  }
+  if (certificate) {
+    try {
+      await certificatePublicKey(certificate)
+    } catch {
+      return { error: "That isn't a PEM certificate with an RSA key.", field: "certificate" }
+    }
+  }
+  const taken = await findSamlServiceProviderByEntityId(ctx, entityId)
+  if (taken && taken.applicationId !== app) {
+    return { error: `${entityId} is registered by another application.`, field: "entityId" }
+  }
+
+  const attributeNames = {
+    email: input.attributeNames.email.trim(),
+    name: input.attributeNames.name.trim(),
+    roles: input.attributeNames.roles.trim(),
+  }
+  const values = { entityId, acsUrl, certificate, attributeNames, updatedAt: new Date() }
+  await ctx.db
+    .insert(schema.samlServiceProvider)
+    .values({ applicationId: app, ...values })
+    .onConflictDoUpdate({ target: schema.samlServiceProvider.applicationId, set: values })
+  return { entityId }
+}
+
+export async function removeSamlServiceProvider(ctx: BaseServiceContext, app: string) {
+  await ctx.db
+    .delete(schema.samlServiceProvider)
+    .where(eq(schema.samlServiceProvider.applicationId, app))
+}
+
+/**
+ * The IdP's signing key and its certificate, made (RSA 2048, self-signed for
+ * ten years) the first time anything asks for it.
+ */
+async function samlSigningKey(ctx: BaseServiceContext) {
+  const secret = ctx.getAppEnv("BETTER_AUTH_SECRET")
+  const [row] = await ctx.db
+    .select()
+    .from(schema.samlSigningKey)
+    .orderBy(desc(schema.samlSigningKey.createdAt))
+    .limit(1)
+  if (row) {
+    const pkcs8 = await symmetricDecrypt({ key: secret, data: row.privateKey })
+    const privateKey = await crypto.subtle.importKey(
+      "pkcs8",
+      fromBase64(pkcs8),
+      RSA_SHA256,
+      false,
+      ["sign"],
+    )
+    return { privateKey, certificate: row.certificate }
+  }
+
+  const keys = (await crypto.subtle.generateKey(
+    { ...RSA_SHA256, modulusLength: 2048, publicExponent: new Uint8Array([1, 0, 1]) },
+    true,
+    ["sign", "verify"],
+  )) as CryptoKeyPair
+  const certificate = await selfSignedCertificate(keys, "willy.im SAML")
+  const pkcs8 = toBase64(await crypto.subtle.exportKey("pkcs8", keys.privateKey))
+  await ctx.db.insert(schema.samlSigningKey).values({
+    privateKey: await symmetricEncrypt({ key: secret, data: pkcs8 }),
+    certificate,
+  })
+  ctx.logger.info("saml.signing_key.created", {})
+  return { privateKey: keys.privateKey, certificate }
+}
+
+/** The IdP's entity ID on a tenant; also where its metadata lives. */
+export function samlEntityId(tenant: Tenant) {
+  return `${tenant.origin}/saml/metadata`
+}
+
+export function samlSsoUrl(tenant: Tenant) {
+  return `${tenant.origin}/saml/sso`
+}
+
+/** IdP metadata for service providers to import. */
+export async function samlMetadata(ctx: BaseServiceContext, tenant: Tenant) {
+  const { certificate } = await samlSigningKey(ctx)
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    element(
+      "md:EntityDescriptor",
+      { "xmlns:md": NS.metadata, entityID: samlEntityId(tenant) },
+      element(
+        "md:IDPSSODescriptor",
+        { protocolSupportEnumeration: NS.protocol, WantAuthnRequestsSigned: "false" },
+        element(
+          "md:KeyDescriptor",
+          { use: "signing" },
+          element(
+            "ds:KeyInfo",
+            { "xmlns:ds": NS.ds },
+            element("ds:X509Data", {}, element("ds:X509Certificate", {}, certificate)),
+          ),
+        ),
+        element("md:NameIDFormat", {}, text(NAMEID_EMAIL)),
+        element("md:SingleSignOnService", {
+          Binding: BINDING_REDIRECT,
+          Location: samlSsoUrl(tenant),
+        }),
+        element("md:SingleSignOnService", { Binding: BINDING_POST, Location: samlSsoUrl(tenant) }),
+      ),
+    )
+  )
+}
+
+type AuthnRequest = {
+  id: string
+  issuer: string
+  acsUrl: string | null
+  protocolBinding: string | null
+  destination: string | null
+  isPassive: boolean
+}
+
+async function inflate(bytes: Uint8Array<ArrayBuffer>) {
+  const reader = new Blob([bytes])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"))
+    .getReader()
+  const chunks: Uint8Array[] = []
+  let size = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    size += value.length
+    if (size > MAX_REQUEST_BYTES) {
+      await reader.cancel()
+      throw new Error("AuthnRequest too large.")
+    }
+    chunks.push(value)
+  }
+  const out = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return new TextDecoder().decode(out)
+}
+
+/**
+ * The AuthnRequest's own attributes and Issuer: the document element, and its
+ * first child, as the schema places it — never an Issuer nested further in
+ * (an Extensions block, a Signature's KeyInfo) that could name another SP.
+ */
+function parseAuthnRequest(xml: string): AuthnRequest | null {
+  if (xml.length > MAX_REQUEST_BYTES || /<!DOCTYPE|<!ENTITY/i.test(xml)) return null
+  const root = /^\s*(?:<\?xml\b[^>]*\?>\s*)?<(?:[\w.-]+:)?AuthnRequest\b([^>]*)>/.exec(xml)
+  if (!root) return null
+  const issuer = /^\s*<(?:[\w.-]+:)?Issuer\b[^>]*>([^<]*)<\/(?:[\w.-]+:)?Issuer>/.exec(
+    xml.slice(root[0].length),
+  )
+  if (!issuer) return null
+  const attributes = new Map<string, string>()
+  for (const [, name, double, single] of root[1].matchAll(
+    /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g,
+  )) {
+    attributes.set(name, unescapeXml(double ?? single))
+  }
+  const id = attributes.get("ID")
+  if (!id || attributes.get("Version") !== "2.0") return null
+  return {
+    id,
+    issuer: unescapeXml(issuer[1]).trim(),
+    acsUrl: attributes.get("AssertionConsumerServiceURL") ?? null,
+    protocolBinding: attributes.get("ProtocolBinding") ?? null,
+    destination: attributes.get("Destination") ?? null,
+    isPassive: attributes.get("IsPassive") === "true" || attributes.get("IsPassive") === "1",
+  }
+}
+
+/**
+ * HTTP-Redirect binding signature: over the query's own (still URL-encoded)
+ * SAMLRequest, RelayState and SigAlg, in that order. RSA-SHA256 only.
+ */
+async function verifyRedirectSignature(rawQuery: string, certificate: string) {
+  const raw = new Map<string, string>()
+  for (const part of rawQuery.replace(/^\?/, "").split("&")) {
+    const at = part.indexOf("=")
+    if (at > 0) raw.set(part.slice(0, at), part.slice(at + 1))
+  }
+  const sigAlg = raw.get("SigAlg")
+  const signature = raw.get("Signature")
+  if (!sigAlg || !signature) return false
+  if (decodeURIComponent(sigAlg) !== RSA_SHA256_URI) return false
+  const signed = ["SAMLRequest", "RelayState", "SigAlg"]
+    .filter((key) => raw.has(key))
+    .map((key) => `${key}=${raw.get(key)}`)
+    .join("&")
+  try {
+    const key = await certificatePublicKey(certificate)
+    return await crypto.subtle.verify(
+      RSA_SHA256,
+      key,
+      fromBase64(decodeURIComponent(signature)),
+      new TextEncoder().encode(signed),
+    )
+  } catch {
+    return false
+  }
+}
+
+export type ReceivedAuthnRequest = {
+  app: string
+  clientId: string
+  requestId: string
+  relayState: string | null
+  isPassive: boolean
+}
+
+/**
+ * Reads an AuthnRequest off /saml/sso (either binding) and checks it against
+ * the service provider it names: served on this tenant, asking for its
+ * registered ACS URL and the POST binding, and — from a provider with a
+ * certificate — signed. Only HTTP-Redirect signatures are verified; HTTP-POST
+ * ones are enveloped XML signatures we can't canonicalize, so a provider with a
+ * certificate must use HTTP-Redirect. Returns an error message for anything
+ * else: there's no safe place to send a SAML error before this.
+ */
+export async function receiveAuthnRequest(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  request: Request,
+): Promise<ReceivedAuthnRequest | { error: string }> {
+  const url = new URL(request.url)
+  const redirectBinding = request.method === "GET"
+  const params = redirectBinding ? url.searchParams : await request.formData()
+  const encoded = params.get("SAMLRequest")
+  const relayState = params.get("RelayState")
+  if (typeof encoded !== "string" || !encoded) return { error: "Missing SAMLRequest." }
+
+  let xml: string
+  try {
+    const bytes = fromBase64(encoded)
+    xml = redirectBinding ? await inflate(bytes) : new TextDecoder().decode(bytes)
+  } catch {
+    return { error: "SAMLRequest isn't encoded for its binding." }
+  }
+  const authn = parseAuthnRequest(xml)
+  if (!authn) return { error: "SAMLRequest isn't an AuthnRequest." }
+
+  const sp = await findSamlServiceProviderByEntityId(ctx, authn.issuer)
+  if (!sp || (tenant.app && sp.applicationId !== tenant.app)) {
+    return { error: `${authn.issuer} isn't a service provider on ${tenant.hostname}.` }
+  }
+  const application = await findApplicationByApp(ctx, sp.applicationId)
+  if (!application || application.disabled) return { error: "This application is disabled." }
+  if (authn.destination && authn.destination !== samlSsoUrl(tenant)) {
+    return { error: "The AuthnRequest is addressed to another endpoint." }
+  }
+  if (authn.acsUrl && authn.acsUrl !== sp.acsUrl) {
+    return { error: "The AuthnRequest asks for an unregistered AssertionConsumerServiceURL." }
+  }
+  if (authn.protocolBinding && authn.protocolBinding !== BINDING_POST) {
+    return { error: "Only the HTTP-POST binding is supported for responses." }
+  }
+  if (sp.certificate && !redirectBinding) {
+    return { error: "This service provider signs its AuthnRequests: send them over HTTP-Redirect." }
+  }
+  if (sp.certificate && !(await verifyRedirectSignature(url.search, sp.certificate))) {
+    return { error: "The AuthnRequest signature doesn't verify." }
+  }
+  if (typeof relayState === "string" && relayState.length > 1024) {
+    return { error: "RelayState is too long." }
+  }
+
+  return {
+    app: sp.applicationId,
+    clientId: application.clientId,
+    requestId: authn.id,
+    relayState: typeof relayState === "string" ? relayState : null,
+    isPassive: authn.isPassive,
+  }
+}
+
+/**
+ * What a SAML assertion discloses, in OIDC scope terms: recorded as the
+ * consent so it shows (and can be revoked) under connected apps on /account.
+ */
+export const SAML_SCOPES = ["openid", "email", "profile"]
+
+/** Whether `userId` has let `clientId` in already, or the client skips consent. */
+export async function hasSamlConsent(ctx: BaseServiceContext, clientId: string, userId: string) {
+  const [client] = await ctx.db
+    .select({ skipConsent: schema.oauthClient.skipConsent })
+    .from(schema.oauthClient)
+    .where(eq(schema.oauthClient.clientId, clientId))
+    .limit(1)
+  if (client?.skipConsent) return true
+  const [consent] = await ctx.db
+    .select({ id: schema.oauthConsent.id })
+    .from(schema.oauthConsent)
+    .where(and(eq(schema.oauthConsent.clientId, clientId), eq(schema.oauthConsent.userId, userId)))
+    .limit(1)
+  return !!consent
+}
+
+export async function grantSamlConsent(ctx: BaseServiceContext, clientId: string, userId: string) {
+  const now = new Date()
+  await ctx.db.insert(schema.oauthConsent).values({
+    id: crypto.randomUUID(),
+    clientId,
+    userId,
+    scopes: SAML_SCOPES,
+    createdAt: now,
+    updatedAt: now,
+  })
+}
+
+export type SamlSubject = {
+  email: string
+  name: string
+  /** `slug:role` for each of the user's workspaces in the app. */
+  roles: string[]
+  /** Authentication context class (the OIDC `acr`). */
+  authnContext: string
+  sessionIndex: string
+}
+
+function attribute(name: string, values: string[]) {
+  return name
+    ? element(
+        "saml:Attribute",
+        { Name: name, NameFormat: ATTRNAME_BASIC },
+        ...values.map((value) => element("saml:AttributeValue", {}, text(value))),
+      )
+    : ""
+}
+
+/**
+ * The assertion for `subject`, enveloped-signed with the IdP key. Signed as
+ * built: the canonical form of the assertion minus its Signature is the string
+ * assembled here before the Signature goes in after Issuer.
+ */
+async function signedAssertion(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  sp: schema.SamlServiceProvider,
+  inResponseTo: string,
+  subject: SamlSubject,
+) {
+  const id = samlId()
+  const now = new Date()
+  const notBefore = new Date(now.getTime() - SKEW_SECONDS * 1000)
+  const notOnOrAfter = new Date(now.getTime() + ASSERTION_SECONDS * 1000)
+  const names = sp.attributeNames
+
+  const issuer = element("saml:Issuer", {}, text(samlEntityId(tenant)))
+  const body = [
+    element(
+      "saml:Subject",
+      {},
+      element("saml:NameID", { Format: NAMEID_EMAIL }, text(subject.email)),
+      element(
+        "saml:SubjectConfirmation",
+        { Method: BEARER },
+        element("saml:SubjectConfirmationData", {
+          InResponseTo: inResponseTo,
+          NotOnOrAfter: instant(notOnOrAfter),
+          Recipient: sp.acsUrl,
+        }),
+      ),
+    ),
+    element(
+      "saml:Conditions",
+      { NotBefore: instant(notBefore), NotOnOrAfter: instant(notOnOrAfter) },
+      element("saml:AudienceRestriction", {}, element("saml:Audience", {}, text(sp.entityId))),
+    ),
+    element(
+      "saml:AuthnStatement",
+      { AuthnInstant: instant(now), SessionIndex: subject.sessionIndex },
+      element(
+        "saml:AuthnContext",
+        {},
+        element("saml:AuthnContextClassRef", {}, text(subject.authnContext)),
+      ),
+    ),
+    element(
+      "saml:AttributeStatement",
+      {},
+      attribute(names.email, [subject.email]),
+      attribute(names.name, subject.name ? [subject.name] : []),
+      attribute(names.roles, subject.roles),
+    ),
+  ]
+  const attributes = {
+    "xmlns:saml": NS.assertion,
+    ID: id,
+    IssueInstant: instant(now),
+    Version: "2.0",
+  }
+
+  const unsigned = element("saml:Assertion", attributes, issuer, ...body)
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(unsigned))
+  const signedInfo = element(
+    "ds:SignedInfo",
+    { "xmlns:ds": NS.ds },
+    element("ds:CanonicalizationMethod", { Algorithm: EXC_C14N }),
+    element("ds:SignatureMethod", { Algorithm: RSA_SHA256_URI }),
+    element(
+      "ds:Reference",
+      { URI: `#${id}` },
+      element(
+        "ds:Transforms",
+        {},
+        element("ds:Transform", { Algorithm: ENVELOPED }),
+        element("ds:Transform", { Algorithm: EXC_C14N }),
+      ),
+      element("ds:DigestMethod", { Algorithm: SHA256_URI }),
+      element("ds:DigestValue", {}, toBase64(digest)),
+    ),
+  )
+  const key = await samlSigningKey(ctx)
+  const signatureValue = await crypto.subtle.sign(
+    RSA_SHA256,
+    key.privateKey,
+    new TextEncoder().encode(signedInfo),
+  )
+  const signature = element(
+    "ds:Signature",
+    { "xmlns:ds": NS.ds },
+    signedInfo,
+    element("ds:SignatureValue", {}, toBase64(signatureValue)),
+    element(
+      "ds:KeyInfo",
+      {},
+      element("ds:X509Data", {}, element("ds:X509Certificate", {}, key.certificate)),
+    ),
+  )
+  return element("saml:Assertion", attributes, issuer, signature, ...body)
+}
+
+function response(
+  tenant: Tenant,
+  sp: schema.SamlServiceProvider,
+  inResponseTo: string,
+  status: SamlStatus,
+  assertion = "",
+) {
+  const code =
+    status === "Success"
+      ? element("samlp:StatusCode", { Value: "urn:oasis:names:tc:SAML:2.0:status:Success" })
+      : element(
+          "samlp:StatusCode",
+          { Value: "urn:oasis:names:tc:SAML:2.0:status:Responder" },
+          element("samlp:StatusCode", { Value: `urn:oasis:names:tc:SAML:2.0:status:${status}` }),
+        )
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    element(
+      "samlp:Response",
+      {
+        "xmlns:samlp": NS.protocol,
+        "xmlns:saml": NS.assertion,
+        Destination: sp.acsUrl,
+        ID: samlId(),
+        InResponseTo: inResponseTo,
+        IssueInstant: instant(new Date()),
+        Version: "2.0",
+      },
+      element("saml:Issuer", {}, text(samlEntityId(tenant))),
+      element("samlp:Status", {}, code),
+      assertion,
+    )
+  )
+}
+
+/**
+ * The browser page that POSTs a Response to the service provider's ACS URL
+ * (HTTP-POST binding): a signed assertion for `subject`, or a failure status
+ * when there's none.
+ */
+export async function samlResponsePage(
+  ctx: BaseServiceContext,
+  tenant: Tenant,
+  sp: schema.SamlServiceProvider,
+  pending: { requestId: string; relayState: string | null },
+  result: { subject: SamlSubject } | { status: Exclude<SamlStatus, "Success"> },
+) {
+  const xml =
+    "subject" in result
+      ? response(
+          tenant,
+          sp,
+          pending.requestId,
+          "Success",
+          await signedAssertion(ctx, tenant, sp, pending.requestId, result.subject),
+        )
+      : response(tenant, sp, pending.requestId, result.status)
+  const encoded = toBase64(new TextEncoder().encode(xml))
+  const relayState = pending.relayState
+    ? `<input type="hidden" name="RelayState" value="${escapeHtml(pending.relayState)}">`
+    : ""
+  const html = `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Signing in…</title></head>
+<body onload="document.forms[0].submit()">
+<form method="post" action="${escapeHtml(sp.acsUrl)}">
+<input type="hidden" name="SAMLResponse" value="${encoded}">${relayState}
+<noscript><button type="submit">Continue</button></noscript>
+</form></body></html>`
+  return new Response(html, {
+    headers: { "content-type": "text/html; charset=utf-8", "cache-control": "no-store" },
+  })
+}
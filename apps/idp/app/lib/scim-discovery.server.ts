@@ -0,0 +1,137 @@
+import { GROUP_SCHEMA, MAX_PAGE_SIZE, USER_SCHEMA } from "./scim.server"
+
+/**
+ * SCIM's self-description (RFC 7643 §5–7): what this service provider
+ * supports, its resource types and the attributes of each. Static — they only
+ * differ per application in `meta.location`.
+ */
+
+const SERVICE_PROVIDER_CONFIG = "urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig"
+const RESOURCE_TYPE = "urn:ietf:params:scim:schemas:core:2.0:ResourceType"
+const SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Schema"
+
+export function serviceProviderConfig(base: string) {
+  return {
+    schemas: [SERVICE_PROVIDER_CONFIG],
+    patch: { supported: true },
+    bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+    filter: { supported: true, maxResults: MAX_PAGE_SIZE },
+    changePassword: { supported: false },
+    sort: { supported: false },
+    etag: { supported: false },
+    authenticationSchemes: [
+      {
+        type: "oauthbearertoken",
+        name: "API key",
+        description: "A management API key holding user:provision on the application.",
+        primary: true,
+      },
+    ],
+    meta: { resourceType: "ServiceProviderConfig", location: `${base}/ServiceProviderConfig` },
+  }
+}
+
+export function resourceTypes(base: string) {
+  return [
+    { id: "User", name: "User", endpoint: "/Users", schema: USER_SCHEMA },
+    { id: "Group", name: "Group", endpoint: "/Groups", schema: GROUP_SCHEMA },
+  ].map((type) => ({
+    schemas: [RESOURCE_TYPE],
+    ...type,
+    description: type.id === "User" ? "People provisioned into the app" : "The app's workspaces",
+    meta: { resourceType: "ResourceType", location: `${base}/ResourceTypes/${type.id}` },
+  }))
+}
+
+type Attribute = {
+  name: string
+  type: "string" | "boolean" | "complex" | "reference"
+  multiValued?: boolean
+  required?: boolean
+  mutability?: "readOnly" | "readWrite" | "immutable"
+  uniqueness?: "none" | "server"
+  subAttributes?: Attribute[]
+}
+
+function attribute({ multiValued = false, required = false, ...a }: Attribute): object {
+  return {
+    multiValued,
+    required,
+    caseExact: false,
+    mutability: "readWrite",
+    returned: "default",
+    uniqueness: "none",
+    ...a,
+    ...(a.subAttributes ? { subAttributes: a.subAttributes.map(attribute) } : {}),
+  }
+}
+
+const USER_ATTRIBUTES: Attribute[] = [
+  {
+    name: "userName",
+    type: "string",
+    required: true,
+    mutability: "immutable",
+    uniqueness: "server",
+  },
+  { name: "externalId", type: "string" },
+  { name: "displayName", type: "string" },
+  {
+    name: "name",
+    type: "complex",
+    subAttributes: [
+      { name: "formatted", type: "string" },
+      { name: "givenName", type: "string" },
+      { name: "familyName", type: "string" },
+    ],
+  },
+  {
+    name: "emails",
+    type: "complex",
+    multiValued: true,
+    mutability: "readOnly",
+    subAttributes: [
+      { name: "value", type: "string" },
+      { name: "type", type: "string" },
+      { name: "primary", type: "boolean" },
+    ],
+  },
+  { name: "active", type: "boolean" },
+  {
+    name: "groups",
+    type: "complex",
+    multiValued: true,
+    mutability: "readOnly",
+    subAttributes: [
+      { name: "value", type: "string" },
+      { name: "display", type: "string" },
+      { name: "$ref", type: "reference" },
+    ],
+  },
+]
+
+const GROUP_ATTRIBUTES: Attribute[] = [
+  { name: "displayName", type: "string", required: true, uniqueness: "server" },
+  {
+    name: "members",
+    type: "complex",
+    multiValued: true,
+    subAttributes: [
+      { name: "value", type: "string", mutability: "immutable" },
+      { name: "display", type: "string", mutability: "readOnly" },
+      { name: "$ref", type: "reference", mutability: "immutable" },
+    ],
+  },
+]
+
+export function schemas(base: string) {
+  return [
+    { id: USER_SCHEMA, name: "User", description: "User account", attributes: USER_ATTRIBUTES },
+    { id: GROUP_SCHEMA, name: "Group", description: "Workspace", attributes: GROUP_ATTRIBUTES },
+  ].map((s) => ({
+    schemas: [SCHEMA],
+    ...s,
+    attributes: s.attributes.map(attribute),
+    meta: { resourceType: "Schema", location: `${base}/Schemas/${s.id}` },
+  }))
+}
@@ -0,0 +1,884 @@
+import { and, asc, count, eq, inArray, isNull, sql, type SQL } from "drizzle-orm"
+import { z } from "zod"
+
+import * as schema from "../db/schema"
+import { requireApiKey, requireApiPermission, type ApplicationSummary } from "./admin.server"
+import { requireApplication } from "./api.server"
+import { disconnectApp } from "./connected-apps.server"
+import type { BaseServiceContext } from "./services"
+import { emitMemberEvents, emitUserEvent, emitWorkspaceEvent } from "./webhooks.server"
+
+/**
+ * SCIM 2.0 provisioning (RFC 7643/7644) for one application, under
+ * `/scim/v2/:clientId`. HR tools and directories (Okta, Entra ID, …) push people
+ * in and out and arrange them into the app's workspaces:
+ *
+ * - `Users` are the accounts provisioned into the app (`scim_user`). The
+ *   account is IdP-wide, so provisioning an address that already has one links
+ *   it; deprovisioning unlinks it, ends the app's grants and drops it from the
+ *   app's workspaces, but never deletes the account. `active: false` keeps the
+ *   link and refuses the app's authorizations (sign-in-policy.server.ts). The
+ *   names a client sends stay with the app's link; only an account SCIM itself
+ *   created starts out with one.
+ * - `Groups` are the app's workspaces; `members` their members.
+ *
+ * Authenticated by an API key holding `user:provision` on the app. Filtering is
+ * the `attr eq "value"` form provisioning clients send; attributes we don't
+ * keep (title, department, …) are accepted and ignored rather than refused.
+ */
+
+export const USER_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:User"
+export const GROUP_SCHEMA = "urn:ietf:params:scim:schemas:core:2.0:Group"
+const LIST_RESPONSE = "urn:ietf:params:scim:api:messages:2.0:ListResponse"
+const ERROR = "urn:ietf:params:scim:api:messages:2.0:Error"
+
+/** Most resources one page of a list returns; also the default `count`. */
+export const MAX_PAGE_SIZE = 200
+
+type ScimErrorType =
+  | "invalidFilter"
+  | "invalidSyntax"
+  | "invalidValue"
+  | "mutability"
+  | "uniqueness"
+
+/** A SCIM JSON response (`application/scim+json`). */
+export function scimJson(body: unknown, init?: ResponseInit) {
+  const headers = new Headers(init?.headers)
+  headers.set("content-type", "application/scim+json")
+  return Response.json(body, { ...init, headers })
+}
+
+/** An error in SCIM's shape (RFC 7644 §3.12), which clients show to admins. */
+export function scimError(status: number, detail: string, scimType?: ScimErrorType) {
+  return scimJson(
+    { schemas: [ERROR], status: String(status), ...(scimType ? { scimType } : {}), detail },
+    { status },
+  )
+}
+
+/** Throws 405 for verbs a SCIM resource route doesn't handle. */
+export function scimMethodNotAllowed(): never {
+  throw scimError(405, "Method not allowed.")
+}
+
+/**
+ * The application behind `:clientId`, once the bearer API key is shown to hold
+ * `user:provision` on it. The management API's gates, with their errors
+ * rethrown in SCIM's shape.
+ */
+export async function requireScimApplication(
+  request: Request,
+  ctx: BaseServiceContext,
+  clientId: string,
+) {
+  try {
+    const principal = await requireApiKey(request, ctx)
+    const application = await requireApplication(ctx, clientId)
+    requireApiPermission(principal, application.app, "user:provision")
+    return application
+  } catch (e) {
+    if (!(e instanceof Response)) throw e
+    const body = (await e.json()) as { error: string; message?: string }
+    throw scimError(e.status, body.message ?? body.error)
+  }
+}
+
+/** Where this application's SCIM resources live; resources' `meta.location` hangs off it. */
+export function scimBaseUrl(request: Request, clientId: string) {
+  return `${new URL(request.url).origin}/scim/v2/${encodeURIComponent(clientId)}`
+}
+
+/** Parses the JSON body against `schema`; throws a SCIM 400 naming the first issue. */
+export async function readScimBody<T extends z.ZodType>(
+  request: Request,
+  schema: T,
+): Promise<z.output<T>> {
+  let raw: unknown
+  try {
+    raw = await request.json()
+  } catch {
+    throw scimError(400, "Request body must be JSON.", "invalidSyntax")
+  }
+  const parsed = schema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const at = issue.path.length ? `${issue.path.join(".")}: ` : ""
+    throw scimError(400, `${at}${issue.message}`, "invalidValue")
+  }
+  return parsed.data
+}
+
+// --- Lists: filter and pagination ---
+
+export type ScimFilter = { attribute: string; value: string | boolean | null }
+
+const FILTER = /^\s*(\S+)\s+eq\s+("(?:[^"\\]|\\.)*"|true|false|null)\s*$/i
+
+/** Drops a core schema URN prefix: `urn:…:User:userName` → `userName`. */
+function attributePath(path: string) {
+  return path.replace(/^urn:ietf:params:scim:schemas:core:2\.0:(User|Group):/i, "")
+}
+
+/**
+ * Parses a `filter` of the form `attr eq "value"` over `attributes` (matched
+ * case-insensitively, returned as listed). Anything else — other operators,
+ * `and`/`or`, unknown attributes — throws 400 invalidFilter.
+ */
+export function parseFilter(filter: string | null, attributes: readonly string[]) {
+  if (!filter?.trim()) return null
+  const match = FILTER.exec(filter)
+  const attribute = match
+    ? attributes.find((a) => a.toLowerCase() === attributePath(match[1]).toLowerCase())
+    : undefined
+  if (!match || !attribute) {
+    throw scimError(
+      400,
+      `Only \`attribute eq "value"\` filters on ${attributes.join(", ")} are supported.`,
+      "invalidFilter",
+    )
+  }
+  return { attribute, value: JSON.parse(match[2]) as ScimFilter["value"] }
+}
+
+/** `startIndex` (1-based) and `count` from the query, `count` capped at MAX_PAGE_SIZE. */
+export function readPage(url: URL) {
+  const startIndex = Math.max(1, Number.parseInt(url.searchParams.get("startIndex") ?? "") || 1)
+  const requested = url.searchParams.get("count")
+  const size =
+    requested === null
+      ? MAX_PAGE_SIZE
+      : Math.min(MAX_PAGE_SIZE, Math.max(0, Number.parseInt(requested) || 0))
+  return { startIndex, count: size, offset: startIndex - 1 }
+}
+
+export function listResponse(resources: unknown[], totalResults: number, startIndex = 1) {
+  return {
+    schemas: [LIST_RESPONSE],
+    totalResults,
+    startIndex,
+    itemsPerPage: resources.length,
+    Resources: resources,
+  }
+}
+
+// --- PATCH ---
+
+export const PatchSchema = z.object({
+  Operations: z
+    .array(
+      z.object({
+        op: z
+          .string()
+          .transform((op) => op.toLowerCase())
+          .pipe(z.enum(["add", "replace", "remove"])),
+        path: z.string().optional(),
+        value: z.unknown().optional(),
+      }),
+    )
+    .min(1),
+})
+
+type PatchOperation = z.output<typeof PatchSchema>["Operations"][number]
+
+/**
+ * Flattens operations into one `(op, path, value)` per attribute: an operation
+ * without a path sets each key of its value object (`name` one level deeper).
+ * Paths come back lowercased, without the schema prefix.
+ */
+function flattenOperations(operations: PatchOperation[]) {
+  return operations.flatMap(({ op, path, value }) => {
+    if (path) return [{ op, path: attributePath(path).toLowerCase(), value }]
+    if (!value || typeof value !== "object" || Array.isArray(value)) {
+      throw scimError(400, `A ${op} without a path needs an object value.`, "invalidSyntax")
+    }
+    return Object.entries(value).flatMap(([key, v]) => {
+      const attr = attributePath(key).toLowerCase()
+      if (attr === "name" && v && typeof v === "object") {
+        return Object.entries(v).map(([sub, sv]) => ({
+          op,
+          path: `name.${sub.toLowerCase()}`,
+          value: sv,
+        }))
+      }
+      return [{ op, path: attr, value: v }]
+    })
+  })
+}
+
+/** SCIM booleans, as some clients (Entra ID) send them: `true`, `"True"`. */
+function readBoolean(value: unknown) {
+  if (typeof value === "boolean") return value
+  if (typeof value === "string" && /^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === "true"
+  }
+  throw scimError(400, "Expected a boolean.", "invalidValue")
+}
+
+function readString(value: unknown) {
+  if (typeof value === "string") return value
+  throw scimError(400, "Expected a string.", "invalidValue")
+}
+
+// --- Users ---
+
+const USER_ATTRIBUTES = ["userName", "emails.value", "externalId", "id", "displayName", "active"]
+
+export const ScimUserInputSchema = z.object({
+  userName: z.email().transform((e) => e.toLowerCase()),
+  externalId: z.string().nullish(),
+  displayName: z.string().nullish(),
+  name: z
+    .object({
+      formatted: z.string().nullish(),
+      givenName: z.string().nullish(),
+      familyName: z.string().nullish(),
+    })
+    .nullish(),
+  active: z.boolean().optional(),
+})
+
+type ScimUserInput = z.output<typeof ScimUserInputSchema>
+
+/** The one name a provisioned user keeps, from SCIM's displayName or name parts. */
+function accountName(input: Pick<ScimUserInput, "displayName" | "name">) {
+  const parts = [input.name?.givenName, input.name?.familyName].filter(Boolean).join(" ")
+  return input.displayName?.trim() || input.name?.formatted?.trim() || parts.trim() || null
+}
+
+/** The app's name for the user, else the account's own. */
+const userName = sql<string>`coalesce(${schema.scimUser.name}, ${schema.user.name})`
+
+const userColumns = {
+  id: schema.user.id,
+  email: schema.user.email,
+  name: userName,
+  externalId: schema.scimUser.externalId,
+  active: schema.scimUser.active,
+  createdAt: schema.scimUser.createdAt,
+  updatedAt: schema.scimUser.updatedAt,
+}
+
+type ScimUserRow = {
+  id: string
+  email: string
+  name: string
+  externalId: string | null
+  active: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+function userCondition(filter: ScimFilter | null): SQL | undefined {
+  if (!filter) return undefined
+  const value = filter.value === null ? null : String(filter.value)
+  switch (filter.attribute) {
+    case "userName":
+    case "emails.value":
+      return eq(schema.user.email, (value ?? "").toLowerCase())
+    case "externalId":
+      return value === null
+        ? isNull(schema.scimUser.externalId)
+        : eq(schema.scimUser.externalId, value)
+    case "id":
+      return eq(schema.user.id, value ?? "")
+    case "displayName":
+      return eq(userName, value ?? "")
+    case "active":
+      return eq(schema.scimUser.active, filter.value === true)
+  }
+}
+
+/** Workspaces of `app` each user is in, for the read-only `groups` attribute. */
+async function groupsOf(ctx: BaseServiceContext, app: string, userIds: string[]) {
+  const rows = userIds.length
+    ? await ctx.db
+        .select({
+          userId: schema.member.userId,
+          id: schema.organization.id,
+          name: schema.organization.name,
+        })
+        .from(schema.member)
+        .innerJoin(
+          schema.organization,
+          and(
+            eq(schema.member.organizationId, schema.organization.id),
+            eq(schema.organization.applicationId, app),
+          ),
+        )
+        .where(inArray(schema.member.userId, userIds))
+    : []
+  const groups = new Map<string, { id: string; name: string }[]>()
+  for (const { userId, ...group } of rows)
+    groups.set(userId, [...(groups.get(userId) ?? []), group])
+  return groups
+}
+
+function serializeUser(
+  base: string,
+  row: ScimUserRow,
+  groups: { id: string; name: string }[] = [],
+) {
+  return {
+    schemas: [USER_SCHEMA],
+    id: row.id,
+    ...(row.externalId ? { externalId: row.externalId } : {}),
+    userName: row.email,
+    displayName: row.name,
+    name: { formatted: row.name },
+    emails: [{ value: row.email, type: "work", primary: true }],
+    active: row.active,
+    groups: groups.map((g) => ({
+      value: g.id,
+      display: g.name,
+      $ref: `${base}/Groups/${g.id}`,
+    })),
+    meta: {
+      resourceType: "User",
+      created: row.createdAt.toISOString(),
+      lastModified: row.updatedAt.toISOString(),
+      location: `${base}/Users/${row.id}`,
+    },
+  }
+}
+
+export async function listScimUsers(ctx: BaseServiceContext, app: string, base: string, url: URL) {
+  const filter = parseFilter(url.searchParams.get("filter"), USER_ATTRIBUTES)
+  const page = readPage(url)
+  const where = and(eq(schema.scimUser.applicationId, app), userCondition(filter))
+  const [{ total }] = await ctx.db
+    .select({ total: count() })
+    .from(schema.scimUser)
+    .innerJoin(schema.user, eq(schema.scimUser.userId, schema.user.id))
+    .where(where)
+  const rows = page.count
+    ? await ctx.db
+        .select(userColumns)
+        .from(schema.scimUser)
+        .innerJoin(schema.user, eq(schema.scimUser.userId, schema.user.id))
+        .where(where)
+        .orderBy(asc(schema.scimUser.createdAt), asc(schema.scimUser.id))
+        .limit(page.count)
+        .offset(page.offset)
+    : []
+  const groups = await groupsOf(
+    ctx,
+    app,
+    rows.map((r) => r.id),
+  )
+  return listResponse(
+    rows.map((r) => serializeUser(base, r, groups.get(r.id))),
+    total,
+    page.startIndex,
+  )
+}
+
+async function findScimUser(ctx: BaseServiceContext, app: string, userId: string) {
+  const [row] = await ctx.db
+    .select(userColumns)
+    .from(schema.scimUser)
+    .innerJoin(schema.user, eq(schema.scimUser.userId, schema.user.id))
+    .where(and(eq(schema.scimUser.applicationId, app), eq(schema.scimUser.userId, userId)))
+    .limit(1)
+  return row ?? null
+}
+
+/** The provisioned user as a SCIM resource; throws 404 if `userId` isn't one of the app's. */
+export async function getScimUser(
+  ctx: BaseServiceContext,
+  app: string,
+  base: string,
+  userId: string,
+) {
+  const row = await findScimUser(ctx, app, userId)
+  if (!row) throw scimError(404, "User not found.")
+  const groups = await groupsOf(ctx, app, [row.id])
+  return serializeUser(base, row, groups.get(row.id))
+}
+
+/**
+ * Provisions `input.userName` into the application: the existing account with
+ * that address, else a new one (unverified until its first email code) named
+ * after the input. 409 uniqueness if it's already provisioned here.
+ */
+export async function createScimUser(
+  ctx: BaseServiceContext,
+  application: ApplicationSummary & { app: string },
+  input: ScimUserInput,
+) {
+  const name = accountName(input)
+  const [existing] = await ctx.db
+    .select({ id: schema.user.id })
+    .from(schema.user)
+    .where(eq(schema.user.email, input.userName))
+    .limit(1)
+  if (existing && (await findScimUser(ctx, application.app, existing.id))) {
+    throw scimError(409, "That userName is already provisioned.", "uniqueness")
+  }
+
+  let userId = existing?.id
+  if (!userId) {
+    userId = crypto.randomUUID()
+    await ctx.db.insert(schema.user).values({
+      id: userId,
+      email: input.userName,
+      name: name ?? input.userName.slice(0, input.userName.indexOf("@")),
+      emailVerified: false,
+    })
+  }
+  await ctx.db.insert(schema.scimUser).values({
+    applicationId: application.app,
+    userId,
+    externalId: input.externalId ?? null,
+    name,
+    active: input.active ?? true,
+  })
+  ctx.logger.info("scim.user_provisioned", {
+    app: application.app,
+    userId,
+    linked: !!existing,
+  })
+  // New to the application either way, even when the account already existed.
+  await emitUserEvent(ctx, "user.created", userId, [application.app])
+  return userId
+}
+
+type UserChanges = { name?: string; externalId?: string | null; active?: boolean }
+
+/**
+ * Writes `changes` to a provisioned user's link to the application; the
+ * account is left alone. Deactivating signs them out of the application: its
+ * refresh tokens are revoked and its consent forgotten.
+ */
+async function updateScimUser(
+  ctx: BaseServiceContext,
+  application: ApplicationSummary & { app: string },
+  current: ScimUserRow,
+  changes: UserChanges,
+) {
+  await ctx.db
+    .update(schema.scimUser)
+    .set({
+      ...(changes.name ? { name: changes.name } : {}),
+      ...(changes.externalId !== undefined ? { externalId: changes.externalId } : {}),
+      ...(changes.active !== undefined ? { active: changes.active } : {}),
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(schema.scimUser.applicationId, application.app),
+        eq(schema.scimUser.userId, current.id),
+      ),
+    )
+  if (current.active && changes.active === false) {
+    await disconnectApp(ctx, current.id, application.clientId)
+    ctx.logger.info("scim.user_deactivated", { app: application.app, userId: current.id })
+  }
+}
+
+async function requireScimUserRow(ctx: BaseServiceContext, app: string, userId: string) {
+  const row = await findScimUser(ctx, app, userId)
+  if (!row) throw scimError(404, "User not found.")
+  return row
+}
+
+/** PUT: replaces the attributes we keep. `userName` can't change — the account is IdP-wide. */
+export async function replaceScimUser(
+  ctx: BaseServiceContext,
+  application: ApplicationSummary & { app: string },
+  userId: string,
+  input: ScimUserInput,
+) {
+  const current = await requireScimUserRow(ctx, application.app, userId)
+  if (input.userName !== current.email) {
+    throw scimError(400, "userName can't be changed.", "mutability")
+  }
+  await updateScimUser(ctx, application, current, {
+    name: accountName(input) ?? undefined,
+    externalId: input.externalId ?? null,
+    active: input.active ?? true,
+  })
+}
+
+/** PATCH: add/replace/remove on active, externalId, displayName and name. */
+export async function patchScimUser(
+  ctx: BaseServiceContext,
+  application: ApplicationSummary & { app: string },
+  userId: string,
+  operations: PatchOperation[],
+) {
+  const current = await requireScimUserRow(ctx, application.app, userId)
+  const changes: UserChanges = {}
+  const parts: { givenname?: string; familyname?: string } = {}
+
+  for (const { op, path, value } of flattenOperations(operations)) {
+    if (path === "active") {
+      if (op === "remove") throw scimError(400, "active can't be removed.", "mutability")
+      changes.active = readBoolean(value)
+    } else if (path === "externalid") {
+      changes.externalId = op === "remove" ? null : readString(value)
+    } else if (path === "displayname" || path === "name.formatted") {
+      if (op !== "remove") changes.name = readString(value)
+    } else if (path === "name.givenname" || path === "name.familyname") {
+      if (op !== "remove") parts[path.slice(5) as keyof typeof parts] = readString(value)
+    } else if (path === "username" || path.startsWith("emails")) {
+      const address = Array.isArray(value)
+        ? (value[0] as { value?: unknown } | undefined)?.value
+        : value && typeof value === "object"
+          ? (value as { value?: unknown }).value
+          : value
+      if (op === "remove" || String(address).toLowerCase() !== current.email) {
+        throw scimError(400, "userName and emails can't be changed.", "mutability")
+      }
+    }
+  }
+  if (!changes.name && (parts.givenname || parts.familyname)) {
+    const [given, ...family] = current.name.split(" ")
+    changes.name = [parts.givenname ?? given, parts.familyname ?? family.join(" ")]
+      .filter(Boolean)
+      .join(" ")
+  }
+  await updateScimUser(ctx, application, current, changes)
+}
+
+/**
+ * Deprovisions: unlinks the account from the application, drops it from the
+ * app's workspaces and ends the app's grants. The account itself stays.
+ */
+export async function deleteScimUser(
+  ctx: BaseServiceContext,
+  application: ApplicationSummary & { app: string },
+  userId: string,
+) {
+  await requireScimUserRow(ctx, application.app, userId)
+  const workspaces = ctx.db
+    .select({ id: schema.organization.id })
+    .from(schema.organization)
+    .where(eq(schema.organization.applicationId, application.app))
+  const left = await ctx.db
+    .delete(schema.member)
+    .where(and(eq(schema.member.userId, userId), inArray(schema.member.organizationId, workspaces)))
+    .returning({
+      workspaceId: schema.member.organizationId,
+      userId: schema.member.userId,
+      role: schema.member.role,
+    })
+  for (const member of left) {
+    await emitMemberEvents(ctx, "member.removed", member.workspaceId, [member])
+  }
+  await ctx.db
+    .delete(schema.scimUser)
+    .where(
+      and(eq(schema.scimUser.applicationId, application.app), eq(schema.scimUser.userId, userId)),
+    )
+  await disconnectApp(ctx, userId, application.clientId)
+  await emitUserEvent(ctx, "user.deleted", userId, [application.app])
+  ctx.logger.info("scim.user_deprovisioned", { app: application.app, userId })
+}
+
+// --- Groups ---
+
+const GROUP_ATTRIBUTES = ["displayName", "id"]
+
+const MemberRefSchema = z.object({ value: z.string().min(1) })
+
+export const ScimGroupInputSchema = z.object({
+  displayName: z.string().trim().min(1),
+  members: z.array(MemberRefSchema).optional(),
+})
+
+type ScimGroupRow = { id: string; name: string; createdAt: Date }
+
+function groupCondition(filter: ScimFilter | null): SQL | undefined {
+  if (!filter) return undefined
+  const value = String(filter.value ?? "")
+  return filter.attribute === "id"
+    ? eq(schema.organization.id, value)
+    : eq(schema.organization.name, value)
+}
+
+async function membersOf(ctx: BaseServiceContext, workspaceIds: string[]) {
+  const rows = workspaceIds.length
+    ? await ctx.db
+        .select({
+          workspaceId: schema.member.organizationId,
+          id: schema.user.id,
+          email: schema.user.email,
+        })
+        .from(schema.member)
+        .innerJoin(schema.user, eq(schema.member.userId, schema.user.id))
+        .where(inArray(schema.member.organizationId, workspaceIds))
+    : []
+  const members = new Map<string, { id: string; email: string }[]>()
+  for (const { workspaceId, ...m } of rows) {
+    members.set(workspaceId, [...(members.get(workspaceId) ?? []), m])
+  }
+  return members
+}
+
+function serializeGroup(
+  base: string,
+  row: ScimGroupRow,
+  members: { id: string; email: string }[] | null,
+) {
+  return {
+    schemas: [GROUP_SCHEMA],
+    id: row.id,
+    displayName: row.name,
+    ...(members
+      ? {
+          members: members.map((m) => ({
+            value: m.id,
+            display: m.email,
+            $ref: `${base}/Users/${m.id}`,
+          })),
+        }
+      : {}),
+    meta: {
+      resourceType: "Group",
+      created: row.createdAt.toISOString(),
+      // Workspaces don't track updates.
+      lastModified: row.createdAt.toISOString(),
+      location: `${base}/Groups/${row.id}`,
+    },
+  }
+}
+
+/** Whether `excludedAttributes` drops members, as clients ask for big groups. */
+function excludesMembers(url: URL) {
+  return (url.searchParams.get("excludedAttributes") ?? "")
+    .split(",")
+    .some((a) => a.trim().toLowerCase() === "members")
+}
+
+const groupColumns = {
+  id: schema.organization.id,
+  name: schema.organization.name,
+  createdAt: schema.organization.createdAt,
+}
+
+export async function listScimGroups(ctx: BaseServiceContext, app: string, base: string, url: URL) {
+  const filter = parseFilter(url.searchParams.get("filter"), GROUP_ATTRIBUTES)
+  const page = readPage(url)
+  const where = and(eq(schema.organization.applicationId, app), groupCondition(filter))
+  const [{ total }] = await ctx.db.select({ total: count() }).from(schema.organization).where(where)
+  const rows = page.count
+    ? await ctx.db
+        .select(groupColumns)
+        .from(schema.organization)
+        .where(where)
+        .orderBy(asc(schema.organization.createdAt), asc(schema.organization.id))
+        .limit(page.count)
+        .offset(page.offset)
+    : []
+  const members = excludesMembers(url)
+    ? null
+    : await membersOf(
+        ctx,
+        rows.map((r) => r.id),
+      )
+  return listResponse(
+    rows.map((r) => serializeGroup(base, r, members ? (members.get(r.id) ?? []) : null)),
+    total,
+    page.startIndex,
+  )
+}
+
+async function requireScimGroupRow(ctx: BaseServiceContext, app: string, groupId: string) {
+  const [row] = await ctx.db
+    .select(groupColumns)
+    .from(schema.organization)
+    .where(and(eq(schema.organization.id, groupId), eq(schema.organization.applicationId, app)))
+    .limit(1)
+  if (!row) throw scimError(404, "Group not found.")
+  return row
+}
+
+export async function getScimGroup(
+  ctx: BaseServiceContext,
+  app: string,
+  base: string,
+  groupId: string,
+  url: URL,
+) {
+  const row = await requireScimGroupRow(ctx, app, groupId)
+  const members = excludesMembers(url) ? null : ((await membersOf(ctx, [row.id])).get(row.id) ?? [])
+  return serializeGroup(base, row, members)
+}
+
+/** Throws 400 unless every id is a user provisioned into `app`. */
+async function requireProvisioned(ctx: BaseServiceContext, app: string, userIds: string[]) {
+  if (userIds.length === 0) return
+  const rows = await ctx.db
+    .select({ userId: schema.scimUser.userId })
+    .from(schema.scimUser)
+    .where(and(eq(schema.scimUser.applicationId, app), inArray(schema.scimUser.userId, userIds)))
+  const known = new Set(rows.map((r) => r.userId))
+  const unknown = userIds.find((id) => !known.has(id))
+  if (unknown) throw scimError(400, `Member ${unknown} isn't a provisioned user.`, "invalidValue")
+}
+
+async function requireUniqueGroupName(
+  ctx: BaseServiceContext,
+  app: string,
+  name: string,
+  except?: string,
+) {
+  const [clash] = await ctx.db
+    .select({ id: schema.organization.id })
+    .from(schema.organization)
+    .where(and(eq(schema.organization.applicationId, app), eq(schema.organization.name, name)))
+    .limit(1)
+  if (clash && clash.id !== except) {
+    throw scimError(409, "A group with that displayName exists.", "uniqueness")
+  }
+}
+
+/** A free workspace slug from a group's name: `Sales EMEA` → `sales-emea` (or `sales-emea-x7k2`). */
+async function slugFor(ctx: BaseServiceContext, name: string) {
+  const base =
+    name
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "")
+      .slice(0, 40) || "group"
+  for (let slug = base; ; slug = `${base}-${crypto.randomUUID().slice(0, 4)}`) {
+    const [taken] = await ctx.db
+      .select({ id: schema.organization.id })
+      .from(schema.organization)
+      .where(eq(schema.organization.slug, slug))
+      .limit(1)
+    if (!taken) return slug
+  }
+}
+
+async function addMembers(ctx: BaseServiceContext, workspaceId: string, userIds: string[]) {
+  const present = new Set((await membersOf(ctx, [workspaceId])).get(workspaceId)?.map((m) => m.id))
+  const added = [...new Set(userIds)].filter((id) => !present.has(id))
+  if (added.length === 0) return
+  await ctx.db.insert(schema.member).values(
+    added.map((userId) => ({
+      id: crypto.randomUUID(),
+      organizationId: workspaceId,
+      userId,
+      role: "member",
+      createdAt: new Date(),
+    })),
+  )
+  await emitMemberEvents(
+    ctx,
+    "member.added",
+    workspaceId,
+    added.map((userId) => ({ userId, role: "member" })),
+  )
+}
+
+async function removeMembers(ctx: BaseServiceContext, workspaceId: string, userIds?: string[]) {
+  const removed = await ctx.db
+    .delete(schema.member)
+    .where(
+      and(
+        eq(schema.member.organizationId, workspaceId),
+        userIds ? inArray(schema.member.userId, userIds) : undefined,
+      ),
+    )
+    .returning({ userId: schema.member.userId, role: schema.member.role })
+  await emitMemberEvents(ctx, "member.removed", workspaceId, removed)
+}
+
+/** Makes `userIds` the whole membership, touching only those joining or leaving. */
+async function replaceMembers(ctx: BaseServiceContext, workspaceId: string, userIds: string[]) {
+  const keep = new Set(userIds)
+  const present = (await membersOf(ctx, [workspaceId])).get(workspaceId) ?? []
+  const leaving = present.map((m) => m.id).filter((id) => !keep.has(id))
+  if (leaving.length > 0) await removeMembers(ctx, workspaceId, leaving)
+  await addMembers(ctx, workspaceId, userIds)
+}
+
+/** A workspace for the application, without an owner, holding `members` as members. */
+export async function createScimGroup(
+  ctx: BaseServiceContext,
+  app: string,
+  input: z.output<typeof ScimGroupInputSchema>,
+) {
+  const memberIds = (input.members ?? []).map((m) => m.value)
+  await requireUniqueGroupName(ctx, app, input.displayName)
+  await requireProvisioned(ctx, app, memberIds)
+  const workspace = {
+    id: crypto.randomUUID(),
+    name: input.displayName,
+    slug: await slugFor(ctx, input.displayName),
+    applicationId: app,
+  }
+  await ctx.db.insert(schema.organization).values({ ...workspace, createdAt: new Date() })
+  await emitWorkspaceEvent(ctx, "workspace.created", workspace)
+  await addMembers(ctx, workspace.id, memberIds)
+  ctx.logger.info("scim.group_created", { app, workspaceId: workspace.id })
+  return workspace.id
+}
+
+/** PUT: renames the workspace and makes `members` its whole membership. */
+export async function replaceScimGroup(
+  ctx: BaseServiceContext,
+  app: string,
+  groupId: string,
+  input: z.output<typeof ScimGroupInputSchema>,
+) {
+  const row = await requireScimGroupRow(ctx, app, groupId)
+  const memberIds = (input.members ?? []).map((m) => m.value)
+  await requireUniqueGroupName(ctx, app, input.displayName, row.id)
+  await requireProvisioned(ctx, app, memberIds)
+  await renameGroup(ctx, row, input.displayName)
+  await replaceMembers(ctx, row.id, memberIds)
+}
+
+async function renameGroup(ctx: BaseServiceContext, row: ScimGroupRow, name: string) {
+  if (name === row.name) return
+  await ctx.db.update(schema.organization).set({ name }).where(eq(schema.organization.id, row.id))
+}
+
+const MEMBER_FILTER = /^members\[\s*value\s+eq\s+"((?:[^"\\]|\\.)*)"\s*\]$/i
+
+function memberIds(value: unknown) {
+  const refs = z.array(MemberRefSchema).safeParse(Array.isArray(value) ? value : [value])
+  if (!refs.success) throw scimError(400, "members must be a list of { value }.", "invalidValue")
+  return refs.data.map((m) => m.value)
+}
+
+/**
+ * PATCH: rename (`displayName`), and add, remove or replace `members` —
+ * including removing one by `members[value eq "…"]`, as Okta and Entra ID do.
+ */
+export async function patchScimGroup(
+  ctx: BaseServiceContext,
+  app: string,
+  groupId: string,
+  operations: PatchOperation[],
+) {
+  const row = await requireScimGroupRow(ctx, app, groupId)
+  for (const operation of operations) {
+    const byValue = operation.path ? MEMBER_FILTER.exec(operation.path) : null
+    if (byValue && operation.op === "remove") {
+      await removeMembers(ctx, row.id, [JSON.parse(`"${byValue[1]}"`) as string])
+      continue
+    }
+    for (const { op, path, value } of flattenOperations([operation])) {
+      if (path === "displayname") {
+        if (op === "remove") throw scimError(400, "displayName can't be removed.", "mutability")
+        const name = readString(value).trim()
+        await requireUniqueGroupName(ctx, app, name, row.id)
+        await renameGroup(ctx, row, name)
+      } else if (path === "members") {
+        if (op === "remove") {
+          await removeMembers(ctx, row.id, value === undefined ? undefined : memberIds(value))
+          continue
+        }
+        const ids = memberIds(value)
+        await requireProvisioned(ctx, app, ids)
+        await (op === "replace" ? replaceMembers : addMembers)(ctx, row.id, ids)
+      }
+    }
+  }
+  ctx.logger.info("scim.group_updated", { app, workspaceId: row.id })
+}
@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createApplication, grantAppMember, listApplicationsForUser } from "./admin.server"
+import { createAuthService } from "./auth.server"
+import { getAppAccess, requireAppAccess } from "./security.server"
+import { createTestContext, createUser, respond, sessionCookie, type TestContext } from "./testing"
+
+let ctx: TestContext
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  for (const app of ["acme", "other"]) {
+    await createApplication(ctx, {
+      name: app,
+      app,
+      redirectUris: [`https://${app}.test/callback`],
+    })
+  }
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+async function browser(userId?: string) {
+  const headers = userId ? { cookie: await sessionCookie(ctx, userId) } : undefined
+  return new Request("http://localhost:5173/app", { headers })
+}
+
+function access(request: Request, app: string | null) {
+  return getAppAccess(request, ctx, createAuthService(ctx), app ?? "")
+}
+
+describe("console access", () => {
+  it("is nothing for signed-out visitors", async () => {
+    expect(await access(await browser(), "acme")).toBeNull()
+    const gate = await respond(
+      requireAppAccess(await browser(), ctx, createAuthService(ctx), "acme"),
+    )
+    expect(gate.headers.get("location")).toBe("/login")
+  })
+
+  it("gives members their grants on their own app only", async () => {
+    const userId = createUser(ctx)
+    await grantAppMember(ctx, "acme", userId, { role: "member", permissions: ["member:read"] })
+    const request = await browser(userId)
+
+    const acme = await access(request, "acme")
+    expect(acme).toMatchObject({ role: "member", isSuperadmin: false })
+    expect(acme?.can("member:read")).toBe(true)
+    expect(acme?.can("app:update")).toBe(false)
+
+    const other = await access(request, "other")
+    expect(other).toMatchObject({ role: null, permissions: [] })
+    const gate = await respond(requireAppAccess(request, ctx, createAuthService(ctx), "other"))
+    expect(gate.headers.get("location")).toBe("/")
+
+    expect((await listApplicationsForUser(ctx, userId)).map((a) => a.app)).toEqual(["acme"])
+  })
+
+  it("gives app admins every permission on their app", async () => {
+    const userId = createUser(ctx)
+    await grantAppMember(ctx, "acme", userId, { role: "admin" })
+    const acme = await access(await browser(userId), "acme")
+    expect(acme?.can("member:admin")).toBe(true)
+    expect(acme?.can("app:delete")).toBe(true)
+  })
+
+  it("lets superadmins into every app, including ones without an app key", async () => {
+    vi.stubEnv("ADMIN_EMAILS", "root@example.com")
+    const request = await browser(createUser(ctx, { email: "Root@example.com" }))
+    expect((await access(request, "other"))?.isSuperadmin).toBe(true)
+    const keyless = await requireAppAccess(request, ctx, createAuthService(ctx), null)
+    expect(keyless.can("app:delete")).toBe(true)
+  })
+
+  it("keeps keyless apps to superadmins", async () => {
+    const userId = createUser(ctx)
+    await grantAppMember(ctx, "acme", userId, { role: "admin" })
+    const gate = await respond(
+      requireAppAccess(await browser(userId), ctx, createAuthService(ctx), null),
+    )
+    expect(gate.headers.get("location")).toBe("/")
+  })
+})
@@ -1,8 +1,11 @@
 import { and, eq } from "drizzle-orm"
+import { redirect } from "react-router"
 
 import * as schema from "../db/schema"
-import { isAdminEmail } from "./admin.server"
+import { getApplication, isAdminEmail, isRegisteredClient } from "./admin.server"
+import { setAuditActor } from "./audit.server"
 import type { AuthService, User } from "./auth.server"
+import { findImpersonationBySession } from "./impersonation.server"
 import { APP_PERMISSIONS, resolvePermissions, type AppPermission, type AppRole } from "./permissions"
 import type { BaseServiceContext } from "./services"
 
@@ -20,7 +23,8 @@ export type AppAccess = {
 
 /**
  * Resolves access for `app` from the request's session. Returns null if not
- * signed in. role=null + empty permissions means "signed in but no access".
+ * signed in. role=null + empty permissions means "signed in but no access",
+ * which is also what impersonation sessions get.
  */
 export async function getAppAccess(
   request: Request,
@@ -31,6 +35,13 @@ export async function getAppAccess(
   const session = await auth.api.getSession({ headers: request.headers })
   if (!session) return null
   const user = session.user as User
+  setAuditActor(request, ctx, user.id)
+
+  // Impersonation is for reproducing issues in the consumer app; it never
+  // carries the target's own console access.
+  if (await findImpersonationBySession(ctx, session.session.id)) {
+    return { user, isSuperadmin: false, role: null, permissions: [], can: () => false }
+  }
 
   if (isAdminEmail(ctx, user.email)) {
     return { user, isSuperadmin: true, role: "admin", permissions: [...APP_PERMISSIONS], can: () => true }
@@ -60,3 +71,39 @@ export async function getAppAccess(
     can: (p) => permissions.includes(p),
   }
 }
+
+/**
+ * UI gate for one application's console pages. Signed-out visitors go to
+ * /login; users with no role on the app are sent back to their app list.
+ * Apps without an app key have no members, so only superadmins pass.
+ */
+export async function requireAppAccess(
+  request: Request,
+  ctx: BaseServiceContext,
+  auth: AuthService,
+  app: string | null,
+): Promise<AppAccess> {
+  const access = await getAppAccess(request, ctx, auth, app ?? "")
+  if (!access) throw redirect("/login")
+  if (!access.role || (!app && !access.isSuperadmin)) throw redirect("/")
+  return access
+}
+
+/** The application behind a console `:clientId` and the signed-in user's access to it. */
+export async function requireApplicationAccess(
+  request: Request,
+  ctx: BaseServiceContext,
+  auth: AuthService,
+  clientId: string,
+) {
+  const application = await getApplication(ctx, clientId)
+  if (!application || (await isRegisteredClient(ctx, clientId)))
+    throw new Response("Application not found", { status: 404 })
+  const access = await requireAppAccess(request, ctx, auth, application.app)
+  return { application, app: application.app ?? "", access }
+}
+
+/** Action gate: 403 unless `access` grants `permission` (the UI hides these controls). */
+export function requireAppPermission(access: AppAccess, permission: AppPermission) {
+  if (!access.can(permission)) throw new Response("Forbidden", { status: 403 })
+}
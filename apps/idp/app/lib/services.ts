@@ -1,6 +1,9 @@
 import { createDrizzleClient, type DrizzleClient } from "../db/drizzle"
+import { auditedD1, type AuditScope } from "./audit.server"
 import { getAppEnv } from "./env"
 import { createLogger, type Logger, type LogFields } from "./log"
+import { d1RateLimitStore, type RateLimitStore } from "./rate-limit.server"
+import type { WebhookQueue } from "./webhooks.server"
 
 export type ILogger = Logger
 
@@ -8,11 +11,26 @@ export type BaseServiceContext = {
   getAppEnv: typeof getAppEnv
   logger: ILogger
   db: DrizzleClient
+  /** Deliveries to attempt (see webhooks.server.ts). */
+  webhooks: WebhookQueue
+  /** Sign-in and client-auth attempts and lockouts (see rate-limit.server.ts). */
+  rateLimits: RateLimitStore
+  /** Who this request's writes are attributed to in the audit log (see audit.server.ts). */
+  audit: AuditScope
 }
 
-export function createBaseContext(d1: D1Database, logFields: LogFields = {}): BaseServiceContext {
+export function createBaseContext(
+  d1: D1Database,
+  webhooks: WebhookQueue,
+  logFields: LogFields = {},
+): BaseServiceContext {
+  const audit: AuditScope = { actor: null }
+  const db = createDrizzleClient(auditedD1(d1, audit))
   return {
-    db: createDrizzleClient(d1),
+    db,
+    audit,
+    webhooks,
+    rateLimits: d1RateLimitStore(db),
     logger: createLogger({ scope: "server", ...logFields }, getAppEnv("LOG_LEVEL")),
     getAppEnv,
   }
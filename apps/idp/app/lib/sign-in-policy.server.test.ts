@@ -0,0 +1,111 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import { createApplication, grantAppMember } from "./admin.server"
+import {
+  authorizationDenial,
+  parseEmailDomains,
+  setSignInPolicy,
+  type SignInPolicy,
+} from "./sign-in-policy.server"
+import {
+  authFetch,
+  authorize,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+
+const open: SignInPolicy = {
+  allowSignup: true,
+  allowedEmailDomains: [],
+  inviteOnly: false,
+  requireMfa: false,
+}
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+})
+
+async function signIn(userId: string) {
+  const res = await authorize(ctx, {
+    cookie: await sessionCookie(ctx, userId),
+    clientId: acme.clientId,
+    redirectUri: "https://acme.test/callback",
+    scope: "openid",
+  })
+  return new URL(res.headers.get("location")!, "http://localhost").pathname
+}
+
+describe("parseEmailDomains", () => {
+  it("normalizes and flags non-domains", () => {
+    expect(parseEmailDomains("@Acme.test, acme.test\nsub.acme.test")).toEqual({
+      domains: ["acme.test", "sub.acme.test"],
+      invalid: null,
+    })
+    expect(parseEmailDomains("acme.test localhost").invalid).toBe("localhost")
+  })
+})
+
+describe("authorization under a sign-in policy", () => {
+  it("keeps out other email domains and, when invite-only, outsiders", async () => {
+    const outsider = { id: createUser(ctx, { email: "ada@other.test" }), email: "ada@other.test" }
+    await setSignInPolicy(ctx, "acme", { ...open, allowedEmailDomains: ["acme.test"] })
+    expect(await authorizationDenial(ctx, "acme", outsider)).toBe("email_domain")
+
+    const employee = { id: createUser(ctx, { email: "bo@acme.test" }), email: "bo@acme.test" }
+    await setSignInPolicy(ctx, "acme", { ...open, inviteOnly: true })
+    expect(await authorizationDenial(ctx, "acme", employee)).toBe("invite_only")
+    await grantAppMember(ctx, "acme", employee.id, { role: "member" })
+    expect(await authorizationDenial(ctx, "acme", employee)).toBeNull()
+  })
+
+  describe("with sign-ups off", () => {
+    it("refuses accounts new to the app", async () => {
+      await setSignInPolicy(ctx, "acme", { ...open, allowSignup: false })
+      const newcomer = createUser(ctx)
+      expect(await signIn(newcomer)).toBe("/denied")
+
+      await grantAppMember(ctx, "acme", newcomer, { role: "member" })
+      expect(await signIn(newcomer)).toBe("/consent")
+    })
+
+    it("lets back people who have used the app", async () => {
+      const regular = createUser(ctx)
+      const flow = {
+        cookie: await sessionCookie(ctx, regular),
+        ...acme,
+        redirectUri: "https://acme.test/callback",
+        scope: "openid",
+      }
+      expect((await codeFlowTokens(ctx, flow)).status).toBe(200)
+
+      await setSignInPolicy(ctx, "acme", { ...open, allowSignup: false })
+      expect(await signIn(regular)).toBe("/callback")
+    })
+
+    it("sends no sign-in code to unknown addresses on the app's domain", async () => {
+      await setSignInPolicy(ctx, "acme", { ...open, allowSignup: false })
+      const res = await authFetch(
+        ctx,
+        "/email-otp/send-verification-otp",
+        {
+          method: "POST",
+          headers: { "content-type": "application/json" },
+          body: JSON.stringify({ email: "new@example.com", type: "sign-in" }),
+        },
+        { origin: "https://idp.acme.test", hostname: "idp.acme.test", app: "acme" },
+      )
+      expect(res.status).toBe(403)
+    })
+  })
+})
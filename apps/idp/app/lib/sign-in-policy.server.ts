@@ -0,0 +1,257 @@
+import { and, eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware } from "better-auth/api"
+
+import * as schema from "../db/schema"
+import { getApplication } from "./admin.server"
+import { hasMfa } from "./mfa.server"
+import type { pendingAuthorization } from "./pending-authorization.server"
+import type { BaseServiceContext } from "./services"
+import type { Tenant } from "./tenant.server"
+
+/**
+ * Who may use an application: whether new accounts can be created while
+ * signing into it (and people who've never used it may start), which email
+ * domains are welcome, and whether it's invite-only (an app member,
+ * provisioned over SCIM, or a member of one of its workspaces). Checked when an account would be created and on every
+ * authorization of its client, which can also be made to wait for a second
+ * factor (`requireMfa`).
+ */
+export type SignInPolicy = {
+  allowSignup: boolean
+  allowedEmailDomains: string[]
+  inviteOnly: boolean
+  requireMfa: boolean
+}
+
+/** Why an authorization was refused; /denied explains each. */
+export type AuthorizationDenial = "email_domain" | "invite_only" | "signup_closed" | "deactivated"
+
+const OPEN_POLICY: SignInPolicy = {
+  allowSignup: true,
+  allowedEmailDomains: [],
+  inviteOnly: false,
+  requireMfa: false,
+}
+
+const DOMAIN = /^([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{1,62}$/
+
+/** An application's sign-in policy; open until someone saves one. */
+export async function getSignInPolicy(ctx: BaseServiceContext, app: string): Promise<SignInPolicy> {
+  const [row] = await ctx.db
+    .select({
+      allowSignup: schema.applicationSettings.allowSignup,
+      allowedEmailDomains: schema.applicationSettings.allowedEmailDomains,
+      inviteOnly: schema.applicationSettings.inviteOnly,
+      requireMfa: schema.applicationSettings.requireMfa,
+    })
+    .from(schema.applicationSettings)
+    .where(eq(schema.applicationSettings.applicationId, app))
+    .limit(1)
+  return row ?? OPEN_POLICY
+}
+
+export async function setSignInPolicy(ctx: BaseServiceContext, app: string, policy: SignInPolicy) {
+  const values = { ...policy, updatedAt: new Date() }
+  await ctx.db
+    .insert(schema.applicationSettings)
+    .values({ applicationId: app, ...values })
+    .onConflictDoUpdate({ target: schema.applicationSettings.applicationId, set: values })
+}
+
+/**
+ * Splits a space/comma/newline-separated list into lowercased domains
+ * ("@" prefixes tolerated). Returns the first entry that isn't one as `invalid`.
+ */
+export function parseEmailDomains(raw: string) {
+  const domains = [
+    ...new Set(
+      raw
+        .split(/[\s,]+/)
+        .map((d) => d.trim().toLowerCase().replace(/^@/, ""))
+        .filter(Boolean),
+    ),
+  ]
+  return { domains, invalid: domains.find((d) => !DOMAIN.test(d)) ?? null }
+}
+
+function emailDomainAllowed(policy: SignInPolicy, email: string) {
+  if (policy.allowedEmailDomains.length === 0) return true
+  const domain = email.slice(email.lastIndexOf("@") + 1).toLowerCase()
+  return policy.allowedEmailDomains.includes(domain)
+}
+
+/** Why `email` can't create an account while signing into `app`, or null if it can. */
+export function signupDenial(policy: SignInPolicy, email: string) {
+  if (!policy.allowSignup) return "This app isn't accepting new accounts."
+  if (!emailDomainAllowed(policy, email)) {
+    return `This app only accepts ${policy.allowedEmailDomains.map((d) => `@${d}`).join(", ")} addresses.`
+  }
+  return null
+}
+
+/** Whether SCIM provisioned `userId` into `app`, and if so whether they're active. */
+async function provisioning(ctx: BaseServiceContext, app: string, userId: string) {
+  const [row] = await ctx.db
+    .select({ active: schema.scimUser.active })
+    .from(schema.scimUser)
+    .where(and(eq(schema.scimUser.applicationId, app), eq(schema.scimUser.userId, userId)))
+    .limit(1)
+  return row ?? null
+}
+
+/** Whether `userId` belongs to `app`: an app member, or in one of its workspaces. */
+async function isAppInsider(ctx: BaseServiceContext, app: string, userId: string) {
+  const [appMember] = await ctx.db
+    .select({ id: schema.applicationMember.id })
+    .from(schema.applicationMember)
+    .where(
+      and(
+        eq(schema.applicationMember.applicationId, app),
+        eq(schema.applicationMember.userId, userId),
+      ),
+    )
+    .limit(1)
+  if (appMember) return true
+  const [workspaceMember] = await ctx.db
+    .select({ id: schema.member.id })
+    .from(schema.member)
+    .innerJoin(schema.organization, eq(schema.member.organizationId, schema.organization.id))
+    .where(and(eq(schema.member.userId, userId), eq(schema.organization.applicationId, app)))
+    .limit(1)
+  return !!workspaceMember
+}
+
+/** Whether `userId` has consented to one of `app`'s clients, i.e. has used it before. */
+async function hasUsedApp(ctx: BaseServiceContext, app: string, userId: string) {
+  const consents = await ctx.db
+    .select({ clientId: schema.oauthConsent.clientId })
+    .from(schema.oauthConsent)
+    .where(eq(schema.oauthConsent.userId, userId))
+  for (const { clientId } of consents) {
+    if ((await getApplication(ctx, clientId))?.app === app) return true
+  }
+  return false
+}
+
+/**
+ * Why `user` may not authorize `app`'s client, or null if they may. With
+ * sign-ups off, an account that already exists on the IdP is still new to the
+ * app unless it belongs there or has been through its consent before.
+ */
+export async function authorizationDenial(
+  ctx: BaseServiceContext,
+  app: string,
+  user: { id: string; email: string },
+): Promise<AuthorizationDenial | null> {
+  const provisioned = await provisioning(ctx, app, user.id)
+  if (provisioned && !provisioned.active) return "deactivated"
+  const policy = await getSignInPolicy(ctx, app)
+  if (!emailDomainAllowed(policy, user.email)) return "email_domain"
+  if (provisioned || !(policy.inviteOnly || !policy.allowSignup)) return null
+  if (await isAppInsider(ctx, app, user.id)) return null
+  if (policy.inviteOnly) return "invite_only"
+  return (await hasUsedApp(ctx, app, user.id)) ? null : "signup_closed"
+}
+
+/**
+ * "/denied" (which explains why) if `user` may not sign into `app`, "/mfa" if
+ * it wants a second factor `session` hasn't passed, else false. Shared by OIDC
+ * authorization and SAML's /saml/continue.
+ */
+export async function authorizationRedirectFor(
+  ctx: BaseServiceContext,
+  app: string,
+  user: { id: string; email: string },
+  session: { id: string; amr?: string | null },
+) {
+  const denial = await authorizationDenial(ctx, app, user)
+  if (denial) {
+    ctx.logger.info("authorization.denied", { app, userId: user.id, reason: denial })
+    return "/denied"
+  }
+  if ((await getSignInPolicy(ctx, app)).requireMfa && !hasMfa(session)) {
+    ctx.logger.info("authorization.step_up", { app, userId: user.id })
+    return "/mfa"
+  }
+  return false
+}
+
+/**
+ * Enforces the policy of the app being signed into — the client under
+ * authorization, else the custom domain's app; on the IdP's own host with no
+ * authorization pending, anyone may sign up. Account creation is refused up
+ * front (no code is sent) and again when the user row would be written.
+ * `authorizationRedirect` backs oauthProvider's `signup.shouldRedirect`, the
+ * one callback run on every path into authorization once the user is known.
+ */
+export function signInPolicy(
+  context: BaseServiceContext,
+  tenant: Tenant,
+  authorizing: ReturnType<typeof pendingAuthorization>,
+) {
+  async function pendingApp() {
+    const clientId = authorizing.clientId()
+    return clientId ? ((await getApplication(context, clientId))?.app ?? null) : null
+  }
+
+  async function signingInto() {
+    return (await pendingApp()) ?? tenant.app
+  }
+
+  async function assertCanSignUp(email: string) {
+    const app = await signingInto()
+    if (!app) return
+    const denial = signupDenial(await getSignInPolicy(context, app), email)
+    if (denial) {
+      context.logger.info("signup.denied", { app })
+      throw new APIError("FORBIDDEN", { message: denial })
+    }
+  }
+
+  return {
+    /** The app whose policy applies, as above; null on the IdP's own host. */
+    signingInto,
+    /**
+     * "/denied" (which explains why) if `user` may not authorize the pending
+     * client, "/mfa" if its app wants a second factor `session` hasn't passed.
+     */
+    async authorizationRedirect(
+      user: { id: string; email: string },
+      session: { id: string; amr?: string | null },
+    ) {
+      const app = await pendingApp()
+      return app ? authorizationRedirectFor(context, app, user, session) : false
+    },
+    plugin: {
+      id: "sign-in-policy",
+      init: () => ({
+        options: {
+          databaseHooks: {
+            user: {
+              create: {
+                before: async (user) => {
+                  await assertCanSignUp(user.email)
+                },
+              },
+            },
+          },
+        },
+      }),
+      hooks: {
+        before: [
+          {
+            matcher: (ctx) =>
+              ctx.path === "/email-otp/send-verification-otp" && ctx.body?.type === "sign-in",
+            handler: createAuthMiddleware(async (ctx) => {
+              const email = String(ctx.body.email ?? "").toLowerCase()
+              if (!(await ctx.context.internalAdapter.findUserByEmail(email))) {
+                await assertCanSignUp(email)
+              }
+            }),
+          },
+        ],
+      },
+    } satisfies BetterAuthPlugin,
+  }
+}
@@ -0,0 +1,176 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import * as signingKeysPage from "../routes/app/signing-keys"
+import * as openid from "../routes/well-known/openid"
+import { createApplication } from "./admin.server"
+import {
+  GRACE_PERIOD_DAYS,
+  listSigningKeys,
+  PUBLISH_AHEAD_DAYS,
+  revokeSigningKey,
+  ROTATION_INTERVAL_DAYS,
+  rotateSigningKeyNow,
+  rotateSigningKeys,
+} from "./signing-keys.server"
+import {
+  authFetch,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+let ctx: TestContext
+
+beforeEach(() => {
+  ctx = createTestContext()
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllEnvs()
+})
+
+/** The kids /jwks publishes. */
+async function published() {
+  const { keys } = await json(await authFetch(ctx, "/jwks"))
+  return (keys as { kid: string }[]).map((k) => k.kid).sort()
+}
+
+async function states() {
+  const keys = await listSigningKeys(ctx)
+  return Object.fromEntries(keys.map((k) => [k.kid, k.state]))
+}
+
+function later(days: number) {
+  vi.setSystemTime(Date.now() + days * DAY_MS)
+}
+
+describe("scheduled rotation", () => {
+  it("publishes the next key ahead of use and keeps the old one for the grace period", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await rotateSigningKeys(ctx)
+    const [first] = await listSigningKeys(ctx)
+    expect(first).toMatchObject({ alg: "EdDSA", state: "active" })
+
+    await rotateSigningKeys(ctx)
+    expect(await listSigningKeys(ctx)).toHaveLength(1)
+
+    later(ROTATION_INTERVAL_DAYS - PUBLISH_AHEAD_DAYS)
+    await rotateSigningKeys(ctx)
+    const [next] = await listSigningKeys(ctx)
+    expect(next).toMatchObject({ alg: "EdDSA", state: "pending" })
+    expect(await published()).toEqual([first.kid, next.kid].sort())
+
+    later(PUBLISH_AHEAD_DAYS)
+    expect(await states()).toEqual({ [first.kid]: "retiring", [next.kid]: "active" })
+    expect(await published()).toEqual([first.kid, next.kid].sort())
+
+    later(GRACE_PERIOD_DAYS)
+    expect(await states()).toEqual({ [first.kid]: "retired", [next.kid]: "active" })
+    expect(await published()).toEqual([next.kid])
+  })
+
+  it("makes the published next key sign when rotating now with its algorithm", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await rotateSigningKeys(ctx)
+    later(ROTATION_INTERVAL_DAYS - PUBLISH_AHEAD_DAYS)
+    await rotateSigningKeys(ctx)
+    const [next] = await listSigningKeys(ctx)
+
+    expect(await rotateSigningKeyNow(ctx, "EdDSA")).toBe(next.kid)
+    expect((await states())[next.kid]).toBe("active")
+  })
+})
+
+describe("rotating now", () => {
+  it("switches the algorithm tokens are signed with", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] })
+    await rotateSigningKeys(ctx)
+    const [old] = await listSigningKeys(ctx)
+    // Activation times are stored to the second.
+    later(1)
+    const kid = await rotateSigningKeyNow(ctx, "RS256")
+    expect(await states()).toEqual({ [old.kid]: "retiring", [kid]: "active" })
+
+    const acme = await createApplication(ctx, {
+      name: "Acme",
+      app: "acme",
+      redirectUris: ["https://acme.test/callback"],
+    })
+    const cookie = await sessionCookie(ctx, createUser(ctx))
+    const flow = { cookie, ...acme, redirectUri: "https://acme.test/callback", scope: "openid" }
+    const { id_token } = await json(await codeFlowTokens(ctx, flow))
+    const header = JSON.parse(Buffer.from(id_token.split(".")[0], "base64url").toString())
+    expect(header).toMatchObject({ alg: "RS256", kid })
+
+    const request = new Request("http://localhost:5173/.well-known/openid-configuration")
+    const document = await json(await openid.loader(routeArgs(loadContext(ctx), request)))
+    expect(document.id_token_signing_alg_values_supported).toEqual(["RS256"])
+  })
+})
+
+describe("revoking", () => {
+  it("unpublishes the key at once and puts another in place of the active one", async () => {
+    await rotateSigningKeys(ctx)
+    const [revoked] = await listSigningKeys(ctx)
+    expect(await revokeSigningKey(ctx, revoked.kid)).toEqual({ ok: true })
+
+    const [replacement] = await listSigningKeys(ctx)
+    expect(replacement).toMatchObject({ alg: revoked.alg, state: "active" })
+    expect((await states())[revoked.kid]).toBe("revoked")
+    expect(await published()).toEqual([replacement.kid])
+
+    expect(await revokeSigningKey(ctx, revoked.kid)).toEqual({
+      error: "That key isn't published.",
+    })
+  })
+})
+
+describe("the signing keys page", () => {
+  function page(cookie: string, form?: Record<string, string>) {
+    const request = new Request("http://localhost:5173/signing-keys", {
+      method: form ? "POST" : "GET",
+      headers: { cookie },
+      body: form ? new URLSearchParams(form) : undefined,
+    })
+    const args = routeArgs<never>(loadContext(ctx), request)
+    return respond(form ? signingKeysPage.action(args) : signingKeysPage.loader(args))
+  }
+
+  it("is for superadmins only", async () => {
+    const cookie = await sessionCookie(ctx, createUser(ctx))
+    expect((await page(cookie)).headers.get("location")).toBe("/account")
+    const rotate = await page(cookie, { intent: "rotate-signing-key", alg: "ES256" })
+    expect(rotate.headers.get("location")).toBe("/account")
+    // Only the plugin's own first key, made signing the session's JWT.
+    expect((await listSigningKeys(ctx)).map((k) => k.alg)).toEqual(["EdDSA"])
+  })
+
+  it("lists the keys and rotates or revokes them", async () => {
+    vi.stubEnv("ADMIN_EMAILS", "root@example.com")
+    const cookie = await sessionCookie(ctx, createUser(ctx, { email: "root@example.com" }))
+    const unknownAlg = await page(cookie, { intent: "rotate-signing-key", alg: "HS256" })
+    expect(await json(unknownAlg)).toEqual({ error: "Pick an algorithm." })
+    const rotated = await page(cookie, { intent: "rotate-signing-key", alg: "ES256" })
+    expect(await json(rotated)).toEqual({ ok: true })
+
+    const { jwksUri, keys } = await json(await page(cookie))
+    expect(jwksUri).toBe("http://localhost:5173/auth/jwks")
+    expect(keys).toMatchObject([
+      { alg: "ES256", state: "active" },
+      { alg: "EdDSA", state: "retiring" },
+    ])
+
+    const revoke = (kid: string) => page(cookie, { intent: "revoke-signing-key", kid })
+    expect(await json(await revoke("unknown"))).toEqual({ error: "That key isn't published." })
+    expect(await json(await revoke(keys[0].kid))).toEqual({ ok: true })
+  })
+})
@@ -0,0 +1,263 @@
+import { asc, eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { createAuthMiddleware, isAPIError } from "better-auth/api"
+import { symmetricEncrypt } from "better-auth/crypto"
+import { generateExportedKeyPair, type Jwk, type JwtOptions } from "better-auth/plugins/jwt"
+
+import * as schema from "../db/schema"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * The OIDC signing keys (id tokens, JWT access tokens, logout tokens) and
+ * their lifecycle. Better Auth's jwt plugin keeps keys in `jwks` and signs
+ * with the newest; signing_key adds when each one starts signing, so the next
+ * key is in the JWKS before it's used, and the one it replaces stays there for
+ * a grace period, then leaves.
+ *
+ * The plugin reads keys through `jwks.adapter` (`signingKeys(context)`): it
+ * sees the keys that sign or still verify, with the activation time as
+ * `createdAt`, so the newest active one signs. Keys waiting to activate are
+ * added to /jwks by the plugin's after hook.
+ *
+ * A daily cron (`rotateSigningKeys`) publishes the next key ahead of time;
+ * superadmins can rotate or revoke from /signing-keys.
+ */
+export type SigningKeyState = "pending" | "active" | "retiring" | "retired" | "revoked"
+
+export type SigningKeySummary = {
+  kid: string
+  alg: SigningAlgorithm
+  state: SigningKeyState
+  createdAt: Date
+  activatesAt: Date
+  /** When the next key took over; it left the JWKS GRACE_PERIOD_DAYS later. */
+  supersededAt: Date | null
+  revokedAt: Date | null
+}
+
+/** What keys can be made with; RS256 is for clients that only verify RSA. */
+export const SIGNING_ALGORITHMS = ["EdDSA", "ES256", "RS256"] as const
+export type SigningAlgorithm = (typeof SIGNING_ALGORITHMS)[number]
+
+/** How long a key signs before the next one takes over. */
+export const ROTATION_INTERVAL_DAYS = 90
+/** How long the next key is published before it signs, for relying parties' JWKS caches. */
+export const PUBLISH_AHEAD_DAYS = 2
+/** How long a replaced key stays published; well past the longest-lived token it signed. */
+export const GRACE_PERIOD_DAYS = 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+type StoredKey = SigningKeySummary & { publicKey: string; privateKey: string }
+
+export function isSigningAlgorithm(value: unknown): value is SigningAlgorithm {
+  return (SIGNING_ALGORITHMS as readonly unknown[]).includes(value)
+}
+
+/** Every key with its state now, oldest activation first. */
+async function storedKeys(ctx: BaseServiceContext): Promise<StoredKey[]> {
+  const rows = await ctx.db
+    .select({
+      kid: schema.jwks.id,
+      publicKey: schema.jwks.publicKey,
+      privateKey: schema.jwks.privateKey,
+      createdAt: schema.jwks.createdAt,
+      alg: schema.signingKey.alg,
+      activatesAt: schema.signingKey.activatesAt,
+      revokedAt: schema.signingKey.revokedAt,
+    })
+    .from(schema.jwks)
+    .leftJoin(schema.signingKey, eq(schema.signingKey.kid, schema.jwks.id))
+    .orderBy(asc(schema.jwks.createdAt))
+
+  // Keys the plugin made before signing_key existed: its default, active from creation.
+  const keys = rows
+    .map((r) => ({
+      ...r,
+      alg: isSigningAlgorithm(r.alg) ? r.alg : ("EdDSA" as const),
+      activatesAt: r.activatesAt ?? r.createdAt,
+    }))
+    .sort((a, b) => a.activatesAt.getTime() - b.activatesAt.getTime())
+
+  // Keys that took over signing at some point, revoked later or not.
+  const now = Date.now()
+  const activated = keys.filter(
+    (k) => k.activatesAt.getTime() <= now && !(k.revokedAt && k.revokedAt < k.activatesAt),
+  )
+  return keys.map((k) => {
+    const index = activated.indexOf(k)
+    const supersededAt = index >= 0 ? (activated[index + 1]?.activatesAt ?? null) : null
+    const state: SigningKeyState = k.revokedAt
+      ? "revoked"
+      : k.activatesAt.getTime() > now
+        ? "pending"
+        : !supersededAt
+          ? "active"
+          : supersededAt.getTime() + GRACE_PERIOD_DAYS * DAY_MS > now
+            ? "retiring"
+            : "retired"
+    return { ...k, state, supersededAt }
+  })
+}
+
+function toJwk(key: StoredKey): Jwk {
+  return {
+    id: key.kid,
+    publicKey: key.publicKey,
+    privateKey: key.privateKey,
+    createdAt: key.activatesAt,
+    alg: key.alg,
+  }
+}
+
+function publicJwk(key: StoredKey) {
+  return { alg: key.alg, ...JSON.parse(key.publicKey), kid: key.kid }
+}
+
+/** Every key, newest first, for the superadmin page. */
+export async function listSigningKeys(ctx: BaseServiceContext): Promise<SigningKeySummary[]> {
+  const keys = await storedKeys(ctx)
+  return keys.reverse().map(({ publicKey: _p, privateKey: _k, ...summary }) => summary)
+}
+
+/**
+ * Makes a key that starts signing at `activatesAt`. The private JWK is
+ * encrypted with the auth secret, as the jwt plugin stores its own.
+ */
+async function createSigningKey(ctx: BaseServiceContext, alg: SigningAlgorithm, activatesAt: Date) {
+  const { publicWebKey, privateWebKey } = await generateExportedKeyPair({
+    jwks: { keyPairConfig: alg === "EdDSA" ? { alg, crv: "Ed25519" } : { alg } },
+  })
+  const kid = crypto.randomUUID()
+  const privateKey = await symmetricEncrypt({
+    key: ctx.getAppEnv("BETTER_AUTH_SECRET"),
+    data: JSON.stringify(privateWebKey),
+  })
+  await ctx.db.insert(schema.jwks).values({
+    id: kid,
+    publicKey: JSON.stringify(publicWebKey),
+    privateKey: JSON.stringify(privateKey),
+    createdAt: new Date(),
+  })
+  await ctx.db.insert(schema.signingKey).values({ kid, alg, activatesAt })
+  ctx.logger.info("signing_key.created", { kid, alg, activatesAt })
+  return kid
+}
+
+/** The algorithm new keys keep: the newest live key's. */
+function currentAlgorithm(keys: StoredKey[]): SigningAlgorithm {
+  return keys.filter((k) => !k.revokedAt).at(-1)?.alg ?? "EdDSA"
+}
+
+/**
+ * The scheduled step: makes a key if none signs, and publishes the next one
+ * PUBLISH_AHEAD_DAYS before the active key is due to be replaced.
+ */
+export async function rotateSigningKeys(ctx: BaseServiceContext) {
+  const keys = await storedKeys(ctx)
+  const active = keys.find((k) => k.state === "active")
+  if (!active) {
+    await createSigningKey(ctx, currentAlgorithm(keys), new Date())
+    return
+  }
+  if (keys.some((k) => k.state === "pending")) return
+  const due = active.activatesAt.getTime() + ROTATION_INTERVAL_DAYS * DAY_MS
+  if (due - PUBLISH_AHEAD_DAYS * DAY_MS > Date.now()) return
+  const activatesAt = new Date(Math.max(due, Date.now() + PUBLISH_AHEAD_DAYS * DAY_MS))
+  await createSigningKey(ctx, active.alg, activatesAt)
+}
+
+/**
+ * Replaces the active key now, with a key of `alg`: the published next key
+ * if it already is one, otherwise a new key (and any other waiting key goes,
+ * unused). Later rotations keep `alg`.
+ */
+export async function rotateSigningKeyNow(ctx: BaseServiceContext, alg: SigningAlgorithm) {
+  const keys = await storedKeys(ctx)
+  const pending = keys.filter((k) => k.state === "pending")
+  const next = pending.find((k) => k.alg === alg)
+  for (const key of pending) {
+    if (key !== next) await ctx.db.delete(schema.jwks).where(eq(schema.jwks.id, key.kid))
+  }
+  if (next) {
+    await ctx.db
+      .update(schema.signingKey)
+      .set({ activatesAt: new Date() })
+      .where(eq(schema.signingKey.kid, next.kid))
+    ctx.logger.info("signing_key.activated", { kid: next.kid, alg })
+    return next.kid
+  }
+  return createSigningKey(ctx, alg, new Date())
+}
+
+/**
+ * Revokes a key that's still published: it leaves the JWKS at once, so tokens
+ * it signed stop verifying. Revoking the active key puts another in its place.
+ */
+export async function revokeSigningKey(ctx: BaseServiceContext, kid: string) {
+  const keys = await storedKeys(ctx)
+  const key = keys.find((k) => k.kid === kid)
+  if (!key || key.state === "revoked" || key.state === "retired")
+    return { error: "That key isn't published." }
+
+  await ctx.db
+    .insert(schema.signingKey)
+    .values({ kid, alg: key.alg, activatesAt: key.activatesAt, revokedAt: new Date() })
+    .onConflictDoUpdate({ target: schema.signingKey.kid, set: { revokedAt: new Date() } })
+  ctx.logger.info("signing_key.revoked", { kid, state: key.state })
+  if (key.state === "active") await rotateSigningKeyNow(ctx, key.alg)
+  return { ok: true as const }
+}
+
+/**
+ * The jwt plugin's options: its keys come from here, and a key it makes for
+ * itself (when none signs) is made the way rotation makes them instead.
+ */
+export function signingKeys(context: BaseServiceContext) {
+  const options = {
+    adapter: {
+      getJwks: async () => {
+        const keys = await storedKeys(context)
+        return keys.filter((k) => k.state === "active" || k.state === "retiring").map(toJwk)
+      },
+      createJwk: async () => {
+        const keys = await storedKeys(context)
+        const kid = await createSigningKey(context, currentAlgorithm(keys), new Date())
+        const created = (await storedKeys(context)).find((k) => k.kid === kid)
+        return toJwk(created!)
+      },
+    },
+  } satisfies JwtOptions
+
+  const plugin = {
+    id: "signing-keys",
+    hooks: {
+      after: [
+        {
+          matcher: (ctx) => ctx.path === "/jwks",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned as { keys?: unknown[] } | null
+            if (!returned?.keys || isAPIError(returned)) return
+            const pending = (await storedKeys(context)).filter((k) => k.state === "pending")
+            return ctx.json({ keys: [...returned.keys, ...pending.map(publicJwk)] })
+          }),
+        },
+        {
+          matcher: (ctx) => ctx.path === "/.well-known/openid-configuration",
+          handler: createAuthMiddleware(async (ctx) => {
+            const returned = ctx.context.returned as Record<string, unknown> | null
+            if (!returned || isAPIError(returned)) return
+            const keys = await storedKeys(context)
+            const algs = new Set(
+              keys.filter((k) => k.state === "active" || k.state === "pending").map((k) => k.alg),
+            )
+            if (algs.size === 0) return
+            return ctx.json({ ...returned, id_token_signing_alg_values_supported: [...algs] })
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+
+  return { options, plugin }
+}
@@ -0,0 +1,36 @@
+/**
+ * Minimal object storage, shaped after R2's API so the binding can be handed
+ * over as is. In `npm run dev` the Cloudflare Vite plugin backs the R2 binding
+ * with local disk (.wrangler/state/v3/r2); production uses the real bucket.
+ */
+export type StoredObject = {
+  body: ReadableStream
+  contentType: string
+  etag: string
+}
+
+export interface ObjectStore {
+  put(key: string, body: ArrayBuffer | Uint8Array, contentType: string): Promise<void>
+  get(key: string): Promise<StoredObject | null>
+  delete(key: string): Promise<void>
+}
+
+export function r2ObjectStore(bucket: R2Bucket): ObjectStore {
+  return {
+    async put(key, body, contentType) {
+      await bucket.put(key, body, { httpMetadata: { contentType } })
+    },
+    async get(key) {
+      const object = await bucket.get(key)
+      if (!object) return null
+      return {
+        body: object.body,
+        contentType: object.httpMetadata?.contentType ?? "application/octet-stream",
+        etag: object.httpEtag,
+      }
+    },
+    async delete(key) {
+      await bucket.delete(key)
+    },
+  }
+}
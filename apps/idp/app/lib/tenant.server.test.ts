@@ -0,0 +1,106 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import * as openid from "../routes/well-known/openid"
+import { createApplication } from "./admin.server"
+import {
+  addDomain,
+  defaultTenant,
+  normalizeHostname,
+  removeDomain,
+  resolveTenant,
+  type Tenant,
+} from "./tenant.server"
+import {
+  authorize,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+
+let ctx: TestContext
+let acme: { clientId: string }
+let other: { clientId: string }
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+  other = await createApplication(ctx, {
+    name: "Other",
+    app: "other",
+    redirectUris: ["https://other.test/callback"],
+  })
+  await addDomain(ctx, "acme", "IdP.Acme.test.")
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+})
+
+const acmeTenant: Tenant = {
+  origin: "https://idp.acme.test",
+  hostname: "idp.acme.test",
+  app: "acme",
+}
+
+describe("resolveTenant", () => {
+  it("maps the IdP's host and custom domains", async () => {
+    const own = defaultTenant(ctx)
+    expect(await resolveTenant(ctx, new Request(`${own.origin}/login`))).toEqual(own)
+    expect(await resolveTenant(ctx, new Request("https://IDP.acme.test/login"))).toEqual(acmeTenant)
+  })
+
+  it("refuses unknown hosts in production only", async () => {
+    const request = new Request("https://unknown.test/login")
+    expect(await resolveTenant(ctx, request)).toEqual(defaultTenant(ctx))
+    vi.stubEnv("APP_ENV", "production")
+    expect(await resolveTenant(ctx, request)).toBeNull()
+  })
+})
+
+describe("custom domains", () => {
+  it("must be bare hostnames", () => {
+    expect(normalizeHostname(" Login.Example.COM. ")).toBe("login.example.com")
+    for (const raw of ["https://x.test", "x.test:8443", "x.test/path", "localhost", "-x.test"])
+      expect(normalizeHostname(raw), raw).toBeNull()
+  })
+
+  it("are unique, and never the IdP's own host", async () => {
+    expect(await addDomain(ctx, "other", "idp.acme.test")).toHaveProperty("error")
+    expect(await addDomain(ctx, "other", defaultTenant(ctx).hostname)).toHaveProperty("error")
+    const [domain] = ctx.sqlite.prepare("select id from application_domain").all() as {
+      id: string
+    }[]
+    expect(await removeDomain(ctx, "other", domain.id)).toBe(false)
+    expect(await removeDomain(ctx, "acme", domain.id)).toBe(true)
+  })
+})
+
+describe("a custom domain's issuer", () => {
+  it("only authorizes its own application's clients", async () => {
+    const cookie = await sessionCookie(ctx, createUser(ctx))
+    const flow = { cookie, redirectUri: "https://other.test/callback", scope: "openid" }
+    const refused = await authorize(ctx, { ...flow, clientId: other.clientId }, acmeTenant)
+    expect(refused.status).toBe(400)
+    expect((await json(refused)).error).toBe("unauthorized_client")
+
+    const own = { ...flow, clientId: acme.clientId, redirectUri: "https://acme.test/callback" }
+    expect((await authorize(ctx, own, acmeTenant)).status).toBe(302)
+  })
+
+  it("is the domain's own in discovery", async () => {
+    const request = new Request("https://idp.acme.test/.well-known/openid-configuration")
+    const document = await json(
+      await openid.loader(routeArgs(loadContext(ctx, acmeTenant), request)),
+    )
+    expect(document.issuer).toBe("https://idp.acme.test/auth")
+    expect(document.authorization_endpoint).toBe("https://idp.acme.test/auth/oauth2/authorize")
+  })
+})
@@ -0,0 +1,124 @@
+import { and, asc, eq } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { APIError, createAuthMiddleware } from "better-auth/api"
+
+import * as schema from "../db/schema"
+import { getApplication } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * Who a request is for, resolved from its hostname (never a query param). The
+ * IdP's own host (BETTER_AUTH_URL) is the default tenant; a custom domain in
+ * `application_domain` is that application's tenant, with its own issuer
+ * (`<origin>/auth`), trusted origin and passkey rpID.
+ */
+export type Tenant = {
+  origin: string
+  hostname: string
+  /** App key behind a custom domain; null on the IdP's own host. */
+  app: string | null
+}
+
+/** The IdP's own host, from BETTER_AUTH_URL. */
+export function defaultTenant(ctx: BaseServiceContext): Tenant {
+  const url = new URL(ctx.getAppEnv("BETTER_AUTH_URL"))
+  return { origin: url.origin, hostname: url.hostname, app: null }
+}
+
+/**
+ * The tenant a request's hostname maps to. Unknown hosts resolve to null in
+ * production (the Worker answers 404); in development they fall back to the
+ * default tenant so localhost and LAN addresses keep working.
+ */
+export async function resolveTenant(
+  ctx: BaseServiceContext,
+  request: Request,
+): Promise<Tenant | null> {
+  const fallback = defaultTenant(ctx)
+  const url = new URL(request.url)
+  const hostname = url.hostname.toLowerCase()
+  if (hostname === fallback.hostname) return fallback
+
+  const [domain] = await ctx.db
+    .select({ app: schema.applicationDomain.applicationId })
+    .from(schema.applicationDomain)
+    .where(eq(schema.applicationDomain.hostname, hostname))
+    .limit(1)
+  if (domain) return { origin: url.origin, hostname, app: domain.app }
+  return ctx.getAppEnv("APP_ENV") === "production" ? null : fallback
+}
+
+const HOSTNAME = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z][a-z0-9-]{1,62}$/
+
+/** A lowercased hostname, or null if `raw` isn't one (no scheme, port or path). */
+export function normalizeHostname(raw: string) {
+  const hostname = raw.trim().toLowerCase().replace(/\.$/, "")
+  return HOSTNAME.test(hostname) ? hostname : null
+}
+
+/** An application's custom domains, alphabetically. */
+export function listDomains(ctx: BaseServiceContext, app: string) {
+  return ctx.db
+    .select()
+    .from(schema.applicationDomain)
+    .where(eq(schema.applicationDomain.applicationId, app))
+    .orderBy(asc(schema.applicationDomain.hostname))
+}
+
+/**
+ * Maps `hostname` to `app`. Returns an error message instead of throwing when
+ * it's invalid, the IdP's own host, or already taken (by any application).
+ */
+export async function addDomain(ctx: BaseServiceContext, app: string, raw: string) {
+  const hostname = normalizeHostname(raw)
+  if (!hostname) return { error: `"${raw}" isn't a hostname. Use e.g. idp.example.com.` }
+  if (hostname === defaultTenant(ctx).hostname) return { error: "That's the IdP's own hostname." }
+  const inserted = await ctx.db
+    .insert(schema.applicationDomain)
+    .values({ applicationId: app, hostname })
+    .onConflictDoNothing({ target: schema.applicationDomain.hostname })
+    .returning({ id: schema.applicationDomain.id })
+  if (inserted.length === 0) return { error: `${hostname} is already in use.` }
+  return { hostname }
+}
+
+/** Unmaps a domain; false if it isn't one of `app`'s. */
+export async function removeDomain(ctx: BaseServiceContext, app: string, domainId: string) {
+  const removed = await ctx.db
+    .delete(schema.applicationDomain)
+    .where(
+      and(
+        eq(schema.applicationDomain.id, domainId),
+        eq(schema.applicationDomain.applicationId, app),
+      ),
+    )
+    .returning({ id: schema.applicationDomain.id })
+  return removed.length > 0
+}
+
+/**
+ * On a custom domain, only that application's OAuth clients may authorize:
+ * idp.kasso.do issues tokens for kasso, not for every app on the IdP.
+ */
+export function tenantBoundary(context: BaseServiceContext, tenant: Tenant) {
+  return {
+    id: "tenant-boundary",
+    hooks: {
+      before: [
+        {
+          matcher: (ctx) => !!tenant.app && ctx.path === "/oauth2/authorize",
+          handler: createAuthMiddleware(async (ctx) => {
+            const clientId = typeof ctx.query?.client_id === "string" ? ctx.query.client_id : ""
+            const application = clientId ? await getApplication(context, clientId) : null
+            if (application?.app !== tenant.app) {
+              throw new APIError("BAD_REQUEST", {
+                error: "unauthorized_client",
+                error_description: `This client isn't served on ${tenant.hostname}.`,
+              })
+            }
+          }),
+        },
+      ],
+    },
+  } satisfies BetterAuthPlugin
+}
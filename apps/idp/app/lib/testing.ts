@@ -0,0 +1,311 @@
+import Database from "better-sqlite3"
+import { serializeSignedCookie } from "better-call"
+import type { AppLoadContext } from "react-router"
+
+import { createAuthService } from "./auth.server"
+import { createBaseContext, type BaseServiceContext } from "./services"
+import type { ObjectStore, StoredObject } from "./storage.server"
+import { defaultTenant, type Tenant } from "./tenant.server"
+import type { WebhookJob } from "./webhooks.server"
+
+/**
+ * Test fixtures: the service context the Worker builds per request, over an
+ * in-memory SQLite with every migration applied standing in for D1. Only
+ * imported by `*.test.ts`.
+ */
+
+const migrations = import.meta.glob<string>("../../drizzle/*.sql", {
+  query: "?raw",
+  import: "default",
+  eager: true,
+})
+
+type Statement = D1PreparedStatement & { execute(): D1Result }
+
+/** D1 values SQLite can't bind as they are. */
+function bindable(value: unknown) {
+  if (value === undefined) return null
+  if (typeof value === "boolean") return value ? 1 : 0
+  if (value instanceof ArrayBuffer) return Buffer.from(value)
+  return value
+}
+
+/** Enough of D1Database over better-sqlite3 for drizzle-orm/d1 and the app. */
+function d1Database(sqlite: Database.Database): D1Database {
+  const prepare = (query: string, params: unknown[] = []): Statement => {
+    const stmt = () => sqlite.prepare(query)
+    const execute = (): D1Result => {
+      const s = stmt()
+      const results = s.reader ? (s.all(...params) as Record<string, unknown>[]) : []
+      const info = s.reader ? { changes: 0, lastInsertRowid: 0 } : s.run(...params)
+      return {
+        results,
+        success: true,
+        meta: {
+          duration: 0,
+          size_after: 0,
+          rows_read: 0,
+          rows_written: info.changes,
+          last_row_id: Number(info.lastInsertRowid),
+          changed_db: info.changes > 0,
+          changes: info.changes,
+        },
+      }
+    }
+    const statement = {
+      execute,
+      bind: (...values: unknown[]) => prepare(query, values.map(bindable)),
+      run: async () => execute(),
+      all: async () => execute(),
+      first: async (column?: string) => {
+        const s = stmt()
+        const row = (s.reader ? s.get(...params) : (s.run(...params), undefined)) as
+          | Record<string, unknown>
+          | undefined
+        return (column ? row?.[column] : row) ?? null
+      },
+      raw: async (options?: { columnNames?: boolean }) => {
+        const s = stmt()
+        if (!s.reader) {
+          s.run(...params)
+          return options?.columnNames ? [[]] : []
+        }
+        const rows = s.raw(true).all(...params)
+        return options?.columnNames ? [s.columns().map((c) => c.name), ...rows] : rows
+      },
+    }
+    return statement as unknown as Statement
+  }
+  return {
+    prepare: (query: string) => prepare(query),
+    batch: async (statements: D1PreparedStatement[]) =>
+      sqlite.transaction(() => statements.map((s) => (s as Statement).execute()))(),
+    exec: async (query: string) => {
+      sqlite.exec(query)
+      return { count: 1, duration: 0 }
+    },
+  } as unknown as D1Database
+}
+
+/** A fresh in-memory database at the latest migration. */
+export function createTestDatabase(): Database.Database {
+  const sqlite = new Database(":memory:")
+  for (const file of Object.keys(migrations).sort()) {
+    for (const statement of migrations[file].split("--> statement-breakpoint")) {
+      if (statement.trim()) sqlite.exec(statement)
+    }
+  }
+  return sqlite
+}
+
+export type TestContext = BaseServiceContext & {
+  sqlite: Database.Database
+  /** Webhook deliveries queued so far. */
+  webhookJobs: WebhookJob[]
+}
+
+/** A request's service context over a fresh database (or `sqlite`, shared with another). */
+export function createTestContext(sqlite: Database.Database = createTestDatabase()): TestContext {
+  const webhookJobs: WebhookJob[] = []
+  const ctx = createBaseContext(d1Database(sqlite), {
+    send: async (job) => {
+      webhookJobs.push(job)
+    },
+  })
+  return Object.assign(ctx, { sqlite, webhookJobs })
+}
+
+/** An object store in memory, for avatars. */
+export function memoryObjectStore(): ObjectStore {
+  const objects = new Map<string, { body: ArrayBuffer; contentType: string }>()
+  return {
+    async put(key, body, contentType) {
+      objects.set(key, { body: new Uint8Array(body).slice().buffer, contentType })
+    },
+    async get(key): Promise<StoredObject | null> {
+      const object = objects.get(key)
+      if (!object) return null
+      return {
+        body: new Response(object.body).body!,
+        contentType: object.contentType,
+        etag: `"${object.body.byteLength}"`,
+      }
+    },
+    async delete(key) {
+      objects.delete(key)
+    },
+  }
+}
+
+/**
+ * The load context routes get (see workers/app.ts), for calling loaders and
+ * actions directly. Defaults to the IdP's own tenant.
+ */
+export function loadContext(ctx: TestContext, tenant: Tenant = defaultTenant(ctx)) {
+  return {
+    ...ctx,
+    tenant,
+    services: { auth: createAuthService(ctx, tenant), storage: memoryObjectStore() },
+  } as unknown as AppLoadContext
+}
+
+/** A route module's loader/action arguments, for calling it directly. */
+export function routeArgs<Args>(
+  context: AppLoadContext,
+  request: Request,
+  params: Record<string, string> = {},
+) {
+  return { request, context, params } as unknown as Args
+}
+
+/** A management API request with `key` as its bearer token and `body` as JSON. */
+export function apiRequest(method: string, key: string, body?: unknown) {
+  return new Request("http://localhost:5173/api/v1", {
+    method,
+    headers: { authorization: `Bearer ${key}`, "content-type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  })
+}
+
+/** A response's JSON body, untyped for assertions. */
+export async function json(response: Response): Promise<any> {
+  return response.json()
+}
+
+/**
+ * Runs a loader or action, returning the Response it returned or threw
+ * (gates throw theirs).
+ */
+export async function respond(handler: Promise<unknown>) {
+  try {
+    const result = await handler
+    if (result instanceof Response) return result
+    return Response.json(result)
+  } catch (thrown) {
+    if (thrown instanceof Response) return thrown
+    throw thrown
+  }
+}
+
+let userCount = 0
+
+/** Inserts a verified user; returns its id. */
+export function createUser(ctx: TestContext, fields: { email?: string; name?: string } = {}) {
+  const id = `user-${++userCount}`
+  const now = Date.now()
+  ctx.sqlite
+    .prepare(
+      "insert into user (id, name, email, email_verified, created_at, updated_at) values (?, ?, ?, 1, ?, ?)",
+    )
+    .run(id, fields.name ?? "Test User", fields.email ?? `${id}@example.com`, now, now)
+  return id
+}
+
+/** A session for `userId`, as the `cookie` header a browser would send. */
+export async function sessionCookie(ctx: TestContext, userId: string) {
+  const auth = await createAuthService(ctx, defaultTenant(ctx)).$context
+  const session = await auth.internalAdapter.createSession(userId)
+  const cookie = await serializeSignedCookie(
+    "better-auth.session_token",
+    session.token,
+    auth.secret,
+  )
+  return cookie.split(";")[0]
+}
+
+/** Calls the auth handler at `<origin>/auth<path>`, as a browser or client on `tenant` would. */
+export function authFetch(
+  ctx: TestContext,
+  path: string,
+  init: RequestInit = {},
+  tenant: Tenant = defaultTenant(ctx),
+) {
+  const auth = createAuthService(ctx, tenant)
+  return auth.handler(new Request(`${tenant.origin}/auth${path}`, init))
+}
+
+/** A form-encoded POST, as clients send to the token endpoints. */
+export function formPost(body: Record<string, string>, headers: Record<string, string> = {}) {
+  return {
+    method: "POST",
+    headers: { "content-type": "application/x-www-form-urlencoded", ...headers },
+    body: new URLSearchParams(body),
+  }
+}
+
+export function basicAuth(clientId: string, clientSecret: string) {
+  return { authorization: `Basic ${btoa(`${clientId}:${clientSecret}`)}` }
+}
+
+/** A JWT's payload, unverified. */
+export function jwtClaims(token: string): Record<string, any> {
+  return JSON.parse(Buffer.from(token.split(".")[1], "base64url").toString())
+}
+
+const PKCE_VERIFIER = "a-test-code-verifier-that-is-long-enough-for-pkce"
+
+export type CodeFlow = {
+  cookie: string
+  clientId: string
+  redirectUri: string
+  scope: string
+}
+
+/** GET /oauth2/authorize for a signed-in browser, with PKCE. */
+export async function authorize(ctx: TestContext, flow: CodeFlow, tenant?: Tenant) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(PKCE_VERIFIER))
+  const query = new URLSearchParams({
+    response_type: "code",
+    client_id: flow.clientId,
+    redirect_uri: flow.redirectUri,
+    scope: flow.scope,
+    state: "state",
+    code_challenge: Buffer.from(digest).toString("base64url"),
+    code_challenge_method: "S256",
+  })
+  return authFetch(ctx, `/oauth2/authorize?${query}`, { headers: { cookie: flow.cookie } }, tenant)
+}
+
+/** Accepts (or declines) the consent /oauth2/authorize redirected to; returns where it sends the browser. */
+export async function consent(ctx: TestContext, cookie: string, consentUrl: string, accept = true) {
+  const tenant = defaultTenant(ctx)
+  const res = await authFetch(ctx, "/oauth2/consent", {
+    method: "POST",
+    headers: { cookie, "content-type": "application/json", origin: tenant.origin },
+    body: JSON.stringify({
+      accept,
+      oauth_query: new URL(consentUrl, tenant.origin).search.slice(1),
+    }),
+  })
+  return ((await res.json()) as { url: string }).url
+}
+
+/**
+ * The authorization code flow end to end: authorize, consent if asked, then
+ * redeem the code. Returns the token endpoint's response.
+ */
+export async function codeFlowTokens(
+  ctx: TestContext,
+  flow: CodeFlow & { clientSecret: string; resource?: string },
+) {
+  const authorized = await authorize(ctx, flow)
+  let location = authorized.headers.get("location") ?? ""
+  if (new URL(location, "http://localhost").pathname === "/consent")
+    location = await consent(ctx, flow.cookie, location)
+  const code = new URL(location).searchParams.get("code")
+  if (!code) throw new Error(`No code in ${location}`)
+  return authFetch(
+    ctx,
+    "/oauth2/token",
+    formPost(
+      {
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: flow.redirectUri,
+        code_verifier: PKCE_VERIFIER,
+        ...(flow.resource ? { resource: flow.resource } : {}),
+      },
+      basicAuth(flow.clientId, flow.clientSecret),
+    ),
+  )
+}
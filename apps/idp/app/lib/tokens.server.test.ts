@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as appDetail from "../routes/app/app-detail"
+import * as openid from "../routes/well-known/openid"
+import { createApplication, grantAppMember } from "./admin.server"
+import type { AppPermission } from "./permissions"
+import {
+  authFetch,
+  basicAuth,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  formPost,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+import { listActiveTokens, revokeTokens } from "./tokens.server"
+
+let ctx: TestContext
+let acme: { clientId: string; clientSecret: string }
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  acme = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  })
+})
+
+/** Signs a new user in to Acme; returns the tokens it got. */
+async function signIn(email: string) {
+  const cookie = await sessionCookie(ctx, createUser(ctx, { email }))
+  const flow = {
+    cookie,
+    ...acme,
+    redirectUri: "https://acme.test/callback",
+    scope: "openid offline_access",
+  }
+  return (await json(await codeFlowTokens(ctx, flow))) as {
+    access_token: string
+    refresh_token: string
+  }
+}
+
+async function introspect(token: string) {
+  const res = await authFetch(
+    ctx,
+    "/oauth2/introspect",
+    formPost({ token }, basicAuth(acme.clientId, acme.clientSecret)),
+  )
+  // Unknown (deleted) tokens are an error rather than `active: false`.
+  return (await json(res)).active === true
+}
+
+describe("client tokens", () => {
+  it("lists each user's live access and refresh tokens", async () => {
+    await signIn("ada@example.com")
+    const tokens = await listActiveTokens(ctx, acme.clientId)
+    expect(tokens.map((t) => t.kind).sort()).toEqual(["access", "refresh"])
+    expect(tokens[0]).toMatchObject({
+      email: "ada@example.com",
+      scopes: ["openid", "offline_access"],
+    })
+  })
+
+  it("revokes a refresh token along with the access tokens minted from it", async () => {
+    const ada = await signIn("ada@example.com")
+    const bo = await signIn("bo@example.com")
+    const adaRefresh = (await listActiveTokens(ctx, acme.clientId)).find(
+      (t) => t.kind === "refresh" && t.email === "ada@example.com",
+    )!
+
+    expect(
+      await revokeTokens(ctx, acme.clientId, { access: [], refresh: [adaRefresh.id] }),
+    ).toEqual({ access: 1, refresh: 1 })
+    expect(await introspect(ada.access_token)).toBe(false)
+    expect(await introspect(ada.refresh_token)).toBe(false)
+    expect(await introspect(bo.access_token)).toBe(true)
+
+    expect(await revokeTokens(ctx, "other", "all")).toEqual({ access: 0, refresh: 0 })
+    expect(await revokeTokens(ctx, acme.clientId, "all")).toEqual({ access: 1, refresh: 1 })
+    expect(await listActiveTokens(ctx, acme.clientId)).toEqual([])
+  })
+
+  it("are on the app page only for members who may revoke them", async () => {
+    await signIn("ada@example.com")
+    const page = async (permissions: AppPermission[]) => {
+      const userId = createUser(ctx)
+      await grantAppMember(ctx, "acme", userId, { role: "member", permissions })
+      const request = new Request(`http://localhost:5173/apps/${acme.clientId}`, {
+        headers: { cookie: await sessionCookie(ctx, userId) },
+      })
+      const args = routeArgs<never>(loadContext(ctx), request, { clientId: acme.clientId })
+      return json(await respond(appDetail.loader(args)))
+    }
+
+    const reader = await page(["app:read"])
+    expect(reader.tokens).toEqual([])
+    expect(reader.webhookDeliveries).toEqual([])
+    expect(reader.registeredClients).toEqual([])
+    expect((await page(["app:read", "app:update"])).tokens).toHaveLength(2)
+  })
+
+  it("advertises introspection and revocation in discovery", async () => {
+    const request = new Request("http://localhost:5173/.well-known/openid-configuration")
+    const document = await json(await openid.loader(routeArgs(loadContext(ctx), request)))
+    expect(document.introspection_endpoint).toBe("http://localhost:5173/auth/oauth2/introspect")
+    expect(document.revocation_endpoint).toBe("http://localhost:5173/auth/oauth2/revoke")
+  })
+})
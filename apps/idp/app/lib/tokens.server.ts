@@ -0,0 +1,134 @@
+import { and, desc, eq, gt, inArray, isNull, or } from "drizzle-orm"
+
+import * as schema from "../db/schema"
+import { coerceUriList } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * A live token a client holds: an opaque access token (`oauth_access_token`;
+ * JWT access tokens aren't stored, and run out on their own within the hour)
+ * or an unrevoked refresh token. Resource servers check them at
+ * /auth/oauth2/introspect and clients give them up at /auth/oauth2/revoke;
+ * this is the admin's side, for revoking in bulk after an incident.
+ */
+export type ClientToken = {
+  id: string
+  kind: "access" | "refresh"
+  userId: string | null
+  email: string | null
+  scopes: string[]
+  createdAt: Date | null
+  expiresAt: Date | null
+}
+
+/**
+ * How many of each kind the console lists (revoking "all" isn't limited by
+ * it). Small enough that revoking a whole page stays under D1's 100 bound
+ * parameters per query.
+ */
+const TOKEN_LIST_LIMIT = 40
+
+function unexpired(
+  expiresAt: typeof schema.oauthAccessToken.expiresAt | typeof schema.oauthRefreshToken.expiresAt,
+) {
+  return or(isNull(expiresAt), gt(expiresAt, new Date()))
+}
+
+/** A client's active tokens, newest first within each kind. */
+export async function listActiveTokens(
+  ctx: BaseServiceContext,
+  clientId: string,
+): Promise<ClientToken[]> {
+  const access = await ctx.db
+    .select({
+      id: schema.oauthAccessToken.id,
+      userId: schema.oauthAccessToken.userId,
+      email: schema.user.email,
+      scopes: schema.oauthAccessToken.scopes,
+      createdAt: schema.oauthAccessToken.createdAt,
+      expiresAt: schema.oauthAccessToken.expiresAt,
+    })
+    .from(schema.oauthAccessToken)
+    .leftJoin(schema.user, eq(schema.user.id, schema.oauthAccessToken.userId))
+    .where(
+      and(
+        eq(schema.oauthAccessToken.clientId, clientId),
+        unexpired(schema.oauthAccessToken.expiresAt),
+      ),
+    )
+    .orderBy(desc(schema.oauthAccessToken.createdAt))
+    .limit(TOKEN_LIST_LIMIT)
+  const refresh = await ctx.db
+    .select({
+      id: schema.oauthRefreshToken.id,
+      userId: schema.oauthRefreshToken.userId,
+      email: schema.user.email,
+      scopes: schema.oauthRefreshToken.scopes,
+      createdAt: schema.oauthRefreshToken.createdAt,
+      expiresAt: schema.oauthRefreshToken.expiresAt,
+    })
+    .from(schema.oauthRefreshToken)
+    .leftJoin(schema.user, eq(schema.user.id, schema.oauthRefreshToken.userId))
+    .where(
+      and(
+        eq(schema.oauthRefreshToken.clientId, clientId),
+        isNull(schema.oauthRefreshToken.revoked),
+        unexpired(schema.oauthRefreshToken.expiresAt),
+      ),
+    )
+    .orderBy(desc(schema.oauthRefreshToken.createdAt))
+    .limit(TOKEN_LIST_LIMIT)
+  return [
+    ...access.map((t) => ({ ...t, kind: "access" as const, scopes: coerceUriList(t.scopes) })),
+    ...refresh.map((t) => ({ ...t, kind: "refresh" as const, scopes: coerceUriList(t.scopes) })),
+  ]
+}
+
+/**
+ * Revokes a client's tokens: the given ones, or every one it holds. Refresh
+ * tokens are marked revoked (as /oauth2/revoke does) and take the access
+ * tokens minted from them along; access tokens are deleted. Ids that aren't
+ * this client's are ignored. Returns how many of each went.
+ */
+export async function revokeTokens(
+  ctx: BaseServiceContext,
+  clientId: string,
+  which: "all" | { access: string[]; refresh: string[] },
+) {
+  const refreshWhere =
+    which === "all" ? undefined : inArray(schema.oauthRefreshToken.id, which.refresh)
+  const refresh =
+    which !== "all" && which.refresh.length === 0
+      ? []
+      : await ctx.db
+          .update(schema.oauthRefreshToken)
+          .set({ revoked: new Date() })
+          .where(
+            and(
+              eq(schema.oauthRefreshToken.clientId, clientId),
+              isNull(schema.oauthRefreshToken.revoked),
+              refreshWhere,
+            ),
+          )
+          .returning({ id: schema.oauthRefreshToken.id })
+
+  const accessWhere =
+    which === "all"
+      ? undefined
+      : or(
+          inArray(schema.oauthAccessToken.id, which.access),
+          inArray(
+            schema.oauthAccessToken.refreshId,
+            refresh.map((r) => r.id),
+          ),
+        )
+  const access =
+    which !== "all" && which.access.length === 0 && refresh.length === 0
+      ? []
+      : await ctx.db
+          .delete(schema.oauthAccessToken)
+          .where(and(eq(schema.oauthAccessToken.clientId, clientId), accessWhere))
+          .returning({ id: schema.oauthAccessToken.id })
+
+  return { access: access.length, refresh: refresh.length }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest"
+
+import { describeUserAgent } from "./user-agent"
+
+describe("describeUserAgent", () => {
+  it("names the browser and system", () => {
+    const chrome =
+      "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/129.0 Safari/537.36"
+    const edge = `${chrome.replace("Macintosh; Intel Mac OS X 10_15_7", "Windows NT 10.0")} Edg/129.0`
+    const iphone =
+      "Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1"
+    expect(describeUserAgent(chrome)).toBe("Chrome on macOS")
+    expect(describeUserAgent(edge)).toBe("Edge on Windows")
+    expect(describeUserAgent(iphone)).toBe("Safari on iOS")
+    expect(describeUserAgent("curl/8.5.0")).toBe("curl/8.5.0")
+    expect(describeUserAgent(null)).toBe("Unknown device")
+  })
+})
@@ -0,0 +1,26 @@
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\//, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+]
+
+// Before the desktop systems whose names mobile user agents also carry.
+const SYSTEMS: [RegExp, string][] = [
+  [/iPhone|iPad/, "iOS"],
+  [/Android/, "Android"],
+  [/CrOS/, "ChromeOS"],
+  [/Mac OS X/, "macOS"],
+  [/Windows/, "Windows"],
+  [/Linux/, "Linux"],
+]
+
+/** "Firefox on macOS", from a session's user agent — enough to recognize a device. */
+export function describeUserAgent(userAgent: string | null | undefined) {
+  if (!userAgent) return "Unknown device"
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1]
+  const system = SYSTEMS.find(([re]) => re.test(userAgent))?.[1]
+  if (browser && system) return `${browser} on ${system}`
+  return browser ?? system ?? userAgent.slice(0, 60)
+}
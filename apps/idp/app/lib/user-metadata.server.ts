@@ -0,0 +1,228 @@
+import { and, asc, eq } from "drizzle-orm"
+import { z } from "zod"
+
+import * as schema from "../db/schema"
+import { listApplications } from "./admin.server"
+import type { BaseServiceContext } from "./services"
+
+/**
+ * Per-application user metadata: a JSON object an app keeps about each user
+ * (`user_app_metadata`), written server-to-server through the management API
+ * and readable by the user on /account. The app may register a JSON Schema
+ * every write must satisfy and pick top-level keys to surface as a claim.
+ */
+
+export type UserMetadata = Record<string, unknown>
+
+export type UserMetadataConfig = {
+  jsonSchema: Record<string, unknown> | null
+  claimKeys: string[]
+  userEditableKeys: string[]
+}
+
+/** Claim carrying the keys an app chose to surface (id_token and userinfo). */
+export const USER_METADATA_CLAIM = "https://willy.im/metadata"
+
+/** Upper bound on one user's metadata for one app, as serialized UTF-8 JSON. */
+export const METADATA_MAX_BYTES = 16 * 1024
+
+const EMPTY_CONFIG: UserMetadataConfig = { jsonSchema: null, claimKeys: [], userEditableKeys: [] }
+
+/** Why a write was refused; routes map `kind` to a status (413 / 422). */
+export class MetadataError extends Error {
+  constructor(
+    readonly kind: "too_large" | "schema_violation",
+    message: string,
+    readonly issues: { path: string; message: string }[] = [],
+  ) {
+    super(message)
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+/** RFC 7396 JSON Merge Patch: objects merge recursively, `null` deletes, anything else replaces. */
+export function applyMergePatch(target: unknown, patch: unknown): unknown {
+  if (!isObject(patch)) return patch
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {}
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) delete result[key]
+    else result[key] = applyMergePatch(result[key], value)
+  }
+  return result
+}
+
+/** Compiles a registered JSON Schema; throws (with zod's message) if it can't be used. */
+export function compileMetadataSchema(jsonSchema: Record<string, unknown>) {
+  return z.fromJSONSchema(jsonSchema as Parameters<typeof z.fromJSONSchema>[0])
+}
+
+/** Checks size and the app's schema; throws MetadataError. */
+export function validateUserMetadata(config: UserMetadataConfig, data: UserMetadata) {
+  const bytes = new TextEncoder().encode(JSON.stringify(data)).byteLength
+  if (bytes > METADATA_MAX_BYTES) {
+    throw new MetadataError(
+      "too_large",
+      `Metadata is ${bytes} bytes; the limit is ${METADATA_MAX_BYTES}.`,
+    )
+  }
+  if (!config.jsonSchema) return
+  const parsed = compileMetadataSchema(config.jsonSchema).safeParse(data)
+  if (!parsed.success) {
+    throw new MetadataError(
+      "schema_violation",
+      "Metadata doesn't match the application's schema.",
+      parsed.error.issues.map((i) => ({ path: i.path.join("."), message: i.message })),
+    )
+  }
+}
+
+/** An application's metadata config; defaults until the app registers one. */
+export async function getUserMetadataConfig(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<UserMetadataConfig> {
+  const [row] = await ctx.db
+    .select()
+    .from(schema.userMetadataConfig)
+    .where(eq(schema.userMetadataConfig.applicationId, app))
+    .limit(1)
+  return row
+    ? {
+        jsonSchema: row.jsonSchema ?? null,
+        claimKeys: row.claimKeys,
+        userEditableKeys: row.userEditableKeys,
+      }
+    : EMPTY_CONFIG
+}
+
+/**
+ * Replaces the config wholesale. Callers validate with UserMetadataConfigSchema
+ * first. Existing metadata isn't revalidated; the schema applies to later writes.
+ */
+export async function setUserMetadataConfig(
+  ctx: BaseServiceContext,
+  app: string,
+  config: UserMetadataConfig,
+) {
+  const values = { ...config, updatedAt: new Date() }
+  await ctx.db
+    .insert(schema.userMetadataConfig)
+    .values({ applicationId: app, ...values })
+    .onConflictDoUpdate({ target: schema.userMetadataConfig.applicationId, set: values })
+}
+
+/** What `app` stores about a user: `{}` and a null timestamp until it writes something. */
+export async function getUserMetadata(ctx: BaseServiceContext, app: string, userId: string) {
+  const [row] = await ctx.db
+    .select({ data: schema.userAppMetadata.data, updatedAt: schema.userAppMetadata.updatedAt })
+    .from(schema.userAppMetadata)
+    .where(
+      and(eq(schema.userAppMetadata.applicationId, app), eq(schema.userAppMetadata.userId, userId)),
+    )
+    .limit(1)
+  return { data: row?.data ?? {}, updatedAt: row?.updatedAt ?? null }
+}
+
+/** Validates and stores the whole document (PUT semantics). */
+export async function putUserMetadata(
+  ctx: BaseServiceContext,
+  app: string,
+  userId: string,
+  data: UserMetadata,
+) {
+  validateUserMetadata(await getUserMetadataConfig(ctx, app), data)
+  const updatedAt = new Date()
+  await ctx.db
+    .insert(schema.userAppMetadata)
+    .values({ applicationId: app, userId, data, updatedAt })
+    .onConflictDoUpdate({
+      target: [schema.userAppMetadata.applicationId, schema.userAppMetadata.userId],
+      set: { data, updatedAt },
+    })
+  return { data, updatedAt }
+}
+
+/** Merge-patches the stored document, then stores it like `putUserMetadata`. */
+export async function patchUserMetadata(
+  ctx: BaseServiceContext,
+  app: string,
+  userId: string,
+  patch: UserMetadata,
+) {
+  const current = await getUserMetadata(ctx, app, userId)
+  const data = applyMergePatch(current.data, patch) as UserMetadata
+  return putUserMetadata(ctx, app, userId, data)
+}
+
+/** `{ [USER_METADATA_CLAIM]: {...} }` with the app's claim keys, or `{}` if none are set. */
+export async function metadataClaimsFor(ctx: BaseServiceContext, app: string, userId: string) {
+  const { claimKeys } = await getUserMetadataConfig(ctx, app)
+  if (claimKeys.length === 0) return {}
+  const { data } = await getUserMetadata(ctx, app, userId)
+  const picked = Object.fromEntries(claimKeys.filter((k) => k in data).map((k) => [k, data[k]]))
+  return Object.keys(picked).length ? { [USER_METADATA_CLAIM]: picked } : {}
+}
+
+export type AccountAppMetadata = {
+  app: string
+  name: string
+  data: UserMetadata
+  userEditableKeys: string[]
+  updatedAt: Date
+}
+
+/** Everything applications store about one user, for /account. */
+export async function listUserMetadataForUser(
+  ctx: BaseServiceContext,
+  userId: string,
+): Promise<AccountAppMetadata[]> {
+  const [rows, applications] = await Promise.all([
+    ctx.db
+      .select({
+        app: schema.userAppMetadata.applicationId,
+        data: schema.userAppMetadata.data,
+        userEditableKeys: schema.userMetadataConfig.userEditableKeys,
+        updatedAt: schema.userAppMetadata.updatedAt,
+      })
+      .from(schema.userAppMetadata)
+      .leftJoin(
+        schema.userMetadataConfig,
+        eq(schema.userMetadataConfig.applicationId, schema.userAppMetadata.applicationId),
+      )
+      .where(eq(schema.userAppMetadata.userId, userId))
+      .orderBy(asc(schema.userAppMetadata.applicationId)),
+    listApplications(ctx),
+  ])
+  const names = new Map(applications.map((a) => [a.app, a.name]))
+  return rows.map((r) => ({
+    app: r.app,
+    name: names.get(r.app) ?? r.app,
+    data: r.data ?? {},
+    userEditableKeys: r.userEditableKeys ?? [],
+    updatedAt: r.updatedAt,
+  }))
+}
+
+/**
+ * A user's own edit from /account: only the app's `userEditableKeys` may
+ * appear in the patch, and the result must still pass size and schema checks.
+ */
+export async function patchOwnUserMetadata(
+  ctx: BaseServiceContext,
+  app: string,
+  userId: string,
+  patch: UserMetadata,
+) {
+  const { userEditableKeys } = await getUserMetadataConfig(ctx, app)
+  const locked = Object.keys(patch).filter((k) => !userEditableKeys.includes(k))
+  if (locked.length) {
+    throw new MetadataError(
+      "schema_violation",
+      `You can't change ${locked.map((k) => `"${k}"`).join(", ")}.`,
+    )
+  }
+  return patchUserMetadata(ctx, app, userId, patch)
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest"
+
+import { isNativeRedirectUri, isPrivateAddress, isValidRedirectUri, safeNextPath } from "./validate"
+
+describe("safeNextPath", () => {
+  it("keeps same-origin paths", () => {
+    expect(safeNextPath("/account?tab=security#keys")).toBe("/account?tab=security#keys")
+    expect(safeNextPath("/consent")).toBe("/consent")
+  })
+
+  it("falls back to / for anything that could leave the origin", () => {
+    for (const next of [
+      null,
+      "",
+      "https://evil.com",
+      "evil.com",
+      "//evil.com",
+      "/\\evil.com",
+      "\\/evil.com",
+      "/\t/evil.com",
+      "/\n/evil.com",
+    ]) {
+      expect(safeNextPath(next), String(next)).toBe("/")
+    }
+  })
+
+  it("leaves encoded characters to the router", () => {
+    expect(safeNextPath("/%5Cevil.com")).toBe("/%5Cevil.com")
+  })
+})
+
+describe("isValidRedirectUri", () => {
+  it("takes https, loopback http and reverse-DNS private-use schemes", () => {
+    for (const uri of [
+      "https://app.example.com/callback",
+      "http://localhost:3000/callback",
+      "http://127.0.0.1/callback",
+      "http://[::1]:8080/callback",
+      "com.example.app:/oauth2redirect",
+    ]) {
+      expect(isValidRedirectUri(uri), uri).toBe(true)
+    }
+  })
+
+  it("refuses schemes a browser runs or opens itself, and plain http elsewhere", () => {
+    for (const uri of [
+      "javascript:alert(1)//",
+      "JavaScript:alert(1)",
+      "data:text/html,hi",
+      "vbscript:msgbox(1)",
+      "file:///etc/passwd",
+      "myapp:/callback",
+      "http://app.example.com/callback",
+      "not a url",
+    ]) {
+      expect(isValidRedirectUri(uri), uri).toBe(false)
+    }
+  })
+
+  it("counts only loopback and private-use URIs as a native app's", () => {
+    expect(isNativeRedirectUri("https://app.example.com/callback")).toBe(false)
+    expect(isNativeRedirectUri("http://localhost/callback")).toBe(true)
+    expect(isNativeRedirectUri("com.example.app:/callback")).toBe(true)
+  })
+})
+
+describe("isPrivateAddress", () => {
+  const host = (url: string) => new URL(url).hostname
+
+  it("catches loopback, private, link-local and mapped addresses however they're spelled", () => {
+    for (const url of [
+      "https://127.0.0.1",
+      "https://0x7f.1",
+      "https://2130706433",
+      "https://10.1.2.3",
+      "https://172.20.0.1",
+      "https://192.168.0.10",
+      "https://169.254.169.254",
+      "https://100.64.0.1",
+      "https://0.0.0.0",
+      "https://[::]",
+      "https://[::1]",
+      "https://[::ffff:127.0.0.1]",
+      "https://[64:ff9b::10.0.0.1]",
+      "https://[fd12:3456::1]",
+      "https://[fe80::1]",
+    ]) {
+      expect(isPrivateAddress(host(url)), url).toBe(true)
+    }
+  })
+
+  it("lets public addresses and names through", () => {
+    for (const url of [
+      "https://93.184.216.34",
+      "https://172.32.0.1",
+      "https://[2606:4700::1111]",
+      "https://[::ffff:8.8.8.8]",
+      "https://hooks.example.com",
+    ]) {
+      expect(isPrivateAddress(host(url)), url).toBe(false)
+    }
+  })
+})
@@ -1,15 +1,83 @@
-/** A redirect URI must be an absolute, parseable URL (http/https or a custom scheme). */
-export function isValidRedirectUri(uri: string): boolean {
+const LOOPBACK_HOSTS = ["127.0.0.1", "[::1]", "localhost"]
+
+// RFC 8252 §7.1: a reverse domain name (com.example.app), so never a scheme
+// browsers act on themselves like javascript:, data:, vbscript: or file:.
+const PRIVATE_USE_SCHEME = /^[a-z][a-z0-9-]*(\.[a-z0-9-]+)+:$/
+
+function parseUrl(uri: string) {
   try {
-    const u = new URL(uri)
-    // http(s) needs a host; custom schemes (e.g. com.app://callback) don't.
-    if (u.protocol === "http:" || u.protocol === "https:") return !!u.hostname
-    return !!u.protocol
+    return new URL(uri)
   } catch {
-    return false
+    return null
   }
 }
 
+/** RFC 8252 native app redirect URIs: loopback http (§7.3) or a private-use scheme (§7.1). */
+export function isNativeRedirectUri(uri: string): boolean {
+  const u = parseUrl(uri)
+  if (!u) return false
+  if (u.protocol === "http:") return LOOPBACK_HOSTS.includes(u.hostname)
+  return PRIVATE_USE_SCHEME.test(u.protocol)
+}
+
+/** A redirect URI must be https, or a native app's (loopback http or a private-use scheme). */
+export function isValidRedirectUri(uri: string): boolean {
+  const u = parseUrl(uri)
+  if (u?.protocol === "https:") return !!u.hostname
+  return isNativeRedirectUri(uri)
+}
+
+/** An IPv4 address's four octets; null if `host` isn't one. */
+function ipv4Octets(host: string) {
+  const parts = host.split(".")
+  if (parts.length !== 4 || !parts.every((p) => /^\d{1,3}$/.test(p))) return null
+  const octets = parts.map(Number)
+  return octets.every((o) => o <= 255) ? octets : null
+}
+
+function isPrivateIpv4([a, b]: number[]) {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    a >= 224 ||
+    (a === 100 && b >= 64 && b < 128) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b < 32) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19))
+  )
+}
+
+/** A bracketed IPv6 host's eight groups, as URL serializes it (lowercase, `::`-compressed). */
+function ipv6Groups(host: string) {
+  if (!host.startsWith("[") || !host.endsWith("]")) return null
+  const [head, tail] = host.slice(1, -1).split("::")
+  const left = head ? head.split(":") : []
+  const right = tail ? tail.split(":") : []
+  const zeros = tail === undefined ? [] : Array(8 - left.length - right.length).fill("0")
+  const groups = [...left, ...zeros, ...right].map((g) => parseInt(g, 16))
+  return groups.length === 8 && groups.every((g) => g >= 0 && g <= 0xffff) ? groups : null
+}
+
+/**
+ * Whether a URL's hostname is an IP literal outside the public internet:
+ * loopback, private, link-local, shared (CGNAT), multicast or unspecified,
+ * including IPv4 addresses mapped into IPv6. URL has already normalized
+ * IPv4 spellings like `0x7f.1`; names are left alone, they aren't resolved.
+ */
+export function isPrivateAddress(hostname: string): boolean {
+  const v4 = ipv4Octets(hostname)
+  if (v4) return isPrivateIpv4(v4)
+  const v6 = ipv6Groups(hostname)
+  if (!v6) return false
+  // ::, ::1, ::a.b.c.d, ::ffff:a.b.c.d and NAT64's 64:ff9b::a.b.c.d go by their last 32 bits.
+  const mapped = v6.slice(0, 5).every((g) => g === 0) && (v6[5] === 0 || v6[5] === 0xffff)
+  const nat64 = v6[0] === 0x64 && v6[1] === 0xff9b && v6.slice(2, 6).every((g) => g === 0)
+  if (mapped || nat64) return isPrivateIpv4([v6[6] >> 8, v6[6] & 0xff])
+  return (v6[0] & 0xfe00) === 0xfc00 || (v6[0] & 0xffc0) === 0xfe80 || (v6[0] & 0xff00) === 0xff00
+}
+
 /** Splits a textarea/input of space/comma/newline-separated URIs into a clean list. */
 export function parseUriList(raw: string): string[] {
   return raw
@@ -22,3 +90,16 @@ export function parseUriList(raw: string): string[] {
 export function firstInvalidRedirectUri(uris: string[]): string | null {
   return uris.find((u) => !isValidRedirectUri(u)) ?? null
 }
+
+/**
+ * A post-sign-in destination taken from the query string. Only same-origin
+ * paths are allowed: browsers read "//evil.com" and "/\evil.com" as
+ * protocol-relative, and drop tabs and newlines before parsing, so anything
+ * with a backslash or control character is refused outright and the rest must
+ * still resolve to the origin it's relative to.
+ */
+export function safeNextPath(raw: string | null): string {
+  if (!raw || !raw.startsWith("/") || /[\\\x00-\x1f\x7f]/.test(raw)) return "/"
+  const base = "https://next.invalid"
+  return new URL(raw, base).origin === base ? raw : "/"
+}
@@ -0,0 +1,196 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import { createApplication, getApplication, grantAppMember, revokeAppMember } from "./admin.server"
+import { createScimUser } from "./scim.server"
+import {
+  authFetch,
+  createTestContext,
+  createUser,
+  sessionCookie,
+  type TestContext,
+} from "./testing"
+import {
+  createWebhookEndpoint,
+  deliverWebhook,
+  emitWebhookEvent,
+  listWebhookDeliveries,
+  replayWebhookDelivery,
+} from "./webhooks.server"
+
+let ctx: TestContext
+let clientId: string
+let fetchMock: ReturnType<typeof vi.fn<typeof fetch>>
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+  fetchMock = vi.fn<typeof fetch>(async () => new Response(null, { status: 204 }))
+  vi.stubGlobal("fetch", fetchMock)
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+async function endpoint(events: string[], url = "https://hooks.acme.test/idp") {
+  const created = await createWebhookEndpoint(ctx, "acme", { url, events })
+  if ("error" in created) throw new Error(created.error)
+  return created
+}
+
+async function deliveries() {
+  return listWebhookDeliveries(ctx, "acme")
+}
+
+/** Standard Webhooks verification, as a receiver would do it. */
+async function verify(secret: string, headers: Headers, body: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    Buffer.from(secret.slice("whsec_".length), "base64"),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["verify"],
+  )
+  const content = `${headers.get("webhook-id")}.${headers.get("webhook-timestamp")}.${body}`
+  const signature = headers.get("webhook-signature")!.replace(/^v1,/, "")
+  return crypto.subtle.verify(
+    "HMAC",
+    key,
+    Buffer.from(signature, "base64"),
+    new TextEncoder().encode(content),
+  )
+}
+
+describe("webhook endpoints", () => {
+  it("need an https URL and a known event", async () => {
+    const insecure = await createWebhookEndpoint(ctx, "acme", {
+      url: "http://hooks.acme.test",
+      events: ["user.created"],
+    })
+    expect(insecure).toHaveProperty("error")
+    const eventless = await createWebhookEndpoint(ctx, "acme", {
+      url: "https://hooks.acme.test",
+      events: ["user.exploded"],
+    })
+    expect(eventless).toHaveProperty("error")
+    expect((await endpoint(["user.created"])).secret).toMatch(/^whsec_/)
+  })
+
+  it("can't point at private or loopback addresses, but for local development", async () => {
+    for (const url of [
+      "https://10.0.0.8/hook",
+      "https://169.254.169.254/latest/meta-data",
+      "https://0xa.1/hook",
+      "https://[::1]/hook",
+      "https://[::ffff:192.168.1.1]/hook",
+      "https://[fd00::1]/hook",
+    ]) {
+      const created = await createWebhookEndpoint(ctx, "acme", { url, events: ["user.created"] })
+      expect(created, url).toHaveProperty("error")
+    }
+    await endpoint(["user.created"], "http://localhost:8787/hook")
+    await endpoint(["user.created"], "http://127.0.0.1:8787/hook")
+  })
+
+  it("are only sent the events they subscribe to", async () => {
+    await endpoint(["member.added"])
+    await emitWebhookEvent(ctx, "acme", "user.created", {})
+    expect(ctx.webhookJobs).toHaveLength(0)
+    await emitWebhookEvent(ctx, "acme", "member.added", {})
+    expect(ctx.webhookJobs).toHaveLength(1)
+  })
+})
+
+describe("deliverWebhook", () => {
+  it("POSTs the payload signed with the endpoint's secret", async () => {
+    const { secret } = await endpoint(["client.secret_rotated"])
+    await emitWebhookEvent(ctx, "acme", "client.secret_rotated", { clientId: "c1" })
+    await deliverWebhook(ctx, ctx.webhookJobs[0])
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe("https://hooks.acme.test/idp")
+    const headers = new Headers(init!.headers)
+    const body = String(init!.body)
+    expect(JSON.parse(body)).toMatchObject({
+      type: "client.secret_rotated",
+      data: { clientId: "c1" },
+    })
+    expect(await verify(secret, headers, body)).toBe(true)
+    expect((await deliveries())[0]).toMatchObject({ status: "succeeded", attempts: 1 })
+  })
+
+  it("retries with a growing delay, then fails; a replay starts over", async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 503 }))
+    const send = vi.spyOn(ctx.webhooks, "send")
+    await endpoint(["user.deleted"])
+    await emitWebhookEvent(ctx, "acme", "user.deleted", {})
+    const job = ctx.webhookJobs[0]
+
+    await deliverWebhook(ctx, job)
+    expect(send).toHaveBeenLastCalledWith(job, { delaySeconds: 30 })
+    await deliverWebhook(ctx, job)
+    expect(send).toHaveBeenLastCalledWith(job, { delaySeconds: 120 })
+    for (let i = 0; i < 5; i++) await deliverWebhook(ctx, job)
+    expect((await deliveries())[0]).toMatchObject({
+      status: "failed",
+      attempts: 7,
+      responseStatus: 503,
+      error: "HTTP 503",
+    })
+
+    // Failed deliveries are left alone until replayed.
+    await deliverWebhook(ctx, job)
+    expect(fetchMock).toHaveBeenCalledTimes(7)
+    expect(await replayWebhookDelivery(ctx, "acme", job.deliveryId)).toBe(true)
+    expect(await replayWebhookDelivery(ctx, "other", job.deliveryId)).toBe(false)
+    fetchMock.mockImplementation(async () => new Response(null, { status: 200 }))
+    await deliverWebhook(ctx, job)
+    expect((await deliveries())[0]).toMatchObject({ status: "succeeded", attempts: 1 })
+  })
+})
+
+describe("member events", () => {
+  it("reach the app when someone joins or leaves its console", async () => {
+    await endpoint(["member.added", "member.removed"])
+    const userId = createUser(ctx, { email: "ada@example.com" })
+    await grantAppMember(ctx, "acme", userId, { role: "member", permissions: ["app:read"] })
+    // A changed role isn't a new member.
+    await grantAppMember(ctx, "acme", userId, { role: "admin" })
+    await revokeAppMember(ctx, "acme", userId)
+    await revokeAppMember(ctx, "acme", userId)
+
+    const payloads = ctx.sqlite
+      .prepare("select payload from webhook_delivery order by created_at")
+      .pluck()
+      .all()
+      .map((p) => JSON.parse(String(p)))
+    expect(payloads).toMatchObject([
+      {
+        type: "member.added",
+        data: { user: { id: userId, email: "ada@example.com" }, role: "member" },
+      },
+      { type: "member.removed", data: { user: { id: userId }, role: "admin" } },
+    ])
+  })
+})
+
+describe("user events", () => {
+  it("reach the apps a user is part of when their profile changes", async () => {
+    await endpoint(["user.created", "user.updated"])
+    const application = { ...(await getApplication(ctx, clientId))!, app: "acme" }
+    const userId = await createScimUser(ctx, application, { userName: "ada@example.com" })
+    const res = await authFetch(ctx, "/update-user", {
+      method: "POST",
+      headers: { cookie: await sessionCookie(ctx, userId), "content-type": "application/json" },
+      body: JSON.stringify({ name: "Ada L." }),
+    })
+    expect(res.status).toBe(200)
+
+    const sent = await deliveries()
+    expect(sent.map((d) => d.event).sort()).toEqual(["user.created", "user.updated"])
+  })
+})
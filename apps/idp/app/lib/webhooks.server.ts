@@ -0,0 +1,511 @@
+import { and, desc, eq, isNotNull } from "drizzle-orm"
+import type { BetterAuthPlugin } from "better-auth"
+import { symmetricDecrypt, symmetricEncrypt } from "better-auth/crypto"
+
+import * as schema from "../db/schema"
+import { getApplication, listApplications } from "./admin.server"
+import { listConnectedApps } from "./connected-apps.server"
+import { fromBase64, toBase64 } from "./crypto.server"
+import type { BaseServiceContext } from "./services"
+import { isPrivateAddress } from "./validate"
+import { isWebhookEvent, type WebhookEvent } from "./webhooks"
+
+/**
+ * Per-application webhooks. Each event becomes one delivery per subscribed
+ * endpoint, written to `webhook_delivery` and handed to the webhook queue; the
+ * queue's consumer (workers/app.ts) POSTs it, signed the Standard Webhooks way
+ * (`webhook-id`, `webhook-timestamp`, `webhook-signature: v1,<HMAC-SHA256>`),
+ * and sends it back to the queue with a growing delay when the endpoint
+ * doesn't answer 2xx. The delivery row is the log the console shows.
+ */
+
+/** A delivery to attempt: what the webhook queue carries. */
+export type WebhookJob = { deliveryId: string }
+
+/**
+ * The webhook queue, shaped after Cloudflare Queues so the binding can be
+ * handed over as is. Retries are ours rather than the queue's, so every
+ * attempt lands in the delivery log.
+ */
+export interface WebhookQueue {
+  send(job: WebhookJob, options?: { delaySeconds?: number }): Promise<void>
+}
+
+/** Delay before each retry, in seconds; a delivery is failed once they run out. */
+const RETRY_DELAYS = [30, 2 * 60, 10 * 60, 60 * 60, 6 * 60 * 60, 12 * 60 * 60]
+
+/** How long an endpoint gets to answer, in milliseconds. */
+const TIMEOUT_MS = 10_000
+
+const SECRET_PREFIX = "whsec_"
+
+export type WebhookEndpointSummary = Omit<schema.WebhookEndpoint, "secret">
+
+/** An application's endpoints, oldest first. Secrets stay in the database. */
+export async function listWebhookEndpoints(
+  ctx: BaseServiceContext,
+  app: string,
+): Promise<WebhookEndpointSummary[]> {
+  return ctx.db
+    .select({
+      id: schema.webhookEndpoint.id,
+      applicationId: schema.webhookEndpoint.applicationId,
+      url: schema.webhookEndpoint.url,
+      events: schema.webhookEndpoint.events,
+      createdAt: schema.webhookEndpoint.createdAt,
+    })
+    .from(schema.webhookEndpoint)
+    .where(eq(schema.webhookEndpoint.applicationId, app))
+    .orderBy(schema.webhookEndpoint.createdAt)
+}
+
+/**
+ * Adds an endpoint for `events`. Returns an error message instead of throwing
+ * when the URL or the event list won't do; otherwise the signing secret, in
+ * plaintext this once. The queue consumer calls the URL from inside our
+ * network, so private and loopback addresses are refused but for local
+ * development's `localhost` and `127.0.0.1`.
+ */
+export async function createWebhookEndpoint(
+  ctx: BaseServiceContext,
+  app: string,
+  input: { url: string; events: string[] },
+) {
+  let url: URL
+  try {
+    url = new URL(input.url.trim())
+  } catch {
+    return { error: `"${input.url}" isn't a URL.` }
+  }
+  const local = url.hostname === "localhost" || url.hostname === "127.0.0.1"
+  if (url.protocol !== "https:" && !(local && url.protocol === "http:")) {
+    return { error: "Webhook URLs must use https." }
+  }
+  if (!local && isPrivateAddress(url.hostname)) {
+    return { error: "Webhook URLs can't point at a private or loopback address." }
+  }
+  const events = [...new Set(input.events)].filter(isWebhookEvent)
+  if (events.length === 0) return { error: "Pick at least one event." }
+
+  const secret = SECRET_PREFIX + toBase64(crypto.getRandomValues(new Uint8Array(24)))
+  const [endpoint] = await ctx.db
+    .insert(schema.webhookEndpoint)
+    .values({
+      applicationId: app,
+      url: url.toString(),
+      events,
+      secret: await symmetricEncrypt({ key: ctx.getAppEnv("BETTER_AUTH_SECRET"), data: secret }),
+    })
+    .returning({ id: schema.webhookEndpoint.id })
+  ctx.logger.info("webhook.endpoint_created", { app, endpointId: endpoint.id })
+  return { id: endpoint.id, secret }
+}
+
+/** Removes an endpoint and its delivery log; false if it isn't one of `app`'s. */
+export async function deleteWebhookEndpoint(ctx: BaseServiceContext, app: string, id: string) {
+  const removed = await ctx.db
+    .delete(schema.webhookEndpoint)
+    .where(and(eq(schema.webhookEndpoint.id, id), eq(schema.webhookEndpoint.applicationId, app)))
+    .returning({ id: schema.webhookEndpoint.id })
+  return removed.length > 0
+}
+
+/** An application's latest deliveries, newest first, with the URL each went to. */
+export async function listWebhookDeliveries(ctx: BaseServiceContext, app: string, limit = 25) {
+  return ctx.db
+    .select({
+      id: schema.webhookDelivery.id,
+      endpointId: schema.webhookDelivery.endpointId,
+      url: schema.webhookEndpoint.url,
+      event: schema.webhookDelivery.event,
+      status: schema.webhookDelivery.status,
+      attempts: schema.webhookDelivery.attempts,
+      responseStatus: schema.webhookDelivery.responseStatus,
+      error: schema.webhookDelivery.error,
+      nextAttemptAt: schema.webhookDelivery.nextAttemptAt,
+      createdAt: schema.webhookDelivery.createdAt,
+    })
+    .from(schema.webhookDelivery)
+    .innerJoin(
+      schema.webhookEndpoint,
+      eq(schema.webhookDelivery.endpointId, schema.webhookEndpoint.id),
+    )
+    .where(eq(schema.webhookDelivery.applicationId, app))
+    .orderBy(desc(schema.webhookDelivery.createdAt))
+    .limit(limit)
+}
+
+async function enqueueDelivery(
+  ctx: BaseServiceContext,
+  endpoint: { id: string; applicationId: string },
+  event: WebhookEvent | "ping",
+  data: Record<string, unknown>,
+) {
+  const payload = JSON.stringify({ type: event, timestamp: new Date().toISOString(), data })
+  const [delivery] = await ctx.db
+    .insert(schema.webhookDelivery)
+    .values({
+      endpointId: endpoint.id,
+      applicationId: endpoint.applicationId,
+      event,
+      payload,
+      nextAttemptAt: new Date(),
+    })
+    .returning({ id: schema.webhookDelivery.id })
+  await ctx.webhooks.send({ deliveryId: delivery.id })
+  return delivery.id
+}
+
+/** Queues `event` for every endpoint of `app` subscribed to it. */
+export async function emitWebhookEvent(
+  ctx: BaseServiceContext,
+  app: string,
+  event: WebhookEvent,
+  data: Record<string, unknown>,
+) {
+  const endpoints = await ctx.db
+    .select({
+      id: schema.webhookEndpoint.id,
+      applicationId: schema.webhookEndpoint.applicationId,
+      events: schema.webhookEndpoint.events,
+    })
+    .from(schema.webhookEndpoint)
+    .where(eq(schema.webhookEndpoint.applicationId, app))
+  for (const endpoint of endpoints.filter((e) => e.events.includes(event))) {
+    await enqueueDelivery(ctx, endpoint, event, data)
+  }
+}
+
+/** Queues a `ping` to one endpoint, whatever it subscribes to. False if it isn't `app`'s. */
+export async function pingWebhookEndpoint(ctx: BaseServiceContext, app: string, id: string) {
+  const [endpoint] = await ctx.db
+    .select({
+      id: schema.webhookEndpoint.id,
+      applicationId: schema.webhookEndpoint.applicationId,
+    })
+    .from(schema.webhookEndpoint)
+    .where(and(eq(schema.webhookEndpoint.id, id), eq(schema.webhookEndpoint.applicationId, app)))
+    .limit(1)
+  if (!endpoint) return false
+  await enqueueDelivery(ctx, endpoint, "ping", { app })
+  return true
+}
+
+/**
+ * Sends a delivery again — same id and payload, so receivers that already
+ * processed it can tell — with a fresh set of retries. False if it isn't `app`'s.
+ */
+export async function replayWebhookDelivery(ctx: BaseServiceContext, app: string, id: string) {
+  const replayed = await ctx.db
+    .update(schema.webhookDelivery)
+    .set({ status: "pending", attempts: 0, nextAttemptAt: new Date(), error: null })
+    .where(and(eq(schema.webhookDelivery.id, id), eq(schema.webhookDelivery.applicationId, app)))
+    .returning({ id: schema.webhookDelivery.id })
+  if (replayed.length === 0) return false
+  await ctx.webhooks.send({ deliveryId: id })
+  ctx.logger.info("webhook.replayed", { app, deliveryId: id })
+  return true
+}
+
+/** Standard Webhooks signature: HMAC-SHA256 of `id.timestamp.body` with the secret's bytes. */
+async function sign(secret: string, content: string) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    fromBase64(secret.slice(SECRET_PREFIX.length)),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"],
+  )
+  return toBase64(await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(content)))
+}
+
+/**
+ * One attempt at a queued delivery (the queue consumer). Anything but a 2xx
+ * answer sends it back to the queue for the next retry, or fails it when
+ * there are none left. Deliveries that aren't pending — replayed and already
+ * sent, or whose endpoint is gone — are skipped.
+ */
+export async function deliverWebhook(ctx: BaseServiceContext, { deliveryId }: WebhookJob) {
+  const [delivery] = await ctx.db
+    .select({
+      id: schema.webhookDelivery.id,
+      applicationId: schema.webhookDelivery.applicationId,
+      event: schema.webhookDelivery.event,
+      payload: schema.webhookDelivery.payload,
+      status: schema.webhookDelivery.status,
+      attempts: schema.webhookDelivery.attempts,
+      url: schema.webhookEndpoint.url,
+      secret: schema.webhookEndpoint.secret,
+    })
+    .from(schema.webhookDelivery)
+    .innerJoin(
+      schema.webhookEndpoint,
+      eq(schema.webhookDelivery.endpointId, schema.webhookEndpoint.id),
+    )
+    .where(eq(schema.webhookDelivery.id, deliveryId))
+    .limit(1)
+  if (!delivery || delivery.status !== "pending") return
+
+  const secret = await symmetricDecrypt({
+    key: ctx.getAppEnv("BETTER_AUTH_SECRET"),
+    data: delivery.secret,
+  })
+  const timestamp = String(Math.floor(Date.now() / 1000))
+  let responseStatus: number | null = null
+  let error: string | null = null
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "willy.im-webhooks",
+        "webhook-id": delivery.id,
+        "webhook-timestamp": timestamp,
+        "webhook-signature": `v1,${await sign(secret, `${delivery.id}.${timestamp}.${delivery.payload}`)}`,
+      },
+      body: delivery.payload,
+      redirect: "manual",
+      signal: AbortSignal.timeout(TIMEOUT_MS),
+    })
+    responseStatus = response.status
+    if (!response.ok) error = `HTTP ${response.status}`
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  const attempts = delivery.attempts + 1
+  const delay = error ? RETRY_DELAYS[attempts - 1] : undefined
+  const status = !error ? "succeeded" : delay !== undefined ? "pending" : "failed"
+  const now = new Date()
+  await ctx.db
+    .update(schema.webhookDelivery)
+    .set({
+      status,
+      attempts,
+      responseStatus,
+      error,
+      lastAttemptAt: now,
+      nextAttemptAt: delay !== undefined ? new Date(now.getTime() + delay * 1000) : null,
+    })
+    .where(eq(schema.webhookDelivery.id, delivery.id))
+  if (delay !== undefined) await ctx.webhooks.send({ deliveryId }, { delaySeconds: delay })
+  ctx.logger.info("webhook.delivery", {
+    app: delivery.applicationId,
+    deliveryId,
+    event: delivery.event,
+    status,
+    attempts,
+    responseStatus: responseStatus ?? undefined,
+  })
+}
+
+type WebhookUser = {
+  id: string
+  email: string
+  name: string
+  image?: string | null
+  emailVerified?: boolean
+}
+
+function userData(user: WebhookUser) {
+  return {
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      image: user.image ?? null,
+      emailVerified: !!user.emailVerified,
+    },
+  }
+}
+
+/**
+ * The applications a user is part of: their workspaces' apps, the apps
+ * provisioning them over SCIM and the apps they've connected.
+ */
+async function appsForUser(ctx: BaseServiceContext, userId: string) {
+  const workspaces = await ctx.db
+    .selectDistinct({ app: schema.organization.applicationId })
+    .from(schema.member)
+    .innerJoin(schema.organization, eq(schema.member.organizationId, schema.organization.id))
+    .where(and(eq(schema.member.userId, userId), isNotNull(schema.organization.applicationId)))
+  const provisioned = await ctx.db
+    .select({ app: schema.scimUser.applicationId })
+    .from(schema.scimUser)
+    .where(eq(schema.scimUser.userId, userId))
+  const connected = new Set((await listConnectedApps(ctx, userId)).map((a) => a.clientId))
+  const clients = (await listApplications(ctx)).filter((a) => connected.has(a.clientId))
+  return [
+    ...new Set(
+      [...workspaces, ...provisioned, ...clients].map((r) => r.app).filter((a) => a !== null),
+    ),
+  ]
+}
+
+/** `user.*` for `apps`, or every application the user is part of. */
+export async function emitUserEvent(
+  ctx: BaseServiceContext,
+  event: "user.created" | "user.updated" | "user.deleted",
+  userOrId: WebhookUser | string,
+  apps?: string[],
+) {
+  const user =
+    typeof userOrId === "string"
+      ? (
+          await ctx.db
+            .select({
+              id: schema.user.id,
+              email: schema.user.email,
+              name: schema.user.name,
+              image: schema.user.image,
+              emailVerified: schema.user.emailVerified,
+            })
+            .from(schema.user)
+            .where(eq(schema.user.id, userOrId))
+            .limit(1)
+        )[0]
+      : userOrId
+  if (!user) return
+  for (const app of apps ?? (await appsForUser(ctx, user.id))) {
+    await emitWebhookEvent(ctx, app, event, userData(user))
+  }
+}
+
+type WebhookWorkspace = { id: string; name: string; slug: string; applicationId?: string | null }
+
+function workspaceData(workspace: WebhookWorkspace) {
+  return { workspace: { id: workspace.id, name: workspace.name, slug: workspace.slug } }
+}
+
+/** `workspace.*` for the workspace's application; nothing for workspaces outside one. */
+export async function emitWorkspaceEvent(
+  ctx: BaseServiceContext,
+  event: "workspace.created" | "workspace.deleted",
+  workspace: WebhookWorkspace,
+) {
+  if (workspace.applicationId) {
+    await emitWebhookEvent(ctx, workspace.applicationId, event, workspaceData(workspace))
+  }
+}
+
+/** `member.*` for each of `userIds` in the workspace, to the workspace's application. */
+export async function emitMemberEvents(
+  ctx: BaseServiceContext,
+  event: "member.added" | "member.removed",
+  workspaceId: string,
+  members: { userId: string; role: string }[],
+) {
+  if (members.length === 0) return
+  const [workspace] = await ctx.db
+    .select({
+      id: schema.organization.id,
+      name: schema.organization.name,
+      slug: schema.organization.slug,
+      applicationId: schema.organization.applicationId,
+    })
+    .from(schema.organization)
+    .where(eq(schema.organization.id, workspaceId))
+    .limit(1)
+  if (!workspace?.applicationId) return
+  for (const { userId, role } of members) {
+    const [user] = await ctx.db
+      .select({ id: schema.user.id, email: schema.user.email })
+      .from(schema.user)
+      .where(eq(schema.user.id, userId))
+      .limit(1)
+    if (!user) continue
+    await emitWebhookEvent(ctx, workspace.applicationId, event, {
+      ...workspaceData(workspace),
+      user,
+      role,
+    })
+  }
+}
+
+/**
+ * `member.*` for a user given or losing a role on the application itself
+ * (its console), rather than in one of its workspaces: no `workspace`.
+ */
+export async function emitAppMemberEvent(
+  ctx: BaseServiceContext,
+  event: "member.added" | "member.removed",
+  app: string,
+  member: { userId: string; role: string },
+) {
+  const [user] = await ctx.db
+    .select({ id: schema.user.id, email: schema.user.email })
+    .from(schema.user)
+    .where(eq(schema.user.id, member.userId))
+    .limit(1)
+  if (user) await emitWebhookEvent(ctx, app, event, { user, role: member.role })
+}
+
+/** `client.secret_rotated` for the client's application. */
+export async function emitSecretRotated(ctx: BaseServiceContext, clientId: string) {
+  const app = (await getApplication(ctx, clientId))?.app
+  if (app) await emitWebhookEvent(ctx, app, "client.secret_rotated", { clientId })
+}
+
+type OrganizationHookData = {
+  organization: WebhookWorkspace & Record<string, unknown>
+  member: { userId: string; role: string }
+}
+
+/**
+ * Events for what Better Auth does itself: accounts created while signing
+ * into an app (`signingInto` — the app whose sign-in policy applies), profile
+ * changes from anywhere, and workspace changes made through the organization
+ * plugin. Writes that bypass Better Auth (SCIM, the management API's deletes)
+ * emit their own.
+ */
+export function webhookEvents(
+  context: BaseServiceContext,
+  signingInto: () => Promise<string | null>,
+) {
+  // Profile fields an update touched, from the before hook to the after hook.
+  let profileChanged = false
+  return {
+    organizationHooks: {
+      afterCreateOrganization: async ({ organization }: OrganizationHookData) => {
+        await emitWorkspaceEvent(context, "workspace.created", organization)
+      },
+      afterDeleteOrganization: async ({ organization }: Omit<OrganizationHookData, "member">) => {
+        await emitWorkspaceEvent(context, "workspace.deleted", organization)
+      },
+      afterAddMember: async ({ organization, member }: OrganizationHookData) => {
+        await emitMemberEvents(context, "member.added", organization.id, [member])
+      },
+      afterAcceptInvitation: async ({ organization, member }: OrganizationHookData) => {
+        await emitMemberEvents(context, "member.added", organization.id, [member])
+      },
+      afterRemoveMember: async ({ organization, member }: OrganizationHookData) => {
+        await emitMemberEvents(context, "member.removed", organization.id, [member])
+      },
+    },
+    plugin: {
+      id: "webhook-events",
+      init: () => ({
+        options: {
+          databaseHooks: {
+            user: {
+              create: {
+                after: async (user) => {
+                  const app = await signingInto()
+                  if (app) await emitUserEvent(context, "user.created", user, [app])
+                },
+              },
+              update: {
+                before: async (data) => {
+                  profileChanged = ["name", "email", "image"].some((key) => key in data)
+                },
+                after: async (user) => {
+                  if (profileChanged) await emitUserEvent(context, "user.updated", user)
+                },
+              },
+            },
+          },
+        },
+      }),
+    } satisfies BetterAuthPlugin,
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Events an application's webhook endpoints can subscribe to (see
+ * webhooks.server.ts). `ping` isn't one: it's only ever sent on request, from
+ * the console, to check an endpoint.
+ */
+export const WEBHOOK_EVENTS = [
+  "user.created",
+  "user.updated",
+  "user.deleted",
+  "member.added",
+  "member.removed",
+  "workspace.created",
+  "workspace.deleted",
+  "client.secret_rotated",
+] as const
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number]
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed"
+
+export function isWebhookEvent(value: string): value is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(value)
+}
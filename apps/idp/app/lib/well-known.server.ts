@@ -1,13 +1,36 @@
+import {
+  oauthProviderAuthServerMetadata,
+  oauthProviderOpenIdConfigMetadata,
+} from "@better-auth/oauth-provider"
+
 import type { AuthService } from "./auth.server"
+import type { Tenant } from "./tenant.server"
 
 /**
  * RFC 8414 places the metadata document at the ROOT with the issuer's path
  * suffixed: our issuer is https://idp.willy.im/auth, so strict OAuth/MCP clients
- * fetch /.well-known/oauth-authorization-server/auth. Better Auth only serves it
- * under the basePath (/auth/.well-known/...), so we proxy root → basePath.
+ * fetch /.well-known/oauth-authorization-server/auth, and register at its
+ * registration_endpoint (client-registration.server.ts). Better Auth only
+ * serves it under the basePath (/auth/.well-known/...), so we serve it at the
+ * root too.
+ *
+ * Both places are answered through `auth.api` rather than the auth handler:
+ * the handler short-circuits these paths before plugin hooks run, and plugins
+ * add to the documents in after hooks (e.g. logout.server.ts).
+ *
+ * Each tenant is its own issuer (idp.kasso.do/auth), so the document is asked
+ * of the request's tenant instance at the tenant's origin.
  */
-export function proxyWellKnown(request: Request, auth: AuthService, basePathDoc: string) {
-  const origin = new URL(request.url).origin
-  const target = new URL(`/auth/.well-known/${basePathDoc}`, origin)
-  return auth.handler(new Request(target, { method: "GET", headers: request.headers }))
+export function proxyWellKnown(
+  request: Request,
+  tenant: Tenant,
+  auth: AuthService,
+  basePathDoc: "openid-configuration" | "oauth-authorization-server",
+) {
+  const target = new URL(`/auth/.well-known/${basePathDoc}`, tenant.origin)
+  const serve =
+    basePathDoc === "openid-configuration"
+      ? oauthProviderOpenIdConfigMetadata(auth)
+      : oauthProviderAuthServerMetadata(auth)
+  return serve(new Request(target, { method: "GET", headers: request.headers }))
 }
@@ -0,0 +1,130 @@
+import { fromBase64, toBase64 } from "./crypto.server"
+
+/**
+ * Just enough X.509 for SAML on WebCrypto: a self-signed certificate around
+ * the IdP's RSA key (SAML metadata carries keys as certificates), and the
+ * public key out of a service provider's certificate. DER by hand; there's no
+ * ASN.1 library on Workers.
+ */
+
+export const RSA_SHA256: RsaHashedImportParams = { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" }
+
+const SHA256_WITH_RSA = "1.2.840.113549.1.1.11"
+const COMMON_NAME = "2.5.4.3"
+
+function concat(...parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+function tlv(tag: number, ...content: Uint8Array[]) {
+  const body = concat(...content)
+  const length: number[] = []
+  for (let n = body.length; n > 0; n >>= 8) length.unshift(n & 0xff)
+  const header = body.length < 0x80 ? [body.length] : [0x80 | length.length, ...length]
+  return concat(new Uint8Array([tag, ...header]), body)
+}
+
+const sequence = (...content: Uint8Array[]) => tlv(0x30, ...content)
+
+/** A non-negative INTEGER from big-endian bytes. */
+function integer(bytes: Uint8Array) {
+  return tlv(0x02, bytes[0] & 0x80 ? concat(new Uint8Array([0]), bytes) : bytes)
+}
+
+function objectIdentifier(dotted: string) {
+  const [first, second, ...rest] = dotted.split(".").map(Number)
+  const bytes = [40 * first + second]
+  for (const arc of rest) {
+    const base128 = [arc & 0x7f]
+    for (let n = arc >> 7; n > 0; n >>= 7) base128.unshift((n & 0x7f) | 0x80)
+    bytes.push(...base128)
+  }
+  return tlv(0x06, new Uint8Array(bytes))
+}
+
+/** UTCTime through 2049, GeneralizedTime after, as RFC 5280 requires. */
+function time(date: Date) {
+  const iso = date.toISOString().replace(/[-:T]|\.\d+/g, "")
+  return date.getUTCFullYear() < 2050
+    ? tlv(0x17, new TextEncoder().encode(iso.slice(2)))
+    : tlv(0x18, new TextEncoder().encode(iso))
+}
+
+function name(commonName: string) {
+  return sequence(
+    tlv(
+      0x31,
+      sequence(objectIdentifier(COMMON_NAME), tlv(0x0c, new TextEncoder().encode(commonName))),
+    ),
+  )
+}
+
+/**
+ * A self-signed certificate for `keys` (RSASSA-PKCS1-v1_5, SHA-256), valid
+ * from now for `years`. Returns the DER, base64 — the form SAML metadata and
+ * `<ds:X509Certificate>` take.
+ */
+export async function selfSignedCertificate(keys: CryptoKeyPair, commonName: string, years = 10) {
+  const algorithm = sequence(objectIdentifier(SHA256_WITH_RSA), tlv(0x05))
+  const serial = crypto.getRandomValues(new Uint8Array(16))
+  serial[0] &= 0x7f
+  const notBefore = new Date()
+  const notAfter = new Date(notBefore)
+  notAfter.setUTCFullYear(notAfter.getUTCFullYear() + years)
+  const spki = new Uint8Array(await crypto.subtle.exportKey("spki", keys.publicKey))
+  const tbs = sequence(
+    tlv(0xa0, integer(new Uint8Array([2]))),
+    integer(serial),
+    algorithm,
+    name(commonName),
+    sequence(time(notBefore), time(notAfter)),
+    name(commonName),
+    spki,
+  )
+  const signature = await crypto.subtle.sign(RSA_SHA256, keys.privateKey, tbs)
+  return toBase64(
+    sequence(tbs, algorithm, tlv(0x03, new Uint8Array([0]), new Uint8Array(signature))),
+  )
+}
+
+/** The DER element at `offset`: its tag, where its content starts and where it ends. */
+function readElement(der: Uint8Array, offset: number) {
+  const tag = der[offset]
+  let length = der[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const octets = length & 0x7f
+    length = 0
+    for (let i = 0; i < octets; i++) length = (length << 8) | der[start + i]
+    start += octets
+  }
+  if (start + length > der.length) throw new Error("Truncated DER.")
+  return { tag, offset, start, end: start + length }
+}
+
+/** The DER bytes of a PEM certificate, or of its bare base64 body. */
+export function certificateDer(pem: string) {
+  return fromBase64(pem.replace(/-----(BEGIN|END) CERTIFICATE-----/g, ""))
+}
+
+/**
+ * The RSA public key of a certificate, for verifying RSA-SHA256 signatures.
+ * Throws if the certificate can't be read or doesn't hold an RSA key.
+ */
+export async function certificatePublicKey(pem: string) {
+  const der = certificateDer(pem)
+  const certificate = readElement(der, 0)
+  const tbs = readElement(der, certificate.start)
+  let field = readElement(der, tbs.start)
+  // Skip the optional [0] version, then serial, signature, issuer, validity, subject.
+  if (field.tag === 0xa0) field = readElement(der, field.end)
+  for (let i = 0; i < 5; i++) field = readElement(der, field.end)
+  const spki = der.slice(field.offset, field.end)
+  return crypto.subtle.importKey("spki", spki, RSA_SHA256, false, ["verify"])
+}
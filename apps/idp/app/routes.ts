@@ -4,25 +4,99 @@ export default [
   route("login", "routes/login.tsx"),
   route("login/verify", "routes/login.verify.tsx"),
   route("consent", "routes/consent.tsx"),
+  route("denied", "routes/denied.tsx"),
+  route("mfa", "routes/mfa.tsx"),
+  route("invite/:token", "routes/invite.tsx"),
+  route("impersonation/stop", "routes/impersonation.stop.ts"),
+  route("logout", "routes/logout.ts"),
+  route("logout/:id", "routes/logout.$id.tsx"),
+  route("device", "routes/device.tsx"),
+  route("avatars/:userId/:file", "routes/avatars.ts"),
   route("auth/*", "routes/auth/auth.$.ts"),
 
+  // Discovery at the basePath too, ahead of auth/*, so plugin hooks apply.
+  route("auth/.well-known/openid-configuration", "routes/well-known/openid.ts", {
+    id: "well-known-openid-base",
+  }),
   // RFC 8414 root-level metadata (issuer path suffixed), proxied to basePath.
   route(".well-known/oauth-authorization-server/auth", "routes/well-known/oauth-as.ts"),
   route(".well-known/openid-configuration/auth", "routes/well-known/openid.ts"),
 
-  // Authenticated console at the root. Admins see Applications + Users;
-  // everyone gets Account. Logged-out visitors are redirected to /login.
+  // RFC 7591/7592 client registration, in place of oauth-provider's own.
+  route("auth/oauth2/register", "routes/auth/register.ts"),
+  route("auth/oauth2/register/:clientId", "routes/auth/register.$clientId.ts"),
+
+  // Authenticated console at the root. Superadmins see every application +
+  // Users; app admins/members see their applications; everyone gets Account.
+  // Logged-out visitors are redirected to /login.
   route("", "routes/app/layout.tsx", [
     index("routes/app/applications.tsx"),
     route("apps/:clientId", "routes/app/app-detail.tsx"),
+    route("apps/:clientId/activity", "routes/app/app-activity.tsx"),
     route("users", "routes/app/users.tsx"),
+    route("signing-keys", "routes/app/signing-keys.tsx"),
+    route("lockouts", "routes/app/lockouts.tsx"),
     route("account", "routes/app/account.tsx"),
   ]),
 
-  // Management API (Bearer ADMIN_API_TOKEN) + OpenAPI docs.
+  // Management API (Bearer API key) + OpenAPI docs.
   route("api/v1/applications", "routes/api/applications.ts"),
+  route("api/v1/applications/:clientId", "routes/api/applications.$clientId.ts"),
+  route("api/v1/applications/:clientId/secret", "routes/api/applications.$clientId.secret.ts"),
+  route(
+    "api/v1/applications/:clientId/client-credentials",
+    "routes/api/applications.$clientId.client-credentials.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/permissions",
+    "routes/api/applications.$clientId.permissions.ts",
+  ),
+  route("api/v1/applications/:clientId/members", "routes/api/applications.$clientId.members.ts"),
+  route(
+    "api/v1/applications/:clientId/members/:userId",
+    "routes/api/applications.$clientId.members.$userId.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/workspaces",
+    "routes/api/applications.$clientId.workspaces.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/workspaces/:workspaceId",
+    "routes/api/applications.$clientId.workspaces.$workspaceId.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/api-keys",
+    "routes/api/applications.$clientId.api-keys.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/api-keys/:keyId",
+    "routes/api/applications.$clientId.api-keys.$keyId.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/metadata-schema",
+    "routes/api/applications.$clientId.metadata-schema.ts",
+  ),
+  route(
+    "api/v1/applications/:clientId/users/:userId/metadata",
+    "routes/api/applications.$clientId.users.$userId.metadata.ts",
+  ),
   route("api/v1/users", "routes/api/users.ts"),
+  route("api/v1/audit", "routes/api/audit.ts"),
   route("api/v1/workspaces", "routes/api/workspaces.ts"),
   route("api/openapi.json", "routes/api/openapi.ts"),
   route("api/docs", "routes/api/docs.tsx"),
+
+  // SAML 2.0 identity provider (see lib/saml.server.ts).
+  route("saml/metadata", "routes/saml/metadata.ts"),
+  route("saml/sso", "routes/saml/sso.ts"),
+  route("saml/continue/:requestId", "routes/saml/continue.$requestId.ts"),
+
+  // SCIM 2.0 provisioning, per application (see lib/scim.server.ts).
+  route("scim/v2/:clientId/Users", "routes/scim/users.ts"),
+  route("scim/v2/:clientId/Users/:userId", "routes/scim/users.$userId.ts"),
+  route("scim/v2/:clientId/Groups", "routes/scim/groups.ts"),
+  route("scim/v2/:clientId/Groups/:groupId", "routes/scim/groups.$groupId.ts"),
+  route("scim/v2/:clientId/ServiceProviderConfig", "routes/scim/service-provider-config.ts"),
+  route("scim/v2/:clientId/ResourceTypes", "routes/scim/resource-types.ts"),
+  route("scim/v2/:clientId/Schemas", "routes/scim/schemas.ts"),
 ] satisfies RouteConfig
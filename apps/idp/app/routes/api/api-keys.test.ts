@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+
+import * as apiKey from "./applications.$clientId.api-keys.$keyId"
+import * as apiKeys from "./applications.$clientId.api-keys"
+import * as applications from "./applications"
+import * as member from "./applications.$clientId.members.$userId"
+import { createApplication, grantAppMember } from "~/lib/admin.server"
+import { authenticateApiKey, createApiKey } from "~/lib/api-keys.server"
+import type { AppPermission } from "~/lib/permissions"
+import {
+  apiRequest,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  type TestContext,
+} from "~/lib/testing"
+
+let ctx: TestContext
+let clientId: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+})
+
+async function mint(permissions: AppPermission[], applicationId: string | null = "acme") {
+  const { key } = await createApiKey(ctx, {
+    applicationId,
+    name: "test",
+    permissions,
+    ownerUserId: null,
+    expiresAt: null,
+  })
+  return key
+}
+
+function call(
+  handler: (args: never) => Promise<unknown>,
+  method: string,
+  key: string,
+  params: Record<string, string>,
+  body?: unknown,
+) {
+  return respond(handler(routeArgs(loadContext(ctx), apiRequest(method, key, body), params)))
+}
+
+describe("API keys", () => {
+  it("scope an app key to its application and permissions", async () => {
+    const principal = await authenticateApiKey(ctx, await mint(["member:read"]))
+    expect(principal?.can("acme", "member:read")).toBe(true)
+    expect(principal?.can("acme", "member:invite")).toBe(false)
+    expect(principal?.can("other", "member:read")).toBe(false)
+  })
+
+  it("let IdP-wide keys do everything", async () => {
+    const principal = await authenticateApiKey(ctx, await mint([], null))
+    expect(principal?.can("anything", "member:admin")).toBe(true)
+  })
+
+  it("stop working once revoked or expired", async () => {
+    const key = await mint(["apikey:revoke", "apikey:read"])
+    const listed = await json(await call(apiKeys.loader, "GET", key, { clientId }))
+    const keyId = listed.apiKeys[0].id
+    expect((await call(apiKey.action, "DELETE", key, { clientId, keyId })).status).toBe(204)
+    expect(await authenticateApiKey(ctx, key)).toBeNull()
+
+    const { key: expired } = await createApiKey(ctx, {
+      applicationId: "acme",
+      name: "old",
+      permissions: ["app:read"],
+      ownerUserId: null,
+      expiresAt: new Date(Date.now() - 1000),
+    })
+    expect(await authenticateApiKey(ctx, expired)).toBeNull()
+  })
+
+  it("can't mint keys stronger than themselves", async () => {
+    const key = await mint(["apikey:create", "member:read"])
+    const stronger = await call(
+      apiKeys.action,
+      "POST",
+      key,
+      { clientId },
+      { name: "more", permissions: ["member:read", "member:remove"] },
+    )
+    expect(stronger.status).toBe(403)
+    const weaker = await call(
+      apiKeys.action,
+      "POST",
+      key,
+      { clientId },
+      { name: "same", permissions: ["member:read"] },
+    )
+    expect(weaker.status).toBe(201)
+  })
+})
+
+describe("granting members with a key", () => {
+  it("can't grant permissions the key lacks", async () => {
+    const key = await mint(["member:invite", "member:read"])
+    const userId = createUser(ctx)
+    const grant = (permissions: AppPermission[]) =>
+      call(member.action, "PUT", key, { clientId, userId }, { role: "member", permissions })
+
+    expect((await grant(["member:read", "apikey:create"])).status).toBe(403)
+    expect((await grant(["member:read"])).status).toBe(200)
+  })
+
+  it("needs member:admin to make, change or remove admins", async () => {
+    const inviter = await mint(["member:invite", "member:remove", "member:read"])
+    const userId = createUser(ctx)
+    const promote = (key: string) =>
+      call(member.action, "PUT", key, { clientId, userId }, { role: "admin" })
+
+    expect((await promote(inviter)).status).toBe(403)
+    expect((await promote(await mint(["member:invite", "member:admin"]))).status).toBe(200)
+    expect((await promote(await mint([], null))).status).toBe(200)
+
+    const demote = await call(
+      member.action,
+      "PUT",
+      inviter,
+      { clientId, userId },
+      { role: "member", permissions: ["member:read"] },
+    )
+    expect(demote.status).toBe(403)
+    expect((await call(member.action, "DELETE", inviter, { clientId, userId })).status).toBe(403)
+
+    const memberId = createUser(ctx)
+    await grantAppMember(ctx, "acme", memberId, { role: "member", permissions: ["app:read"] })
+    const removed = await call(member.action, "DELETE", inviter, { clientId, userId: memberId })
+    expect(removed.status).toBe(204)
+  })
+})
+
+describe("the deprecated ADMIN_API_TOKEN", () => {
+  beforeEach(() => {
+    vi.stubEnv("ADMIN_API_TOKEN", "legacy-token")
+  })
+  afterEach(() => {
+    vi.unstubAllEnvs()
+  })
+
+  it("still reads the IdP-wide endpoints", async () => {
+    const res = await call(applications.loader, "GET", "legacy-token", {})
+    expect(res.status).toBe(200)
+    expect((await json(res)).applications).toHaveLength(1)
+  })
+
+  it("can't write", async () => {
+    const res = await call(applications.action, "POST", "legacy-token", {}, { name: "A", app: "a" })
+    expect(res.status).toBe(403)
+  })
+
+  it("isn't accepted once unset", async () => {
+    vi.stubEnv("ADMIN_API_TOKEN", undefined)
+    expect((await call(applications.loader, "GET", "legacy-token", {})).status).toBe(401)
+  })
+})
@@ -0,0 +1,15 @@
+import type { Route } from "./+types/applications.$clientId.api-keys.$keyId"
+import { requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { revokeApiKey } from "~/lib/api-keys.server"
+import { apiError, methodNotAllowed, requireApplication } from "~/lib/api.server"
+
+/** DELETE revokes the key. Revoked keys stay listed for the record. */
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "DELETE") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "apikey:revoke")
+  const revoked = await revokeApiKey(context, app, params.keyId)
+  if (!revoked) return apiError(404, "not_found", "No live key with that id in this application.")
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,42 @@
+import type { Route } from "./+types/applications.$clientId.api-keys"
+import { requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { createApiKey, expiresAfterDays, listApiKeys } from "~/lib/api-keys.server"
+import {
+  apiError,
+  methodNotAllowed,
+  readJsonBody,
+  requireApplication,
+  serializeApiKey,
+} from "~/lib/api.server"
+import { CreateApiKeySchema } from "~/lib/api-schemas"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "apikey:read")
+  const apiKeys = await listApiKeys(context, app)
+  return Response.json({ apiKeys: apiKeys.map(serializeApiKey) })
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "POST") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "apikey:create")
+
+  const input = await readJsonBody(request, CreateApiKeySchema)
+  // A key can't mint a key stronger than itself.
+  const excess = input.permissions.filter((p) => !principal.can(app, p))
+  if (excess.length > 0) {
+    return apiError(403, "forbidden", `Key can't grant ${excess.join(", ")}.`)
+  }
+
+  const created = await createApiKey(context, {
+    applicationId: app,
+    name: input.name,
+    permissions: input.permissions,
+    ownerUserId: null,
+    expiresAt: expiresAfterDays(input.expiresInDays),
+  })
+  return Response.json(created, { status: 201 })
+}
@@ -0,0 +1,27 @@
+import type { Route } from "./+types/applications.$clientId.client-credentials"
+import { requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { ClientCredentialsGrantSchema } from "~/lib/api-schemas"
+import {
+  getClientCredentialsGrant,
+  setClientCredentialsGrant,
+} from "~/lib/client-credentials.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { clientId, app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:read")
+  return Response.json(await getClientCredentialsGrant(context, clientId))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "PUT") methodNotAllowed()
+  const { clientId, app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:update")
+
+  const input = await readJsonBody(request, ClientCredentialsGrantSchema)
+  const saved = await setClientCredentialsGrant(context, clientId, app, input)
+  if ("error" in saved) return apiError(400, "invalid_request", saved.error)
+  return Response.json(saved.grant)
+}
@@ -0,0 +1,55 @@
+import type { Route } from "./+types/applications.$clientId.members.$userId"
+import {
+  getAppMemberRole,
+  getUser,
+  grantAppMember,
+  requireApiKey,
+  requireApiPermission,
+  revokeAppMember,
+} from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { GrantAppMemberSchema } from "~/lib/api-schemas"
+
+/**
+ * PUT grants (or replaces) a user's app role + permissions; DELETE revokes it.
+ * Like minting keys, a key can't grant more than it holds, and only keys with
+ * member:admin (IdP-wide keys hold it) make, change or remove admins.
+ */
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+
+  switch (request.method) {
+    case "PUT": {
+      requireApiPermission(principal, app, "member:invite")
+      const grant = await readJsonBody(request, GrantAppMemberSchema)
+      const user = await getUser(context, params.userId)
+      if (!user) return apiError(404, "not_found", "User not found.")
+      const current = await getAppMemberRole(context, app, user.id)
+      if (grant.role === "admin" || current === "admin")
+        requireApiPermission(principal, app, "member:admin")
+      const excess = grant.permissions.filter((p) => !principal.can(app, p))
+      if (grant.role === "member" && excess.length > 0) {
+        return apiError(403, "forbidden", `Key can't grant ${excess.join(", ")}.`)
+      }
+      await grantAppMember(context, app, user.id, grant)
+      return Response.json({
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        role: grant.role,
+        permissions: grant.role === "admin" ? [] : grant.permissions,
+      })
+    }
+    case "DELETE": {
+      requireApiPermission(principal, app, "member:remove")
+      if ((await getAppMemberRole(context, app, params.userId)) === "admin")
+        requireApiPermission(principal, app, "member:admin")
+      const removed = await revokeAppMember(context, app, params.userId)
+      if (!removed) return apiError(404, "not_found", "User isn't a member of this application.")
+      return new Response(null, { status: 204 })
+    }
+    default:
+      methodNotAllowed()
+  }
+}
@@ -0,0 +1,13 @@
+import type { Route } from "./+types/applications.$clientId.members"
+import { listAppMembers, requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { requireApplication } from "~/lib/api.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "member:read")
+  const members = await listAppMembers(context, app)
+  return Response.json({
+    members: members.map((m) => ({ ...m, permissions: m.permissions ?? [] })),
+  })
+}
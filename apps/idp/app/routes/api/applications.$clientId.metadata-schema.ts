@@ -0,0 +1,34 @@
+import type { Route } from "./+types/applications.$clientId.metadata-schema"
+import { requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { UserMetadataConfigSchema } from "~/lib/api-schemas"
+import {
+  compileMetadataSchema,
+  getUserMetadataConfig,
+  setUserMetadataConfig,
+} from "~/lib/user-metadata.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:read")
+  return Response.json(await getUserMetadataConfig(context, app))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "PUT") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:update")
+
+  const config = await readJsonBody(request, UserMetadataConfigSchema)
+  if (config.jsonSchema) {
+    try {
+      compileMetadataSchema(config.jsonSchema)
+    } catch (e) {
+      return apiError(400, "invalid_schema", e instanceof Error ? e.message : undefined)
+    }
+  }
+  await setUserMetadataConfig(context, app, config)
+  return Response.json(config)
+}
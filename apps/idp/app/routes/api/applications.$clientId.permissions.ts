@@ -0,0 +1,23 @@
+import type { Route } from "./+types/applications.$clientId.permissions"
+import { requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { PermissionCatalogSchema } from "~/lib/api-schemas"
+import { getPermissionCatalog, setPermissionCatalog } from "~/lib/permission-catalog.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:read")
+  return Response.json(await getPermissionCatalog(context, app))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "PUT") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:update")
+
+  const catalog = await readJsonBody(request, PermissionCatalogSchema)
+  await setPermissionCatalog(context, app, catalog)
+  return Response.json(catalog)
+}
@@ -0,0 +1,12 @@
+import type { Route } from "./+types/applications.$clientId.secret"
+import { requireApiKey, requireApiPermission, rotateApplicationSecret } from "~/lib/admin.server"
+import { methodNotAllowed, requireApplication } from "~/lib/api.server"
+
+/** POST rotates the client secret. The old one stops working immediately. */
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "POST") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "app:update")
+  return Response.json(await rotateApplicationSecret(context, params.clientId))
+}
@@ -0,0 +1,43 @@
+import type { Route } from "./+types/applications.$clientId"
+import {
+  deleteApplication,
+  getApplication,
+  requireApiKey,
+  requireApiPermission,
+  updateApplication,
+} from "~/lib/admin.server"
+import {
+  methodNotAllowed,
+  readJsonBody,
+  requireApplication,
+  serializeApplication,
+} from "~/lib/api.server"
+import { UpdateApplicationSchema } from "~/lib/api-schemas"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const application = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, application.app, "app:read")
+  return Response.json(serializeApplication(application))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+
+  switch (request.method) {
+    case "PATCH": {
+      requireApiPermission(principal, app, "app:update")
+      const update = await readJsonBody(request, UpdateApplicationSchema)
+      await updateApplication(context, params.clientId, update)
+      const application = await getApplication(context, params.clientId)
+      return Response.json(application && serializeApplication(application))
+    }
+    case "DELETE":
+      requireApiPermission(principal, app, "app:delete")
+      await deleteApplication(context, params.clientId)
+      return new Response(null, { status: 204 })
+    default:
+      methodNotAllowed()
+  }
+}
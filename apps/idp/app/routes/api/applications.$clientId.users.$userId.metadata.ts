@@ -0,0 +1,49 @@
+import type { Route } from "./+types/applications.$clientId.users.$userId.metadata"
+import { getUser, requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { UserMetadataObjectSchema } from "~/lib/api-schemas"
+import {
+  getUserMetadata,
+  MetadataError,
+  patchUserMetadata,
+  putUserMetadata,
+} from "~/lib/user-metadata.server"
+
+function serialize(userId: string, m: { data: Record<string, unknown>; updatedAt: Date | null }) {
+  return Response.json({ userId, data: m.data, updatedAt: m.updatedAt?.toISOString() ?? null })
+}
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "metadata:read")
+  const user = await getUser(context, params.userId)
+  if (!user) return apiError(404, "not_found", "User not found.")
+  return serialize(user.id, await getUserMetadata(context, app, user.id))
+}
+
+/** PUT replaces the user's metadata for this app; PATCH merge-patches it (RFC 7396). */
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "PUT" && request.method !== "PATCH") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "metadata:write")
+
+  const body = await readJsonBody(request, UserMetadataObjectSchema)
+  const user = await getUser(context, params.userId)
+  if (!user) return apiError(404, "not_found", "User not found.")
+  try {
+    const stored =
+      request.method === "PUT"
+        ? await putUserMetadata(context, app, user.id, body)
+        : await patchUserMetadata(context, app, user.id, body)
+    return serialize(user.id, stored)
+  } catch (e) {
+    if (!(e instanceof MetadataError)) throw e
+    if (e.kind === "too_large") return apiError(413, "payload_too_large", e.message)
+    return Response.json(
+      { error: "schema_violation", message: e.message, issues: e.issues },
+      { status: 422 },
+    )
+  }
+}
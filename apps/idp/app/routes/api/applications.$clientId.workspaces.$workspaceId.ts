@@ -0,0 +1,13 @@
+import type { Route } from "./+types/applications.$clientId.workspaces.$workspaceId"
+import { deleteWorkspace, requireApiKey, requireApiPermission } from "~/lib/admin.server"
+import { apiError, methodNotAllowed, requireApplication } from "~/lib/api.server"
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "DELETE") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "workspace:delete")
+  const removed = await deleteWorkspace(context, app, params.workspaceId)
+  if (!removed) return apiError(404, "not_found", "Workspace not found in this application.")
+  return new Response(null, { status: 204 })
+}
@@ -0,0 +1,51 @@
+import type { Route } from "./+types/applications.$clientId.workspaces"
+import {
+  createWorkspace,
+  getUser,
+  listWorkspacesForApp,
+  requireApiKey,
+  requireApiPermission,
+} from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, requireApplication } from "~/lib/api.server"
+import { CreateWorkspaceSchema } from "~/lib/api-schemas"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "workspace:read")
+  const workspaces = await listWorkspacesForApp(context, app)
+  return Response.json({
+    workspaces: workspaces.map((w) => ({
+      ...w,
+      applicationId: app,
+      createdAt: new Date(w.createdAt).toISOString(),
+    })),
+  })
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "POST") methodNotAllowed()
+  const { app } = await requireApplication(context, params.clientId)
+  requireApiPermission(principal, app, "workspace:create")
+
+  const input = await readJsonBody(request, CreateWorkspaceSchema)
+  if (!(await getUser(context, input.ownerUserId))) {
+    return apiError(400, "invalid_request", "ownerUserId doesn't match a user.")
+  }
+  try {
+    const workspace = await createWorkspace(context.services.auth, { ...input, applicationId: app })
+    return Response.json(
+      {
+        id: workspace.id,
+        name: workspace.name,
+        slug: workspace.slug,
+        applicationId: app,
+        createdAt: new Date(workspace.createdAt).toISOString(),
+      },
+      { status: 201 },
+    )
+  } catch (e) {
+    return apiError(409, "conflict", e instanceof Error ? e.message : "Couldn't create workspace.")
+  }
+}
@@ -0,0 +1,169 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as application from "./applications.$clientId"
+import * as applications from "./applications"
+import * as member from "./applications.$clientId.members.$userId"
+import * as members from "./applications.$clientId.members"
+import * as secret from "./applications.$clientId.secret"
+import * as workspace from "./applications.$clientId.workspaces.$workspaceId"
+import * as workspaces from "./applications.$clientId.workspaces"
+import { createApiKey } from "~/lib/api-keys.server"
+import type { AppPermission } from "~/lib/permissions"
+import {
+  apiRequest,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  type TestContext,
+} from "~/lib/testing"
+
+let ctx: TestContext
+let globalKey: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  globalKey = (await apiKey(null, [])).key
+})
+
+function apiKey(applicationId: string | null, permissions: AppPermission[]) {
+  return createApiKey(ctx, {
+    applicationId,
+    name: "test",
+    permissions,
+    ownerUserId: null,
+    expiresAt: null,
+  })
+}
+
+function call(
+  handler: (args: never) => Promise<unknown>,
+  method: string,
+  params: Record<string, string> = {},
+  body?: unknown,
+  key = globalKey,
+) {
+  const request = apiRequest(method, key, body)
+  return respond(handler(routeArgs(loadContext(ctx), request, params)))
+}
+
+async function createApp(app = "acme") {
+  const res = await call(
+    applications.action,
+    "POST",
+    {},
+    {
+      name: "Acme",
+      app,
+      redirectUris: ["https://acme.test/callback"],
+    },
+  )
+  expect(res.status).toBe(201)
+  return (await json(res)) as { clientId: string; clientSecret: string }
+}
+
+describe("management API", () => {
+  it("rejects requests without a live key", async () => {
+    const res = await call(applications.loader, "GET", {}, undefined, "idp_nope")
+    expect(res.status).toBe(401)
+  })
+
+  it("creates, lists, updates and deletes applications", async () => {
+    const { clientId, clientSecret } = await createApp()
+    expect(clientSecret).toBeTruthy()
+
+    const listed = await json(await call(applications.loader, "GET"))
+    expect(listed.applications.map((a: { clientId: string }) => a.clientId)).toEqual([clientId])
+
+    const patched = await call(
+      application.action,
+      "PATCH",
+      { clientId },
+      {
+        redirectUris: ["https://acme.test/new"],
+      },
+    )
+    expect((await json(patched)).redirectUris).toEqual(["https://acme.test/new"])
+
+    const rotated = await json(await call(secret.action, "POST", { clientId }))
+    expect(rotated.clientSecret).not.toBe(clientSecret)
+
+    expect((await call(application.action, "DELETE", { clientId })).status).toBe(204)
+    expect((await call(application.loader, "GET", { clientId })).status).toBe(404)
+  })
+
+  it("validates bodies against the schemas", async () => {
+    const res = await call(applications.action, "POST", {}, { name: "", app: "x" })
+    expect(res.status).toBe(400)
+    expect((await json(res)).error).toBe("invalid_request")
+  })
+
+  it("refuses a taken app key", async () => {
+    await createApp()
+    const res = await call(
+      applications.action,
+      "POST",
+      {},
+      {
+        name: "Other",
+        app: "acme",
+        redirectUris: ["https://other.test/callback"],
+      },
+    )
+    expect(res.status).toBe(409)
+  })
+
+  it("leaves creating applications to IdP-wide keys", async () => {
+    const scoped = await apiKey("acme", ["app:read"])
+    const res = await call(applications.action, "POST", {}, { name: "A", app: "b" }, scoped.key)
+    expect(res.status).toBe(403)
+  })
+
+  it("creates and deletes workspaces within an application", async () => {
+    const { clientId } = await createApp()
+    const owner = createUser(ctx)
+    const created = await call(
+      workspaces.action,
+      "POST",
+      { clientId },
+      {
+        name: "Team",
+        slug: "team",
+        ownerUserId: owner,
+      },
+    )
+    expect(created.status).toBe(201)
+    const { id } = await json(created)
+
+    const listed = await json(await call(workspaces.loader, "GET", { clientId }))
+    expect(listed.workspaces.map((w: { id: string }) => w.id)).toEqual([id])
+
+    const other = await createApp("other")
+    const elsewhere = await call(workspace.action, "DELETE", {
+      clientId: other.clientId,
+      workspaceId: id,
+    })
+    expect(elsewhere.status).toBe(404)
+    expect((await call(workspace.action, "DELETE", { clientId, workspaceId: id })).status).toBe(204)
+  })
+
+  it("grants and revokes application members", async () => {
+    const { clientId } = await createApp()
+    const userId = createUser(ctx)
+    const granted = await call(
+      member.action,
+      "PUT",
+      { clientId, userId },
+      { role: "member", permissions: ["member:read"] },
+    )
+    expect(await json(granted)).toMatchObject({ role: "member", permissions: ["member:read"] })
+
+    const listed = await json(await call(members.loader, "GET", { clientId }))
+    expect(listed.members).toMatchObject([{ userId, role: "member" }])
+
+    expect((await call(member.action, "DELETE", { clientId, userId })).status).toBe(204)
+    expect((await call(member.action, "DELETE", { clientId, userId })).status).toBe(404)
+  })
+})
@@ -1,10 +1,42 @@
 import type { Route } from "./+types/applications"
-import { listApplications, requireAdminToken } from "~/lib/admin.server"
+import {
+  createApplication,
+  findApplicationByApp,
+  getUser,
+  listApplications,
+  requireApiKey,
+  requireGlobalApiKey,
+} from "~/lib/admin.server"
+import { apiError, methodNotAllowed, readJsonBody, serializeApplication } from "~/lib/api.server"
+import { CreateApplicationSchema } from "~/lib/api-schemas"
 
+/** IdP-wide keys see every application; app keys see their own (given app:read). */
 export async function loader({ request, context }: Route.LoaderArgs) {
-  requireAdminToken(request, context)
-  const applications = await listApplications(context)
-  return Response.json({
-    applications: applications.map((a) => ({ ...a, createdAt: a.createdAt.toISOString() })),
+  const principal = await requireApiKey(request, context)
+  const applications = (await listApplications(context)).filter(
+    (a) => principal.applicationId === null || (!!a.app && principal.can(a.app, "app:read")),
+  )
+  return Response.json({ applications: applications.map(serializeApplication) })
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const principal = await requireApiKey(request, context)
+  if (request.method !== "POST") methodNotAllowed()
+  requireGlobalApiKey(principal)
+
+  const input = await readJsonBody(request, CreateApplicationSchema)
+  if (await findApplicationByApp(context, input.app)) {
+    return apiError(409, "conflict", `The app key "${input.app}" is already taken.`)
+  }
+  if (input.adminUserId && !(await getUser(context, input.adminUserId))) {
+    return apiError(400, "invalid_request", "adminUserId doesn't match a user.")
+  }
+
+  const created = await createApplication(context, {
+    name: input.name,
+    app: input.app,
+    redirectUris: input.redirectUris,
+    creatorUserId: input.adminUserId,
   })
+  return Response.json(created, { status: 201 })
 }
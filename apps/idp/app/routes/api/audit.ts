@@ -0,0 +1,28 @@
+import type { Route } from "./+types/audit"
+import { requireApiKey, requireApiPermission, requireGlobalApiKey } from "~/lib/admin.server"
+import { requireApplication } from "~/lib/api.server"
+import { listAuditEvents, parseAuditCursor } from "~/lib/audit.server"
+
+/**
+ * Pages through the audit trail, newest first. `?clientId=` narrows it to one
+ * application (needs audit:read there); without it the whole IdP, which needs
+ * an IdP-wide key.
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const principal = await requireApiKey(request, context)
+  const params = new URL(request.url).searchParams
+  const clientId = params.get("clientId")
+  const page = {
+    before: parseAuditCursor(params.get("before")),
+    limit: Number(params.get("limit")) || undefined,
+  }
+
+  if (!clientId) {
+    requireGlobalApiKey(principal)
+    return Response.json(await listAuditEvents(context, page))
+  }
+
+  const { app } = await requireApplication(context, clientId)
+  requireApiPermission(principal, app, "audit:read")
+  return Response.json(await listAuditEvents(context, { ...page, application: { app, clientId } }))
+}
@@ -0,0 +1,127 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as metadataSchema from "./applications.$clientId.metadata-schema"
+import * as metadata from "./applications.$clientId.users.$userId.metadata"
+import { createApplication } from "~/lib/admin.server"
+import { createApiKey } from "~/lib/api-keys.server"
+import type { AppPermission } from "~/lib/permissions"
+import {
+  apiRequest,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  type TestContext,
+} from "~/lib/testing"
+import {
+  metadataClaimsFor,
+  METADATA_MAX_BYTES,
+  MetadataError,
+  patchOwnUserMetadata,
+  USER_METADATA_CLAIM,
+} from "~/lib/user-metadata.server"
+
+let ctx: TestContext
+let clientId: string
+let userId: string
+let key: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+  userId = createUser(ctx)
+  key = await mint(["app:read", "app:update", "metadata:read", "metadata:write"])
+})
+
+async function mint(permissions: AppPermission[]) {
+  const created = await createApiKey(ctx, {
+    applicationId: "acme",
+    name: "test",
+    permissions,
+    ownerUserId: null,
+    expiresAt: null,
+  })
+  return created.key
+}
+
+function call(
+  handler: (args: never) => Promise<unknown>,
+  method: string,
+  body?: unknown,
+  apiKey = key,
+) {
+  const request = apiRequest(method, apiKey, body)
+  return respond(handler(routeArgs(loadContext(ctx), request, { clientId, userId })))
+}
+
+const config = {
+  jsonSchema: {
+    type: "object",
+    properties: { plan: { enum: ["free", "pro"] }, seats: { type: "integer" } },
+  },
+  claimKeys: ["plan"],
+  userEditableKeys: ["nickname"],
+}
+
+describe("user metadata API", () => {
+  it("starts empty, then replaces and merge-patches", async () => {
+    expect(await json(await call(metadata.loader, "GET"))).toEqual({
+      userId,
+      data: {},
+      updatedAt: null,
+    })
+
+    await call(metadata.action, "PUT", { plan: "free", prefs: { theme: "dark", lang: "en" } })
+    const patched = await call(metadata.action, "PATCH", { prefs: { lang: null }, seats: 3 })
+    expect((await json(patched)).data).toEqual({ plan: "free", prefs: { theme: "dark" }, seats: 3 })
+  })
+
+  it("holds writes to the registered schema and size limit", async () => {
+    expect((await call(metadataSchema.action, "PUT", config)).status).toBe(200)
+
+    const invalid = await call(metadata.action, "PUT", { plan: "enterprise" })
+    expect(invalid.status).toBe(422)
+    expect((await json(invalid)).issues[0].path).toBe("plan")
+
+    const huge = await call(metadata.action, "PUT", { notes: "x".repeat(METADATA_MAX_BYTES) })
+    expect(huge.status).toBe(413)
+  })
+
+  it("refuses schemas it can't compile", async () => {
+    const res = await call(metadataSchema.action, "PUT", { ...config, jsonSchema: { type: 42 } })
+    expect(res.status).toBe(400)
+    expect((await json(res)).error).toBe("invalid_schema")
+  })
+
+  it("needs metadata:write to write", async () => {
+    const reader = await mint(["metadata:read"])
+    expect((await call(metadata.action, "PUT", { plan: "pro" }, reader)).status).toBe(403)
+  })
+})
+
+describe("user metadata claims and self-service", () => {
+  beforeEach(async () => {
+    await call(metadataSchema.action, "PUT", config)
+    await call(metadata.action, "PUT", { plan: "pro", seats: 5 })
+  })
+
+  it("surface only the claim keys", async () => {
+    expect(await metadataClaimsFor(ctx, "acme", userId)).toEqual({
+      [USER_METADATA_CLAIM]: { plan: "pro" },
+    })
+  })
+
+  it("let users change only the editable keys", async () => {
+    await expect(patchOwnUserMetadata(ctx, "acme", userId, { plan: "free" })).rejects.toThrow(
+      MetadataError,
+    )
+    const { data } = await patchOwnUserMetadata(ctx, "acme", userId, { nickname: "Ada" })
+    expect(data).toEqual({ plan: "pro", seats: 5, nickname: "Ada" })
+  })
+})
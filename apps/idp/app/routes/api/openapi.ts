@@ -2,26 +2,75 @@ import { z } from "zod"
 
 import type { Route } from "./+types/openapi"
 import {
+  ApiKeyListSchema,
+  AppMemberListSchema,
+  AppMemberSchema,
+  AuditPageSchema,
   ApplicationListSchema,
+  ApplicationSchema,
+  ClientCredentialsGrantSchema,
+  ClientCredentialsSchema,
+  CreateApiKeySchema,
+  CreateApplicationSchema,
+  CreatedApiKeySchema,
+  CreateWorkspaceSchema,
+  GrantAppMemberSchema,
+  PermissionCatalogSchema,
+  UpdateApplicationSchema,
   UserListSchema,
+  UserMetadataConfigSchema,
+  UserMetadataObjectSchema,
+  UserMetadataSchema,
   WorkspaceListSchema,
+  WorkspaceSchema,
 } from "~/lib/api-schemas"
 
-const json = (schema: z.ZodType) => z.toJSONSchema(schema)
+// Request bodies are documented as clients send them (before defaults apply).
+const json = (schema: z.ZodType, io: "input" | "output" = "output") =>
+  z.toJSONSchema(schema, { io })
 
-const bearerGet = (summary: string, responseSchema: z.ZodType) => ({
-  get: {
+const jsonContent = (schema: z.ZodType, io?: "input" | "output") => ({
+  "application/json": { schema: json(schema, io) },
+})
+
+const pathParams = (...names: string[]) =>
+  names.map((name) => ({ name, in: "path", required: true, schema: { type: "string" } }))
+
+const bearerOp = (
+  summary: string,
+  opts: {
+    body?: z.ZodType
+    response?: z.ZodType
+    status?: number
+    errors?: Record<string, string>
+  } = {},
+) => {
+  const status = opts.status ?? (opts.response ? 200 : 204)
+  return {
     summary,
     security: [{ bearerAuth: [] }],
+    ...(opts.body
+      ? { requestBody: { required: true, content: jsonContent(opts.body, "input") } }
+      : {}),
     responses: {
-      "200": {
-        description: "OK",
-        content: { "application/json": { schema: json(responseSchema) } },
-      },
-      "401": { description: "Missing or invalid bearer token" },
+      [status]: opts.response
+        ? { description: "OK", content: jsonContent(opts.response) }
+        : { description: "No content" },
+      ...(opts.body ? { "400": { description: "Invalid request body" } } : {}),
+      "401": { description: "Missing, revoked or expired API key" },
+      "403": { description: "API key lacks the required scope" },
+      ...Object.fromEntries(
+        Object.entries(opts.errors ?? {}).map(([code, description]) => [code, { description }]),
+      ),
     },
-  },
-})
+  }
+}
+
+const METADATA_WRITE_ERRORS = {
+  "404": "Unknown user",
+  "413": "Metadata exceeds 16 KiB",
+  "422": "Metadata violates the application's JSON Schema",
+}
 
 export async function loader({ context }: Route.LoaderArgs) {
   const baseUrl = context.getAppEnv("BETTER_AUTH_URL")
@@ -29,9 +78,9 @@ export async function loader({ context }: Route.LoaderArgs) {
     openapi: "3.1.0",
     info: {
       title: "willy.im IdP — Management API",
-      version: "1.0.0",
+      version: "2.0.0",
       description:
-        "Read-only management API for the willy.im identity provider. Authenticate with `Authorization: Bearer <ADMIN_API_TOKEN>`. Application registration is done in the admin console (better-auth ties client creation to an admin session).",
+        "Management API for the willy.im identity provider: provision applications, their workspaces, app-level members, API keys and per-user metadata, and read the audit trail of those changes. Authenticate with `Authorization: Bearer <api key>`. Keys are minted in the console: app keys carry explicit permissions (`app:update`, `member:invite`, …) on one application; IdP-wide keys (superadmins only) may do everything, including registering applications and listing users. Secrets are only ever returned by the create and rotate calls.",
     },
     servers: [{ url: baseUrl }],
     components: {
@@ -40,9 +89,133 @@ export async function loader({ context }: Route.LoaderArgs) {
       },
     },
     paths: {
-      "/api/v1/applications": bearerGet("List registered applications", ApplicationListSchema),
-      "/api/v1/users": bearerGet("List users", UserListSchema),
-      "/api/v1/workspaces": bearerGet("List workspaces", WorkspaceListSchema),
+      "/api/v1/applications": {
+        get: bearerOp("List registered applications", { response: ApplicationListSchema }),
+        post: bearerOp("Register an application", {
+          body: CreateApplicationSchema,
+          response: ClientCredentialsSchema,
+          status: 201,
+        }),
+      },
+      "/api/v1/applications/{clientId}": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("Get an application", { response: ApplicationSchema }),
+        patch: bearerOp("Update name or redirect URIs", {
+          body: UpdateApplicationSchema,
+          response: ApplicationSchema,
+        }),
+        delete: bearerOp("Delete an application"),
+      },
+      "/api/v1/applications/{clientId}/secret": {
+        parameters: pathParams("clientId"),
+        post: bearerOp("Rotate the client secret", { response: ClientCredentialsSchema }),
+      },
+      "/api/v1/applications/{clientId}/client-credentials": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("Get the client_credentials grant settings", {
+          response: ClientCredentialsGrantSchema,
+        }),
+        put: bearerOp("Replace the client_credentials grant settings", {
+          body: ClientCredentialsGrantSchema,
+          response: ClientCredentialsGrantSchema,
+        }),
+      },
+      "/api/v1/applications/{clientId}/permissions": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("Get the application's permission catalog", {
+          response: PermissionCatalogSchema,
+        }),
+        put: bearerOp("Replace the permission catalog (emitted as the permissions claim)", {
+          body: PermissionCatalogSchema,
+          response: PermissionCatalogSchema,
+        }),
+      },
+      "/api/v1/applications/{clientId}/members": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("List app admins and members", { response: AppMemberListSchema }),
+      },
+      "/api/v1/applications/{clientId}/members/{userId}": {
+        parameters: pathParams("clientId", "userId"),
+        put: bearerOp("Grant a role and permissions (admin needs member:admin)", {
+          body: GrantAppMemberSchema,
+          response: AppMemberSchema,
+        }),
+        delete: bearerOp("Revoke a member's access (an admin's needs member:admin)"),
+      },
+      "/api/v1/applications/{clientId}/workspaces": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("List the application's workspaces", { response: WorkspaceListSchema }),
+        post: bearerOp("Create a workspace", {
+          body: CreateWorkspaceSchema,
+          response: WorkspaceSchema,
+          status: 201,
+        }),
+      },
+      "/api/v1/applications/{clientId}/workspaces/{workspaceId}": {
+        parameters: pathParams("clientId", "workspaceId"),
+        delete: bearerOp("Delete a workspace"),
+      },
+      "/api/v1/applications/{clientId}/api-keys": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("List the application's API keys", { response: ApiKeyListSchema }),
+        post: bearerOp("Mint an app-scoped API key", {
+          body: CreateApiKeySchema,
+          response: CreatedApiKeySchema,
+          status: 201,
+        }),
+      },
+      "/api/v1/applications/{clientId}/api-keys/{keyId}": {
+        parameters: pathParams("clientId", "keyId"),
+        delete: bearerOp("Revoke an API key"),
+      },
+      "/api/v1/applications/{clientId}/metadata-schema": {
+        parameters: pathParams("clientId"),
+        get: bearerOp("Get the user metadata schema and claim keys", {
+          response: UserMetadataConfigSchema,
+        }),
+        put: bearerOp("Replace the user metadata schema and claim keys", {
+          body: UserMetadataConfigSchema,
+          response: UserMetadataConfigSchema,
+        }),
+      },
+      "/api/v1/applications/{clientId}/users/{userId}/metadata": {
+        parameters: pathParams("clientId", "userId"),
+        get: bearerOp("Read what the application stores about a user", {
+          response: UserMetadataSchema,
+        }),
+        put: bearerOp("Replace a user's metadata", {
+          body: UserMetadataObjectSchema,
+          response: UserMetadataSchema,
+          errors: METADATA_WRITE_ERRORS,
+        }),
+        patch: bearerOp("Merge-patch a user's metadata (RFC 7396)", {
+          body: UserMetadataObjectSchema,
+          response: UserMetadataSchema,
+          errors: METADATA_WRITE_ERRORS,
+        }),
+      },
+      "/api/v1/users": { get: bearerOp("List users", { response: UserListSchema }) },
+      "/api/v1/audit": {
+        parameters: [
+          {
+            name: "clientId",
+            in: "query",
+            description: "One application's changes (needs audit:read); omit for the whole IdP",
+            schema: { type: "string" },
+          },
+          {
+            name: "before",
+            in: "query",
+            description: "Cursor: `nextCursor` of the previous page",
+            schema: { type: "integer" },
+          },
+          { name: "limit", in: "query", schema: { type: "integer", minimum: 1, maximum: 100 } },
+        ],
+        get: bearerOp("Page through the audit trail, newest first", { response: AuditPageSchema }),
+      },
+      "/api/v1/workspaces": {
+        get: bearerOp("List workspaces across applications", { response: WorkspaceListSchema }),
+      },
     },
   }
   return Response.json(doc)
@@ -0,0 +1,192 @@
+import { beforeEach, describe, expect, it, vi } from "vitest"
+import type { AppLoadContext } from "react-router"
+
+import * as account from "./account"
+import * as avatars from "../avatars"
+import { createApplication } from "~/lib/admin.server"
+import { AVATAR_MAX_BYTES } from "~/lib/avatars.server"
+import {
+  authFetch,
+  basicAuth,
+  codeFlowTokens,
+  createTestContext,
+  createUser,
+  formPost,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  sessionCookie,
+  type TestContext,
+} from "~/lib/testing"
+
+let ctx: TestContext
+let context: AppLoadContext
+let userId: string
+let cookie: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  context = loadContext(ctx)
+  userId = createUser(ctx, { email: "ada@example.com", name: "Ada" })
+  cookie = await sessionCookie(ctx, userId)
+})
+
+const PNG = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+/** The user row as stored. */
+function stored() {
+  return ctx.sqlite.prepare("select name, email, image from user where id = ?").get(userId) as {
+    name: string
+    email: string
+    image: string | null
+  }
+}
+
+function submit(fields: Record<string, string | Blob>) {
+  const form = new FormData()
+  for (const [name, value] of Object.entries(fields)) form.set(name, value)
+  const request = new Request("http://localhost:5173/account", {
+    method: "POST",
+    headers: { cookie },
+    body: form,
+  })
+  return account.action(routeArgs(context, request))
+}
+
+function image(bytes: number[], type = "image/png", size = bytes.length) {
+  const body = new Uint8Array(size)
+  body.set(bytes)
+  return new File([body], "avatar", { type })
+}
+
+function page(as = cookie) {
+  const request = new Request("http://localhost:5173/account", { headers: { cookie: as } })
+  return account.loader(routeArgs(context, request))
+}
+
+async function avatarAt(url: string) {
+  const [, , userId, file] = new URL(url).pathname.split("/")
+  const request = new Request(url)
+  return respond(avatars.loader(routeArgs(context, request, { userId, file })))
+}
+
+describe("profile", () => {
+  it("updates the name", async () => {
+    expect(await submit({ intent: "update-name", name: "  Ada L.  " })).toEqual({ ok: "name" })
+    expect(stored().name).toBe("Ada L.")
+    expect(await submit({ intent: "update-name", name: " " })).toMatchObject({ field: "name" })
+  })
+
+  it("stores avatars by content and replaces the previous one", async () => {
+    expect(await submit({ intent: "upload-avatar", avatar: image(PNG) })).toEqual({ ok: "avatar" })
+    const first = stored().image!
+    expect(first).toMatch(/^http:\/\/localhost:5173\/avatars\/user-\d+\/[0-9a-f]{24}\.png$/)
+    const served = await avatarAt(first)
+    expect(served.headers.get("content-type")).toBe("image/png")
+    expect(served.headers.get("x-content-type-options")).toBe("nosniff")
+
+    await submit({ intent: "upload-avatar", avatar: image([...PNG, 1]) })
+    expect(stored().image).not.toBe(first)
+    expect((await avatarAt(first)).status).toBe(404)
+  })
+
+  it("only accepts raster images it recognizes, whatever they claim to be", async () => {
+    const html = image([...new TextEncoder().encode("<svg onload=alert(1)>")])
+    expect(await submit({ intent: "upload-avatar", avatar: html })).toMatchObject({
+      field: "avatar",
+    })
+    const huge = image(PNG, "image/png", AVATAR_MAX_BYTES + 1)
+    expect(await submit({ intent: "upload-avatar", avatar: huge })).toMatchObject({
+      field: "avatar",
+    })
+    expect(stored().image).toBeNull()
+  })
+})
+
+describe("email change", () => {
+  it("needs the code sent to the new address", async () => {
+    const info = vi.spyOn(ctx.logger, "info")
+    const requested = await submit({ intent: "request-email-change", newEmail: "Ada@New.test" })
+    expect(requested).toEqual({ emailChange: "ada@new.test" })
+    const line = info.mock.calls.map(([message]) => message).find((m) => m.includes("ada@new.test"))
+    const otp = line?.match(/: (\d+)$/)?.[1]
+    expect(otp).toBeTruthy()
+
+    const wrong = await submit({
+      intent: "confirm-email-change",
+      newEmail: "ada@new.test",
+      otp: "000000",
+    })
+    expect(wrong).toMatchObject({ field: "email", emailChange: "ada@new.test" })
+
+    await submit({ intent: "confirm-email-change", newEmail: "ada@new.test", otp: otp! })
+    expect(stored().email).toBe("ada@new.test")
+  })
+})
+
+describe("sessions", () => {
+  it("lists them, the current one first, and revokes another", async () => {
+    const other = await sessionCookie(ctx, userId)
+    const { sessions } = await page()
+    expect(sessions).toHaveLength(2)
+    expect(sessions[0]).toMatchObject({ current: true, device: "Unknown device" })
+    expect(sessions[0]).not.toHaveProperty("token")
+
+    expect(await submit({ intent: "revoke-session", sessionId: sessions[0].id })).toMatchObject({
+      field: "sessions",
+    })
+    expect(await submit({ intent: "revoke-session", sessionId: sessions[1].id })).toEqual({
+      ok: "sessions",
+    })
+    await expect(page(other)).rejects.toBeInstanceOf(Response)
+    expect((await page()).sessions).toHaveLength(1)
+  })
+
+  it("signs out everywhere else", async () => {
+    await sessionCookie(ctx, userId)
+    await sessionCookie(ctx, userId)
+    await submit({ intent: "revoke-other-sessions" })
+    expect((await page()).sessions.map((s) => s.current)).toEqual([true])
+  })
+})
+
+describe("connected apps", () => {
+  it("lists apps let in and disconnects them, refresh tokens and all", async () => {
+    const acme = await createApplication(ctx, {
+      name: "Acme",
+      app: "acme",
+      redirectUris: ["https://acme.test/callback"],
+    })
+    const tokens = await codeFlowTokens(ctx, {
+      cookie,
+      ...acme,
+      redirectUri: "https://acme.test/callback",
+      scope: "openid offline_access",
+    })
+    const { refresh_token } = await json(tokens)
+    expect(refresh_token).toBeTruthy()
+
+    expect((await page()).connectedApps).toEqual([
+      expect.objectContaining({
+        clientId: acme.clientId,
+        name: "Acme",
+        scopes: expect.arrayContaining(["openid", "offline_access"]),
+        refreshTokens: 1,
+      }),
+    ])
+
+    const disconnected = await submit({ intent: "disconnect-app", clientId: acme.clientId })
+    expect(disconnected).toEqual({ ok: "connectedApps" })
+    expect((await page()).connectedApps).toEqual([])
+    const refreshed = await authFetch(
+      ctx,
+      "/oauth2/token",
+      formPost(
+        { grant_type: "refresh_token", refresh_token },
+        basicAuth(acme.clientId, acme.clientSecret),
+      ),
+    )
+    expect(refreshed.status).toBe(400)
+  })
+})
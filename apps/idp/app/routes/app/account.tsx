@@ -1,29 +1,191 @@
-import { useEffect, useState } from "react"
-import { useNavigate } from "react-router"
-import { Fingerprint, Loader2, Plus, Trash2 } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { data, Form, useActionData, useNavigation, useSubmit } from "react-router"
+import { APIError } from "better-auth/api"
+import {
+  AppWindow,
+  Database,
+  Fingerprint,
+  Loader2,
+  Monitor,
+  Plus,
+  Trash2,
+  Upload,
+} from "lucide-react"
 
 import type { Route } from "./+types/account"
 import { requireSession } from "~/lib/admin.server"
 import { authClient } from "~/lib/auth-client"
+import { AVATAR_SIZE, AvatarError, deleteAvatar, saveAvatar } from "~/lib/avatars.server"
+import { disconnectApp, listConnectedApps } from "~/lib/connected-apps.server"
+import { findImpersonationBySession } from "~/lib/impersonation.server"
+import { hasMfa } from "~/lib/mfa.server"
+import {
+  listUserMetadataForUser,
+  MetadataError,
+  patchOwnUserMetadata,
+} from "~/lib/user-metadata.server"
+import { describeUserAgent } from "~/lib/user-agent"
+import { AvatarCropper } from "~/components/avatar-cropper"
+import { TwoFactorCard } from "~/components/two-factor"
+import { Badge } from "~/components/ui/badge"
 import { Button } from "~/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
 import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
 
 export function meta() {
   return [{ title: "Account · willy.im" }]
 }
 
 export async function loader({ request, context }: Route.LoaderArgs) {
-  const session = await requireSession(request, context, context.services.auth)
-  return { user: { name: session.user.name, email: session.user.email } }
+  const auth = context.services.auth
+  const session = await requireSession(request, context, auth)
+  // Tokens stay server-side; the page only needs to tell sessions apart.
+  const sessions = (await auth.api.listSessions({ headers: request.headers }))
+    .map((s) => ({
+      id: s.id,
+      device: describeUserAgent(s.userAgent),
+      ipAddress: s.ipAddress || null,
+      createdAt: s.createdAt,
+      lastActiveAt: s.updatedAt,
+      current: s.id === session.session.id,
+    }))
+    .sort((a, b) => Number(b.current) - Number(a.current) || +b.lastActiveAt - +a.lastActiveAt)
+  return {
+    user: { name: session.user.name, email: session.user.email, image: session.user.image ?? null },
+    appData: await listUserMetadataForUser(context, session.user.id),
+    twoFactor: { enabled: !!session.user.twoFactorEnabled, confirmed: hasMfa(session.session) },
+    sessions,
+    connectedApps: await listConnectedApps(context, session.user.id),
+  }
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const auth = context.services.auth
+  const session = await requireSession(request, context, auth)
+  // An impersonating admin sees the account read-only.
+  if (await findImpersonationBySession(context, session.session.id))
+    return { error: "Not available while impersonating.", field: "profile" }
+
+  const form = await request.formData()
+  const intent = form.get("intent")
+  const origin = new URL(request.url).origin
+  const storage = context.services.storage
+
+  try {
+    if (intent === "update-name") {
+      const name = String(form.get("name") ?? "").trim()
+      if (!name) return { error: "Enter a name.", field: "name" }
+      if (name.length > 100) return { error: "Keep it under 100 characters.", field: "name" }
+      await auth.api.updateUser({ body: { name }, headers: request.headers })
+      return { ok: "name" }
+    }
+
+    if (intent === "upload-avatar") {
+      const file = form.get("avatar")
+      if (!(file instanceof File)) return { error: "Choose an image first.", field: "avatar" }
+      const image = await saveAvatar(storage, origin, session.user.id, file)
+      await auth.api.updateUser({ body: { image }, headers: request.headers })
+      if (session.user.image !== image) await deleteAvatar(storage, origin, session.user.image)
+      return { ok: "avatar" }
+    }
+
+    if (intent === "remove-avatar") {
+      await auth.api.updateUser({ body: { image: null }, headers: request.headers })
+      await deleteAvatar(storage, origin, session.user.image)
+      return { ok: "avatar" }
+    }
+
+    if (intent === "request-email-change") {
+      const newEmail = String(form.get("newEmail") ?? "")
+        .trim()
+        .toLowerCase()
+      if (!newEmail) return { error: "Enter the new address.", field: "email" }
+      await auth.api.requestEmailChangeEmailOTP({ body: { newEmail }, headers: request.headers })
+      context.logger.info("account.email_change_requested", { userId: session.user.id })
+      return { emailChange: newEmail }
+    }
+
+    if (intent === "confirm-email-change") {
+      const newEmail = String(form.get("newEmail") ?? "")
+      const otp = String(form.get("otp") ?? "").trim()
+      const { headers } = await auth.api.changeEmailEmailOTP({
+        body: { newEmail, otp },
+        headers: request.headers,
+        returnHeaders: true,
+      })
+      context.logger.info("account.email_changed", { userId: session.user.id })
+      return data({ ok: "email" }, { headers })
+    }
+  } catch (e) {
+    if (e instanceof AvatarError) return { error: e.message, field: "avatar" }
+    if (!(e instanceof APIError)) throw e
+    const field = String(intent).includes("email") ? "email" : "profile"
+    const newEmail = intent === "confirm-email-change" ? String(form.get("newEmail")) : null
+    return { error: e.message || "Something went wrong.", field, emailChange: newEmail }
+  }
+
+  if (intent === "revoke-session") {
+    const id = String(form.get("sessionId") ?? "")
+    const target = (await auth.api.listSessions({ headers: request.headers })).find(
+      (s) => s.id === id,
+    )
+    if (!target || id === session.session.id)
+      return { error: "That session is already gone.", field: "sessions" }
+    await auth.api.revokeSession({ body: { token: target.token }, headers: request.headers })
+    context.logger.info("account.session_revoked", { userId: session.user.id })
+    return { ok: "sessions" }
+  }
+
+  if (intent === "revoke-other-sessions") {
+    await auth.api.revokeOtherSessions({ headers: request.headers })
+    context.logger.info("account.other_sessions_revoked", { userId: session.user.id })
+    return { ok: "sessions" }
+  }
+
+  if (intent === "disconnect-app") {
+    const clientId = String(form.get("clientId") ?? "")
+    await disconnectApp(context, session.user.id, clientId)
+    context.logger.info("account.app_disconnected", { userId: session.user.id, clientId })
+    return { ok: "connectedApps" }
+  }
+
+  if (intent === "update-app-data") {
+    const app = String(form.get("app") ?? "")
+    let patch: unknown
+    try {
+      patch = JSON.parse(String(form.get("data") ?? ""))
+    } catch {
+      return { error: "Enter valid JSON.", field: `app:${app}` }
+    }
+    if (typeof patch !== "object" || patch === null || Array.isArray(patch))
+      return { error: "Enter a JSON object.", field: `app:${app}` }
+    try {
+      await patchOwnUserMetadata(context, app, session.user.id, patch as Record<string, unknown>)
+    } catch (e) {
+      if (!(e instanceof MetadataError)) throw e
+      const issue = e.issues[0]
+      const detail = issue ? ` ${issue.path ? `${issue.path}: ` : ""}${issue.message}` : ""
+      return { error: `${e.message}${detail}`, field: `app:${app}` }
+    }
+    return { ok: app }
+  }
+
+  return { error: "Unknown action.", field: null }
 }
 
 type Passkey = { id: string; name?: string | null }
 
 export default function Account({ loaderData }: Route.ComponentProps) {
-  const { user } = loaderData
-  const navigate = useNavigate()
-  const [pending, setPending] = useState<null | "signout" | "add" | string>(null)
+  const { user, appData, twoFactor, sessions, connectedApps } = loaderData
+  const actionData = useActionData<typeof action>()
+  const nav = useNavigation()
+  const saving = nav.state !== "idle"
+  const signingOut = nav.formAction === "/logout"
+  const submit = useSubmit()
+  const picker = useRef<HTMLInputElement>(null)
+  const [avatarFile, setAvatarFile] = useState<File | null>(null)
+  const [pending, setPending] = useState<null | "add" | string>(null)
   const [error, setError] = useState<string | null>(null)
   const [name, setName] = useState("")
   const [passkeys, setPasskeys] = useState<Passkey[] | null>(null)
@@ -37,10 +199,21 @@ export default function Account({ loaderData }: Route.ComponentProps) {
     refreshPasskeys()
   }, [])
 
-  async function signOut() {
-    setPending("signout")
-    await authClient.signOut()
-    navigate("/login")
+  useEffect(() => {
+    if (actionData && "ok" in actionData && actionData.ok === "avatar") setAvatarFile(null)
+  }, [actionData])
+
+  const fieldError = (field: string) =>
+    actionData && "error" in actionData && actionData.field === field ? actionData.error : null
+  const saved = (what: string) => !!actionData && "ok" in actionData && actionData.ok === what
+  const emailChange =
+    actionData && "emailChange" in actionData ? (actionData.emailChange ?? null) : null
+
+  function uploadAvatar(image: Blob) {
+    const form = new FormData()
+    form.set("intent", "upload-avatar")
+    form.set("avatar", image, image.type === "image/webp" ? "avatar.webp" : "avatar.png")
+    submit(form, { method: "post", encType: "multipart/form-data" })
   }
 
   async function addPasskey(e: React.FormEvent) {
@@ -83,8 +256,155 @@ export default function Account({ loaderData }: Route.ComponentProps) {
       <Card>
         <CardHeader>
           <CardTitle>{user.name || user.email}</CardTitle>
-          <CardDescription>{user.email}</CardDescription>
+          <CardDescription>
+            {user.email} · Your name, picture and email are shared with the apps you sign in to.
+          </CardDescription>
         </CardHeader>
+        <CardContent className="flex flex-col gap-6">
+          {fieldError("profile") ? (
+            <p role="alert" className="text-destructive text-sm">
+              {fieldError("profile")}
+            </p>
+          ) : null}
+
+          {/* Avatar */}
+          <div className="flex flex-col gap-2">
+            <Label>Avatar</Label>
+            {avatarFile ? (
+              <AvatarCropper
+                file={avatarFile}
+                outputSize={AVATAR_SIZE}
+                busy={saving}
+                onCropped={uploadAvatar}
+                onCancel={() => setAvatarFile(null)}
+              />
+            ) : (
+              <div className="flex items-center gap-4">
+                {user.image ? (
+                  <img src={user.image} alt="" className="size-16 rounded-full object-cover" />
+                ) : (
+                  <div className="bg-muted text-muted-foreground flex size-16 items-center justify-center rounded-full text-xl font-medium">
+                    {(user.name || user.email).charAt(0).toUpperCase()}
+                  </div>
+                )}
+                <input
+                  ref={picker}
+                  type="file"
+                  accept="image/png,image/jpeg,image/webp"
+                  className="hidden"
+                  onChange={(e) => {
+                    setAvatarFile(e.target.files?.[0] ?? null)
+                    e.target.value = ""
+                  }}
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => picker.current?.click()}
+                  disabled={saving}
+                >
+                  <Upload className="size-4" />
+                  Upload
+                </Button>
+                {user.image ? (
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="remove-avatar" />
+                    <Button type="submit" variant="ghost" disabled={saving}>
+                      Remove
+                    </Button>
+                  </Form>
+                ) : null}
+              </div>
+            )}
+            {fieldError("avatar") ? (
+              <p role="alert" className="text-destructive text-sm">
+                {fieldError("avatar")}
+              </p>
+            ) : null}
+          </div>
+
+          {/* Name */}
+          <Form method="post" className="flex flex-col gap-2">
+            <input type="hidden" name="intent" value="update-name" />
+            <Label htmlFor="profile-name">Display name</Label>
+            <div className="flex gap-2">
+              <Input
+                id="profile-name"
+                name="name"
+                defaultValue={user.name}
+                aria-invalid={!!fieldError("name")}
+                disabled={saving}
+              />
+              <Button type="submit" variant="outline" disabled={saving}>
+                Save
+              </Button>
+            </div>
+            {fieldError("name") ? (
+              <p role="alert" className="text-destructive text-sm">
+                {fieldError("name")}
+              </p>
+            ) : saved("name") ? (
+              <p className="text-muted-foreground text-sm">Name updated.</p>
+            ) : null}
+          </Form>
+
+          {/* Email */}
+          {emailChange ? (
+            <Form method="post" className="flex flex-col gap-2">
+              <input type="hidden" name="intent" value="confirm-email-change" />
+              <input type="hidden" name="newEmail" value={emailChange} />
+              <Label htmlFor="email-otp">Code sent to {emailChange}</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="email-otp"
+                  name="otp"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-digit code"
+                  aria-invalid={!!fieldError("email")}
+                  disabled={saving}
+                />
+                <Button type="submit" disabled={saving}>
+                  Confirm
+                </Button>
+              </div>
+              {fieldError("email") ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {fieldError("email")}
+                </p>
+              ) : null}
+            </Form>
+          ) : (
+            <Form method="post" className="flex flex-col gap-2">
+              <input type="hidden" name="intent" value="request-email-change" />
+              <Label htmlFor="new-email">Email</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="new-email"
+                  name="newEmail"
+                  type="email"
+                  placeholder={user.email}
+                  aria-invalid={!!fieldError("email")}
+                  disabled={saving}
+                />
+                <Button type="submit" variant="outline" disabled={saving}>
+                  Change
+                </Button>
+              </div>
+              {fieldError("email") ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {fieldError("email")}
+                </p>
+              ) : saved("email") ? (
+                <p className="text-muted-foreground text-sm">Email updated.</p>
+              ) : (
+                <p className="text-muted-foreground text-xs">
+                  We'll send a code to the new address to confirm it.
+                </p>
+              )}
+            </Form>
+          )}
+        </CardContent>
       </Card>
 
       <Card>
@@ -147,11 +467,190 @@ export default function Account({ loaderData }: Route.ComponentProps) {
         </CardContent>
       </Card>
 
+      <TwoFactorCard enabled={twoFactor.enabled} confirmed={twoFactor.confirmed} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Monitor className="text-muted-foreground size-4" />
+            Sessions
+          </CardTitle>
+          <CardDescription>
+            Where you're signed in. Revoke anything you don't recognize.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <ul className="flex flex-col gap-1">
+            {sessions.map((s) => (
+              <li
+                key={s.id}
+                className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+              >
+                <div className="flex flex-col gap-0.5 text-sm">
+                  <span className="flex items-center gap-2">
+                    {s.device}
+                    {s.current ? <Badge variant="secondary">This device</Badge> : null}
+                  </span>
+                  <span className="text-muted-foreground text-xs">
+                    {s.ipAddress ? `${s.ipAddress} · ` : ""}Signed in{" "}
+                    {new Date(s.createdAt).toLocaleDateString()} · Last active{" "}
+                    {new Date(s.lastActiveAt).toLocaleString()}
+                  </span>
+                </div>
+                {s.current ? null : (
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="revoke-session" />
+                    <input type="hidden" name="sessionId" value={s.id} />
+                    <Button type="submit" variant="ghost" size="sm" disabled={saving}>
+                      Revoke
+                    </Button>
+                  </Form>
+                )}
+              </li>
+            ))}
+          </ul>
+          {sessions.length > 1 ? (
+            <Form method="post">
+              <input type="hidden" name="intent" value="revoke-other-sessions" />
+              <Button type="submit" variant="outline" disabled={saving}>
+                Sign out everywhere else
+              </Button>
+            </Form>
+          ) : null}
+          {fieldError("sessions") ? (
+            <p role="alert" className="text-destructive text-sm">
+              {fieldError("sessions")}
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AppWindow className="text-muted-foreground size-4" />
+            Connected apps
+          </CardTitle>
+          <CardDescription>
+            Apps you've signed in to with willy.im. Disconnecting signs the app out and it asks
+            for your consent again next time.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {connectedApps.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No apps are connected.</p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {connectedApps.map((a) => (
+                <li
+                  key={a.clientId}
+                  className="flex items-center justify-between gap-2 rounded-md border px-3 py-2"
+                >
+                  <div className="flex items-center gap-3">
+                    {a.icon ? (
+                      <img src={a.icon} alt="" className="size-8 rounded-md object-contain" />
+                    ) : null}
+                    <div className="flex flex-col gap-0.5 text-sm">
+                      <span>{a.name}</span>
+                      <span className="text-muted-foreground text-xs">
+                        {a.scopes.join(" ")}
+                        {a.connectedAt
+                          ? ` · Since ${new Date(a.connectedAt).toLocaleDateString()}`
+                          : ""}
+                        {a.refreshTokens ? " · Stays signed in" : ""}
+                      </span>
+                    </div>
+                  </div>
+                  <Form method="post">
+                    <input type="hidden" name="intent" value="disconnect-app" />
+                    <input type="hidden" name="clientId" value={a.clientId} />
+                    <Button type="submit" variant="ghost" size="sm" disabled={saving}>
+                      Disconnect
+                    </Button>
+                  </Form>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Database className="text-muted-foreground size-4" />
+            App data
+          </CardTitle>
+          <CardDescription>What each application stores about you.</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {appData.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No application stores data about you.</p>
+          ) : (
+            appData.map((a) => {
+              const editable = Object.fromEntries(
+                a.userEditableKeys.map((k) => [k, a.data[k] ?? null]),
+              )
+              const failed = fieldError(`app:${a.app}`)
+              return (
+                <div key={a.app} className="flex flex-col gap-2 rounded-md border px-3 py-2">
+                  <div className="flex items-baseline justify-between gap-2">
+                    <span className="text-sm font-medium">{a.name}</span>
+                    <span className="text-muted-foreground text-xs">
+                      Updated {new Date(a.updatedAt).toLocaleString()}
+                    </span>
+                  </div>
+                  <pre className="bg-muted overflow-x-auto rounded-md p-2 font-mono text-xs">
+                    {JSON.stringify(a.data, null, 2)}
+                  </pre>
+                  {a.userEditableKeys.length ? (
+                    <Form method="post" className="flex flex-col gap-2">
+                      <input type="hidden" name="intent" value="update-app-data" />
+                      <input type="hidden" name="app" value={a.app} />
+                      <label htmlFor={`data-${a.app}`} className="text-xs font-medium">
+                        You can change
+                      </label>
+                      <textarea
+                        id={`data-${a.app}`}
+                        name="data"
+                        rows={Math.min(a.userEditableKeys.length + 2, 8)}
+                        defaultValue={JSON.stringify(editable, null, 2)}
+                        aria-invalid={!!failed}
+                        className="border-input bg-transparent focus-visible:ring-ring/50 aria-invalid:border-destructive w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                        disabled={saving}
+                      />
+                      {failed ? (
+                        <p role="alert" className="text-destructive text-sm">
+                          {failed}
+                        </p>
+                      ) : null}
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        size="sm"
+                        disabled={saving}
+                        className="self-start"
+                      >
+                        {saving ? <Loader2 className="size-4 animate-spin" /> : null}
+                        Save
+                      </Button>
+                    </Form>
+                  ) : null}
+                </div>
+              )
+            })
+          )}
+        </CardContent>
+      </Card>
+
       <div>
-        <Button variant="outline" onClick={signOut} disabled={!!pending}>
-          {pending === "signout" ? <Loader2 className="size-4 animate-spin" /> : null}
-          Sign out
-        </Button>
+        {/* Through /logout, so clients get their front-channel logout too. */}
+        <Form method="post" action="/logout">
+          <Button type="submit" variant="outline" disabled={!!pending || signingOut}>
+            {signingOut ? <Loader2 className="size-4 animate-spin" /> : null}
+            Sign out
+          </Button>
+        </Form>
       </div>
     </div>
   )
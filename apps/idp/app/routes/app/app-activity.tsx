@@ -0,0 +1,151 @@
+import { Link } from "react-router"
+import { History } from "lucide-react"
+
+import type { Route } from "./+types/app-activity"
+import { listAuditEvents, parseAuditCursor, type AuditChange } from "~/lib/audit.server"
+import { requireApplicationAccess, requireAppPermission } from "~/lib/security.server"
+import { AppHeader } from "~/components/app-header"
+import { Badge } from "~/components/ui/badge"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+export function meta() {
+  return [{ title: "Activity · willy.im" }]
+}
+
+/** What each audited table is called in the console. */
+const TABLE_LABELS: Record<string, string> = {
+  oauth_client: "OAuth client",
+  application_member: "App access",
+  organization: "Workspace",
+  member: "Workspace member",
+  user_app_metadata: "User metadata",
+  user_metadata_config: "User metadata settings",
+  application_domain: "Custom domain",
+  application_settings: "Settings",
+  impersonation: "Impersonation",
+}
+
+const OPERATION_LABELS = { INSERT: "created", UPDATE: "updated", DELETE: "deleted" } as const
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const { application, app, access } = await requireApplicationAccess(
+    request,
+    context,
+    context.services.auth,
+    params.clientId,
+  )
+  requireAppPermission(access, "audit:read")
+
+  const before = parseAuditCursor(new URL(request.url).searchParams.get("before"))
+  const page = await listAuditEvents(context, {
+    application: { app, clientId: application.clientId },
+    before,
+  })
+  return { application, ...page, paged: before !== undefined }
+}
+
+function formatValue(value: unknown) {
+  if (value === null || value === undefined) return "—"
+  return typeof value === "string" ? value : JSON.stringify(value)
+}
+
+function Changes({ changes }: { changes: AuditChange[] }) {
+  if (changes.length === 0) return <span className="text-muted-foreground">no changes</span>
+  return (
+    <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1">
+      {changes.map((c) => (
+        <div key={c.field} className="contents">
+          <dt className="text-muted-foreground font-mono">{c.field}</dt>
+          <dd className="font-mono break-all">
+            {c.before !== null ? (
+              <span className="text-destructive line-through">{formatValue(c.before)}</span>
+            ) : null}
+            {c.before !== null && c.after !== null ? " → " : null}
+            {c.after !== null ? <span>{formatValue(c.after)}</span> : null}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  )
+}
+
+export default function AppActivity({ loaderData }: Route.ComponentProps) {
+  const { application, events, nextCursor, paged } = loaderData
+
+  return (
+    <div className="flex flex-col gap-6">
+      <AppHeader application={application} showActivity />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="text-muted-foreground size-4" />
+            Activity
+          </CardTitle>
+          <CardDescription>
+            Changes to this application's client, access, workspaces and user metadata, newest
+            first. Secrets are recorded as changed, never stored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {events.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No recorded changes yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Who</TableHead>
+                  <TableHead>What</TableHead>
+                  <TableHead>Changes</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map((e) => (
+                  <TableRow key={e.id} className="align-top">
+                    <TableCell className="text-muted-foreground text-xs whitespace-nowrap">
+                      {new Date(`${e.createdAt.replace(" ", "T")}Z`).toLocaleString()}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      {e.actor.kind === "system" ? (
+                        <span className="text-muted-foreground">system</span>
+                      ) : (
+                        <>
+                          {e.actor.label ?? e.actor.id}
+                          {e.actor.kind === "apikey" ? (
+                            <Badge variant="outline" className="ml-1.5">
+                              API key
+                            </Badge>
+                          ) : null}
+                        </>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {TABLE_LABELS[e.table] ?? e.table} {OPERATION_LABELS[e.operation]}
+                    </TableCell>
+                    <TableCell className="text-xs">
+                      <Changes changes={e.changes} />
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <div className="flex gap-4 text-sm">
+            {paged ? <Link to=".">Newest</Link> : null}
+            {nextCursor ? <Link to={`?before=${nextCursor}`}>Load older</Link> : null}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,20 +1,98 @@
 import { useState } from "react"
-import { Form, Link, redirect, useActionData, useNavigation, useSubmit } from "react-router"
-import { ChevronRight, KeyRound, Loader2, Plus, Users } from "lucide-react"
+import { Form, redirect, useActionData, useNavigation, useSubmit } from "react-router"
+import {
+  DoorOpen,
+  FileKey,
+  Globe,
+  KeyRound,
+  Loader2,
+  Mail,
+  Palette,
+  Plus,
+  Users,
+  VenetianMask,
+} from "lucide-react"
+import { z } from "zod"
 
 import type { Route } from "./+types/app-detail"
 import {
   createWorkspace,
   deleteApplication,
-  getApplication,
   listAppMembers,
   listPeopleForApp,
   listWorkspacesForApp,
-  requireAdminSession,
+  requireSession,
   rotateApplicationSecret,
-  updateApplicationRedirectUris,
+  updateApplication,
 } from "~/lib/admin.server"
+import { createApiKey, listApiKeys, parseApiKeyForm, revokeApiKey } from "~/lib/api-keys.server"
+import {
+  createApiResource,
+  deleteApiResource,
+  listApiResources,
+  parseApiScopes,
+  updateApiResource,
+} from "~/lib/api-resources.server"
+import { PermissionCatalogSchema, UserMetadataConfigSchema } from "~/lib/api-schemas"
+import { invalidBrandingField } from "~/lib/branding"
+import { getBranding, updateBranding } from "~/lib/branding.server"
+import {
+  getClientCredentialsGrant,
+  setClientCredentialsGrant,
+} from "~/lib/client-credentials.server"
+import {
+  createInitialAccessToken,
+  deleteRegisteredClient,
+  getOpenRegistration,
+  listInitialAccessTokens,
+  listRegisteredClients,
+  revokeInitialAccessToken,
+  setOpenRegistration,
+} from "~/lib/client-registration.server"
+import { isDeviceGrantEnabled, setDeviceGrantEnabled } from "~/lib/device-authorization.server"
+import {
+  IMPERSONATION_MINUTES,
+  impersonationRefusal,
+  listImpersonations,
+} from "~/lib/impersonation.server"
+import {
+  createInvitation,
+  listPendingInvitations,
+  revokeInvitation,
+} from "~/lib/invitations.server"
+import { getLogoutSettings, setLogoutSettings } from "~/lib/logout.server"
+import { getPermissionCatalog, setPermissionCatalog } from "~/lib/permission-catalog.server"
+import { APP_PERMISSIONS, type AppPermission } from "~/lib/permissions"
+import {
+  DEFAULT_ATTRIBUTE_NAMES,
+  getSamlServiceProvider,
+  removeSamlServiceProvider,
+  samlEntityId,
+  samlSsoUrl,
+  setSamlServiceProvider,
+} from "~/lib/saml.server"
+import { requireApplicationAccess, requireAppPermission } from "~/lib/security.server"
+import {
+  getSignInPolicy,
+  parseEmailDomains,
+  setSignInPolicy,
+} from "~/lib/sign-in-policy.server"
+import { addDomain, listDomains, removeDomain } from "~/lib/tenant.server"
+import { listActiveTokens, revokeTokens } from "~/lib/tokens.server"
+import {
+  compileMetadataSchema,
+  getUserMetadataConfig,
+  setUserMetadataConfig,
+} from "~/lib/user-metadata.server"
 import { firstInvalidRedirectUri, parseUriList } from "~/lib/validate"
+import {
+  createWebhookEndpoint,
+  deleteWebhookEndpoint,
+  listWebhookDeliveries,
+  listWebhookEndpoints,
+  pingWebhookEndpoint,
+  replayWebhookDelivery,
+} from "~/lib/webhooks.server"
 import {
   AlertDialog,
   AlertDialogAction,
@@ -26,11 +104,17 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "~/components/ui/alert-dialog"
+import { ApiKeysCard } from "~/components/api-keys-card"
+import { ApiResourcesCard } from "~/components/api-resources-card"
+import { ClientRegistrationCard } from "~/components/client-registration-card"
+import { AppHeader } from "~/components/app-header"
 import { Badge } from "~/components/ui/badge"
 import { Button } from "~/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
 import { Input } from "~/components/ui/input"
 import { Label } from "~/components/ui/label"
+import { TokensCard } from "~/components/tokens-card"
+import { WebhooksCard } from "~/components/webhooks-card"
 import {
   Table,
   TableBody,
@@ -40,68 +124,560 @@ import {
   TableRow,
 } from "~/components/ui/table"
 
+const BRANDING_FIELDS = [
+  { name: "name", label: "Display name", type: "text", placeholder: "Acme" },
+  { name: "logoUrl", label: "Logo URL", type: "url", placeholder: "https://acme.com/logo.png" },
+  { name: "accentColor", label: "Accent color", type: "text", placeholder: "#4f46e5" },
+  { name: "supportEmail", label: "Support email", type: "email", placeholder: "help@acme.com" },
+  { name: "tosUrl", label: "Terms of service URL", type: "url", placeholder: "https://acme.com/tos" },
+  { name: "policyUrl", label: "Privacy policy URL", type: "url", placeholder: "https://acme.com/privacy" },
+] as const
+
 export async function loader({ request, context, params }: Route.LoaderArgs) {
-  await requireAdminSession(request, context, context.services.auth)
-  const application = await getApplication(context, params.clientId)
-  if (!application) throw new Response("Application not found", { status: 404 })
-  const app = application.app ?? ""
-  const [workspaces, people, members] = await Promise.all([
-    app ? listWorkspacesForApp(context, app) : Promise.resolve([]),
-    app ? listPeopleForApp(context, app) : Promise.resolve([]),
-    app ? listAppMembers(context, app) : Promise.resolve([]),
+  await requireSession(request, context, context.services.auth)
+  const { application, app, access } = await requireApplicationAccess(
+    request,
+    context,
+    context.services.auth,
+    params.clientId,
+  )
+  requireAppPermission(access, "app:read")
+  const can = access.can
+  const none = Promise.resolve([])
+  const [
+    workspaces,
+    people,
+    members,
+    apiKeys,
+    catalog,
+    metadataConfig,
+    branding,
+    signInPolicy,
+    logout,
+    clientCredentials,
+    deviceGrant,
+    domains,
+    saml,
+    webhookEndpoints,
+    webhookDeliveries,
+    openRegistration,
+    initialAccessTokens,
+    registeredClients,
+    apiResources,
+    tokens,
+    invitations,
+    impersonations,
+  ] = await Promise.all([
+    app && can("workspace:read") ? listWorkspacesForApp(context, app) : none,
+    app && (can("workspace:read") || can("user:impersonate"))
+      ? listPeopleForApp(context, app)
+      : none,
+    app && can("member:read") ? listAppMembers(context, app) : none,
+    app && can("apikey:read") ? listApiKeys(context, app) : none,
+    app ? getPermissionCatalog(context, app) : Promise.resolve(null),
+    app ? getUserMetadataConfig(context, app) : Promise.resolve(null),
+    getBranding(context, application.clientId),
+    app ? getSignInPolicy(context, app) : Promise.resolve(null),
+    getLogoutSettings(context, application.clientId, app),
+    getClientCredentialsGrant(context, application.clientId),
+    isDeviceGrantEnabled(context, application.clientId),
+    app ? listDomains(context, app) : none,
+    app ? getSamlServiceProvider(context, app) : Promise.resolve(null),
+    // Secrets, payloads and other users' tokens: only for those who manage them.
+    app && can("app:update") ? listWebhookEndpoints(context, app) : none,
+    app && can("app:update") ? listWebhookDeliveries(context, app) : none,
+    app ? getOpenRegistration(context, app) : Promise.resolve(false),
+    app && can("app:update") ? listInitialAccessTokens(context, app) : none,
+    app && can("app:update") ? listRegisteredClients(context, app) : none,
+    app ? listApiResources(context, app) : none,
+    can("app:update") ? listActiveTokens(context, application.clientId) : none,
+    app && (can("member:invite") || can("member:remove"))
+      ? listPendingInvitations(context, app)
+      : none,
+    app && can("user:impersonate") ? listImpersonations(context, app) : none,
   ])
-  return { application, workspaces, people, members }
+  return {
+    application,
+    workspaces,
+    people,
+    members,
+    apiKeys,
+    catalog,
+    metadataConfig,
+    branding,
+    signInPolicy,
+    logout,
+    clientCredentials,
+    deviceGrant,
+    deviceUri: `${context.tenant.origin}/device`,
+    domains,
+    saml,
+    samlIdp: { entityId: samlEntityId(context.tenant), ssoUrl: samlSsoUrl(context.tenant) },
+    webhookEndpoints,
+    webhookDeliveries,
+    openRegistration,
+    initialAccessTokens,
+    registeredClients,
+    registrationEndpoint: `${context.tenant.origin}/auth/oauth2/register`,
+    apiResources,
+    tokens,
+    tokenEndpoints: {
+      introspection: `${context.tenant.origin}/auth/oauth2/introspect`,
+      revocation: `${context.tenant.origin}/auth/oauth2/revoke`,
+    },
+    invitations,
+    impersonations,
+    permissions: access.permissions,
+  }
 }
 
 export async function action({ request, context, params }: Route.ActionArgs) {
-  await requireAdminSession(request, context, context.services.auth)
-  const auth = context.services.auth
+  const session = await requireSession(request, context, context.services.auth)
   const clientId = params.clientId
+  const { application, app, access } = await requireApplicationAccess(
+    request,
+    context,
+    context.services.auth,
+    clientId,
+  )
   const form = await request.formData()
   const intent = form.get("intent")
 
   if (intent === "delete") {
+    requireAppPermission(access, "app:delete")
     await deleteApplication(context, clientId)
     return redirect("/")
   }
 
   if (intent === "rotate") {
-    const { clientSecret } = await rotateApplicationSecret(request, auth, clientId)
+    requireAppPermission(access, "app:update")
+    const { clientSecret } = await rotateApplicationSecret(context, clientId)
     return { rotatedSecret: clientSecret }
   }
 
   if (intent === "update-redirects") {
+    requireAppPermission(access, "app:update")
     const redirectUris = parseUriList(String(form.get("redirectUris") ?? ""))
     if (redirectUris.length === 0)
       return { error: "Add at least one redirect URI.", field: "redirectUris" }
     const invalid = firstInvalidRedirectUri(redirectUris)
     if (invalid)
       return {
-        error: `"${invalid}" isn't a valid URL. Use an absolute URL like https://app.example.com/callback.`,
+        error: `"${invalid}" isn't an allowed redirect URI. Use https, http on localhost, or a private-use scheme like com.example.app:/callback.`,
         field: "redirectUris",
       }
-    await updateApplicationRedirectUris(request, auth, clientId, redirectUris)
+    await updateApplication(context, clientId, { redirectUris })
     return { ok: "redirects" }
   }
 
+  if (intent === "update-logout") {
+    requireAppPermission(access, "app:update")
+    const uri = (name: string) => String(form.get(name) ?? "").trim() || null
+    const saved = await setLogoutSettings(context, clientId, app, {
+      enableEndSession: form.get("enableEndSession") === "on",
+      postLogoutRedirectUris: parseUriList(String(form.get("postLogoutRedirectUris") ?? "")),
+      backchannelLogoutUri: uri("backchannelLogoutUri"),
+      frontchannelLogoutUri: uri("frontchannelLogoutUri"),
+    })
+    if ("error" in saved) return { error: saved.error, field: `logout:${saved.field}` }
+    return { ok: "logout" }
+  }
+
+  if (intent === "update-client-credentials") {
+    requireAppPermission(access, "app:update")
+    const saved = await setClientCredentialsGrant(context, clientId, app, {
+      enabled: form.get("enabled") === "on",
+      scopes: parseUriList(String(form.get("scopes") ?? "")),
+      audiences: parseUriList(String(form.get("audiences") ?? "")),
+    })
+    if ("error" in saved) return { error: saved.error, field: `m2m:${saved.field}` }
+    context.logger.info("oauth.client_credentials_updated", { clientId, ...saved.grant })
+    return { ok: "m2m" }
+  }
+
+  if (intent === "update-device-grant") {
+    requireAppPermission(access, "app:update")
+    const enabled = form.get("enabled") === "on"
+    const saved = await setDeviceGrantEnabled(context, clientId, enabled)
+    if ("error" in saved) return { error: saved.error, field: `device:${saved.field}` }
+    context.logger.info("oauth.device_grant_updated", { clientId, enabled })
+    return { ok: "device" }
+  }
+
+  if (intent === "update-catalog") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "catalog" }
+    let raw: unknown
+    try {
+      raw = JSON.parse(String(form.get("catalog") ?? ""))
+    } catch {
+      return { error: "The catalog must be valid JSON.", field: "catalog" }
+    }
+    const parsed = PermissionCatalogSchema.safeParse(raw)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      const at = issue.path.length ? `${issue.path.join(".")}: ` : ""
+      return { error: `${at}${issue.message}`, field: "catalog" }
+    }
+    await setPermissionCatalog(context, app, parsed.data)
+    return { ok: "catalog" }
+  }
+
+  if (intent === "update-metadata-config") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "metadataConfig" }
+    let raw: unknown
+    try {
+      raw = JSON.parse(String(form.get("metadataConfig") ?? ""))
+    } catch {
+      return { error: "The configuration must be valid JSON.", field: "metadataConfig" }
+    }
+    const parsed = UserMetadataConfigSchema.safeParse(raw)
+    if (!parsed.success) {
+      const issue = parsed.error.issues[0]
+      const at = issue.path.length ? `${issue.path.join(".")}: ` : ""
+      return { error: `${at}${issue.message}`, field: "metadataConfig" }
+    }
+    if (parsed.data.jsonSchema) {
+      try {
+        compileMetadataSchema(parsed.data.jsonSchema)
+      } catch (e) {
+        const message = e instanceof Error ? e.message : "unsupported schema"
+        return { error: `jsonSchema: ${message}`, field: "metadataConfig" }
+      }
+    }
+    await setUserMetadataConfig(context, app, parsed.data)
+    return { ok: "metadataConfig" }
+  }
+
+  if (intent === "update-branding") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "branding:name" }
+    const text = (key: string) => String(form.get(key) ?? "").trim()
+    const input = {
+      name: text("name"),
+      logoUrl: text("logoUrl") || null,
+      accentColor: text("accentColor").toLowerCase() || null,
+      tosUrl: text("tosUrl") || null,
+      policyUrl: text("policyUrl") || null,
+      supportEmail: text("supportEmail") || null,
+    }
+    const invalid = invalidBrandingField(input)
+    if (invalid) return { error: invalid.error, field: `branding:${invalid.field}` }
+    await updateBranding(context, clientId, app, input)
+    return { ok: "branding" }
+  }
+
+  if (intent === "update-sign-in-policy") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "signInPolicy" }
+    const { domains, invalid } = parseEmailDomains(String(form.get("allowedEmailDomains") ?? ""))
+    if (invalid) return { error: `"${invalid}" isn't a domain.`, field: "signInPolicy" }
+    await setSignInPolicy(context, app, {
+      allowSignup: form.get("allowSignup") === "on",
+      allowedEmailDomains: domains,
+      inviteOnly: form.get("inviteOnly") === "on",
+      requireMfa: form.get("requireMfa") === "on",
+    })
+    return { ok: "signInPolicy" }
+  }
+
+  if (intent === "add-domain" || intent === "remove-domain") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "domain" }
+    if (intent === "remove-domain") {
+      await removeDomain(context, app, String(form.get("domainId") ?? ""))
+      return { ok: "domain" }
+    }
+    const added = await addDomain(context, app, String(form.get("hostname") ?? ""))
+    if ("error" in added) return { error: added.error, field: "domain" }
+    context.logger.info("domain.added", { app, hostname: added.hostname })
+    return { ok: "domain" }
+  }
+
+  if (intent === "update-saml" || intent === "remove-saml") {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "saml" }
+    if (intent === "remove-saml") {
+      await removeSamlServiceProvider(context, app)
+      context.logger.info("saml.sp.removed", { app })
+      return { ok: "saml" }
+    }
+    const text = (name: string) => String(form.get(name) ?? "")
+    const saved = await setSamlServiceProvider(context, app, {
+      entityId: text("entityId"),
+      acsUrl: text("acsUrl"),
+      certificate: text("certificate"),
+      attributeNames: {
+        email: text("attributeEmail"),
+        name: text("attributeName"),
+        roles: text("attributeRoles"),
+      },
+    })
+    if ("error" in saved) return { error: saved.error, field: `saml:${saved.field}` }
+    context.logger.info("saml.sp.saved", { app, entityId: saved.entityId })
+    return { ok: "saml" }
+  }
+
+  if (
+    intent === "add-webhook" ||
+    intent === "remove-webhook" ||
+    intent === "ping-webhook" ||
+    intent === "replay-webhook"
+  ) {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "webhook" }
+    const endpointId = String(form.get("endpointId") ?? "")
+    if (intent === "remove-webhook") {
+      await deleteWebhookEndpoint(context, app, endpointId)
+      context.logger.info("webhook.endpoint_removed", { app, endpointId })
+      return { ok: "webhook" }
+    }
+    if (intent === "ping-webhook") {
+      if (!(await pingWebhookEndpoint(context, app, endpointId)))
+        return { error: "That endpoint no longer exists.", field: "webhook" }
+      return { ok: "webhook" }
+    }
+    if (intent === "replay-webhook") {
+      if (!(await replayWebhookDelivery(context, app, String(form.get("deliveryId") ?? ""))))
+        return { error: "That delivery no longer exists.", field: "webhook" }
+      return { ok: "webhook" }
+    }
+    const created = await createWebhookEndpoint(context, app, {
+      url: String(form.get("url") ?? ""),
+      events: form.getAll("events").map(String),
+    })
+    if ("error" in created) return { error: created.error, field: "webhook" }
+    return { webhookSecret: created.secret }
+  }
+
+  if (
+    intent === "update-open-registration" ||
+    intent === "create-initial-access-token" ||
+    intent === "revoke-initial-access-token" ||
+    intent === "revoke-registered-client"
+  ) {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "registration" }
+    if (intent === "update-open-registration") {
+      const enabled = form.get("enabled") === "on"
+      await setOpenRegistration(context, app, enabled)
+      context.logger.info("oauth.open_registration_updated", { app, enabled })
+      return { ok: "registration" }
+    }
+    if (intent === "revoke-initial-access-token") {
+      await revokeInitialAccessToken(context, app, String(form.get("tokenId") ?? ""))
+      return { ok: "registration" }
+    }
+    if (intent === "revoke-registered-client") {
+      const registeredClientId = String(form.get("registeredClientId") ?? "")
+      if (!(await deleteRegisteredClient(context, app, registeredClientId)))
+        return { error: "That client is no longer registered.", field: "registration" }
+      context.logger.info("oauth.registered_client_deleted", { app, clientId: registeredClientId })
+      return { ok: "registration" }
+    }
+    const created = await createInitialAccessToken(context, {
+      app,
+      name: String(form.get("name") ?? ""),
+      createdByUserId: session.user.id,
+      expiresInDays: Number(form.get("expiresInDays")) || 0,
+    })
+    if ("error" in created) return { error: created.error, field: "registration" }
+    return { initialAccessToken: created.token }
+  }
+
+  if (
+    intent === "add-api-resource" ||
+    intent === "update-api-resource" ||
+    intent === "remove-api-resource"
+  ) {
+    requireAppPermission(access, "app:update")
+    if (!app) return { error: "This application has no app key.", field: "api-resource" }
+    const resourceId = String(form.get("resourceId") ?? "")
+    if (intent === "remove-api-resource") {
+      if (!(await deleteApiResource(context, app, resourceId)))
+        return { error: "That API no longer exists.", field: "api-resource" }
+      context.logger.info("api_resource.deleted", { app, id: resourceId })
+      return { ok: "api-resource" }
+    }
+    const name = String(form.get("name") ?? "")
+    const scopes = parseApiScopes(String(form.get("scopes") ?? ""))
+    const saved =
+      intent === "update-api-resource"
+        ? await updateApiResource(context, app, resourceId, { name, scopes })
+        : await createApiResource(context, app, {
+            identifier: String(form.get("identifier") ?? ""),
+            name,
+            scopes,
+          })
+    if ("error" in saved) return { error: saved.error, field: "api-resource" }
+    return { ok: "api-resource" }
+  }
+
+  if (intent === "revoke-tokens" || intent === "revoke-all-tokens") {
+    requireAppPermission(access, "app:update")
+    const picked = { access: [] as string[], refresh: [] as string[] }
+    for (const value of form.getAll("token").map(String)) {
+      const [kind, id] = value.split(":", 2)
+      if ((kind === "access" || kind === "refresh") && id) picked[kind].push(id)
+    }
+    if (intent === "revoke-tokens" && picked.access.length + picked.refresh.length === 0)
+      return { error: "Pick the tokens to revoke.", field: "tokens" }
+    const revoked = await revokeTokens(
+      context,
+      clientId,
+      intent === "revoke-all-tokens" ? "all" : picked,
+    )
+    context.logger.info("oauth.tokens_revoked", { clientId, ...revoked })
+    return { revokedTokens: revoked }
+  }
+
   if (intent === "create-workspace") {
+    requireAppPermission(access, "workspace:create")
     const name = String(form.get("name") ?? "").trim()
     const slug = String(form.get("slug") ?? "").trim()
-    const app = String(form.get("app") ?? "").trim()
+    if (!app) return { error: "This application has no app key.", field: "ws-name" }
     if (!name || !slug) return { error: "Workspace name and slug are required.", field: "ws-name" }
     try {
-      await createWorkspace(request, auth, { name, slug, applicationId: app })
+      await createWorkspace(context.services.auth, {
+        name,
+        slug,
+        applicationId: app,
+        ownerUserId: session.user.id,
+      })
       return { ok: "workspace" }
     } catch (e) {
       return { error: e instanceof Error ? e.message : "Couldn't create workspace.", field: "ws-name" }
     }
   }
 
+  if (intent === "invite-member" || intent === "revoke-invitation") {
+    if (!app) return { error: "This application has no app key.", field: "invite" }
+
+    if (intent === "revoke-invitation") {
+      requireAppPermission(access, "member:remove")
+      await revokeInvitation(context, app, String(form.get("invitationId") ?? ""))
+      return { ok: "invite" }
+    }
+
+    requireAppPermission(access, "member:invite")
+    const email = String(form.get("email") ?? "").trim()
+    const role = form.get("role") === "admin" ? "admin" : "member"
+    const permissions = form
+      .getAll("permissions")
+      .map(String)
+      .filter((p): p is AppPermission => (APP_PERMISSIONS as readonly string[]).includes(p))
+    if (!z.email().safeParse(email).success)
+      return { error: "Enter a valid email address.", field: "invite" }
+    if (role === "member" && permissions.length === 0)
+      return { error: "Grant members at least one permission.", field: "invite" }
+    // Nobody can hand out more than they hold.
+    if (!permissions.every((p) => access.can(p)) || (role === "admin" && !access.can("member:admin")))
+      return { error: "You can't grant more access than you have.", field: "invite" }
+
+    await createInvitation(context, {
+      app,
+      appName: application.name ?? app,
+      email,
+      role,
+      permissions,
+      invitedBy: { id: session.user.id, email: session.user.email },
+    })
+    context.logger.info("invitation.created", { app, email, role })
+    return { ok: "invite", invited: email }
+  }
+
+  if (intent === "create-api-key" || intent === "revoke-api-key") {
+    if (!app) return { error: "This application has no app key.", field: "api-key" }
+
+    if (intent === "revoke-api-key") {
+      requireAppPermission(access, "apikey:revoke")
+      await revokeApiKey(context, app, String(form.get("keyId") ?? ""))
+      return { ok: "api-key" }
+    }
+
+    requireAppPermission(access, "apikey:create")
+    const input = parseApiKeyForm(form, true)
+    if ("error" in input) return { error: input.error, field: "api-key" }
+    if (!input.permissions.every((p) => access.can(p)))
+      return { error: "A key can't hold permissions you don't have.", field: "api-key" }
+    const created = await createApiKey(context, {
+      applicationId: app,
+      ownerUserId: session.user.id,
+      ...input,
+    })
+    return { createdKey: created.key }
+  }
+
+  if (intent === "impersonate") {
+    requireAppPermission(access, "user:impersonate")
+    if (!app) return { error: "This application has no app key.", field: "impersonate" }
+    const userId = String(form.get("userId") ?? "")
+    const minutes = Number(form.get("minutes"))
+    const reason = String(form.get("reason") ?? "").trim()
+    const person = (await listPeopleForApp(context, app)).find((p) => p.userId === userId)
+    if (!person) return { error: "Pick one of this application's users.", field: "impersonate" }
+    const refusal = await impersonationRefusal(context, app, session.user, {
+      id: userId,
+      email: person.email,
+    })
+    if (refusal) return { error: refusal, field: "impersonate" }
+    if (!(IMPERSONATION_MINUTES as readonly number[]).includes(minutes))
+      return { error: "Pick how long to impersonate for.", field: "impersonate" }
+    if (!reason) return { error: "Give a reason; it's kept in the audit trail.", field: "impersonate" }
+
+    const { headers } = await context.services.auth.api.startImpersonation({
+      body: { applicationId: app, clientId, userId, minutes, reason },
+      headers: request.headers,
+      returnHeaders: true,
+    })
+    context.logger.info("impersonation.started", {
+      app,
+      actor: session.user.id,
+      target: userId,
+      minutes,
+    })
+    return redirect("/account", { headers })
+  }
+
   return { error: "Unknown action" }
 }
 
 export default function AppDetail({ loaderData }: Route.ComponentProps) {
-  const { application, workspaces, people, members } = loaderData
+  const {
+    application,
+    workspaces,
+    people,
+    members,
+    apiKeys,
+    catalog,
+    metadataConfig,
+    branding,
+    signInPolicy,
+    logout,
+    clientCredentials,
+    deviceGrant,
+    deviceUri,
+    domains,
+    saml,
+    samlIdp,
+    webhookEndpoints,
+    webhookDeliveries,
+    openRegistration,
+    initialAccessTokens,
+    registeredClients,
+    registrationEndpoint,
+    apiResources,
+    tokens,
+    tokenEndpoints,
+    invitations,
+    impersonations,
+    permissions,
+  } = loaderData
+  // Controls the user can't use are hidden; the action enforces the same checks.
+  const can = (p: AppPermission) => permissions.includes(p)
+  const canInvite = can("member:invite")
+  const canRevokeInvites = can("member:remove")
   const actionData = useActionData<typeof action>()
   const nav = useNavigation()
   const submit = useSubmit()
@@ -110,26 +686,22 @@ export default function AppDetail({ loaderData }: Route.ComponentProps) {
 
   const rotatedSecret =
     actionData && "rotatedSecret" in actionData ? actionData.rotatedSecret : null
+  const invited = actionData && "invited" in actionData ? actionData.invited : null
+  const createdKey = actionData && "createdKey" in actionData ? actionData.createdKey : null
+  const webhookSecret =
+    actionData && "webhookSecret" in actionData ? actionData.webhookSecret : null
+  const revokedTokens =
+    actionData && "revokedTokens" in actionData ? actionData.revokedTokens : null
+  const initialAccessToken =
+    actionData && "initialAccessToken" in actionData ? actionData.initialAccessToken : null
+  // One entry per user, though people are listed once per workspace.
+  const impersonatable = [...new Map(people.map((p) => [p.userId, p])).values()]
   const error = actionData && "error" in actionData ? actionData.error : null
   const field = actionData && "field" in actionData ? actionData.field : null
 
   return (
     <div className="flex flex-col gap-6">
-      {/* Breadcrumb */}
-      <nav className="text-muted-foreground flex items-center gap-1.5 text-sm" aria-label="Breadcrumb">
-        <Link to="/" className="hover:text-foreground no-underline">
-          Applications
-        </Link>
-        <ChevronRight className="size-3.5" />
-        <span className="text-foreground">{application.name ?? application.clientId}</span>
-      </nav>
-
-      <div className="flex items-center gap-3">
-        <h1 className="text-xl font-semibold tracking-tight">
-          {application.name ?? "Untitled app"}
-        </h1>
-        {application.app ? <Badge variant="secondary">{application.app}</Badge> : null}
-      </div>
+      <AppHeader application={application} showActivity={can("audit:read")} />
 
       {/* OAuth configuration */}
       <Card>
@@ -145,222 +717,1141 @@ export default function AppDetail({ loaderData }: Route.ComponentProps) {
             </code>
           </div>
 
-          <Form method="post" className="flex flex-col gap-2">
-            <input type="hidden" name="intent" value="update-redirects" />
-            <Label htmlFor="redirectUris">Redirect URIs</Label>
-            <textarea
-              id="redirectUris"
-              name="redirectUris"
-              rows={3}
-              defaultValue={application.redirectUris.join("\n")}
-              aria-invalid={field === "redirectUris"}
-              className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-16 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
-              disabled={busy}
-            />
-            <p className="text-muted-foreground text-xs">One per line. Absolute URLs only.</p>
-            {field === "redirectUris" && error ? (
+          {can("app:update") ? (
+            <Form method="post" className="flex flex-col gap-2">
+              <input type="hidden" name="intent" value="update-redirects" />
+              <Label htmlFor="redirectUris">Redirect URIs</Label>
+              <textarea
+                id="redirectUris"
+                name="redirectUris"
+                rows={3}
+                defaultValue={application.redirectUris.join("\n")}
+                aria-invalid={field === "redirectUris"}
+                className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-16 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                disabled={busy}
+              />
+              <p className="text-muted-foreground text-xs">One per line. Absolute URLs only.</p>
+              {field === "redirectUris" && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                Save redirect URIs
+              </Button>
+            </Form>
+          ) : (
+            <div className="flex flex-col gap-1.5">
+              <Label>Redirect URIs</Label>
+              <ul className="font-mono text-xs">
+                {application.redirectUris.map((u) => (
+                  <li key={u} className="break-all">
+                    {u}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {can("app:update") ? (
+            <Form method="post" className="flex flex-col gap-3 border-t pt-4">
+              <input type="hidden" name="intent" value="update-logout" />
+              <Label>Logout</Label>
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="enableEndSession"
+                  defaultChecked={logout.enableEndSession}
+                  className="mt-0.5"
+                />
+                <span>
+                  RP-initiated logout
+                  <span className="text-muted-foreground block text-xs">
+                    The app may end the user's session at the end_session_endpoint; id_tokens
+                    carry <code>sid</code>.
+                  </span>
+                </span>
+              </label>
+              <div className="flex flex-col gap-1.5">
+                <Label htmlFor="postLogoutRedirectUris">Post-logout redirect URIs</Label>
+                <textarea
+                  id="postLogoutRedirectUris"
+                  name="postLogoutRedirectUris"
+                  rows={2}
+                  defaultValue={logout.postLogoutRedirectUris.join("\n")}
+                  aria-invalid={field === "logout:postLogoutRedirectUris"}
+                  className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-12 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                  disabled={busy}
+                />
+              </div>
+              {(
+                [
+                  [
+                    "backchannelLogoutUri",
+                    "Back-channel logout URI",
+                    "Receives a signed logout_token when a session the app got tokens from ends.",
+                  ],
+                  [
+                    "frontchannelLogoutUri",
+                    "Front-channel logout URI",
+                    "Loaded in an iframe, with iss and sid, when the user signs out in the browser.",
+                  ],
+                ] as const
+              ).map(([name, label, hint]) => (
+                <div key={name} className="flex flex-col gap-1.5">
+                  <Label htmlFor={name}>{label}</Label>
+                  <Input
+                    id={name}
+                    name={name}
+                    type="url"
+                    placeholder="https://app.example.com/logout"
+                    defaultValue={logout[name] ?? ""}
+                    aria-invalid={field === `logout:${name}`}
+                    disabled={busy || !application.app}
+                  />
+                  <p className="text-muted-foreground text-xs">{hint}</p>
+                </div>
+              ))}
+              {field?.startsWith("logout:") && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                Save logout settings
+              </Button>
+            </Form>
+          ) : null}
+
+          {can("app:update") ? (
+            <Form method="post" className="flex flex-col gap-3 border-t pt-4">
+              <input type="hidden" name="intent" value="update-client-credentials" />
+              <Label>Machine-to-machine</Label>
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="enabled"
+                  defaultChecked={clientCredentials.enabled}
+                  className="mt-0.5"
+                  disabled={busy || !application.app}
+                />
+                <span>
+                  Client credentials grant
+                  <span className="text-muted-foreground block text-xs">
+                    The app's backend may get tokens as itself with its client ID and secret. They
+                    carry no user, just the app key and the granted scopes.
+                  </span>
+                </span>
+              </label>
+              {(
+                [
+                  [
+                    "scopes",
+                    "Allowed scopes",
+                    "invoices:read invoices:write",
+                    "Scopes of those APIs it may ask for; all of them when it asks for none.",
+                  ],
+                  [
+                    "audiences",
+                    "Allowed audiences",
+                    "https://api.example.com",
+                    "Identifiers of this app's APIs it may ask a token for (the resource parameter).",
+                  ],
+                ] as const
+              ).map(([name, label, placeholder, hint]) => (
+                <div key={name} className="flex flex-col gap-1.5">
+                  <Label htmlFor={`m2m-${name}`}>{label}</Label>
+                  <textarea
+                    id={`m2m-${name}`}
+                    name={name}
+                    rows={2}
+                    placeholder={placeholder}
+                    defaultValue={clientCredentials[name].join("\n")}
+                    aria-invalid={field === `m2m:${name}`}
+                    className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-12 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                    disabled={busy || !application.app}
+                  />
+                  <p className="text-muted-foreground text-xs">{hint}</p>
+                </div>
+              ))}
+              {field?.startsWith("m2m:") && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={busy || !application.app}
+                className="self-start"
+              >
+                {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                Save machine-to-machine settings
+              </Button>
+            </Form>
+          ) : null}
+
+          {can("app:update") ? (
+            <Form method="post" className="flex flex-col gap-3 border-t pt-4">
+              <input type="hidden" name="intent" value="update-device-grant" />
+              <Label>Devices</Label>
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  name="enabled"
+                  defaultChecked={deviceGrant}
+                  className="mt-0.5"
+                  disabled={busy}
+                />
+                <span>
+                  Device authorization grant
+                  <span className="text-muted-foreground block text-xs">
+                    CLIs and TVs sign users in with a code typed at <code>{deviceUri}</code>, then
+                    poll the token endpoint with the device code and the client's credentials.
+                  </span>
+                </span>
+              </label>
+              {field?.startsWith("device:") && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                Save device settings
+              </Button>
+            </Form>
+          ) : null}
+
+          {can("app:update") ? (
+            <div className="flex flex-col gap-2 border-t pt-4">
+              <Label>Client secret</Label>
+              <p className="text-muted-foreground text-xs">
+                Hashed and unrecoverable. Rotate to issue a new one — the old secret stops working
+                immediately.
+              </p>
+              <Form method="post">
+                <input type="hidden" name="intent" value="rotate" />
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : <KeyRound className="size-4" />}
+                  Rotate secret
+                </Button>
+              </Form>
+              {rotatedSecret ? (
+                <div className="bg-muted mt-1 rounded-md p-3 text-sm">
+                  <p className="font-medium">New secret — copy it now, it won't be shown again.</p>
+                  <p className="mt-1 font-mono text-xs break-all">client_secret: {rotatedSecret}</p>
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+        </CardContent>
+      </Card>
+
+      {/* Branding */}
+      {branding && application.app ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Palette className="text-muted-foreground size-4" />
+              Branding
+            </CardTitle>
+            <CardDescription>
+              Shown on the sign-in page, the sign-in code email and the consent screen while this
+              app's users are signing in.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-4">
+              <input type="hidden" name="intent" value="update-branding" />
+              <fieldset disabled={busy || !can("app:update")} className="grid gap-4 sm:grid-cols-2">
+                {BRANDING_FIELDS.map(({ name, label, type, placeholder }) => (
+                  <div key={name} className="flex flex-col gap-1.5">
+                    <Label htmlFor={`branding-${name}`}>{label}</Label>
+                    <Input
+                      id={`branding-${name}`}
+                      name={name}
+                      type={type}
+                      defaultValue={branding[name] ?? ""}
+                      placeholder={placeholder}
+                      required={name === "name"}
+                      aria-invalid={field === `branding:${name}`}
+                    />
+                  </div>
+                ))}
+              </fieldset>
+              {field?.startsWith("branding:") && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              {can("app:update") ? (
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                  Save branding
+                </Button>
+              ) : null}
+            </Form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Sign-in policy */}
+      {signInPolicy ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DoorOpen className="text-muted-foreground size-4" />
+              Sign-in policy
+            </CardTitle>
+            <CardDescription>
+              Who may sign into this app. Applies while its client is being authorized and on its
+              custom domains; refused users see an explanation instead of being sent back.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-4">
+              <input type="hidden" name="intent" value="update-sign-in-policy" />
+              <fieldset disabled={busy || !can("app:update")} className="flex flex-col gap-4">
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    name="allowSignup"
+                    defaultChecked={signInPolicy.allowSignup}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Allow new accounts
+                    <span className="text-muted-foreground block text-xs">
+                      Off: only people who already use this app (members, or anyone who has
+                      signed into it before) can sign in.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    name="inviteOnly"
+                    defaultChecked={signInPolicy.inviteOnly}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Invite-only
+                    <span className="text-muted-foreground block text-xs">
+                      Only app members and members of this app's workspaces can sign in.
+                    </span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    name="requireMfa"
+                    defaultChecked={signInPolicy.requireMfa}
+                    className="mt-0.5"
+                  />
+                  <span>
+                    Require two-step verification
+                    <span className="text-muted-foreground block text-xs">
+                      Users confirm with an authenticator app before reaching this app, setting one
+                      up first if they haven't. Its id_tokens then carry <code>acr</code>{" "}
+                      <code>urn:willy.im:acr:mfa</code>.
+                    </span>
+                  </span>
+                </label>
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="allowedEmailDomains">Allowed email domains</Label>
+                  <Input
+                    id="allowedEmailDomains"
+                    name="allowedEmailDomains"
+                    defaultValue={signInPolicy.allowedEmailDomains.join(", ")}
+                    placeholder="acme.com, acme.io"
+                    aria-invalid={field === "signInPolicy"}
+                  />
+                  <p className="text-muted-foreground text-xs">Leave empty to allow any address.</p>
+                </div>
+              </fieldset>
+              {field === "signInPolicy" && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              {can("app:update") ? (
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                  Save policy
+                </Button>
+              ) : null}
+            </Form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Permission catalog */}
+      {catalog ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Permission catalog</CardTitle>
+            <CardDescription>
+              The permissions this app declares and what each workspace role grants. Resolved
+              per workspace into the <code>https://willy.im/permissions</code> claim.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-2">
+              <input type="hidden" name="intent" value="update-catalog" />
+              <Label htmlFor="catalog">Catalog (JSON)</Label>
+              <textarea
+                id="catalog"
+                name="catalog"
+                rows={10}
+                defaultValue={JSON.stringify(catalog, null, 2)}
+                readOnly={!can("app:update")}
+                aria-invalid={field === "catalog"}
+                className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-16 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                disabled={busy}
+              />
+              <p className="text-muted-foreground text-xs">
+                Same shape as <code>definePermissions</code>:{" "}
+                <code>{`{ "permissions": [...], "roles": { "owner": [...], "member": [...] } }`}</code>
+              </p>
+              {field === "catalog" && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              {can("app:update") ? (
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                  Save catalog
+                </Button>
+              ) : null}
+            </Form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* User metadata */}
+      {metadataConfig ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>User metadata</CardTitle>
+            <CardDescription>
+              What this app stores per user through the management API. Writes must match the
+              schema; claim keys are surfaced in the <code>https://willy.im/metadata</code> claim
+              of id_tokens and userinfo; editable keys can be changed by users on their account.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-2">
+              <input type="hidden" name="intent" value="update-metadata-config" />
+              <Label htmlFor="metadataConfig">Configuration (JSON)</Label>
+              <textarea
+                id="metadataConfig"
+                name="metadataConfig"
+                rows={10}
+                defaultValue={JSON.stringify(metadataConfig, null, 2)}
+                readOnly={!can("app:update")}
+                aria-invalid={field === "metadataConfig"}
+                className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-16 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                disabled={busy}
+              />
+              <p className="text-muted-foreground text-xs">
+                <code>{`{ "jsonSchema": {...} | null, "claimKeys": [...], "userEditableKeys": [...] }`}</code>
+              </p>
+              {field === "metadataConfig" && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              {can("app:update") ? (
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                  Save configuration
+                </Button>
+              ) : null}
+            </Form>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Custom domains */}
+      {application.app ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="text-muted-foreground size-4" />
+              Custom domains
+            </CardTitle>
+            <CardDescription>
+              Serve sign-in for this app from its own hostname. Each domain is a separate issuer
+              (<code>https://&lt;domain&gt;/auth</code>) that only authorizes this app's client.
+              Route the hostname to the IdP Worker as a custom domain first.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {can("app:update") ? (
+              <Form method="post" className="flex items-end gap-2">
+                <input type="hidden" name="intent" value="add-domain" />
+                <div className="flex flex-1 flex-col gap-1.5">
+                  <Label htmlFor="domain-hostname">Hostname</Label>
+                  <Input
+                    id="domain-hostname"
+                    name="hostname"
+                    placeholder="idp.example.com"
+                    required
+                    aria-invalid={field === "domain"}
+                    disabled={busy}
+                  />
+                </div>
+                <Button type="submit" disabled={busy}>
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Add
+                </Button>
+              </Form>
+            ) : null}
+            {field === "domain" && error ? (
               <p role="alert" className="text-destructive text-sm">
                 {error}
               </p>
             ) : null}
-            <Button type="submit" variant="outline" disabled={busy} className="self-start">
-              {busy ? <Loader2 className="size-4 animate-spin" /> : null}
-              Save redirect URIs
-            </Button>
-          </Form>
-
-          <div className="flex flex-col gap-2 border-t pt-4">
-            <Label>Client secret</Label>
+
+            {domains.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No custom domains.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Hostname</TableHead>
+                    <TableHead>Issuer</TableHead>
+                    {can("app:update") ? <TableHead className="w-0" /> : null}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {domains.map((d) => (
+                    <TableRow key={d.id}>
+                      <TableCell className="font-medium">{d.hostname}</TableCell>
+                      <TableCell className="text-muted-foreground font-mono text-xs">
+                        https://{d.hostname}/auth
+                      </TableCell>
+                      {can("app:update") ? (
+                        <TableCell>
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="remove-domain" />
+                            <input type="hidden" name="domainId" value={d.id} />
+                            <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                              Remove
+                            </Button>
+                          </Form>
+                        </TableCell>
+                      ) : null}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* SAML */}
+      {application.app ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileKey className="text-muted-foreground size-4" />
+              SAML
+            </CardTitle>
+            <CardDescription>
+              For apps that only speak SAML 2.0: register the app as a service provider and it can
+              send users here to sign in, through the same sign-in policy and consent. Assertions
+              are signed and only ever posted to the ACS URL.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="flex flex-col gap-1.5">
+                <Label>IdP metadata</Label>
+                <code className="bg-muted rounded-md px-3 py-2 font-mono text-xs break-all">
+                  {samlIdp.entityId}
+                </code>
+              </div>
+              <div className="flex flex-col gap-1.5">
+                <Label>Single sign-on URL</Label>
+                <code className="bg-muted rounded-md px-3 py-2 font-mono text-xs break-all">
+                  {samlIdp.ssoUrl}
+                </code>
+              </div>
+            </div>
             <p className="text-muted-foreground text-xs">
-              Hashed and unrecoverable. Rotate to issue a new one — the old secret stops working
-              immediately.
+              The metadata URL is also the IdP's entity ID. On a custom domain, use that
+              hostname instead.
             </p>
-            <Form method="post">
-              <input type="hidden" name="intent" value="rotate" />
-              <Button type="submit" variant="outline" disabled={busy} className="self-start">
-                {busy ? <Loader2 className="size-4 animate-spin" /> : <KeyRound className="size-4" />}
-                Rotate secret
-              </Button>
+
+            <Form method="post" className="flex flex-col gap-4 border-t pt-4">
+              <input type="hidden" name="intent" value="update-saml" />
+              <fieldset disabled={busy || !can("app:update")} className="flex flex-col gap-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="flex flex-col gap-1.5">
+                    <Label htmlFor="saml-entityId">Service provider entity ID</Label>
+                    <Input
+                      id="saml-entityId"
+                      name="entityId"
+                      defaultValue={saml?.entityId ?? ""}
+                      placeholder="https://app.example.com/saml/metadata"
+                      required
+                      aria-invalid={field === "saml:entityId"}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <Label htmlFor="saml-acsUrl">ACS URL</Label>
+                    <Input
+                      id="saml-acsUrl"
+                      name="acsUrl"
+                      type="url"
+                      defaultValue={saml?.acsUrl ?? ""}
+                      placeholder="https://app.example.com/saml/acs"
+                      required
+                      aria-invalid={field === "saml:acsUrl"}
+                    />
+                  </div>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="saml-certificate">Signing certificate</Label>
+                  <textarea
+                    id="saml-certificate"
+                    name="certificate"
+                    rows={4}
+                    defaultValue={saml?.certificate ?? ""}
+                    placeholder="-----BEGIN CERTIFICATE-----"
+                    aria-invalid={field === "saml:certificate"}
+                    className="border-input bg-transparent placeholder:text-muted-foreground focus-visible:ring-ring/50 aria-invalid:border-destructive min-h-16 w-full rounded-md border px-3 py-2 font-mono text-xs shadow-xs focus-visible:ring-[3px] focus-visible:outline-none"
+                  />
+                  <p className="text-muted-foreground text-xs">
+                    Optional, PEM. With one, AuthnRequests must come over HTTP-Redirect, signed
+                    with its key (RSA-SHA256).
+                  </p>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label>Attribute names</Label>
+                  <div className="grid gap-2 sm:grid-cols-3">
+                    {(
+                      [
+                        ["attributeEmail", "email", "Email"],
+                        ["attributeName", "name", "Name"],
+                        ["attributeRoles", "roles", "Workspace roles"],
+                      ] as const
+                    ).map(([name, key, label]) => (
+                      <div key={name} className="flex flex-col gap-1">
+                        <span className="text-muted-foreground text-xs">{label}</span>
+                        <Input
+                          name={name}
+                          aria-label={`${label} attribute name`}
+                          defaultValue={(saml?.attributeNames ?? DEFAULT_ATTRIBUTE_NAMES)[key]}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-muted-foreground text-xs">
+                    Roles are sent as <code>workspace-slug:role</code>, one value per workspace.
+                    Leave a name empty to leave the attribute out. The NameID is the email.
+                  </p>
+                </div>
+              </fieldset>
+              {field?.startsWith("saml") && error ? (
+                <p role="alert" className="text-destructive text-sm">
+                  {error}
+                </p>
+              ) : null}
+              {can("app:update") ? (
+                <Button type="submit" variant="outline" disabled={busy} className="self-start">
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                  {saml ? "Save service provider" : "Register service provider"}
+                </Button>
+              ) : null}
             </Form>
-            {rotatedSecret ? (
-              <div className="bg-muted mt-1 rounded-md p-3 text-sm">
-                <p className="font-medium">New secret — copy it now, it won't be shown again.</p>
-                <p className="mt-1 font-mono text-xs break-all">client_secret: {rotatedSecret}</p>
-              </div>
+            {saml && can("app:update") ? (
+              <Form method="post">
+                <input type="hidden" name="intent" value="remove-saml" />
+                <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                  Stop serving SAML
+                </Button>
+              </Form>
             ) : null}
-          </div>
-        </CardContent>
-      </Card>
+          </CardContent>
+        </Card>
+      ) : null}
 
       {/* Workspaces */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Workspaces</CardTitle>
-          <CardDescription>Tenants of this application. Members get a role here.</CardDescription>
-        </CardHeader>
-        <CardContent className="flex flex-col gap-4">
-          <Form method="post" className="flex flex-wrap items-end gap-2">
-            <input type="hidden" name="intent" value="create-workspace" />
-            <input type="hidden" name="app" value={application.app ?? ""} />
-            <div className="flex flex-1 flex-col gap-1.5">
-              <Label htmlFor="ws-name">Name</Label>
-              <Input id="ws-name" name="name" placeholder="Acme Corp" required disabled={busy} />
-            </div>
-            <div className="flex flex-1 flex-col gap-1.5">
-              <Label htmlFor="ws-slug">Slug</Label>
-              <Input id="ws-slug" name="slug" placeholder="acme" required disabled={busy} />
-            </div>
-            <Button type="submit" disabled={busy || !application.app}>
-              {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
-              Add
-            </Button>
-          </Form>
-          {field === "ws-name" && error ? (
-            <p role="alert" className="text-destructive text-sm">
-              {error}
-            </p>
-          ) : null}
+      {can("workspace:read") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Workspaces</CardTitle>
+            <CardDescription>Tenants of this application. Members get a role here.</CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {can("workspace:create") ? (
+              <Form method="post" className="flex flex-wrap items-end gap-2">
+                <input type="hidden" name="intent" value="create-workspace" />
+                <div className="flex flex-1 flex-col gap-1.5">
+                  <Label htmlFor="ws-name">Name</Label>
+                  <Input id="ws-name" name="name" placeholder="Acme Corp" required disabled={busy} />
+                </div>
+                <div className="flex flex-1 flex-col gap-1.5">
+                  <Label htmlFor="ws-slug">Slug</Label>
+                  <Input id="ws-slug" name="slug" placeholder="acme" required disabled={busy} />
+                </div>
+                <Button type="submit" disabled={busy || !application.app}>
+                  {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                  Add
+                </Button>
+              </Form>
+            ) : null}
+            {field === "ws-name" && error ? (
+              <p role="alert" className="text-destructive text-sm">
+                {error}
+              </p>
+            ) : null}
 
-          {workspaces.length === 0 ? (
-            <p className="text-muted-foreground text-sm">No workspaces yet.</p>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Name</TableHead>
-                  <TableHead>Slug</TableHead>
-                  <TableHead>Created</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {workspaces.map((w) => (
-                  <TableRow key={w.id}>
-                    <TableCell className="font-medium">{w.name}</TableCell>
-                    <TableCell className="text-muted-foreground">{w.slug}</TableCell>
-                    <TableCell className="text-muted-foreground text-xs">
-                      {new Date(w.createdAt as unknown as string).toLocaleDateString()}
-                    </TableCell>
+            {workspaces.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No workspaces yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Slug</TableHead>
+                    <TableHead>Created</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {workspaces.map((w) => (
+                    <TableRow key={w.id}>
+                      <TableCell className="font-medium">{w.name}</TableCell>
+                      <TableCell className="text-muted-foreground">{w.slug}</TableCell>
+                      <TableCell className="text-muted-foreground text-xs">
+                        {new Date(w.createdAt as unknown as string).toLocaleDateString()}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
 
       {/* App access — admins & members (IdP-level) */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="text-muted-foreground size-4" />
-            App access
-          </CardTitle>
-          <CardDescription>
-            Admins manage this app in the IdP (all permissions); members get specific permissions.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {members.length === 0 ? (
-            <p className="text-muted-foreground text-sm">No app admins or members yet.</p>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Role</TableHead>
-                  <TableHead>Permissions</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {members.map((m) => (
-                  <TableRow key={m.userId}>
-                    <TableCell>{m.email}</TableCell>
-                    <TableCell>
-                      <Badge variant={m.role === "admin" ? "default" : "secondary"}>{m.role}</Badge>
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-xs">
-                      {m.role === "admin" ? "all" : (m.permissions ?? []).join(", ") || "—"}
-                    </TableCell>
+      {can("member:read") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="text-muted-foreground size-4" />
+              App access
+            </CardTitle>
+            <CardDescription>
+              Admins manage this app in the IdP (all permissions); members get specific permissions.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {members.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No app admins or members yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Permissions</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {members.map((m) => (
+                    <TableRow key={m.userId}>
+                      <TableCell>{m.email}</TableCell>
+                      <TableCell>
+                        <Badge variant={m.role === "admin" ? "default" : "secondary"}>{m.role}</Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-xs">
+                        {m.role === "admin" ? "all" : (m.permissions ?? []).join(", ") || "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Invitations */}
+      {canInvite || canRevokeInvites ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="text-muted-foreground size-4" />
+              Invitations
+            </CardTitle>
+            <CardDescription>
+              Invite someone by email. They become an app admin or member once they accept
+              signed in as that address.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {canInvite ? (
+              <Form method="post" className="flex flex-col gap-3">
+                <input type="hidden" name="intent" value="invite-member" />
+                <div className="flex flex-wrap items-end gap-2">
+                  <div className="flex flex-1 flex-col gap-1.5">
+                    <Label htmlFor="invite-email">Email</Label>
+                    <Input
+                      id="invite-email"
+                      name="email"
+                      type="email"
+                      placeholder="teammate@example.com"
+                      required
+                      disabled={busy}
+                    />
+                  </div>
+                  <div className="flex flex-col gap-1.5">
+                    <Label htmlFor="invite-role">Role</Label>
+                    <select
+                      id="invite-role"
+                      name="role"
+                      defaultValue="member"
+                      disabled={busy}
+                      className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                    >
+                      <option value="member">Member</option>
+                      <option value="admin">Admin</option>
+                    </select>
+                  </div>
+                  <Button type="submit" disabled={busy}>
+                    {busy ? <Loader2 className="size-4 animate-spin" /> : <Mail className="size-4" />}
+                    Send invite
+                  </Button>
+                </div>
+                <fieldset className="flex flex-wrap gap-x-4 gap-y-1.5" disabled={busy}>
+                  <legend className="mb-1.5 text-sm font-medium">
+                    Member permissions{" "}
+                    <span className="text-muted-foreground font-normal">(admins get all)</span>
+                  </legend>
+                  {APP_PERMISSIONS.map((p) => (
+                    <label key={p} className="flex items-center gap-1.5 font-mono text-xs">
+                      <input type="checkbox" name="permissions" value={p} />
+                      {p}
+                    </label>
+                  ))}
+                </fieldset>
+              </Form>
+            ) : null}
+            {field === "invite" && error ? (
+              <p role="alert" className="text-destructive text-sm">
+                {error}
+              </p>
+            ) : null}
+            {invited ? <p className="text-sm">Invitation sent to {invited}.</p> : null}
+
+            {invitations.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No pending invitations.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Invited by</TableHead>
+                    <TableHead>Expires</TableHead>
+                    {canRevokeInvites ? <TableHead className="w-8" /> : null}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {invitations.map((inv) => (
+                    <TableRow key={inv.id}>
+                      <TableCell>{inv.email}</TableCell>
+                      <TableCell>
+                        <Badge variant={inv.role === "admin" ? "default" : "secondary"}>
+                          {inv.role}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-xs">
+                        {inv.invitedByEmail ?? "—"}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-xs">
+                        {new Date(inv.expiresAt).toLocaleDateString()}
+                      </TableCell>
+                      {canRevokeInvites ? (
+                        <TableCell>
+                          <Form method="post">
+                            <input type="hidden" name="intent" value="revoke-invitation" />
+                            <input type="hidden" name="invitationId" value={inv.id} />
+                            <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                              Revoke
+                            </Button>
+                          </Form>
+                        </TableCell>
+                      ) : null}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {application.app && can("apikey:read") ? (
+        <ApiKeysCard
+          keys={apiKeys}
+          scoped
+          canCreate={can("apikey:create")}
+          canRevoke={can("apikey:revoke")}
+          createdKey={createdKey}
+          error={field === "api-key" ? error : null}
+          busy={busy}
+        />
+      ) : null}
+
+      {application.app && can("app:update") ? (
+        <WebhooksCard
+          endpoints={webhookEndpoints}
+          deliveries={webhookDeliveries}
+          canManage={can("app:update")}
+          createdSecret={webhookSecret}
+          error={field === "webhook" ? error : null}
+          busy={busy}
+        />
+      ) : null}
+
+      {application.app && can("app:update") ? (
+        <ClientRegistrationCard
+          endpoint={registrationEndpoint}
+          openRegistration={openRegistration}
+          tokens={initialAccessTokens}
+          clients={registeredClients}
+          canManage={can("app:update")}
+          createdToken={initialAccessToken}
+          error={field === "registration" ? error : null}
+          busy={busy}
+        />
+      ) : null}
+
+      {application.app ? (
+        <ApiResourcesCard
+          resources={apiResources}
+          canManage={can("app:update")}
+          error={field === "api-resource" ? error : null}
+          busy={busy}
+        />
+      ) : null}
+
+      {can("app:update") ? (
+        <TokensCard
+          tokens={tokens}
+          endpoints={tokenEndpoints}
+          canRevoke={can("app:update")}
+          revoked={revokedTokens}
+          error={field === "tokens" ? error : null}
+          busy={busy}
+        />
+      ) : null}
 
       {/* People (derived from workspace membership) */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <Users className="text-muted-foreground size-4" />
-            People in workspaces
-          </CardTitle>
-          <CardDescription>
-            Derived from workspace membership — these willy.im users belong to a workspace of this app.
-          </CardDescription>
-        </CardHeader>
-        <CardContent>
-          {people.length === 0 ? (
-            <p className="text-muted-foreground text-sm">No members yet.</p>
-          ) : (
-            <Table>
-              <TableHeader>
-                <TableRow>
-                  <TableHead>Email</TableHead>
-                  <TableHead>Workspace</TableHead>
-                  <TableHead>Role</TableHead>
-                </TableRow>
-              </TableHeader>
-              <TableBody>
-                {people.map((p, i) => (
-                  <TableRow key={`${p.email}-${p.workspace}-${i}`}>
-                    <TableCell>{p.email}</TableCell>
-                    <TableCell className="text-muted-foreground">{p.workspace}</TableCell>
-                    <TableCell>
-                      <Badge variant="secondary">{p.role}</Badge>
-                    </TableCell>
+      {can("workspace:read") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Users className="text-muted-foreground size-4" />
+              People in workspaces
+            </CardTitle>
+            <CardDescription>
+              Derived from workspace membership — these willy.im users belong to a workspace of this app.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {people.length === 0 ? (
+              <p className="text-muted-foreground text-sm">No members yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Email</TableHead>
+                    <TableHead>Workspace</TableHead>
+                    <TableHead>Role</TableHead>
                   </TableRow>
-                ))}
-              </TableBody>
-            </Table>
-          )}
-        </CardContent>
-      </Card>
+                </TableHeader>
+                <TableBody>
+                  {people.map((p, i) => (
+                    <TableRow key={`${p.email}-${p.workspace}-${i}`}>
+                      <TableCell>{p.email}</TableCell>
+                      <TableCell className="text-muted-foreground">{p.workspace}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{p.role}</Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {/* Impersonation */}
+      {can("user:impersonate") ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <VenetianMask className="text-muted-foreground size-4" />
+              Impersonation
+            </CardTitle>
+            <CardDescription>
+              Sign in as one of this app's users to reproduce an issue. The session only works
+              with this application, expires on its own, and tokens name you in their{" "}
+              <code>act</code> claim.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4">
+            {impersonatable.length === 0 ? (
+              <p className="text-muted-foreground text-sm">
+                No users yet — people appear here once they join a workspace of this app.
+              </p>
+            ) : (
+              <Form method="post" className="flex flex-wrap items-end gap-2">
+                <input type="hidden" name="intent" value="impersonate" />
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="impersonate-user">User</Label>
+                  <select
+                    id="impersonate-user"
+                    name="userId"
+                    required
+                    disabled={busy}
+                    className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                  >
+                    {impersonatable.map((p) => (
+                      <option key={p.userId} value={p.userId}>
+                        {p.email}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="impersonate-minutes">For</Label>
+                  <select
+                    id="impersonate-minutes"
+                    name="minutes"
+                    defaultValue="30"
+                    disabled={busy}
+                    className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+                  >
+                    {IMPERSONATION_MINUTES.map((m) => (
+                      <option key={m} value={m}>
+                        {m} minutes
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-1 flex-col gap-1.5">
+                  <Label htmlFor="impersonate-reason">Reason</Label>
+                  <Input
+                    id="impersonate-reason"
+                    name="reason"
+                    placeholder="Support ticket #123"
+                    required
+                    disabled={busy}
+                  />
+                </div>
+                <Button type="submit" disabled={busy}>
+                  {busy ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <VenetianMask className="size-4" />
+                  )}
+                  Impersonate
+                </Button>
+              </Form>
+            )}
+            {field === "impersonate" && error ? (
+              <p role="alert" className="text-destructive text-sm">
+                {error}
+              </p>
+            ) : null}
+
+            {impersonations.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>By</TableHead>
+                    <TableHead>Reason</TableHead>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {impersonations.map((i) => {
+                    const active = !i.endedAt && new Date(i.expiresAt).getTime() > Date.now()
+                    return (
+                      <TableRow key={i.id}>
+                        <TableCell>{i.targetEmail}</TableCell>
+                        <TableCell className="text-muted-foreground">{i.actorEmail}</TableCell>
+                        <TableCell className="text-muted-foreground text-xs">
+                          {i.reason ?? "—"}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground text-xs">
+                          {new Date(i.createdAt).toLocaleString()}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={active ? "default" : "outline"}>
+                            {active ? "active" : i.endedAt ? "stopped" : "expired"}
+                          </Badge>
+                        </TableCell>
+                      </TableRow>
+                    )
+                  })}
+                </TableBody>
+              </Table>
+            ) : null}
+          </CardContent>
+        </Card>
+      ) : null}
 
       {/* Danger zone */}
-      <Card className="border-destructive/40">
-        <CardHeader>
-          <CardTitle className="text-destructive">Danger zone</CardTitle>
-          <CardDescription>Deleting an application immediately breaks its sign-in.</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
-            <AlertDialogTrigger render={<Button variant="destructive">Delete application</Button>} />
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Delete {application.name ?? "this application"}?</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This permanently removes the OAuth client. Any app using it will fail to sign in.
-                  This can't be undone.
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction
-                  variant="destructive"
-                  onClick={() => {
-                    setConfirmOpen(false)
-                    submit({ intent: "delete" }, { method: "post" })
-                  }}
-                >
-                  Delete
-                </AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
-        </CardContent>
-      </Card>
+      {can("app:delete") ? (
+        <Card className="border-destructive/40">
+          <CardHeader>
+            <CardTitle className="text-destructive">Danger zone</CardTitle>
+            <CardDescription>Deleting an application immediately breaks its sign-in.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+              <AlertDialogTrigger render={<Button variant="destructive">Delete application</Button>} />
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Delete {application.name ?? "this application"}?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    This permanently removes the OAuth client. Any app using it will fail to sign in.
+                    This can't be undone.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction
+                    variant="destructive"
+                    onClick={() => {
+                      setConfirmOpen(false)
+                      submit({ intent: "delete" }, { method: "post" })
+                    }}
+                  >
+                    Delete
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </CardContent>
+        </Card>
+      ) : null}
     </div>
   )
 }
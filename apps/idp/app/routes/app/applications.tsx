@@ -1,10 +1,20 @@
 import { useRef } from "react"
-import { Form, useActionData, useNavigate, useNavigation } from "react-router"
+import { Form, redirect, useActionData, useNavigate, useNavigation } from "react-router"
 import { ChevronRight, Loader2, Plus } from "lucide-react"
 
 import type { Route } from "./+types/applications"
-import { createApplication, listApplications, requireAdminSession } from "~/lib/admin.server"
+import {
+  createApplication,
+  findApplicationByApp,
+  isAdminEmail,
+  listApplications,
+  listApplicationsForUser,
+  requireAdminSession,
+  requireSession,
+} from "~/lib/admin.server"
+import { createApiKey, listApiKeys, parseApiKeyForm, revokeApiKey } from "~/lib/api-keys.server"
 import { firstInvalidRedirectUri, parseUriList } from "~/lib/validate"
+import { ApiKeysCard } from "~/components/api-keys-card"
 import { Badge } from "~/components/ui/badge"
 import { Button } from "~/components/ui/button"
 import { Card, CardContent, CardHeader, CardTitle } from "~/components/ui/card"
@@ -20,13 +30,45 @@ import {
 } from "~/components/ui/table"
 
 export async function loader({ request, context }: Route.LoaderArgs) {
-  await requireAdminSession(request, context, context.services.auth)
-  return { applications: await listApplications(context) }
+  const session = await requireSession(request, context, context.services.auth)
+  // Superadmins see (and register) every application; app admins and members
+  // see the ones they belong to. Everyone else has nothing to manage here.
+  if (!isAdminEmail(context, session.user.email)) {
+    const applications = await listApplicationsForUser(context, session.user.id)
+    if (applications.length === 0) throw redirect("/account")
+    return { isSuperadmin: false, applications, apiKeys: [] }
+  }
+  const [applications, apiKeys] = await Promise.all([
+    listApplications(context),
+    listApiKeys(context, null),
+  ])
+  return {
+    isSuperadmin: true,
+    applications: applications.map((a) => ({ ...a, role: null })),
+    apiKeys,
+  }
 }
 
 export async function action({ request, context }: Route.ActionArgs) {
   const session = await requireAdminSession(request, context, context.services.auth)
   const form = await request.formData()
+  const intent = form.get("intent")
+
+  // IdP-wide keys: only superadmins (this page's gate) may mint or revoke them.
+  if (intent === "revoke-api-key") {
+    await revokeApiKey(context, null, String(form.get("keyId") ?? ""))
+    return { ok: "api-key" }
+  }
+  if (intent === "create-api-key") {
+    const input = parseApiKeyForm(form, false)
+    if ("error" in input) return { error: input.error, field: "api-key" }
+    const created = await createApiKey(context, {
+      applicationId: null,
+      ownerUserId: session.user.id,
+      ...input,
+    })
+    return { createdKey: created.key }
+  }
 
   const name = String(form.get("name") ?? "").trim()
   const app = String(form.get("app") ?? "").trim()
@@ -37,9 +79,12 @@ export async function action({ request, context }: Route.ActionArgs) {
     return { error: "Add at least one redirect URI.", field: "redirectUris" }
   const invalid = firstInvalidRedirectUri(redirectUris)
   if (invalid)
-    return { error: `"${invalid}" isn't a valid URL. Use an absolute URL like https://app.example.com/callback.`, field: "redirectUris" }
+    return { error: `"${invalid}" isn't an allowed redirect URI. Use https, http on localhost, or a private-use scheme like com.example.app:/callback.`, field: "redirectUris" }
 
-  const created = await createApplication(request, context, context.services.auth, {
+  if (await findApplicationByApp(context, app))
+    return { error: `The app key "${app}" is already taken.`, field: "app" }
+
+  const created = await createApplication(context, {
     name,
     app,
     redirectUris,
@@ -49,74 +94,78 @@ export async function action({ request, context }: Route.ActionArgs) {
 }
 
 export default function AdminApplications({ loaderData }: Route.ComponentProps) {
-  const { applications } = loaderData
+  const { isSuperadmin, applications, apiKeys } = loaderData
   const actionData = useActionData<typeof action>()
   const navigate = useNavigate()
   const nav = useNavigation()
   const busy = nav.state !== "idle"
   const created = actionData && "created" in actionData ? actionData.created : null
+  const createdKey = actionData && "createdKey" in actionData ? actionData.createdKey : null
   const error = actionData && "error" in actionData ? actionData.error : null
   const field = actionData && "field" in actionData ? actionData.field : null
+  const keyError = field === "api-key" ? error : null
   const uriRef = useRef<HTMLInputElement>(null)
 
   return (
     <div className="flex flex-col gap-6">
-      <Card>
-        <CardHeader>
-          <CardTitle>Register an application</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <Form method="post" className="flex flex-col gap-3">
-            <div className="grid gap-3 sm:grid-cols-2">
-              <div className="flex flex-col gap-1.5">
-                <Label htmlFor="name">Name</Label>
-                <Input id="name" name="name" placeholder="Invoices" required disabled={busy} />
+      {isSuperadmin ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Register an application</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form method="post" className="flex flex-col gap-3">
+              <div className="grid gap-3 sm:grid-cols-2">
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="name">Name</Label>
+                  <Input id="name" name="name" placeholder="Invoices" required disabled={busy} />
+                </div>
+                <div className="flex flex-col gap-1.5">
+                  <Label htmlFor="app">
+                    App key <span className="text-muted-foreground font-normal">(stable, e.g. invoices)</span>
+                  </Label>
+                  <Input id="app" name="app" placeholder="invoices" required disabled={busy} />
+                </div>
               </div>
               <div className="flex flex-col gap-1.5">
-                <Label htmlFor="app">
-                  App key <span className="text-muted-foreground font-normal">(stable, e.g. invoices)</span>
-                </Label>
-                <Input id="app" name="app" placeholder="invoices" required disabled={busy} />
+                <Label htmlFor="redirectUris">Redirect URIs</Label>
+                <Input
+                  id="redirectUris"
+                  name="redirectUris"
+                  ref={uriRef}
+                  placeholder="https://invoices.example.com/api/auth/oauth2/callback/willyim"
+                  aria-invalid={field === "redirectUris"}
+                  aria-describedby="redirectUris-help"
+                  required
+                  disabled={busy}
+                />
+                <p id="redirectUris-help" className="text-muted-foreground text-xs">
+                  Absolute URLs, space- or comma-separated. Where willy.im sends users back after sign-in.
+                </p>
               </div>
-            </div>
-            <div className="flex flex-col gap-1.5">
-              <Label htmlFor="redirectUris">Redirect URIs</Label>
-              <Input
-                id="redirectUris"
-                name="redirectUris"
-                ref={uriRef}
-                placeholder="https://invoices.example.com/api/auth/oauth2/callback/willyim"
-                aria-invalid={field === "redirectUris"}
-                aria-describedby="redirectUris-help"
-                required
-                disabled={busy}
-              />
-              <p id="redirectUris-help" className="text-muted-foreground text-xs">
-                Absolute URLs, space- or comma-separated. Where willy.im sends users back after sign-in.
-              </p>
-            </div>
-            <Button type="submit" disabled={busy} className="self-start">
-              {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
-              Register
-            </Button>
-          </Form>
+              <Button type="submit" disabled={busy} className="self-start">
+                {busy ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+                Register
+              </Button>
+            </Form>
 
-          {error ? (
-            <p role="alert" className="text-destructive mt-3 text-sm">
-              {error}
-            </p>
-          ) : null}
-          {created ? (
-            <div className="bg-muted mt-4 rounded-md p-3 text-sm">
-              <p className="font-medium">
-                Application created — copy the secret now, it won't be shown again.
+            {error && !keyError ? (
+              <p role="alert" className="text-destructive mt-3 text-sm">
+                {error}
               </p>
-              <p className="mt-2 font-mono text-xs break-all">client_id: {created.clientId}</p>
-              <p className="font-mono text-xs break-all">client_secret: {created.clientSecret}</p>
-            </div>
-          ) : null}
-        </CardContent>
-      </Card>
+            ) : null}
+            {created ? (
+              <div className="bg-muted mt-4 rounded-md p-3 text-sm">
+                <p className="font-medium">
+                  Application created — copy the secret now, it won't be shown again.
+                </p>
+                <p className="mt-2 font-mono text-xs break-all">client_id: {created.clientId}</p>
+                <p className="font-mono text-xs break-all">client_secret: {created.clientSecret}</p>
+              </div>
+            ) : null}
+          </CardContent>
+        </Card>
+      ) : null}
 
       {applications.length === 0 ? (
         <div className="text-muted-foreground rounded-lg border border-dashed p-10 text-center text-sm">
@@ -143,6 +192,11 @@ export default function AdminApplications({ loaderData }: Route.ComponentProps)
                 <TableCell className="font-medium">{a.name ?? "—"}</TableCell>
                 <TableCell>
                   {a.app ? <Badge variant="secondary">{a.app}</Badge> : "—"}
+                  {a.role ? (
+                    <Badge variant="outline" className="ml-1.5">
+                      {a.role}
+                    </Badge>
+                  ) : null}
                 </TableCell>
                 <TableCell className="font-mono text-xs">{a.clientId}</TableCell>
                 <TableCell className="text-muted-foreground">{a.redirectUris.length}</TableCell>
@@ -154,6 +208,16 @@ export default function AdminApplications({ loaderData }: Route.ComponentProps)
           </TableBody>
         </Table>
       )}
+
+      {isSuperadmin ? (
+        <ApiKeysCard
+          keys={apiKeys}
+          scoped={false}
+          createdKey={createdKey}
+          error={keyError}
+          busy={busy}
+        />
+      ) : null}
     </div>
   )
 }
@@ -1,25 +1,59 @@
-import { Link, Outlet, useLocation, useNavigate } from "react-router"
-import { ShieldCheck } from "lucide-react"
+import { Form, Link, Outlet, useLocation, useNavigate } from "react-router"
+import { ShieldCheck, VenetianMask } from "lucide-react"
 
 import type { Route } from "./+types/layout"
-import { isAdminEmail, requireSession } from "~/lib/admin.server"
+import {
+  getApplication,
+  isAdminEmail,
+  listApplicationsForUser,
+  requireSession,
+} from "~/lib/admin.server"
+import { findImpersonationBySession, isImpersonationActive } from "~/lib/impersonation.server"
 import { cn } from "~/lib/utils"
+import { Button } from "~/components/ui/button"
+
+/** What the banner says while an admin is signed in as one of their app's users. */
+async function impersonationBanner(context: Route.LoaderArgs["context"], sessionId: string) {
+  const row = await findImpersonationBySession(context, sessionId)
+  if (!row || !isImpersonationActive(row)) return null
+  const application = await getApplication(context, row.clientId)
+  const redirectUri = application?.redirectUris[0]
+  return {
+    actorEmail: row.actorEmail,
+    expiresAt: row.expiresAt,
+    appName: application?.name ?? row.clientId,
+    appUrl: redirectUri && URL.canParse(redirectUri) ? new URL(redirectUri).origin : null,
+  }
+}
 
 export async function loader({ request, context }: Route.LoaderArgs) {
   const session = await requireSession(request, context, context.services.auth)
-  return { email: session.user.email, isAdmin: isAdminEmail(context, session.user.email) }
+  const impersonation = await impersonationBanner(context, session.session.id)
+  const isAdmin = !impersonation && isAdminEmail(context, session.user.email)
+  const hasApps =
+    isAdmin ||
+    (!impersonation && (await listApplicationsForUser(context, session.user.id)).length > 0)
+  return { email: session.user.email, isAdmin, hasApps, impersonation }
 }
 
 export default function ConsoleLayout({ loaderData }: Route.ComponentProps) {
-  const { email, isAdmin } = loaderData
+  const { email, isAdmin, hasApps, impersonation } = loaderData
   const { pathname } = useLocation()
   const navigate = useNavigate()
 
   const tabs = [
+    ...(hasApps
+      ? [{ to: "/", label: "Applications", active: pathname === "/" || pathname.startsWith("/apps") }]
+      : []),
     ...(isAdmin
       ? [
-          { to: "/", label: "Applications", active: pathname === "/" || pathname.startsWith("/apps") },
           { to: "/users", label: "Users", active: pathname.startsWith("/users") },
+          {
+            to: "/signing-keys",
+            label: "Signing keys",
+            active: pathname.startsWith("/signing-keys"),
+          },
+          { to: "/lockouts", label: "Lockouts", active: pathname.startsWith("/lockouts") },
         ]
       : []),
     { to: "/account", label: "Account", active: pathname.startsWith("/account") },
@@ -41,6 +75,33 @@ export default function ConsoleLayout({ loaderData }: Route.ComponentProps) {
         </button>
       </header>
 
+      {impersonation ? (
+        <div
+          role="status"
+          className="flex flex-wrap items-center gap-3 rounded-md border border-amber-500/50 bg-amber-500/10 px-4 py-3 text-sm"
+        >
+          <VenetianMask className="size-4 shrink-0 text-amber-600" />
+          <p className="flex-1">
+            You ({impersonation.actorEmail}) are signed in as{" "}
+            <span className="font-medium">{email}</span> for {impersonation.appName} until{" "}
+            {new Date(impersonation.expiresAt).toLocaleTimeString()}.
+            {impersonation.appUrl ? (
+              <>
+                {" "}
+                <a href={impersonation.appUrl} target="_blank" rel="noreferrer">
+                  Open {impersonation.appName}
+                </a>
+              </>
+            ) : null}
+          </p>
+          <Form method="post" action="/impersonation/stop">
+            <Button type="submit" size="sm" variant="outline">
+              Stop impersonating
+            </Button>
+          </Form>
+        </div>
+      ) : null}
+
       <nav className="flex gap-1 border-b" aria-label="Primary">
         {tabs.map((t) => (
           <Link
@@ -0,0 +1,125 @@
+import { Form, useActionData, useNavigation } from "react-router"
+import { Lock } from "lucide-react"
+
+import type { Route } from "./+types/lockouts"
+import { requireAdminSession } from "~/lib/admin.server"
+import {
+  listLockouts,
+  LOCKOUT_MINUTES,
+  MAX_LOCKOUT_HOURS,
+  unlock,
+  WINDOW_MINUTES,
+} from "~/lib/rate-limit.server"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+const ACTION_LABELS: Record<string, string> = {
+  "otp-send": "Sending sign-in codes",
+  "otp-verify": "Entering sign-in codes",
+  passkey: "Passkey sign-in",
+  "client-auth": "Client authentication",
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  await requireAdminSession(request, context, context.services.auth)
+  return { lockouts: await listLockouts(context) }
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  await requireAdminSession(request, context, context.services.auth)
+  const form = await request.formData()
+  const intent = form.get("intent")
+
+  if (intent === "unlock") {
+    const key = String(form.get("key") ?? "")
+    if (!(await unlock(context, key))) return { error: "That lockout has already been lifted." }
+    return { ok: true }
+  }
+
+  return { error: "Unknown action" }
+}
+
+export default function Lockouts({ loaderData }: Route.ComponentProps) {
+  const { lockouts } = loaderData
+  const actionData = useActionData<typeof action>()
+  const nav = useNavigation()
+  const busy = nav.state !== "idle"
+  const error = actionData && "error" in actionData ? actionData.error : null
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Lock className="text-muted-foreground size-4" />
+            Lockouts
+          </CardTitle>
+          <CardDescription>
+            IP addresses, and emails or clients tried from one IP address (email-ip, client-ip),
+            that made too many attempts within {WINDOW_MINUTES} minutes. The first lockout lasts{" "}
+            {LOCKOUT_MINUTES} minutes and each one after twice as long, up to {MAX_LOCKOUT_HOURS}{" "}
+            hours.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {error ? (
+            <p role="alert" className="text-destructive text-sm">
+              {error}
+            </p>
+          ) : null}
+
+          {lockouts.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Nobody is locked out.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Identifier</TableHead>
+                  <TableHead>Locked out of</TableHead>
+                  <TableHead>Lockouts</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead className="w-8" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lockouts.map((l) => (
+                  <TableRow key={l.key}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{l.kind}</Badge>
+                        <span className="font-mono text-xs break-all">{l.identifier}</span>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">{ACTION_LABELS[l.action] ?? l.action}</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">{l.lockouts}</TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {l.lockedUntil ? new Date(l.lockedUntil).toLocaleString() : "—"}
+                    </TableCell>
+                    <TableCell>
+                      <Form method="post">
+                        <input type="hidden" name="intent" value="unlock" />
+                        <input type="hidden" name="key" value={l.key} />
+                        <Button type="submit" variant="ghost" size="sm" disabled={busy}>
+                          Unlock
+                        </Button>
+                      </Form>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
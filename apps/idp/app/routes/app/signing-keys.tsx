@@ -0,0 +1,228 @@
+import { useState } from "react"
+import { Form, useActionData, useNavigation, useSubmit } from "react-router"
+import { KeySquare, Loader2, RotateCw } from "lucide-react"
+
+import type { Route } from "./+types/signing-keys"
+import { requireAdminSession } from "~/lib/admin.server"
+import {
+  GRACE_PERIOD_DAYS,
+  isSigningAlgorithm,
+  listSigningKeys,
+  PUBLISH_AHEAD_DAYS,
+  revokeSigningKey,
+  ROTATION_INTERVAL_DAYS,
+  rotateSigningKeyNow,
+  SIGNING_ALGORITHMS,
+  type SigningKeyState,
+} from "~/lib/signing-keys.server"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "~/components/ui/alert-dialog"
+import { Badge } from "~/components/ui/badge"
+import { Button } from "~/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+import { Label } from "~/components/ui/label"
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "~/components/ui/table"
+
+const STATE_VARIANT = {
+  pending: "outline",
+  active: "default",
+  retiring: "secondary",
+  retired: "outline",
+  revoked: "destructive",
+} as const satisfies Record<SigningKeyState, string>
+
+function formatDate(value: Date | string | null) {
+  return value ? new Date(value).toLocaleString() : "—"
+}
+
+export async function loader({ request, context }: Route.LoaderArgs) {
+  await requireAdminSession(request, context, context.services.auth)
+  return {
+    keys: await listSigningKeys(context),
+    jwksUri: `${context.tenant.origin}/auth/jwks`,
+  }
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  await requireAdminSession(request, context, context.services.auth)
+  const form = await request.formData()
+  const intent = form.get("intent")
+
+  if (intent === "rotate-signing-key") {
+    const alg = form.get("alg")
+    if (!isSigningAlgorithm(alg)) return { error: "Pick an algorithm." }
+    const kid = await rotateSigningKeyNow(context, alg)
+    context.logger.info("signing_key.rotated", { kid, alg })
+    return { ok: true }
+  }
+
+  if (intent === "revoke-signing-key") {
+    const kid = String(form.get("kid") ?? "")
+    const revoked = await revokeSigningKey(context, kid)
+    if ("error" in revoked) return { error: revoked.error }
+    return { ok: true }
+  }
+
+  return { error: "Unknown action" }
+}
+
+export default function SigningKeys({ loaderData }: Route.ComponentProps) {
+  const { keys, jwksUri } = loaderData
+  const actionData = useActionData<typeof action>()
+  const nav = useNavigation()
+  const submit = useSubmit()
+  const busy = nav.state !== "idle"
+  const [revoking, setRevoking] = useState<string | null>(null)
+  const error = actionData && "error" in actionData ? actionData.error : null
+  const current = keys.find((k) => k.state === "active")
+
+  return (
+    <div className="flex flex-col gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <KeySquare className="text-muted-foreground size-4" />
+            Signing keys
+          </CardTitle>
+          <CardDescription>
+            Keys that sign id tokens, JWT access tokens and logout tokens, published at{" "}
+            <code className="font-mono text-xs">{jwksUri}</code>. Each signs for{" "}
+            {ROTATION_INTERVAL_DAYS} days; the next is published {PUBLISH_AHEAD_DAYS} days before it
+            takes over, and the one it replaces stays published for {GRACE_PERIOD_DAYS} days.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          <Form method="post" className="flex flex-wrap items-end gap-2">
+            <input type="hidden" name="intent" value="rotate-signing-key" />
+            <div className="flex flex-col gap-1.5">
+              <Label htmlFor="signing-key-alg">Algorithm</Label>
+              <select
+                id="signing-key-alg"
+                name="alg"
+                defaultValue={current?.alg ?? "EdDSA"}
+                disabled={busy}
+                className="border-input h-9 rounded-md border bg-transparent px-3 text-sm shadow-xs"
+              >
+                {SIGNING_ALGORITHMS.map((alg) => (
+                  <option key={alg} value={alg}>
+                    {alg}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" variant="outline" disabled={busy}>
+              {busy ? <Loader2 className="size-4 animate-spin" /> : <RotateCw className="size-4" />}
+              Rotate now
+            </Button>
+          </Form>
+          <p className="text-muted-foreground text-xs">
+            Rotating starts signing with a key of that algorithm right away (the published next key,
+            if it matches), and later rotations keep it. Pick RS256 for clients that only verify RSA
+            signatures.
+          </p>
+
+          {error ? (
+            <p role="alert" className="text-destructive text-sm">
+              {error}
+            </p>
+          ) : null}
+
+          {keys.length === 0 ? (
+            <p className="text-muted-foreground text-sm">
+              No keys yet; the first is made when a token is signed.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key ID</TableHead>
+                  <TableHead>Algorithm</TableHead>
+                  <TableHead>State</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Signs from</TableHead>
+                  <TableHead>Replaced</TableHead>
+                  <TableHead className="w-8" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {keys.map((k) => (
+                  <TableRow key={k.kid}>
+                    <TableCell className="font-mono text-xs break-all">{k.kid}</TableCell>
+                    <TableCell className="font-mono text-xs">{k.alg}</TableCell>
+                    <TableCell>
+                      <Badge variant={STATE_VARIANT[k.state]}>{k.state}</Badge>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatDate(k.createdAt)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {formatDate(k.activatesAt)}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground text-xs">
+                      {k.revokedAt
+                        ? `revoked ${formatDate(k.revokedAt)}`
+                        : formatDate(k.supersededAt)}
+                    </TableCell>
+                    <TableCell>
+                      {k.state === "pending" || k.state === "active" || k.state === "retiring" ? (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          disabled={busy}
+                          onClick={() => setRevoking(k.kid)}
+                        >
+                          Revoke
+                        </Button>
+                      ) : null}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <AlertDialog open={revoking !== null} onOpenChange={(open) => !open && setRevoking(null)}>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Revoke this signing key?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  It leaves the JWKS now, so every token it signed stops verifying. If it's the key
+                  signing now, another takes over right away. This can't be undone.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  variant="destructive"
+                  onClick={() => {
+                    if (revoking)
+                      submit({ intent: "revoke-signing-key", kid: revoking }, { method: "post" })
+                    setRevoking(null)
+                  }}
+                >
+                  Revoke key
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,41 @@
+import type { Route } from "./+types/register.$clientId"
+import {
+  deleteRegisteredClient,
+  readClientMetadata,
+  readRegisteredClient,
+  registrationError,
+  registrationJson,
+  registrationMethodNotAllowed,
+  requireRegisteredClient,
+  updateRegisteredClient,
+} from "~/lib/client-registration.server"
+
+/** RFC 7592 client configuration: read it with the registration access token. */
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  await requireRegisteredClient(context, context.tenant, request, params.clientId)
+  const client = await readRegisteredClient(context, context.tenant, params.clientId)
+  if (!client) throw registrationError(401, "invalid_token", "Unknown client or token.")
+  return registrationJson(client)
+}
+
+/** PUT replaces the client's metadata; DELETE deregisters it. */
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const registration = await requireRegisteredClient(
+    context,
+    context.tenant,
+    request,
+    params.clientId,
+  )
+  if (request.method === "PUT") {
+    const metadata = await readClientMetadata(request)
+    const client = await updateRegisteredClient(context, context.tenant, registration, metadata)
+    context.logger.info("oauth.registered_client_updated", { clientId: params.clientId })
+    return registrationJson(client)
+  }
+  if (request.method === "DELETE") {
+    await deleteRegisteredClient(context, registration.applicationId, params.clientId)
+    context.logger.info("oauth.registered_client_deleted", { clientId: params.clientId })
+    return new Response(null, { status: 204 })
+  }
+  registrationMethodNotAllowed()
+}
@@ -0,0 +1,26 @@
+import type { Route } from "./+types/register"
+import {
+  readClientMetadata,
+  registerClient,
+  registrationJson,
+  registrationMethodNotAllowed,
+  requireRegistrationGrant,
+} from "~/lib/client-registration.server"
+
+/** RFC 7591 client registration; see client-registration.server.ts. */
+export function loader() {
+  registrationMethodNotAllowed()
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  if (request.method !== "POST") registrationMethodNotAllowed()
+  const grant = await requireRegistrationGrant(context, context.tenant, request)
+  const metadata = await readClientMetadata(request)
+  const client = await registerClient(context, context.tenant, grant, metadata)
+  context.logger.info("oauth.client_registered", {
+    app: grant.app,
+    clientId: client.client_id,
+    open: grant.initialAccessTokenId === null,
+  })
+  return registrationJson(client, { status: 201 })
+}
@@ -0,0 +1,16 @@
+import type { Route } from "./+types/avatars"
+import { getAvatar } from "~/lib/avatars.server"
+
+/** Public avatar images. Keys are content hashes, so responses never change. */
+export async function loader({ context, params }: Route.LoaderArgs) {
+  const object = await getAvatar(context.services.storage, params.userId, params.file)
+  if (!object) return new Response("Not found", { status: 404 })
+  return new Response(object.body, {
+    headers: {
+      "content-type": object.contentType,
+      etag: object.etag,
+      "cache-control": "public, max-age=31536000, immutable",
+      "x-content-type-options": "nosniff",
+    },
+  })
+}
@@ -1,29 +1,59 @@
 import { useState } from "react"
 import { useSearchParams } from "react-router"
-import { Check, Loader2, ShieldCheck } from "lucide-react"
+import { Check, CircleAlert, Loader2, ShieldCheck } from "lucide-react"
 
+import type { Route } from "./+types/consent"
+import { getApplication, isRegisteredClient } from "~/lib/admin.server"
+import { scopeDescriptions } from "~/lib/api-resources.server"
 import { authClient } from "~/lib/auth-client"
+import { brandingFor } from "~/lib/branding.server"
+import { deviceUserCode } from "~/lib/device-authorization.server"
+import { signedAuthorizationClientId } from "~/lib/pending-authorization.server"
+import { SAML_SCOPES } from "~/lib/saml.server"
+import { samlContinuePath, samlRequestClientId } from "~/lib/saml-requests.server"
+import { accentStyle, BrandingFooter, BrandingLogo } from "~/components/branding"
 import { Button } from "~/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "~/components/ui/card"
 
-export function meta() {
-  return [{ title: "Authorize · willy.im" }]
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const search = new URL(request.url).search
+  const oauthClientId = await signedAuthorizationClientId(context, search)
+  const samlClientId = oauthClientId ? null : await samlRequestClientId(context, search)
+  const branding = await brandingFor(context, context.tenant, oauthClientId ?? samlClientId)
+  // A SAML request is decided by posting to /saml/continue, not through the oauth2 client.
+  const samlAction = samlClientId
+    ? samlContinuePath(new URLSearchParams(search).get("saml")!)
+    : null
+  // Approving a device from /device: show its code, to check against the device's.
+  const deviceCode = oauthClientId ? deviceUserCode(new URLSearchParams(search).get("state")) : null
+  // What each scope grants, in words: the OIDC ones and the app's API scopes.
+  const clientId = oauthClientId ?? samlClientId
+  const app = clientId ? ((await getApplication(context, clientId))?.app ?? null) : null
+  const descriptions = await scopeDescriptions(context, app)
+  // A client that registered itself (RFC 7591) picked its own name and logo.
+  const unverified = oauthClientId ? await isRegisteredClient(context, oauthClientId) : false
+  return {
+    branding,
+    unverified,
+    samlAction,
+    samlScopes: samlAction ? SAML_SCOPES : null,
+    deviceCode,
+    descriptions,
+  }
 }
 
-const SCOPE_LABELS: Record<string, string> = {
-  openid: "Verify your identity",
-  profile: "Your name and profile info",
-  email: "Your email address",
-  offline_access: "Stay signed in (refresh access)",
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Authorize ${data?.branding?.name ?? "access"} · willy.im` }]
 }
 
-export default function Consent() {
+export default function Consent({ loaderData }: Route.ComponentProps) {
+  const { branding, unverified, samlAction, samlScopes, deviceCode, descriptions } = loaderData
   const [params] = useSearchParams()
   const [pending, setPending] = useState<null | "accept" | "deny">(null)
   const [error, setError] = useState<string | null>(null)
 
-  const clientId = params.get("client_id") ?? "An application"
-  const scopes = (params.get("scope") ?? "").split(/\s+/).filter(Boolean)
+  const appName = branding?.name ?? "An application"
+  const scopes = samlScopes ?? (params.get("scope") ?? "").split(/\s+/).filter(Boolean)
 
   async function decide(accept: boolean) {
     setError(null)
@@ -46,19 +76,39 @@ export default function Consent() {
   }
 
   return (
-    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+    <main
+      className="flex min-h-screen flex-col items-center justify-center p-6"
+      style={accentStyle(branding)}
+    >
       <Card className="w-full max-w-sm">
         <CardHeader>
-          <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
-            <ShieldCheck className="size-5" />
-          </div>
+          {branding?.logoUrl ? (
+            <BrandingLogo branding={branding} />
+          ) : (
+            <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
+              <ShieldCheck className="size-5" />
+            </div>
+          )}
           <CardTitle>Authorize access</CardTitle>
           <CardDescription>
-            <span className="font-medium">{clientId}</span> wants to sign you in with your willy.im
+            <span className="font-medium">{appName}</span> wants to sign you in with your willy.im
             account.
           </CardDescription>
+          {unverified ? (
+            <p className="text-muted-foreground flex items-start gap-1.5 text-xs">
+              <CircleAlert className="mt-px size-3.5 shrink-0" />
+              Unverified: this app registered itself, and willy.im hasn't checked its name or logo.
+            </p>
+          ) : null}
         </CardHeader>
         <CardContent>
+          {deviceCode ? (
+            <p className="bg-muted mb-4 rounded-md p-3 text-sm">
+              This signs in the device showing{" "}
+              <span className="font-mono font-medium tracking-widest">{deviceCode}</span>. Allow
+              only if the codes match and you started it.
+            </p>
+          ) : null}
           {scopes.length > 0 ? (
             <>
               <p className="text-muted-foreground mb-2 text-xs font-medium uppercase tracking-wide">
@@ -68,7 +118,7 @@ export default function Consent() {
                 {scopes.map((s) => (
                   <li key={s} className="flex items-start gap-2 text-sm">
                     <Check className="text-primary mt-0.5 size-4 shrink-0" />
-                    {SCOPE_LABELS[s] ?? s}
+                    {descriptions[s] ?? s}
                   </li>
                 ))}
               </ul>
@@ -76,22 +126,36 @@ export default function Consent() {
           ) : null}
           {error ? <p className="text-destructive mt-3 text-sm">{error}</p> : null}
         </CardContent>
-        <CardFooter className="flex flex-col gap-2">
-          <Button className="w-full" onClick={() => decide(true)} disabled={!!pending}>
-            {pending === "accept" ? <Loader2 className="size-4 animate-spin" /> : null}
-            Allow
-          </Button>
-          <Button
-            variant="ghost"
-            className="w-full"
-            onClick={() => decide(false)}
-            disabled={!!pending}
-          >
-            {pending === "deny" ? <Loader2 className="size-4 animate-spin" /> : null}
-            Deny
-          </Button>
-        </CardFooter>
+        {samlAction ? (
+          <CardFooter>
+            <form method="post" action={samlAction} className="flex w-full flex-col gap-2">
+              <Button className="w-full" type="submit" name="intent" value="accept">
+                Allow
+              </Button>
+              <Button variant="ghost" className="w-full" type="submit" name="intent" value="deny">
+                Deny
+              </Button>
+            </form>
+          </CardFooter>
+        ) : (
+          <CardFooter className="flex flex-col gap-2">
+            <Button className="w-full" onClick={() => decide(true)} disabled={!!pending}>
+              {pending === "accept" ? <Loader2 className="size-4 animate-spin" /> : null}
+              Allow
+            </Button>
+            <Button
+              variant="ghost"
+              className="w-full"
+              onClick={() => decide(false)}
+              disabled={!!pending}
+            >
+              {pending === "deny" ? <Loader2 className="size-4 animate-spin" /> : null}
+              Deny
+            </Button>
+          </CardFooter>
+        )}
       </Card>
+      <BrandingFooter branding={branding} />
     </main>
   )
 }
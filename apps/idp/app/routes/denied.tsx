@@ -0,0 +1,126 @@
+import { useState } from "react"
+import { redirect } from "react-router"
+import { Ban, Loader2 } from "lucide-react"
+
+import type { Route } from "./+types/denied"
+import { getApplication } from "~/lib/admin.server"
+import { authClient } from "~/lib/auth-client"
+import { brandingFor } from "~/lib/branding.server"
+import { signedAuthorizationClientId } from "~/lib/pending-authorization.server"
+import { samlContinuePath, samlRequestClientId } from "~/lib/saml-requests.server"
+import { authorizationDenial, getSignInPolicy } from "~/lib/sign-in-policy.server"
+import { accentStyle, BrandingFooter, BrandingLogo } from "~/components/branding"
+import { Button, buttonVariants } from "~/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Access denied · ${data?.branding?.name ?? "willy.im"}` }]
+}
+
+/**
+ * Where the oauth-provider sends a signed-in user the app's sign-in policy
+ * refuses (see sign-in-policy.server.ts), with the signed authorize query, or
+ * /saml/continue with its pending request. The reason is worked out again here
+ * rather than trusted from the URL.
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const search = new URL(request.url).search
+  const oauthClientId = await signedAuthorizationClientId(context, search)
+  const samlClientId = oauthClientId ? null : await samlRequestClientId(context, search)
+  const clientId = oauthClientId ?? samlClientId
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw redirect(clientId ? `/login${search}` : "/login")
+
+  const app = clientId ? (await getApplication(context, clientId))?.app : null
+  const reason = app ? await authorizationDenial(context, app, session.user) : null
+  const params = new URLSearchParams(search)
+  // The client's redirect_uri was checked at /oauth2/authorize before it was signed.
+  const back = reason && oauthClientId ? new URL(params.get("redirect_uri")!) : null
+  back?.searchParams.set("error", "access_denied")
+  if (params.get("state")) back?.searchParams.set("state", params.get("state")!)
+
+  return {
+    branding: await brandingFor(context, context.tenant, clientId),
+    reason,
+    allowedEmailDomains: app ? (await getSignInPolicy(context, app)).allowedEmailDomains : [],
+    signedInAs: session.user.email,
+    backUrl: back?.toString() ?? null,
+    // A SAML service provider is told with a RequestDenied response instead.
+    samlDenyAction: reason && samlClientId ? samlContinuePath(params.get("saml")!) : null,
+  }
+}
+
+export default function Denied({ loaderData }: Route.ComponentProps) {
+  const { branding, reason, allowedEmailDomains, signedInAs, backUrl, samlDenyAction } = loaderData
+  const [switching, setSwitching] = useState(false)
+  const name = branding?.name ?? "This app"
+
+  // Sign out and back in with the same authorize query, so a permitted
+  // account continues straight to the app.
+  async function switchAccount() {
+    setSwitching(true)
+    await authClient.signOut()
+    window.location.assign(`/login${window.location.search}`)
+  }
+
+  return (
+    <main
+      className="flex min-h-screen flex-col items-center justify-center p-6"
+      style={accentStyle(branding)}
+    >
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          {branding?.logoUrl ? (
+            <BrandingLogo branding={branding} />
+          ) : (
+            <div className="bg-destructive/10 text-destructive mb-2 flex size-10 items-center justify-center rounded-lg">
+              <Ban className="size-5" />
+            </div>
+          )}
+          <CardTitle>
+            {reason ? `You can't use ${name} with this account` : `You can use ${name}`}
+          </CardTitle>
+          <CardDescription>
+            {reason === "email_domain"
+              ? `${name} only accepts ${allowedEmailDomains.map((d) => `@${d}`).join(", ")} addresses.`
+              : reason === "invite_only"
+                ? `${name} is invite-only. Ask one of its admins to invite you.`
+                : reason === "signup_closed"
+                  ? `${name} isn't accepting new accounts. Ask one of its admins for access.`
+                  : reason === "deactivated"
+                    ? `This account's access to ${name} was turned off. Ask one of its admins if that's a mistake.`
+                    : "Nothing's blocking you any more. Go back to the app and sign in again."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="text-muted-foreground text-sm">
+          Signed in as <span className="text-foreground">{signedInAs}</span>.
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          <Button className="w-full" onClick={switchAccount} disabled={switching}>
+            {switching ? <Loader2 className="size-4 animate-spin" /> : null}
+            Use a different account
+          </Button>
+          {backUrl ? (
+            <a href={backUrl} className={buttonVariants({ variant: "ghost", className: "w-full" })}>
+              Back to {name}
+            </a>
+          ) : samlDenyAction ? (
+            <form method="post" action={samlDenyAction} className="w-full">
+              <Button variant="ghost" className="w-full" type="submit" name="intent" value="deny">
+                Back to {name}
+              </Button>
+            </form>
+          ) : null}
+        </CardFooter>
+      </Card>
+      <BrandingFooter branding={branding} />
+    </main>
+  )
+}
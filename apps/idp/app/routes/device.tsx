@@ -0,0 +1,131 @@
+import { Form, redirect, useNavigation } from "react-router"
+import { CheckCircle2, Loader2, MonitorSmartphone, XCircle } from "lucide-react"
+
+import type { Route } from "./+types/device"
+import {
+  deviceAuthorizeUrl,
+  findDeviceAuthorization,
+  normalizeUserCode,
+} from "~/lib/device-authorization.server"
+import { Button } from "~/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+import { Input } from "~/components/ui/input"
+import { Label } from "~/components/ui/label"
+
+export function meta() {
+  return [{ title: "Connect a device · willy.im" }]
+}
+
+function loginRedirect(request: Request) {
+  const url = new URL(request.url)
+  return redirect(`/login?next=${encodeURIComponent(`${url.pathname}${url.search}`)}`)
+}
+
+/**
+ * Where a device's user code is typed (RFC 8628's verification URI). Requires
+ * a session; a valid code goes on to /auth/oauth2/authorize and consent, and
+ * comes back here with `?result=` (see device-authorization.server.ts).
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw loginRedirect(request)
+  const params = new URL(request.url).searchParams
+  const result = params.get("result")
+  return {
+    signedInAs: session.user.email,
+    userCode: params.get("user_code") ?? "",
+    result: result === "approved" || result === "denied" ? result : null,
+  }
+}
+
+export async function action({ request, context }: Route.ActionArgs) {
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw loginRedirect(request)
+  const form = await request.formData()
+  const userCode = normalizeUserCode(String(form.get("userCode") ?? ""))
+  const authorization = userCode ? await findDeviceAuthorization(context, userCode) : null
+  if (!authorization) return { error: "That code isn't valid or has expired." }
+  return redirect(await deviceAuthorizeUrl(context.tenant.origin, authorization))
+}
+
+export default function Device({ loaderData, actionData }: Route.ComponentProps) {
+  const { signedInAs, userCode, result } = loaderData
+  const nav = useNavigation()
+  const busy = nav.state !== "idle"
+
+  if (result) {
+    const approved = result === "approved"
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-6">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
+              {approved ? <CheckCircle2 className="size-5" /> : <XCircle className="size-5" />}
+            </div>
+            <CardTitle>{approved ? "Device connected" : "Request denied"}</CardTitle>
+            <CardDescription>
+              {approved
+                ? "You're all set. Go back to your device; it signs in on its own."
+                : "The device wasn't given access. You can close this page."}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </main>
+    )
+  }
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
+            <MonitorSmartphone className="size-5" />
+          </div>
+          <CardTitle>Connect a device</CardTitle>
+          <CardDescription>
+            Enter the code shown on your device or in your terminal. Only enter a code you started
+            yourself.
+          </CardDescription>
+        </CardHeader>
+        <Form method="post">
+          <CardContent className="flex flex-col gap-2">
+            <Label htmlFor="userCode">Code</Label>
+            <Input
+              id="userCode"
+              name="userCode"
+              placeholder="BCDF-GHJK"
+              defaultValue={userCode}
+              autoComplete="off"
+              autoCapitalize="characters"
+              autoFocus
+              required
+              aria-invalid={!!actionData?.error}
+              className="font-mono tracking-widest uppercase"
+            />
+            {actionData?.error ? (
+              <p role="alert" className="text-destructive text-sm">
+                {actionData.error}
+              </p>
+            ) : null}
+            <p className="text-muted-foreground text-sm">
+              Signed in as <span className="text-foreground">{signedInAs}</span>.
+            </p>
+          </CardContent>
+          <CardFooter className="mt-4">
+            <Button type="submit" className="w-full" disabled={busy}>
+              {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+              Continue
+            </Button>
+          </CardFooter>
+        </Form>
+      </Card>
+    </main>
+  )
+}
@@ -0,0 +1,33 @@
+import { redirect } from "react-router"
+
+import type { Route } from "./+types/impersonation.stop"
+import { setAuditActor } from "~/lib/audit.server"
+import { findImpersonationBySession } from "~/lib/impersonation.server"
+
+export function loader() {
+  return redirect("/")
+}
+
+/**
+ * The banner's "Stop impersonating". Ends the impersonation (attributed to the
+ * admin, not the user they were acting as) and restores the admin's session.
+ */
+export async function action({ request, context }: Route.ActionArgs) {
+  const auth = context.services.auth
+  const session = await auth.api.getSession({ headers: request.headers })
+  if (!session) return redirect("/login")
+  const row = await findImpersonationBySession(context, session.session.id)
+  if (!row) return redirect("/")
+
+  setAuditActor(request, context, row.actorUserId)
+  const { headers, response } = await auth.api.stopImpersonation({
+    headers: request.headers,
+    returnHeaders: true,
+  })
+  context.logger.info("impersonation.stopped", {
+    actor: row.actorUserId,
+    target: row.targetUserId,
+    clientId: row.clientId,
+  })
+  return redirect(response.restored ? `/apps/${row.clientId}` : "/login", { headers })
+}
@@ -0,0 +1,136 @@
+import { useState } from "react"
+import { Form, redirect, useNavigation } from "react-router"
+import { Loader2, UserPlus } from "lucide-react"
+
+import type { Route } from "./+types/invite"
+import { findApplicationByApp } from "~/lib/admin.server"
+import { setAuditActor } from "~/lib/audit.server"
+import { authClient } from "~/lib/auth-client"
+import { acceptInvitation, findInvitationByToken } from "~/lib/invitations.server"
+import { Button } from "~/components/ui/button"
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "~/components/ui/card"
+
+export function meta() {
+  return [{ title: "Invitation · willy.im" }]
+}
+
+/**
+ * Target of the link in an app-membership invitation email. Requires a session
+ * (bounces through /login and back); the signed-in address must match.
+ */
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const invitation = await findInvitationByToken(context, params.token)
+  if (!invitation) return { invitation: null }
+
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw redirect(`/login?next=${encodeURIComponent(`/invite/${params.token}`)}`)
+
+  const application = await findApplicationByApp(context, invitation.applicationId)
+  return {
+    invitation: {
+      appName: application?.name ?? invitation.applicationId,
+      email: invitation.email,
+      role: invitation.role,
+    },
+    signedInAs: session.user.email,
+  }
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw redirect(`/login?next=${encodeURIComponent(`/invite/${params.token}`)}`)
+
+  const invitation = await findInvitationByToken(context, params.token)
+  if (!invitation) return { error: "This invitation is no longer valid." }
+
+  setAuditActor(request, context, session.user.id)
+  const accepted = await acceptInvitation(context, invitation, session.user)
+  if (!accepted) return { error: `This invitation was sent to ${invitation.email}.` }
+  context.logger.info("invitation.accepted", {
+    app: invitation.applicationId,
+    userId: session.user.id,
+    role: invitation.role,
+  })
+  return redirect("/")
+}
+
+export default function Invite({ loaderData, actionData, params }: Route.ComponentProps) {
+  const nav = useNavigation()
+  const busy = nav.state !== "idle"
+  const [switching, setSwitching] = useState(false)
+
+  async function switchAccount() {
+    setSwitching(true)
+    await authClient.signOut()
+    window.location.assign(`/login?next=${encodeURIComponent(`/invite/${params.token}`)}`)
+  }
+
+  if (!loaderData.invitation) {
+    return (
+      <main className="flex min-h-screen flex-col items-center justify-center p-6">
+        <Card className="w-full max-w-sm">
+          <CardHeader>
+            <CardTitle>Invitation unavailable</CardTitle>
+            <CardDescription>
+              This link was already used, revoked, or has expired. Ask for a new invitation.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </main>
+    )
+  }
+
+  const { invitation, signedInAs } = loaderData
+  const wrongAccount = signedInAs?.toLowerCase() !== invitation.email
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
+            <UserPlus className="size-5" />
+          </div>
+          <CardTitle>Join {invitation.appName}</CardTitle>
+          <CardDescription>
+            You've been invited as an app <span className="font-medium">{invitation.role}</span>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-2 text-sm">
+          {wrongAccount ? (
+            <p className="text-muted-foreground">
+              This invitation is for <span className="text-foreground">{invitation.email}</span>,
+              but you're signed in as <span className="text-foreground">{signedInAs}</span>.
+            </p>
+          ) : (
+            <p className="text-muted-foreground">
+              Signed in as <span className="text-foreground">{signedInAs}</span>.
+            </p>
+          )}
+          {actionData?.error ? <p className="text-destructive">{actionData.error}</p> : null}
+        </CardContent>
+        <CardFooter className="flex flex-col gap-2">
+          {wrongAccount ? (
+            <Button className="w-full" onClick={switchAccount} disabled={switching}>
+              {switching ? <Loader2 className="size-4 animate-spin" /> : null}
+              Sign in as {invitation.email}
+            </Button>
+          ) : (
+            <Form method="post" className="w-full">
+              <Button type="submit" className="w-full" disabled={busy}>
+                {busy ? <Loader2 className="size-4 animate-spin" /> : null}
+                Accept invitation
+              </Button>
+            </Form>
+          )}
+        </CardFooter>
+      </Card>
+    </main>
+  )
+}
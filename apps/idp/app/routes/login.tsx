@@ -1,8 +1,16 @@
-import { useState } from "react"
+import { useEffect, useState } from "react"
+import { useSearchParams } from "react-router"
 import { Fingerprint, Loader2, Mail } from "lucide-react"
 
+import type { Route } from "./+types/login"
 import { authClient } from "~/lib/auth-client"
+import { brandingFor } from "~/lib/branding.server"
+import { signedAuthorizationClientId } from "~/lib/pending-authorization.server"
+import { samlRequestClientId } from "~/lib/saml-requests.server"
 import { clientLog } from "~/lib/log"
+import { safeNextPath } from "~/lib/validate"
+import { accentStyle, BrandingFooter, BrandingLogo } from "~/components/branding"
+import { SecondFactorForm } from "~/components/two-factor"
 import { Button } from "~/components/ui/button"
 import {
   Card,
@@ -14,50 +22,126 @@ import {
 import { Input } from "~/components/ui/input"
 import { Label } from "~/components/ui/label"
 
-export function meta() {
-  return [{ title: "Sign in · willy.im" }]
+/**
+ * Branded for the app being signed into: the pending OAuth client or SAML
+ * request, or the custom domain's app.
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const search = new URL(request.url).search
+  const clientId =
+    (await signedAuthorizationClientId(context, search)) ??
+    (await samlRequestClientId(context, search))
+  const branding = await brandingFor(context, context.tenant, clientId)
+  return { branding }
 }
 
-type Step = "email" | "otp"
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Sign in · ${data?.branding?.name ?? "willy.im"}` }]
+}
+
+type Step = "email" | "otp" | "mfa"
+
+/** Enrolled users get a second-factor challenge instead of a session (mfa.server.ts). */
+function needsSecondFactor(data: unknown) {
+  return !!(data as { twoFactorRedirect?: boolean } | null)?.twoFactorRedirect
+}
+
+/**
+ * An auth client error: the response body with its status. A 429 from
+ * rate-limit.server.ts repeats its Retry-After header in the body as
+ * `retryAfter`; the client only gives us the body.
+ */
+type AuthError = { status?: number; message?: string; retryAfter?: number }
+
+/** How long a 429 says to wait, in seconds. */
+function retryAfterSeconds(error: AuthError) {
+  if (error.status !== 429) return null
+  const seconds = error.retryAfter ?? 0
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 60
+}
 
-export default function Login() {
-  const [step, setStep] = useState<Step>("email")
+function formatWait(seconds: number) {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? "" : "s"}`
+  const minutes = Math.ceil(seconds / 60)
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? "" : "s"}`
+  const hours = Math.ceil(minutes / 60)
+  return `${hours} hour${hours === 1 ? "" : "s"}`
+}
+
+export default function Login({ loaderData }: Route.ComponentProps) {
+  const { branding } = loaderData
+  const [params] = useSearchParams()
+  // The emailed sign-in link lands here (?step=mfa) when a second factor is due.
+  const [step, setStep] = useState<Step>(params.get("step") === "mfa" ? "mfa" : "email")
   const [email, setEmail] = useState("")
   const [code, setCode] = useState("")
   const [pending, setPending] = useState<null | "email" | "otp" | "passkey">(null)
   const [error, setError] = useState<string | null>(null)
+  // Locked out after too many attempts: the buttons wait, with a countdown.
+  const [retryAt, setRetryAt] = useState<number | null>(null)
+  const [now, setNow] = useState(() => Date.now())
 
+  useEffect(() => {
+    if (retryAt === null) return
+    const timer = setInterval(() => {
+      setNow(Date.now())
+      if (Date.now() >= retryAt) setRetryAt(null)
+    }, 1000)
+    return () => clearInterval(timer)
+  }, [retryAt])
+
+  const waitSeconds = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0
   const busy = pending !== null
+  const blocked = busy || waitSeconds > 0
+
+  function fail(error: AuthError, fallback: string) {
+    const seconds = retryAfterSeconds(error)
+    if (seconds === null) return setError(error.message ?? fallback)
+    setNow(Date.now())
+    setRetryAt(Date.now() + seconds * 1000)
+  }
+
+  // Signing in for a SAML service provider: tells the server whose sign-up
+  // policy applies and whose branding the code email gets.
+  const saml = params.get("saml")
+  const fetchOptions = saml ? { query: { saml } } : undefined
 
   async function sendCode(e: React.FormEvent) {
     e.preventDefault()
     setError(null)
     setPending("email")
-    const { error } = await authClient.emailOtp.sendVerificationOtp({ email, type: "sign-in" })
+    const { error } = await authClient.emailOtp.sendVerificationOtp({
+      email,
+      type: "sign-in",
+      fetchOptions,
+    })
     setPending(null)
-    if (error) return setError(error.message ?? "Couldn't send the code.")
+    if (error) return fail(error, "Couldn't send the code.")
     setStep("otp")
   }
 
   // When an OIDC authorization is pending, the oauth-provider client attaches the
   // signed query to the sign-in request and the server returns a URL to resume the
-  // flow (→ consent or back to the client). Honor it instead of going home.
+  // flow (→ consent or back to the client). Honor it instead of going home (or
+  // to `?next=`, e.g. an invitation link that required signing in first, or a
+  // pending SAML request).
   // Full-document navigation (not RR navigate) so the just-set session cookie is
   // sent on the destination request — a client transition races the cookie and
   // bounces back to /login.
   function continueAfterSignIn(data: unknown) {
     const url = (data as { url?: string } | null)?.url
     clientLog.info("signin.continue", { hasUrl: !!url, url, search: window.location.search || undefined })
-    window.location.assign(url ?? "/")
+    window.location.assign(url ?? safeNextPath(params.get("next")))
   }
 
   async function verifyCode(e: React.FormEvent) {
     e.preventDefault()
     setError(null)
     setPending("otp")
-    const { data, error } = await authClient.signIn.emailOtp({ email, otp: code })
+    const { data, error } = await authClient.signIn.emailOtp({ email, otp: code, fetchOptions })
     setPending(null)
-    if (error) return setError(error.message ?? "Invalid or expired code.")
+    if (error) return fail(error, "Invalid or expired code.")
+    if (needsSecondFactor(data)) return setStep("mfa")
     continueAfterSignIn(data)
   }
 
@@ -75,10 +159,8 @@ export default function Login() {
         data: res?.data,
         error: res?.error ? { status: res.error.status, message: res.error.message } : null,
       })
-      if (res?.error) {
-        setError(res.error.message ?? "Passkey sign-in failed.")
-        return
-      }
+      if (res?.error) return fail(res.error, "Passkey sign-in failed.")
+      if (needsSecondFactor(res.data)) return setStep("mfa")
       // Confirm a session actually exists before navigating (the real bug suspect).
       const session = await authClient.getSession()
       clientLog.info("passkey.signin.session", { hasSession: !!session?.data })
@@ -95,14 +177,22 @@ export default function Login() {
   }
 
   return (
-    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+    <main
+      className="flex min-h-screen flex-col items-center justify-center p-6"
+      style={accentStyle(branding)}
+    >
       <Card className="w-full max-w-sm">
         <CardHeader>
-          <CardTitle>Sign in to willy.im</CardTitle>
+          <BrandingLogo branding={branding} />
+          <CardTitle>Sign in to {branding?.name ?? "willy.im"}</CardTitle>
           <CardDescription>
             {step === "email"
-              ? "One identity across willy.im projects."
-              : `We sent a code to ${email}.`}
+              ? branding
+                ? "With your willy.im account."
+                : "One identity across willy.im projects."
+              : step === "otp"
+                ? `We sent a code to ${email}.`
+                : "Two-step verification is on for your account."}
           </CardDescription>
         </CardHeader>
         <CardContent className="flex flex-col gap-4">
@@ -117,12 +207,16 @@ export default function Login() {
                     autoComplete="email webauthn"
                     placeholder="you@example.com"
                     value={email}
-                    onChange={(e) => setEmail(e.target.value)}
+                    onChange={(e) => {
+                      setEmail(e.target.value)
+                      // The lockout may have been this address's; the server says again if not.
+                      setRetryAt(null)
+                    }}
                     required
                     disabled={busy}
                   />
                 </div>
-                <Button type="submit" disabled={busy || !email}>
+                <Button type="submit" disabled={blocked || !email}>
                   {pending === "email" ? (
                     <Loader2 className="size-4 animate-spin" />
                   ) : (
@@ -138,7 +232,7 @@ export default function Login() {
                 <div className="bg-border h-px flex-1" />
               </div>
 
-              <Button variant="outline" onClick={signInWithPasskey} disabled={busy}>
+              <Button variant="outline" onClick={signInWithPasskey} disabled={blocked}>
                 {pending === "passkey" ? (
                   <Loader2 className="size-4 animate-spin" />
                 ) : (
@@ -147,6 +241,8 @@ export default function Login() {
                 Sign in with a passkey
               </Button>
             </>
+          ) : step === "mfa" ? (
+            <SecondFactorForm onVerified={continueAfterSignIn} submitLabel="Verify & sign in" />
           ) : (
             <form onSubmit={verifyCode} className="flex flex-col gap-3">
               <div className="flex flex-col gap-2">
@@ -162,7 +258,7 @@ export default function Login() {
                   disabled={busy}
                 />
               </div>
-              <Button type="submit" disabled={busy || code.length < 6}>
+              <Button type="submit" disabled={blocked || code.length < 6}>
                 {pending === "otp" ? <Loader2 className="size-4 animate-spin" /> : null}
                 Verify &amp; sign in
               </Button>
@@ -174,6 +270,7 @@ export default function Login() {
                   setStep("email")
                   setCode("")
                   setError(null)
+                  setRetryAt(null)
                 }}
               >
                 Use a different email
@@ -181,9 +278,16 @@ export default function Login() {
             </form>
           )}
 
-          {error ? <p className="text-destructive text-sm">{error}</p> : null}
+          {waitSeconds > 0 ? (
+            <p role="alert" className="text-destructive text-sm">
+              Too many attempts. Try again in {formatWait(waitSeconds)}.
+            </p>
+          ) : error ? (
+            <p className="text-destructive text-sm">{error}</p>
+          ) : null}
         </CardContent>
       </Card>
+      <BrandingFooter branding={branding} />
     </main>
   )
 }
@@ -31,8 +31,11 @@ export default function LoginVerify() {
       return
     }
 
-    authClient.signIn.emailOtp({ email, otp: code }).then(({ error }) => {
+    authClient.signIn.emailOtp({ email, otp: code }).then(({ data, error }) => {
       if (error) setError(error.message ?? "This sign-in link is invalid or expired.")
+      // Two-step verification on: the code only got us to the second step.
+      else if ((data as { twoFactorRedirect?: boolean } | null)?.twoFactorRedirect)
+        window.location.assign("/login?step=mfa")
       // Full-document load so the session cookie is sent on the next request.
       else window.location.assign("/")
     })
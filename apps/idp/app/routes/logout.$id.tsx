@@ -0,0 +1,66 @@
+import { useEffect, useState } from "react"
+import { redirect } from "react-router"
+import { Loader2 } from "lucide-react"
+
+import type { Route } from "./+types/logout.$id"
+import { takeFrontchannelLogout } from "~/lib/logout.server"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+
+export function meta() {
+  return [{ title: "Signing out · willy.im" }]
+}
+
+/** How long to wait for the clients' pages before moving on, in milliseconds. */
+const FRAME_TIMEOUT_MS = 3_000
+
+/**
+ * OIDC Front-Channel Logout: loads each client's front-channel logout URI
+ * (with `iss` and `sid`) in a hidden iframe so it can clear its own session,
+ * then continues to where the sign-out was headed. Set up by /logout and
+ * /oauth2/end-session (see logout.server.ts); each one is shown once.
+ */
+export async function loader({ context, params }: Route.LoaderArgs) {
+  const logout = await takeFrontchannelLogout(context, params.id)
+  if (!logout) throw redirect("/login")
+  return logout
+}
+
+export default function FrontchannelLogout({ loaderData }: Route.ComponentProps) {
+  const { frames, next } = loaderData
+  const [loaded, setLoaded] = useState(0)
+
+  useEffect(() => {
+    const timer = setTimeout(() => window.location.assign(next), FRAME_TIMEOUT_MS)
+    return () => clearTimeout(timer)
+  }, [next])
+
+  useEffect(() => {
+    if (loaded >= frames.length) window.location.assign(next)
+  }, [loaded, frames.length, next])
+
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center p-6">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <CardTitle>Signing you out</CardTitle>
+          <CardDescription>Letting your apps know…</CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-3">
+          <Loader2 className="text-muted-foreground size-5 animate-spin" />
+          <a href={next} className="text-muted-foreground text-sm underline">
+            Continue
+          </a>
+          {frames.map((src) => (
+            <iframe
+              key={src}
+              src={src}
+              title="Signing out"
+              hidden
+              onLoad={() => setLoaded((n) => n + 1)}
+            />
+          ))}
+        </CardContent>
+      </Card>
+    </main>
+  )
+}
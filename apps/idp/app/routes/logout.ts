@@ -0,0 +1,31 @@
+import { redirect } from "react-router"
+
+import type { Route } from "./+types/logout"
+import { sessionClients, startFrontchannelLogout } from "~/lib/logout.server"
+
+export function loader() {
+  return redirect("/")
+}
+
+/**
+ * /account's "Sign out". Ends the IdP session (the back-channel logout goes
+ * out as it does), then passes through /logout/:id when clients asked for a
+ * front-channel logout.
+ */
+export async function action({ request, context }: Route.ActionArgs) {
+  const auth = context.services.auth
+  const session = await auth.api.getSession({ headers: request.headers })
+  if (!session) return redirect("/login")
+
+  const clients = await sessionClients(context, session.session.id)
+  const { headers } = await auth.api.signOut({ headers: request.headers, returnHeaders: true })
+  context.logger.info("account.signed_out", { userId: session.user.id })
+  const frontchannel = await startFrontchannelLogout(
+    context,
+    `${context.tenant.origin}/auth`,
+    session.session.id,
+    clients,
+    "/login",
+  )
+  return redirect(frontchannel ?? "/login", { headers })
+}
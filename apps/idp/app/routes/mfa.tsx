@@ -0,0 +1,97 @@
+import { useState } from "react"
+import { redirect, useSearchParams } from "react-router"
+import { ShieldCheck } from "lucide-react"
+
+import type { Route } from "./+types/mfa"
+import { authClient } from "~/lib/auth-client"
+import { brandingFor } from "~/lib/branding.server"
+import { signedAuthorizationClientId } from "~/lib/pending-authorization.server"
+import { samlRequestClientId } from "~/lib/saml-requests.server"
+import { safeNextPath } from "~/lib/validate"
+import { accentStyle, BrandingFooter, BrandingLogo } from "~/components/branding"
+import { SecondFactorForm, TotpEnrollment } from "~/components/two-factor"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "~/components/ui/card"
+
+export function meta({ data }: Route.MetaArgs) {
+  return [{ title: `Two-step verification · ${data?.branding?.name ?? "willy.im"}` }]
+}
+
+/**
+ * Step-up: where the oauth-provider (or /saml/continue) sends a signed-in user
+ * whose session hasn't passed a second factor, when the app being authorized
+ * requires one (sign-in-policy.server.ts). Enrolled users confirm a code;
+ * everyone else sets up an authenticator here first.
+ */
+export async function loader({ request, context }: Route.LoaderArgs) {
+  const search = new URL(request.url).search
+  const clientId =
+    (await signedAuthorizationClientId(context, search)) ??
+    (await samlRequestClientId(context, search))
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw redirect(clientId ? `/login${search}` : "/login")
+  return {
+    branding: await brandingFor(context, context.tenant, clientId),
+    enrolled: !!session.user.twoFactorEnabled,
+  }
+}
+
+export default function Mfa({ loaderData }: Route.ComponentProps) {
+  const { branding, enrolled } = loaderData
+  const [params] = useSearchParams()
+  const [error, setError] = useState<string | null>(null)
+  const name = branding?.name ?? "This app"
+
+  // Enrolling signs in afresh, which already resumed the authorization; a
+  // step-up of the current session asks the provider to carry on. A SAML
+  // request carries on at /saml/continue (`next`).
+  async function resume(verified: unknown) {
+    setError(null)
+    let url = (verified as { url?: string } | null)?.url
+    if (!url && params.has("saml")) url = safeNextPath(params.get("next"))
+    if (!url && window.location.search) {
+      const { data, error } = await authClient.oauth2.continue({ created: true })
+      const d = data as { url?: string; redirect_uri?: string } | null
+      url = d?.url ?? d?.redirect_uri
+      if (error || !url) return setError(error?.message ?? "Couldn't complete authorization.")
+    }
+    window.location.assign(url ?? "/")
+  }
+
+  return (
+    <main
+      className="flex min-h-screen flex-col items-center justify-center p-6"
+      style={accentStyle(branding)}
+    >
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          {branding?.logoUrl ? (
+            <BrandingLogo branding={branding} />
+          ) : (
+            <div className="bg-primary/10 text-primary mb-2 flex size-10 items-center justify-center rounded-lg">
+              <ShieldCheck className="size-5" />
+            </div>
+          )}
+          <CardTitle>Two-step verification</CardTitle>
+          <CardDescription>
+            {enrolled
+              ? `${name} asks you to confirm it's you with your authenticator app.`
+              : `${name} requires two-step verification. Set up an authenticator app to continue.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="flex flex-col gap-4">
+          {enrolled ? (
+            <SecondFactorForm onVerified={resume} submitLabel="Continue" />
+          ) : (
+            <TotpEnrollment onDone={resume} doneLabel="Continue" />
+          )}
+          {error ? (
+            <p role="alert" className="text-destructive text-sm">
+              {error}
+            </p>
+          ) : null}
+        </CardContent>
+      </Card>
+      <BrandingFooter branding={branding} />
+    </main>
+  )
+}
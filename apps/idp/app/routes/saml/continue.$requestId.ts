@@ -0,0 +1,107 @@
+import { data, redirect } from "react-router"
+
+import type { Route } from "./+types/continue.$requestId"
+import { workspaceClaimsFor } from "~/lib/auth.server"
+import { findImpersonationBySession } from "~/lib/impersonation.server"
+import { authenticationClaims } from "~/lib/mfa.server"
+import {
+  getSamlServiceProvider,
+  grantSamlConsent,
+  hasSamlConsent,
+  samlResponsePage,
+} from "~/lib/saml.server"
+import {
+  deletePendingSamlRequest,
+  findPendingSamlRequest,
+  samlContinuePath,
+  samlQuery,
+} from "~/lib/saml-requests.server"
+import { authorizationRedirectFor } from "~/lib/sign-in-policy.server"
+
+type Args = Route.LoaderArgs | Route.ActionArgs
+
+async function pendingRequest({ context, params }: Args) {
+  const pending = await findPendingSamlRequest(context, params.requestId)
+  const sp = pending ? await getSamlServiceProvider(context, pending.app) : null
+  if (!pending || !sp) {
+    throw data("This sign-in request has expired. Start again from the application.", {
+      status: 404,
+    })
+  }
+  return { pending, sp }
+}
+
+/** Posts the Response to the service provider, using up the request. */
+async function finish(
+  { context, params }: Args,
+  { pending, sp }: Awaited<ReturnType<typeof pendingRequest>>,
+  result: Parameters<typeof samlResponsePage>[4],
+) {
+  await deletePendingSamlRequest(context, params.requestId)
+  context.logger.info("saml.response", {
+    app: pending.app,
+    requestId: pending.requestId,
+    status: "subject" in result ? "Success" : result.status,
+  })
+  return samlResponsePage(context, context.tenant, sp, pending, result)
+}
+
+/**
+ * Where a pending SAML request comes back to after each step: sign-in, the
+ * app's sign-in policy (/denied, /mfa), consent. Once nothing's left it posts
+ * the signed assertion to the service provider. Passive requests get NoPassive
+ * instead of any page.
+ */
+export async function loader(args: Route.LoaderArgs) {
+  const { request, context, params } = args
+  const found = await pendingRequest(args)
+  const { pending } = found
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) {
+    if (pending.isPassive) return finish(args, found, { status: "NoPassive" })
+    throw redirect(`/login${samlQuery(params.requestId)}`)
+  }
+  // Assertions can't say an admin is acting as the user, so none are issued.
+  if (await findImpersonationBySession(context, session.session.id)) {
+    return finish(args, found, { status: "RequestDenied" })
+  }
+
+  const step = await authorizationRedirectFor(context, pending.app, session.user, session.session)
+  const consented = await hasSamlConsent(context, pending.clientId, session.user.id)
+  if (pending.isPassive && (step || !consented)) return finish(args, found, { status: "NoPassive" })
+  if (step) throw redirect(`${step}${samlQuery(params.requestId)}`)
+  if (!consented) throw redirect(`/consent${samlQuery(params.requestId)}`)
+
+  const workspaces = await workspaceClaimsFor(context.db, session.user.id, pending.app)
+  return finish(args, found, {
+    subject: {
+      email: session.user.email,
+      name: session.user.name,
+      roles: workspaces.map((w) => `${w.slug}:${w.role}`),
+      authnContext: authenticationClaims(session.session.amr).acr,
+      sessionIndex: session.session.id,
+    },
+  })
+}
+
+/**
+ * The consent page's Allow / Deny, and /denied's way back to the app. Posted
+ * by forms on our own pages only.
+ */
+export async function action(args: Route.ActionArgs) {
+  const { request, context, params } = args
+  if (request.headers.get("origin") !== context.tenant.origin) {
+    throw data("Cross-origin request refused.", { status: 403 })
+  }
+  const found = await pendingRequest(args)
+  const session = await context.services.auth.api.getSession({ headers: request.headers })
+  if (!session) throw redirect(`/login${samlQuery(params.requestId)}`)
+
+  const form = await request.formData()
+  if (form.get("intent") === "accept") {
+    await grantSamlConsent(context, found.pending.clientId, session.user.id)
+    context.logger.info("saml.consent", { app: found.pending.app, userId: session.user.id })
+    return redirect(samlContinuePath(params.requestId))
+  }
+  return finish(args, found, { status: "RequestDenied" })
+}
@@ -0,0 +1,9 @@
+import type { Route } from "./+types/metadata"
+import { samlMetadata } from "~/lib/saml.server"
+
+/** The IdP's SAML metadata (entity ID, SSO endpoints, signing certificate) for this tenant. */
+export async function loader({ context }: Route.LoaderArgs) {
+  return new Response(await samlMetadata(context, context.tenant), {
+    headers: { "content-type": "application/samlmetadata+xml; charset=utf-8" },
+  })
+}
@@ -0,0 +1,27 @@
+import { redirect } from "react-router"
+
+import type { Route } from "./+types/sso"
+import { receiveAuthnRequest } from "~/lib/saml.server"
+import { samlContinuePath, savePendingSamlRequest } from "~/lib/saml-requests.server"
+
+/**
+ * SAML single sign-on: an AuthnRequest over HTTP-Redirect (GET) or HTTP-POST.
+ * Once it checks out it waits as a pending request while /saml/continue walks
+ * the user through sign-in.
+ */
+async function receive({ request, context }: Route.LoaderArgs | Route.ActionArgs) {
+  const received = await receiveAuthnRequest(context, context.tenant, request)
+  if ("error" in received) {
+    context.logger.info("saml.request.rejected", { error: received.error })
+    return new Response(received.error, {
+      status: 400,
+      headers: { "content-type": "text/plain; charset=utf-8" },
+    })
+  }
+  const id = await savePendingSamlRequest(context, received)
+  context.logger.info("saml.request.received", { app: received.app, requestId: received.requestId })
+  return redirect(samlContinuePath(id))
+}
+
+export const loader = receive
+export const action = receive
@@ -0,0 +1,43 @@
+import type { Route } from "./+types/groups.$groupId"
+import { deleteWorkspace } from "~/lib/admin.server"
+import {
+  getScimGroup,
+  PatchSchema,
+  patchScimGroup,
+  readScimBody,
+  replaceScimGroup,
+  requireScimApplication,
+  scimBaseUrl,
+  scimError,
+  ScimGroupInputSchema,
+  scimJson,
+  scimMethodNotAllowed,
+} from "~/lib/scim.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await getScimGroup(context, app, base, params.groupId, new URL(request.url)))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  if (request.method === "DELETE") {
+    if (!(await deleteWorkspace(context, app, params.groupId))) {
+      return scimError(404, "Group not found.")
+    }
+    context.logger.info("scim.group_deleted", { app, workspaceId: params.groupId })
+    return new Response(null, { status: 204 })
+  }
+  if (request.method === "PUT") {
+    const input = await readScimBody(request, ScimGroupInputSchema)
+    await replaceScimGroup(context, app, params.groupId, input)
+  } else if (request.method === "PATCH") {
+    const { Operations } = await readScimBody(request, PatchSchema)
+    await patchScimGroup(context, app, params.groupId, Operations)
+  } else {
+    scimMethodNotAllowed()
+  }
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await getScimGroup(context, app, base, params.groupId, new URL(request.url)))
+}
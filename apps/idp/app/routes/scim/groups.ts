@@ -0,0 +1,34 @@
+import type { Route } from "./+types/groups"
+import {
+  createScimGroup,
+  getScimGroup,
+  listScimGroups,
+  readScimBody,
+  requireScimApplication,
+  scimBaseUrl,
+  ScimGroupInputSchema,
+  scimJson,
+  scimMethodNotAllowed,
+} from "~/lib/scim.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await listScimGroups(context, app, base, new URL(request.url)))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  if (request.method !== "POST") scimMethodNotAllowed()
+  const input = await readScimBody(request, ScimGroupInputSchema)
+  const groupId = await createScimGroup(context, app, input)
+  const url = new URL(request.url)
+  const group = await getScimGroup(
+    context,
+    app,
+    scimBaseUrl(request, params.clientId),
+    groupId,
+    url,
+  )
+  return scimJson(group, { status: 201, headers: { location: group.meta.location } })
+}
@@ -0,0 +1,9 @@
+import type { Route } from "./+types/resource-types"
+import { listResponse, requireScimApplication, scimBaseUrl, scimJson } from "~/lib/scim.server"
+import { resourceTypes } from "~/lib/scim-discovery.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  await requireScimApplication(request, context, params.clientId)
+  const types = resourceTypes(scimBaseUrl(request, params.clientId))
+  return scimJson(listResponse(types, types.length))
+}
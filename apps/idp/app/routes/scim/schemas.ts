@@ -0,0 +1,9 @@
+import type { Route } from "./+types/schemas"
+import { listResponse, requireScimApplication, scimBaseUrl, scimJson } from "~/lib/scim.server"
+import { schemas } from "~/lib/scim-discovery.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  await requireScimApplication(request, context, params.clientId)
+  const all = schemas(scimBaseUrl(request, params.clientId))
+  return scimJson(listResponse(all, all.length))
+}
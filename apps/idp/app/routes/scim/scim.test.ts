@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it } from "vitest"
+
+import * as groupResource from "./groups.$groupId"
+import * as groups from "./groups"
+import * as userResource from "./users.$userId"
+import * as users from "./users"
+import { createApplication } from "~/lib/admin.server"
+import { createApiKey } from "~/lib/api-keys.server"
+import { GROUP_SCHEMA, USER_SCHEMA } from "~/lib/scim.server"
+import { authorizationDenial } from "~/lib/sign-in-policy.server"
+import {
+  apiRequest,
+  createTestContext,
+  createUser,
+  json,
+  loadContext,
+  respond,
+  routeArgs,
+  type TestContext,
+} from "~/lib/testing"
+
+let ctx: TestContext
+let clientId: string
+let key: string
+
+beforeEach(async () => {
+  ctx = createTestContext()
+  ;({ clientId } = await createApplication(ctx, {
+    name: "Acme",
+    app: "acme",
+    redirectUris: ["https://acme.test/callback"],
+  }))
+  key = await provisioningKey("acme")
+})
+
+async function provisioningKey(app: string) {
+  const created = await createApiKey(ctx, {
+    applicationId: app,
+    name: "scim",
+    permissions: ["user:provision"],
+    ownerUserId: null,
+    expiresAt: null,
+  })
+  return created.key
+}
+
+function call(
+  handler: (args: never) => Promise<unknown>,
+  method: string,
+  params: Record<string, string> = {},
+  body?: unknown,
+  as = { clientId, key },
+) {
+  const request = apiRequest(method, as.key, body)
+  return respond(
+    handler(routeArgs(loadContext(ctx), request, { clientId: as.clientId, ...params })),
+  )
+}
+
+function provision(userName: string, fields: Record<string, unknown> = {}, as = { clientId, key }) {
+  return call(users.action, "POST", {}, { schemas: [USER_SCHEMA], userName, ...fields }, as)
+}
+
+function list(filter: string) {
+  const request = new Request(`http://localhost:5173/scim?${new URLSearchParams({ filter })}`, {
+    headers: { authorization: `Bearer ${key}` },
+  })
+  return respond(users.loader(routeArgs(loadContext(ctx), request, { clientId })))
+}
+
+function patch(userId: string, Operations: unknown[]) {
+  return call(userResource.action, "PATCH", { userId }, { Operations })
+}
+
+function accountName(userId: string) {
+  const row = ctx.sqlite.prepare("select name from user where id = ?").get(userId) as {
+    name: string
+  }
+  return row.name
+}
+
+describe("SCIM Users", () => {
+  it("creates accounts, answering 201 with the resource's location", async () => {
+    const res = await provision("ada@example.com", { name: { givenName: "Ada", familyName: "L" } })
+    expect(res.status).toBe(201)
+    expect(res.headers.get("content-type")).toBe("application/scim+json")
+    const user = await json(res)
+    expect(res.headers.get("location")).toBe(user.meta.location)
+    expect(user).toMatchObject({ userName: "ada@example.com", displayName: "Ada L", active: true })
+    expect(accountName(user.id)).toBe("Ada L")
+
+    expect((await provision("ada@example.com")).status).toBe(409)
+    const listed = await json(await list('userName eq "ADA@example.com"'))
+    expect(listed.totalResults).toBe(1)
+    expect((await json(await list('displayName eq "Ada L"'))).totalResults).toBe(1)
+  })
+
+  it("keeps names per app, never renaming an account it linked", async () => {
+    const existing = createUser(ctx, { email: "bo@example.com", name: "Bo" })
+    const { id } = await json(await provision("bo@example.com", { displayName: "Robert (Acme)" }))
+    expect(id).toBe(existing)
+
+    await call(
+      userResource.action,
+      "PUT",
+      { userId: id },
+      { userName: "bo@example.com", displayName: "Robert A." },
+    )
+    const patched = await json(
+      await patch(id, [{ op: "replace", path: "name.familyName", value: "Smith" }]),
+    )
+    expect(patched.displayName).toBe("Robert Smith")
+    expect(accountName(existing)).toBe("Bo")
+
+    const other = await createApplication(ctx, {
+      name: "Other",
+      app: "other",
+      redirectUris: ["https://other.test/callback"],
+    })
+    const otherKey = { clientId: other.clientId, key: await provisioningKey("other") }
+    const elsewhere = await json(await provision("bo@example.com", {}, otherKey))
+    expect(elsewhere.displayName).toBe("Bo")
+  })
+
+  it("deactivates and deprovisions without deleting the account", async () => {
+    const { id } = await json(await provision("cy@example.com"))
+    const user = { id, email: "cy@example.com" }
+    await patch(id, [{ op: "replace", value: { active: false } }])
+    expect(await authorizationDenial(ctx, "acme", user)).toBe("deactivated")
+
+    expect((await call(userResource.action, "DELETE", { userId: id })).status).toBe(204)
+    expect((await call(userResource.loader, "GET", { userId: id })).status).toBe(404)
+    expect(accountName(id)).toBe("cy")
+  })
+
+  it("refuses to change the address and keys without user:provision", async () => {
+    const { id } = await json(await provision("di@example.com"))
+    const res = await patch(id, [{ op: "replace", path: "userName", value: "x@example.com" }])
+    expect(res.status).toBe(400)
+    expect((await json(res)).scimType).toBe("mutability")
+
+    const reader = await createApiKey(ctx, {
+      applicationId: "acme",
+      name: "reader",
+      permissions: ["app:read"],
+      ownerUserId: null,
+      expiresAt: null,
+    })
+    const denied = await provision("ed@example.com", {}, { clientId, key: reader.key })
+    expect(denied.status).toBe(403)
+    expect((await json(denied)).schemas).toEqual(["urn:ietf:params:scim:api:messages:2.0:Error"])
+  })
+})
+
+describe("SCIM Groups", () => {
+  it("are the app's workspaces, members added and removed by patch", async () => {
+    const { id: userId } = await json(await provision("ada@example.com"))
+    const res = await call(
+      groups.action,
+      "POST",
+      {},
+      { schemas: [GROUP_SCHEMA], displayName: "Engineering", members: [{ value: userId }] },
+    )
+    expect(res.status).toBe(201)
+    expect(res.headers.get("location")).toMatch(/\/Groups\/[^/]+$/)
+    const group = await json(res)
+    expect(group.members).toEqual([expect.objectContaining({ value: userId })])
+
+    const removed = await call(
+      groupResource.action,
+      "PATCH",
+      { groupId: group.id },
+      { Operations: [{ op: "remove", path: `members[value eq "${userId}"]` }] },
+    )
+    expect((await json(removed)).members ?? []).toEqual([])
+  })
+})
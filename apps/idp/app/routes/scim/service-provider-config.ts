@@ -0,0 +1,8 @@
+import type { Route } from "./+types/service-provider-config"
+import { requireScimApplication, scimBaseUrl, scimJson } from "~/lib/scim.server"
+import { serviceProviderConfig } from "~/lib/scim-discovery.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  await requireScimApplication(request, context, params.clientId)
+  return scimJson(serviceProviderConfig(scimBaseUrl(request, params.clientId)))
+}
@@ -0,0 +1,39 @@
+import type { Route } from "./+types/users.$userId"
+import {
+  deleteScimUser,
+  getScimUser,
+  PatchSchema,
+  patchScimUser,
+  readScimBody,
+  replaceScimUser,
+  requireScimApplication,
+  scimBaseUrl,
+  scimJson,
+  scimMethodNotAllowed,
+  ScimUserInputSchema,
+} from "~/lib/scim.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await getScimUser(context, app, base, params.userId))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const application = await requireScimApplication(request, context, params.clientId)
+  if (request.method === "DELETE") {
+    await deleteScimUser(context, application, params.userId)
+    return new Response(null, { status: 204 })
+  }
+  if (request.method === "PUT") {
+    const input = await readScimBody(request, ScimUserInputSchema)
+    await replaceScimUser(context, application, params.userId, input)
+  } else if (request.method === "PATCH") {
+    const { Operations } = await readScimBody(request, PatchSchema)
+    await patchScimUser(context, application, params.userId, Operations)
+  } else {
+    scimMethodNotAllowed()
+  }
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await getScimUser(context, application.app, base, params.userId))
+}
@@ -0,0 +1,32 @@
+import type { Route } from "./+types/users"
+import {
+  createScimUser,
+  getScimUser,
+  listScimUsers,
+  readScimBody,
+  requireScimApplication,
+  scimBaseUrl,
+  scimJson,
+  scimMethodNotAllowed,
+  ScimUserInputSchema,
+} from "~/lib/scim.server"
+
+export async function loader({ request, context, params }: Route.LoaderArgs) {
+  const { app } = await requireScimApplication(request, context, params.clientId)
+  const base = scimBaseUrl(request, params.clientId)
+  return scimJson(await listScimUsers(context, app, base, new URL(request.url)))
+}
+
+export async function action({ request, context, params }: Route.ActionArgs) {
+  const application = await requireScimApplication(request, context, params.clientId)
+  if (request.method !== "POST") scimMethodNotAllowed()
+  const input = await readScimBody(request, ScimUserInputSchema)
+  const userId = await createScimUser(context, application, input)
+  const user = await getScimUser(
+    context,
+    application.app,
+    scimBaseUrl(request, params.clientId),
+    userId,
+  )
+  return scimJson(user, { status: 201, headers: { location: user.meta.location } })
+}
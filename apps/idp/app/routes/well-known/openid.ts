@@ -2,5 +2,5 @@ import type { Route } from "./+types/openid"
 import { proxyWellKnown } from "~/lib/well-known.server"
 
 export function loader({ request, context }: Route.LoaderArgs) {
-  return proxyWellKnown(request, context.services.auth, "openid-configuration")
+  return proxyWellKnown(request, context.tenant, context.services.auth, "openid-configuration")
 }
@@ -0,0 +1,17 @@
+CREATE TABLE `api_key` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text,
+	`name` text NOT NULL,
+	`prefix` text NOT NULL,
+	`secret_hash` text NOT NULL,
+	`permissions` text DEFAULT '[]',
+	`owner_user_id` text,
+	`expires_at` integer,
+	`last_used_at` integer,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`owner_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_key_secret_hash_uidx` ON `api_key` (`secret_hash`);--> statement-breakpoint
+CREATE INDEX `api_key_application_idx` ON `api_key` (`application_id`);
\ No newline at end of file
@@ -0,0 +1,6 @@
+CREATE TABLE `application_permission_catalog` (
+	`application_id` text PRIMARY KEY NOT NULL,
+	`permissions` text DEFAULT '[]' NOT NULL,
+	`roles` text DEFAULT '{}' NOT NULL,
+	`updated_at` integer NOT NULL
+);
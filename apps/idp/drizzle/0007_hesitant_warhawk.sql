@@ -0,0 +1,17 @@
+CREATE TABLE `application_invitation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`email` text NOT NULL,
+	`role` text DEFAULT 'member' NOT NULL,
+	`permissions` text DEFAULT '[]',
+	`token_hash` text NOT NULL,
+	`invited_by_user_id` text,
+	`expires_at` integer NOT NULL,
+	`accepted_at` integer,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`invited_by_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `application_invitation_token_hash_uidx` ON `application_invitation` (`token_hash`);--> statement-breakpoint
+CREATE INDEX `application_invitation_application_idx` ON `application_invitation` (`application_id`);
\ No newline at end of file
@@ -0,0 +1,20 @@
+CREATE TABLE `_audit_context` (
+	`key` text PRIMARY KEY NOT NULL,
+	`value` text
+);
+--> statement-breakpoint
+CREATE TABLE `audit_logs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`table_name` text NOT NULL,
+	`operation` text NOT NULL,
+	`row_id` text,
+	`user_id` text,
+	`old_data` text,
+	`new_data` text,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `audit_logs_table_name_idx` ON `audit_logs` (`table_name`);--> statement-breakpoint
+CREATE INDEX `audit_logs_row_id_idx` ON `audit_logs` (`row_id`);--> statement-breakpoint
+CREATE INDEX `audit_logs_user_id_idx` ON `audit_logs` (`user_id`);--> statement-breakpoint
+CREATE INDEX `audit_logs_created_at_idx` ON `audit_logs` (`created_at`);
\ No newline at end of file
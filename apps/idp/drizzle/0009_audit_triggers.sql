@@ -0,0 +1,244 @@
+DROP TRIGGER IF EXISTS "oauth_client_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "oauth_client_audit_insert"
+AFTER INSERT ON "oauth_client"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'oauth_client',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'client_id', NEW."client_id", 'client_secret', NEW."client_secret", 'name', NEW."name", 'redirect_uris', NEW."redirect_uris", 'post_logout_redirect_uris', NEW."post_logout_redirect_uris", 'disabled', NEW."disabled", 'grant_types', NEW."grant_types", 'token_endpoint_auth_method', NEW."token_endpoint_auth_method", 'scopes', NEW."scopes", 'skip_consent', NEW."skip_consent", 'enable_end_session', NEW."enable_end_session", 'uri', NEW."uri", 'icon', NEW."icon", 'tos', NEW."tos", 'policy', NEW."policy", 'metadata', NEW."metadata")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "oauth_client_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "oauth_client_audit_update"
+AFTER UPDATE ON "oauth_client"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'oauth_client',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'client_id', OLD."client_id", 'client_secret', OLD."client_secret", 'name', OLD."name", 'redirect_uris', OLD."redirect_uris", 'post_logout_redirect_uris', OLD."post_logout_redirect_uris", 'disabled', OLD."disabled", 'grant_types', OLD."grant_types", 'token_endpoint_auth_method', OLD."token_endpoint_auth_method", 'scopes', OLD."scopes", 'skip_consent', OLD."skip_consent", 'enable_end_session', OLD."enable_end_session", 'uri', OLD."uri", 'icon', OLD."icon", 'tos', OLD."tos", 'policy', OLD."policy", 'metadata', OLD."metadata"),
+    json_object('id', NEW."id", 'client_id', NEW."client_id", 'client_secret', NEW."client_secret", 'name', NEW."name", 'redirect_uris', NEW."redirect_uris", 'post_logout_redirect_uris', NEW."post_logout_redirect_uris", 'disabled', NEW."disabled", 'grant_types', NEW."grant_types", 'token_endpoint_auth_method', NEW."token_endpoint_auth_method", 'scopes', NEW."scopes", 'skip_consent', NEW."skip_consent", 'enable_end_session', NEW."enable_end_session", 'uri', NEW."uri", 'icon', NEW."icon", 'tos', NEW."tos", 'policy', NEW."policy", 'metadata', NEW."metadata")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "oauth_client_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "oauth_client_audit_delete"
+AFTER DELETE ON "oauth_client"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'oauth_client',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'client_id', OLD."client_id", 'client_secret', OLD."client_secret", 'name', OLD."name", 'redirect_uris', OLD."redirect_uris", 'post_logout_redirect_uris', OLD."post_logout_redirect_uris", 'disabled', OLD."disabled", 'grant_types', OLD."grant_types", 'token_endpoint_auth_method', OLD."token_endpoint_auth_method", 'scopes', OLD."scopes", 'skip_consent', OLD."skip_consent", 'enable_end_session', OLD."enable_end_session", 'uri', OLD."uri", 'icon', OLD."icon", 'tos', OLD."tos", 'policy', OLD."policy", 'metadata', OLD."metadata")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_member_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "application_member_audit_insert"
+AFTER INSERT ON "application_member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'application_member',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'role', NEW."role", 'permissions', NEW."permissions")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_member_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "application_member_audit_update"
+AFTER UPDATE ON "application_member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'application_member',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'role', OLD."role", 'permissions', OLD."permissions"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'role', NEW."role", 'permissions', NEW."permissions")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_member_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "application_member_audit_delete"
+AFTER DELETE ON "application_member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'application_member',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'role', OLD."role", 'permissions', OLD."permissions")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "organization_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "organization_audit_insert"
+AFTER INSERT ON "organization"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'organization',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'name', NEW."name", 'slug', NEW."slug", 'logo', NEW."logo", 'metadata', NEW."metadata", 'application_id', NEW."application_id")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "organization_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "organization_audit_update"
+AFTER UPDATE ON "organization"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'organization',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'name', OLD."name", 'slug', OLD."slug", 'logo', OLD."logo", 'metadata', OLD."metadata", 'application_id', OLD."application_id"),
+    json_object('id', NEW."id", 'name', NEW."name", 'slug', NEW."slug", 'logo', NEW."logo", 'metadata', NEW."metadata", 'application_id', NEW."application_id")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "organization_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "organization_audit_delete"
+AFTER DELETE ON "organization"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'organization',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'name', OLD."name", 'slug', OLD."slug", 'logo', OLD."logo", 'metadata', OLD."metadata", 'application_id', OLD."application_id")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "member_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "member_audit_insert"
+AFTER INSERT ON "member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'member',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'organization_id', NEW."organization_id", 'user_id', NEW."user_id", 'role', NEW."role")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "member_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "member_audit_update"
+AFTER UPDATE ON "member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'member',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'organization_id', OLD."organization_id", 'user_id', OLD."user_id", 'role', OLD."role"),
+    json_object('id', NEW."id", 'organization_id', NEW."organization_id", 'user_id', NEW."user_id", 'role', NEW."role")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "member_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "member_audit_delete"
+AFTER DELETE ON "member"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'member',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'organization_id', OLD."organization_id", 'user_id', OLD."user_id", 'role', OLD."role")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "user_app_metadata_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "user_app_metadata_audit_insert"
+AFTER INSERT ON "user_app_metadata"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'user_app_metadata',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'data', NEW."data")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "user_app_metadata_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "user_app_metadata_audit_update"
+AFTER UPDATE ON "user_app_metadata"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'user_app_metadata',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'data', OLD."data"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'data', NEW."data")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "user_app_metadata_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "user_app_metadata_audit_delete"
+AFTER DELETE ON "user_app_metadata"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'user_app_metadata',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'data', OLD."data")
+  );
+END;
@@ -0,0 +1,17 @@
+CREATE TABLE `impersonation` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`client_id` text NOT NULL,
+	`actor_user_id` text NOT NULL,
+	`target_user_id` text NOT NULL,
+	`session_id` text NOT NULL,
+	`reason` text,
+	`expires_at` integer NOT NULL,
+	`ended_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`actor_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`target_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `impersonation_session_uidx` ON `impersonation` (`session_id`);--> statement-breakpoint
+CREATE INDEX `impersonation_application_idx` ON `impersonation` (`application_id`);
\ No newline at end of file
@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "impersonation_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "impersonation_audit_insert"
+AFTER INSERT ON "impersonation"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'impersonation',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'client_id', NEW."client_id", 'actor_user_id', NEW."actor_user_id", 'target_user_id', NEW."target_user_id", 'reason', NEW."reason", 'expires_at', NEW."expires_at", 'ended_at', NEW."ended_at")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "impersonation_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "impersonation_audit_update"
+AFTER UPDATE ON "impersonation"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'impersonation',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'client_id', OLD."client_id", 'actor_user_id', OLD."actor_user_id", 'target_user_id', OLD."target_user_id", 'reason', OLD."reason", 'expires_at', OLD."expires_at", 'ended_at', OLD."ended_at"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'client_id', NEW."client_id", 'actor_user_id', NEW."actor_user_id", 'target_user_id', NEW."target_user_id", 'reason', NEW."reason", 'expires_at', NEW."expires_at", 'ended_at', NEW."ended_at")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "impersonation_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "impersonation_audit_delete"
+AFTER DELETE ON "impersonation"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'impersonation',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'client_id', OLD."client_id", 'actor_user_id', OLD."actor_user_id", 'target_user_id', OLD."target_user_id", 'reason', OLD."reason", 'expires_at', OLD."expires_at", 'ended_at', OLD."ended_at")
+  );
+END;
@@ -0,0 +1,7 @@
+CREATE TABLE `user_metadata_config` (
+	`application_id` text PRIMARY KEY NOT NULL,
+	`json_schema` text,
+	`claim_keys` text DEFAULT '[]' NOT NULL,
+	`user_editable_keys` text DEFAULT '[]' NOT NULL,
+	`updated_at` integer NOT NULL
+);
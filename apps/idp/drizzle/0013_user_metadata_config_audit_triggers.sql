@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "user_metadata_config_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "user_metadata_config_audit_insert"
+AFTER INSERT ON "user_metadata_config"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'user_metadata_config',
+    'INSERT',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', NEW."application_id", 'json_schema', NEW."json_schema", 'claim_keys', NEW."claim_keys", 'user_editable_keys', NEW."user_editable_keys")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "user_metadata_config_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "user_metadata_config_audit_update"
+AFTER UPDATE ON "user_metadata_config"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'user_metadata_config',
+    'UPDATE',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'json_schema', OLD."json_schema", 'claim_keys', OLD."claim_keys", 'user_editable_keys', OLD."user_editable_keys"),
+    json_object('application_id', NEW."application_id", 'json_schema', NEW."json_schema", 'claim_keys', NEW."claim_keys", 'user_editable_keys', NEW."user_editable_keys")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "user_metadata_config_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "user_metadata_config_audit_delete"
+AFTER DELETE ON "user_metadata_config"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'user_metadata_config',
+    'DELETE',
+    OLD."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'json_schema', OLD."json_schema", 'claim_keys', OLD."claim_keys", 'user_editable_keys', OLD."user_editable_keys")
+  );
+END;
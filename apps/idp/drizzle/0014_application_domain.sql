@@ -0,0 +1,8 @@
+CREATE TABLE `application_domain` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`hostname` text NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `application_domain_hostname_unique` ON `application_domain` (`hostname`);
\ No newline at end of file
@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "application_domain_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "application_domain_audit_insert"
+AFTER INSERT ON "application_domain"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'application_domain',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'hostname', NEW."hostname")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_domain_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "application_domain_audit_update"
+AFTER UPDATE ON "application_domain"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'application_domain',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'hostname', OLD."hostname"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'hostname', NEW."hostname")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_domain_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "application_domain_audit_delete"
+AFTER DELETE ON "application_domain"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'application_domain',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'hostname', OLD."hostname")
+  );
+END;
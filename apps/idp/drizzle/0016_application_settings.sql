@@ -0,0 +1,6 @@
+CREATE TABLE `application_settings` (
+	`application_id` text PRIMARY KEY NOT NULL,
+	`accent_color` text,
+	`support_email` text,
+	`updated_at` integer NOT NULL
+);
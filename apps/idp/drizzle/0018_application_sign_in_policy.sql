@@ -0,0 +1,3 @@
+ALTER TABLE `application_settings` ADD `allow_signup` integer DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE `application_settings` ADD `allowed_email_domains` text DEFAULT '[]' NOT NULL;--> statement-breakpoint
+ALTER TABLE `application_settings` ADD `invite_only` integer DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE `two_factor` (
+	`id` text PRIMARY KEY NOT NULL,
+	`secret` text NOT NULL,
+	`backup_codes` text NOT NULL,
+	`user_id` text NOT NULL,
+	`verified` integer DEFAULT true,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE INDEX `twoFactor_secret_idx` ON `two_factor` (`secret`);--> statement-breakpoint
+CREATE INDEX `twoFactor_userId_idx` ON `two_factor` (`user_id`);--> statement-breakpoint
+ALTER TABLE `application_settings` ADD `require_mfa` integer DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE `session` ADD `amr` text;--> statement-breakpoint
+ALTER TABLE `user` ADD `two_factor_enabled` integer DEFAULT false;
\ No newline at end of file
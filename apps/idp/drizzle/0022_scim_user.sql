@@ -0,0 +1,13 @@
+CREATE TABLE `scim_user` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`user_id` text NOT NULL,
+	`external_id` text,
+	`active` integer DEFAULT true NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `scim_user_app_user_uidx` ON `scim_user` (`application_id`,`user_id`);--> statement-breakpoint
+CREATE INDEX `scim_user_app_external_idx` ON `scim_user` (`application_id`,`external_id`);
\ No newline at end of file
@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "scim_user_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "scim_user_audit_insert"
+AFTER INSERT ON "scim_user"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'scim_user',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'external_id', NEW."external_id", 'active', NEW."active")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "scim_user_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "scim_user_audit_update"
+AFTER UPDATE ON "scim_user"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'scim_user',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'external_id', OLD."external_id", 'active', OLD."active"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'user_id', NEW."user_id", 'external_id', NEW."external_id", 'active', NEW."active")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "scim_user_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "scim_user_audit_delete"
+AFTER DELETE ON "scim_user"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'scim_user',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'user_id', OLD."user_id", 'external_id', OLD."external_id", 'active', OLD."active")
+  );
+END;
@@ -0,0 +1,16 @@
+CREATE TABLE `saml_service_provider` (
+	`application_id` text PRIMARY KEY NOT NULL,
+	`entity_id` text NOT NULL,
+	`acs_url` text NOT NULL,
+	`certificate` text,
+	`attribute_names` text NOT NULL,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `saml_service_provider_entity_id_unique` ON `saml_service_provider` (`entity_id`);--> statement-breakpoint
+CREATE TABLE `saml_signing_key` (
+	`id` text PRIMARY KEY NOT NULL,
+	`private_key` text NOT NULL,
+	`certificate` text NOT NULL,
+	`created_at` integer NOT NULL
+);
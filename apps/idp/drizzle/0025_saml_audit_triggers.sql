@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "saml_service_provider_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "saml_service_provider_audit_insert"
+AFTER INSERT ON "saml_service_provider"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'saml_service_provider',
+    'INSERT',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', NEW."application_id", 'entity_id', NEW."entity_id", 'acs_url', NEW."acs_url", 'certificate', NEW."certificate", 'attribute_names', NEW."attribute_names")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "saml_service_provider_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "saml_service_provider_audit_update"
+AFTER UPDATE ON "saml_service_provider"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'saml_service_provider',
+    'UPDATE',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'entity_id', OLD."entity_id", 'acs_url', OLD."acs_url", 'certificate', OLD."certificate", 'attribute_names', OLD."attribute_names"),
+    json_object('application_id', NEW."application_id", 'entity_id', NEW."entity_id", 'acs_url', NEW."acs_url", 'certificate', NEW."certificate", 'attribute_names', NEW."attribute_names")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "saml_service_provider_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "saml_service_provider_audit_delete"
+AFTER DELETE ON "saml_service_provider"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'saml_service_provider',
+    'DELETE',
+    OLD."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'entity_id', OLD."entity_id", 'acs_url', OLD."acs_url", 'certificate', OLD."certificate", 'attribute_names', OLD."attribute_names")
+  );
+END;
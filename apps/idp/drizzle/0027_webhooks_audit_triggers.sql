@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "webhook_endpoint_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "webhook_endpoint_audit_insert"
+AFTER INSERT ON "webhook_endpoint"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'webhook_endpoint',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'url', NEW."url", 'events', NEW."events")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "webhook_endpoint_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "webhook_endpoint_audit_update"
+AFTER UPDATE ON "webhook_endpoint"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'webhook_endpoint',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'url', OLD."url", 'events', OLD."events"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'url', NEW."url", 'events', NEW."events")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "webhook_endpoint_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "webhook_endpoint_audit_delete"
+AFTER DELETE ON "webhook_endpoint"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'webhook_endpoint',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'url', OLD."url", 'events', OLD."events")
+  );
+END;
@@ -0,0 +1,2 @@
+ALTER TABLE `application_settings` ADD `backchannel_logout_uri` text;--> statement-breakpoint
+ALTER TABLE `application_settings` ADD `frontchannel_logout_uri` text;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `application_settings` ADD `client_credentials_audiences` text DEFAULT '[]' NOT NULL;
\ No newline at end of file
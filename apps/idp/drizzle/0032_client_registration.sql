@@ -0,0 +1,28 @@
+CREATE TABLE `initial_access_token` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`name` text NOT NULL,
+	`prefix` text NOT NULL,
+	`secret_hash` text NOT NULL,
+	`created_by_user_id` text,
+	`expires_at` integer,
+	`last_used_at` integer,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`created_by_user_id`) REFERENCES `user`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `initial_access_token_secret_hash_uidx` ON `initial_access_token` (`secret_hash`);--> statement-breakpoint
+CREATE INDEX `initial_access_token_application_idx` ON `initial_access_token` (`application_id`);--> statement-breakpoint
+CREATE TABLE `registered_client` (
+	`client_id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`registration_token_hash` text NOT NULL,
+	`initial_access_token_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`client_id`) REFERENCES `oauth_client`(`client_id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`initial_access_token_id`) REFERENCES `initial_access_token`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE INDEX `registered_client_application_idx` ON `registered_client` (`application_id`);--> statement-breakpoint
+ALTER TABLE `application_settings` ADD `open_registration` integer DEFAULT false NOT NULL;
\ No newline at end of file
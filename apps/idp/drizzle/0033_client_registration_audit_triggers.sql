@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "application_settings_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "application_settings_audit_insert"
+AFTER INSERT ON "application_settings"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'application_settings',
+    'INSERT',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', NEW."application_id", 'accent_color', NEW."accent_color", 'support_email', NEW."support_email", 'allow_signup', NEW."allow_signup", 'allowed_email_domains', NEW."allowed_email_domains", 'invite_only', NEW."invite_only", 'require_mfa', NEW."require_mfa", 'backchannel_logout_uri', NEW."backchannel_logout_uri", 'frontchannel_logout_uri', NEW."frontchannel_logout_uri", 'client_credentials_audiences', NEW."client_credentials_audiences", 'open_registration', NEW."open_registration")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_settings_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "application_settings_audit_update"
+AFTER UPDATE ON "application_settings"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'application_settings',
+    'UPDATE',
+    NEW."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'accent_color', OLD."accent_color", 'support_email', OLD."support_email", 'allow_signup', OLD."allow_signup", 'allowed_email_domains', OLD."allowed_email_domains", 'invite_only', OLD."invite_only", 'require_mfa', OLD."require_mfa", 'backchannel_logout_uri', OLD."backchannel_logout_uri", 'frontchannel_logout_uri', OLD."frontchannel_logout_uri", 'client_credentials_audiences', OLD."client_credentials_audiences", 'open_registration', OLD."open_registration"),
+    json_object('application_id', NEW."application_id", 'accent_color', NEW."accent_color", 'support_email', NEW."support_email", 'allow_signup', NEW."allow_signup", 'allowed_email_domains', NEW."allowed_email_domains", 'invite_only', NEW."invite_only", 'require_mfa', NEW."require_mfa", 'backchannel_logout_uri', NEW."backchannel_logout_uri", 'frontchannel_logout_uri', NEW."frontchannel_logout_uri", 'client_credentials_audiences', NEW."client_credentials_audiences", 'open_registration', NEW."open_registration")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_settings_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "application_settings_audit_delete"
+AFTER DELETE ON "application_settings"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'application_settings',
+    'DELETE',
+    OLD."application_id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('application_id', OLD."application_id", 'accent_color', OLD."accent_color", 'support_email', OLD."support_email", 'allow_signup', OLD."allow_signup", 'allowed_email_domains', OLD."allowed_email_domains", 'invite_only', OLD."invite_only", 'require_mfa', OLD."require_mfa", 'backchannel_logout_uri', OLD."backchannel_logout_uri", 'frontchannel_logout_uri', OLD."frontchannel_logout_uri", 'client_credentials_audiences', OLD."client_credentials_audiences", 'open_registration', OLD."open_registration")
+  );
+END;
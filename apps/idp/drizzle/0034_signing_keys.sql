@@ -0,0 +1,8 @@
+CREATE TABLE `signing_key` (
+	`kid` text PRIMARY KEY NOT NULL,
+	`alg` text NOT NULL,
+	`activates_at` integer NOT NULL,
+	`revoked_at` integer,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`kid`) REFERENCES `jwks`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "signing_key_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "signing_key_audit_insert"
+AFTER INSERT ON "signing_key"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'signing_key',
+    'INSERT',
+    NEW."kid",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('kid', NEW."kid", 'alg', NEW."alg", 'activates_at', NEW."activates_at", 'revoked_at', NEW."revoked_at")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "signing_key_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "signing_key_audit_update"
+AFTER UPDATE ON "signing_key"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'signing_key',
+    'UPDATE',
+    NEW."kid",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('kid', OLD."kid", 'alg', OLD."alg", 'activates_at', OLD."activates_at", 'revoked_at', OLD."revoked_at"),
+    json_object('kid', NEW."kid", 'alg', NEW."alg", 'activates_at', NEW."activates_at", 'revoked_at', NEW."revoked_at")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "signing_key_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "signing_key_audit_delete"
+AFTER DELETE ON "signing_key"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'signing_key',
+    'DELETE',
+    OLD."kid",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('kid', OLD."kid", 'alg', OLD."alg", 'activates_at', OLD."activates_at", 'revoked_at', OLD."revoked_at")
+  );
+END;
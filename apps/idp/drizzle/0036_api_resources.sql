@@ -0,0 +1,11 @@
+CREATE TABLE `api_resource` (
+	`id` text PRIMARY KEY NOT NULL,
+	`application_id` text NOT NULL,
+	`identifier` text NOT NULL,
+	`name` text NOT NULL,
+	`scopes` text DEFAULT '[]' NOT NULL,
+	`created_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `api_resource_identifier_unique` ON `api_resource` (`identifier`);--> statement-breakpoint
+CREATE INDEX `api_resource_application_idx` ON `api_resource` (`application_id`);
\ No newline at end of file
@@ -0,0 +1,48 @@
+DROP TRIGGER IF EXISTS "api_resource_audit_insert";
+--> statement-breakpoint
+CREATE TRIGGER "api_resource_audit_insert"
+AFTER INSERT ON "api_resource"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, new_data)
+  VALUES (
+    'api_resource',
+    'INSERT',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'identifier', NEW."identifier", 'name', NEW."name", 'scopes', NEW."scopes")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "api_resource_audit_update";
+--> statement-breakpoint
+CREATE TRIGGER "api_resource_audit_update"
+AFTER UPDATE ON "api_resource"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data, new_data)
+  VALUES (
+    'api_resource',
+    'UPDATE',
+    NEW."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'identifier', OLD."identifier", 'name', OLD."name", 'scopes', OLD."scopes"),
+    json_object('id', NEW."id", 'application_id', NEW."application_id", 'identifier', NEW."identifier", 'name', NEW."name", 'scopes', NEW."scopes")
+  );
+END;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "api_resource_audit_delete";
+--> statement-breakpoint
+CREATE TRIGGER "api_resource_audit_delete"
+AFTER DELETE ON "api_resource"
+FOR EACH ROW
+BEGIN
+  INSERT INTO "audit_logs" (table_name, operation, row_id, user_id, old_data)
+  VALUES (
+    'api_resource',
+    'DELETE',
+    OLD."id",
+    (SELECT value FROM "_audit_context" WHERE key = 'user_id'),
+    json_object('id', OLD."id", 'application_id', OLD."application_id", 'identifier', OLD."identifier", 'name', OLD."name", 'scopes', OLD."scopes")
+  );
+END;
@@ -0,0 +1,13 @@
+CREATE TABLE `rate_limit_entry` (
+	`key` text PRIMARY KEY NOT NULL,
+	`action` text NOT NULL,
+	`kind` text NOT NULL,
+	`identifier` text NOT NULL,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`window_started_at` integer NOT NULL,
+	`lockouts` integer DEFAULT 0 NOT NULL,
+	`locked_until` integer,
+	`updated_at` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX `rate_limit_entry_locked_until_idx` ON `rate_limit_entry` (`locked_until`);
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `scim_user` ADD `name` text;
\ No newline at end of file
@@ -0,0 +1,28 @@
+CREATE TABLE `client_credentials_grant` (
+	`client_id` text PRIMARY KEY NOT NULL,
+	`audiences` text DEFAULT '[]' NOT NULL,
+	`scopes` text DEFAULT '[]' NOT NULL,
+	`updated_at` integer NOT NULL,
+	FOREIGN KEY (`client_id`) REFERENCES `oauth_client`(`client_id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+-- Carry over each app client's grant: its app's audiences, and its scopes
+-- besides the OIDC ones its users sign in with. better-auth may have stored
+-- `scopes` encoded twice.
+INSERT INTO `client_credentials_grant` (`client_id`, `audiences`, `scopes`, `updated_at`)
+SELECT `client_id`, `audiences`, `scopes`, unixepoch() FROM (
+	SELECT c.`client_id`,
+		coalesce(s.`client_credentials_audiences`, '[]') AS `audiences`,
+		(SELECT json_group_array(`value`) FROM json_each(
+			CASE json_type(c.`scopes`) WHEN 'text' THEN json_extract(c.`scopes`, '$') ELSE coalesce(c.`scopes`, '[]') END
+		) WHERE `value` NOT IN ('openid', 'profile', 'email', 'offline_access')) AS `scopes`
+	FROM `oauth_client` c
+	LEFT JOIN `application_settings` s ON s.`application_id` = json_extract(c.`metadata`, '$.app')
+	WHERE json_extract(c.`metadata`, '$.app') IS NOT NULL
+)
+WHERE `audiences` != '[]' OR `scopes` != '[]';
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_settings_audit_insert";--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_settings_audit_update";--> statement-breakpoint
+DROP TRIGGER IF EXISTS "application_settings_audit_delete";--> statement-breakpoint
+ALTER TABLE `application_settings` DROP COLUMN `client_credentials_audiences`;
\ No newline at end of file
@@ -0,0 +1,14 @@
+-- Clients now carry the scopes they may ask for (api-resources.server.ts):
+-- applications' own clients every OIDC and API scope, registered clients that
+-- named none the same.
+UPDATE `oauth_client` SET `scopes` = (
+	SELECT json_group_array(`name`) FROM (
+		SELECT `value` AS `name` FROM json_each('["openid","profile","email","offline_access"]')
+		UNION ALL
+		SELECT json_extract(s.`value`, '$.name') FROM `api_resource` r, json_each(r.`scopes`) s
+		WHERE r.`application_id` = json_extract(`oauth_client`.`metadata`, '$.app')
+	)
+)
+WHERE json_extract(`metadata`, '$.app') IS NOT NULL
+	AND (`scopes` IS NULL
+		OR `client_id` NOT IN (SELECT `client_id` FROM `registered_client`));
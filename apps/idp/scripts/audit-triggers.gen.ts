@@ -0,0 +1,129 @@
+import { createAttachD1AuditTriggersSqlWithColumns } from "../../../packages/drizzle_audit/src/d1/sql"
+
+/**
+ * Prints the audit trigger SQL (@willyim/drizzle-audit's column-aware D1
+ * triggers) for the tables the IdP audits. SQLite can't enumerate columns in a
+ * trigger, so each table lists what its snapshots capture — add a column here
+ * when you add one to the table, then write the output into a new custom
+ * migration:
+ *
+ *   npx drizzle-kit generate --custom --name audit_triggers
+ *   npx tsx scripts/audit-triggers.gen.ts > drizzle/<that file>.sql
+ *
+ * Pass table names to print only their triggers (e.g. for a newly audited table).
+ *
+ * client_secret is captured (it's a SHA-256 of a random secret) only so
+ * rotations show up as a change; the audit API redacts its value.
+ */
+const targets = [
+  {
+    table: "oauth_client",
+    columns: [
+      "id",
+      "client_id",
+      "client_secret",
+      "name",
+      "redirect_uris",
+      "post_logout_redirect_uris",
+      "disabled",
+      "grant_types",
+      "token_endpoint_auth_method",
+      "scopes",
+      "skip_consent",
+      "enable_end_session",
+      "uri",
+      "icon",
+      "tos",
+      "policy",
+      "metadata",
+    ],
+  },
+  {
+    table: "application_member",
+    columns: ["id", "application_id", "user_id", "role", "permissions"],
+  },
+  {
+    table: "organization",
+    columns: ["id", "name", "slug", "logo", "metadata", "application_id"],
+  },
+  {
+    table: "member",
+    columns: ["id", "organization_id", "user_id", "role"],
+  },
+  {
+    table: "user_app_metadata",
+    columns: ["id", "application_id", "user_id", "data"],
+  },
+  {
+    table: "impersonation",
+    columns: [
+      "id",
+      "application_id",
+      "client_id",
+      "actor_user_id",
+      "target_user_id",
+      "reason",
+      "expires_at",
+      "ended_at",
+    ],
+  },
+  {
+    table: "application_settings",
+    rowIdColumn: "application_id",
+    columns: [
+      "application_id",
+      "accent_color",
+      "support_email",
+      "allow_signup",
+      "allowed_email_domains",
+      "invite_only",
+      "require_mfa",
+      "backchannel_logout_uri",
+      "frontchannel_logout_uri",
+      "open_registration",
+    ],
+  },
+  {
+    table: "application_domain",
+    columns: ["id", "application_id", "hostname"],
+  },
+  {
+    table: "user_metadata_config",
+    rowIdColumn: "application_id",
+    columns: ["application_id", "json_schema", "claim_keys", "user_editable_keys"],
+  },
+  {
+    table: "scim_user",
+    columns: ["id", "application_id", "user_id", "external_id", "name", "active"],
+  },
+  {
+    table: "saml_service_provider",
+    rowIdColumn: "application_id",
+    columns: ["application_id", "entity_id", "acs_url", "certificate", "attribute_names"],
+  },
+  {
+    table: "signing_key",
+    rowIdColumn: "kid",
+    columns: ["kid", "alg", "activates_at", "revoked_at"],
+  },
+  {
+    table: "api_resource",
+    rowIdColumn: "id",
+    columns: ["id", "application_id", "identifier", "name", "scopes"],
+  },
+  {
+    table: "client_credentials_grant",
+    rowIdColumn: "client_id",
+    columns: ["client_id", "audiences", "scopes"],
+  },
+  {
+    table: "webhook_endpoint",
+    rowIdColumn: "id",
+    columns: ["id", "application_id", "url", "events"],
+  },
+]
+
+const only = process.argv.slice(2)
+const selected = only.length ? targets.filter((t) => only.includes(t.table)) : targets
+const statements = createAttachD1AuditTriggersSqlWithColumns(selected).split(/\n{2,}/)
+console.log(statements.join("\n--> statement-breakpoint\n"))
@@ -3,6 +3,7 @@ import { drizzleAdapter } from "better-auth/adapters/drizzle"
 import { emailOTP } from "better-auth/plugins/email-otp"
 import { jwt } from "better-auth/plugins/jwt"
 import { organization } from "better-auth/plugins/organization"
+import { twoFactor } from "better-auth/plugins/two-factor"
 import { passkey } from "@better-auth/passkey"
 import { oauthProvider } from "@better-auth/oauth-provider"
 
@@ -19,6 +20,11 @@ export const auth = betterAuth({
   secret: "schema-gen-only",
   database: drizzleAdapter({} as never, { provider: "sqlite" }),
   emailAndPassword: { enabled: false },
+  session: {
+    additionalFields: {
+      amr: { type: "string", required: false, input: false },
+    },
+  },
   plugins: [
     emailOTP({ sendVerificationOTP: async () => {} }),
     passkey(),
@@ -32,6 +38,7 @@ export const auth = betterAuth({
       },
     }),
     jwt(),
+    twoFactor({ allowPasswordless: true }),
     oauthProvider({ loginPage: "/login", consentPage: "/consent", storeClientSecret: "hashed" }),
   ],
 })
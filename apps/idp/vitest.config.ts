@@ -0,0 +1,19 @@
+import tsconfigPaths from "vite-tsconfig-paths"
+import { defineConfig } from "vitest/config"
+
+// Tests run in Node against an in-memory SQLite standing in for D1 (see
+// app/lib/testing.ts), so they skip vite.config.ts: the Cloudflare and React
+// Router plugins want a Worker runtime and a route manifest.
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  resolve: {
+    // As in vite.config.ts; better-auth is inlined so the dedupe reaches it.
+    dedupe: ["drizzle-orm"],
+  },
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+    env: { LOG_LEVEL: "error" },
+    server: { deps: { inline: [/better-auth/, /@better-auth\//] } },
+  },
+})
@@ -1,9 +1,15 @@
 import { createRequestHandler } from "react-router"
 
 import type { DrizzleClient } from "../app/db/drizzle"
+import type { AuditScope } from "../app/lib/audit.server"
 import { getAppEnv } from "../app/lib/env"
 import { createAuthService, type AuthService } from "../app/lib/auth.server"
+import { pruneRateLimits, type RateLimitStore } from "../app/lib/rate-limit.server"
 import { createBaseContext, type ILogger } from "../app/lib/services"
+import { r2ObjectStore, type ObjectStore } from "../app/lib/storage.server"
+import { rotateSigningKeys } from "../app/lib/signing-keys.server"
+import { resolveTenant, type Tenant } from "../app/lib/tenant.server"
+import { deliverWebhook, type WebhookJob, type WebhookQueue } from "../app/lib/webhooks.server"
 
 declare module "react-router" {
   export interface AppLoadContext {
@@ -14,8 +20,13 @@ declare module "react-router" {
     db: DrizzleClient
     logger: ILogger
     getAppEnv: typeof getAppEnv
+    webhooks: WebhookQueue
+    rateLimits: RateLimitStore
+    audit: AuditScope
+    tenant: Tenant
     services: {
       auth: AuthService
+      storage: ObjectStore
     }
   }
 }
@@ -31,7 +42,7 @@ export default {
     const url = new URL(request.url)
     const requestId = crypto.randomUUID().slice(0, 8)
 
-    const baseCtx = createBaseContext(env.db, { requestId })
+    const baseCtx = createBaseContext(env.db, env.webhooks, { requestId })
     baseCtx.logger.debug("request.start", {
       method: request.method,
       path: url.pathname,
@@ -40,11 +51,20 @@ export default {
     })
 
     try {
+      // Hostname → tenant (the IdP itself or an app's custom domain).
+      const tenant = await resolveTenant(baseCtx, request)
+      if (!tenant) {
+        baseCtx.logger.warn("request.unknown_host", { host: url.hostname })
+        return new Response("Unknown host", { status: 404 })
+      }
+
       const response = await requestHandler(request, {
         cloudflare: { env, ctx },
         ...baseCtx,
+        tenant,
         services: {
-          auth: createAuthService(baseCtx),
+          auth: createAuthService(baseCtx, tenant),
+          storage: r2ObjectStore(env.uploads),
         },
       })
       baseCtx.logger.debug("request.end", {
@@ -66,4 +86,30 @@ export default {
       throw err
     }
   },
-} satisfies ExportedHandler<Env>
+
+  // Webhook deliveries, one attempt per message; failed attempts are queued
+  // again by deliverWebhook itself, so every message is acked.
+  async queue(batch, env) {
+    const baseCtx = createBaseContext(env.db, env.webhooks, { queue: batch.queue })
+    for (const message of batch.messages) {
+      try {
+        await deliverWebhook(baseCtx, message.body)
+        message.ack()
+      } catch (err) {
+        baseCtx.logger.error("webhook.error", {
+          deliveryId: message.body.deliveryId,
+          error: err instanceof Error ? err.message : String(err),
+        })
+        message.retry()
+      }
+    }
+  },
+
+  // Daily: publishes the next OIDC signing key ahead of rotation, and drops
+  // stale rate-limit entries.
+  async scheduled(controller, env) {
+    const baseCtx = createBaseContext(env.db, env.webhooks, { cron: controller.cron })
+    await rotateSigningKeys(baseCtx)
+    await pruneRateLimits(baseCtx)
+  },
+} satisfies ExportedHandler<Env, WebhookJob>
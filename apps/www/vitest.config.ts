@@ -0,0 +1,12 @@
+import tsconfigPaths from "vite-tsconfig-paths"
+import { defineConfig } from "vitest/config"
+
+// Tests run in Node, so they skip vite.config.ts: the Cloudflare and React
+// Router plugins want a Worker runtime and a route manifest.
+export default defineConfig({
+  plugins: [tsconfigPaths()],
+  test: {
+    include: ["app/**/*.test.ts"],
+    environment: "node",
+  },
+})